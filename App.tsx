@@ -8,8 +8,10 @@ import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { NotesListScreen } from './src/screens/NotesListScreen';
 
 import { SettingsScreen } from './src/screens/SettingsScreen';
-import PureNotesService from './src/services/PureNotesService';
+import { TasksScreen } from './src/screens/TasksScreen';
 import BackgroundSyncService from './src/services/BackgroundSyncService';
+import ReminderService from './src/services/ReminderService';
+import { DEFAULT_REMINDERS_SETTINGS } from './src/utils/reminderUtils';
 import { Platform, View, Text, StyleSheet } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useTranslation } from 'react-i18next';
@@ -50,19 +52,20 @@ export default function App() {
     // Skip all init on unsupported browsers — the app won't render anyway.
     if (!platformSupported) return;
 
-    // Initialize app
-    const initializeApp = async () => {
-      try {
-        // Set up deep linking for PureNotes callbacks
-        PureNotesService.setupDeepLinking((_url) => { });
-      } catch (error) {
-        console.error('App initialization error:', error);
-      }
-    };
+    // purenotes:// links (widgets, shares, the URL API) are handled by
+    // NotesListScreen, which owns the editors and sheets they open.
 
-    initializeApp();
+    // Keep the scheduled reminders in step with the notes and settings
+    const syncReminders = (state: ReturnType<typeof useNotesStore.getState>) =>
+      ReminderService.scheduleSync(state.notes, state.settings.reminders ?? DEFAULT_REMINDERS_SETTINGS);
+    syncReminders(useNotesStore.getState());
+    const unsubscribeReminders = useNotesStore.subscribe((state, prev) => {
+      if (state.notes !== prev.notes || state.settings.reminders !== prev.settings.reminders) {
+        syncReminders(state);
+      }
+    });
 
-    // Background sync: poll the active storage provider for external changes.
+    // Background sync: watch and poll the vault for external changes.
     // It also handles foreground transitions internally via AppState
     // (running an immediate sync on inactive→active), so a separate
     // AppState listener here would be redundant — we removed the previous
@@ -74,6 +77,7 @@ export default function App() {
 
     return () => {
       BackgroundSyncService.stop();
+      unsubscribeReminders();
     };
   }, [platformSupported, loadNotes]);
 
@@ -123,6 +127,14 @@ export default function App() {
               presentation: 'modal'
             }}
           />
+          <Stack.Screen
+            name="Tasks"
+            component={TasksScreen}
+            options={{
+              headerShown: false,
+              presentation: 'modal'
+            }}
+          />
         </Stack.Navigator>
       </NavigationContainer>
       {/* The previous <EditorPrewarm /> here was a SEPARATE WebView
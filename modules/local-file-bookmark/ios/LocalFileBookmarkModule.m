@@ -1,7 +1,8 @@
 #import <Foundation/Foundation.h>
 #import <React/RCTBridgeModule.h>
+#import <React/RCTEventEmitter.h>
 
-@interface RCT_EXTERN_MODULE (LocalFileBookmark, NSObject)
+@interface RCT_EXTERN_MODULE (LocalFileBookmark, RCTEventEmitter)
 
 RCT_EXTERN_METHOD(pickAndBookmarkDirectory : (RCTPromiseResolveBlock)
                       resolve reject : (RCTPromiseRejectBlock)reject)
@@ -16,6 +17,13 @@ RCT_EXTERN_METHOD(writeFile : (NSString *)filename content : (NSString *)
 RCT_EXTERN_METHOD(readFile : (NSString *)filename resolve : (
     RCTPromiseResolveBlock)resolve reject : (RCTPromiseRejectBlock)reject)
 
+RCT_EXTERN_METHOD(writeFileBase64 : (NSString *)filename base64 : (NSString *)
+                      base64 resolve : (RCTPromiseResolveBlock)
+                          resolve reject : (RCTPromiseRejectBlock)reject)
+
+RCT_EXTERN_METHOD(readFileBase64 : (NSString *)filename resolve : (
+    RCTPromiseResolveBlock)resolve reject : (RCTPromiseRejectBlock)reject)
+
 RCT_EXTERN_METHOD(listFiles : (RCTPromiseResolveBlock)
                       resolve reject : (RCTPromiseRejectBlock)reject)
 
@@ -26,7 +34,21 @@ RCT_EXTERN_METHOD(listSubdirFilesWithAttributes : (NSString *)
                       subpath resolve : (RCTPromiseResolveBlock)
                           resolve reject : (RCTPromiseRejectBlock)reject)
 
+RCT_EXTERN_METHOD(listFilesRecursiveWithAttributes : (NSString *)
+                      subpath resolve : (RCTPromiseResolveBlock)
+                          resolve reject : (RCTPromiseRejectBlock)reject)
+
 RCT_EXTERN_METHOD(deleteFile : (NSString *)filename resolve : (
     RCTPromiseResolveBlock)resolve reject : (RCTPromiseRejectBlock)reject)
 
+RCT_EXTERN_METHOD(moveFile : (NSString *)from to : (NSString *)
+                      to resolve : (RCTPromiseResolveBlock)
+                          resolve reject : (RCTPromiseRejectBlock)reject)
+
+RCT_EXTERN_METHOD(startWatching : (RCTPromiseResolveBlock)
+                      resolve reject : (RCTPromiseRejectBlock)reject)
+
+RCT_EXTERN_METHOD(stopWatching : (RCTPromiseResolveBlock)
+                      resolve reject : (RCTPromiseRejectBlock)reject)
+
 @end
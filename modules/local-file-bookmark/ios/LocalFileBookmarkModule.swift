@@ -3,15 +3,124 @@ import UIKit
 import React
 
 @objc(LocalFileBookmark)
-class LocalFileBookmark: NSObject {
+class LocalFileBookmark: RCTEventEmitter {
   // Using a single key for now as the app supports one active vault.
   // TODO: Make this dynamic if multiple vaults are supported in the future.
   private let bookmarkKey = "securityScopedBookmark"
+  private static let changeEvent = "onVaultChange"
+  // Changes arrive in bursts (iCloud downloads, saves from another app)
+  private static let changeDebounce: TimeInterval = 0.5
+
+  private var presenter: VaultPresenter?
+  private var watchedUrl: URL?
+  private var isAccessingWatchedUrl = false
+  private var pendingChanges = Set<String>()
+  private var flushScheduled = false
+  private var hasListeners = false
+  private let watchQueue = DispatchQueue(label: "com.yybd.purenotes.vault-watch")
   
   @objc
   static func requiresMainQueueSetup() -> Bool {
     return true
   }
+
+  override func supportedEvents() -> [String]! {
+    return [LocalFileBookmark.changeEvent]
+  }
+
+  override func startObserving() {
+    hasListeners = true
+  }
+
+  override func stopObserving() {
+    hasListeners = false
+  }
+
+  /// Watch the bookmarked folder for changes made by other processes (iCloud
+  /// sync, Obsidian, Files) and emit their folder-relative paths. Uses a file
+  /// presenter, so it sees every coordinated write below the folder.
+  @objc
+  func startWatching(_ resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) {
+    watchQueue.async {
+      self.removePresenter()
+      guard let bookmarkData = UserDefaults.standard.data(forKey: self.bookmarkKey) else {
+        reject("NO_BOOKMARK", "No directory bookmarked", nil)
+        return
+      }
+
+      do {
+        var isStale = false
+        #if targetEnvironment(macCatalyst)
+        let resolveOptions: URL.BookmarkResolutionOptions = [.withoutUI, .withSecurityScope]
+        #else
+        let resolveOptions: URL.BookmarkResolutionOptions = [.withoutUI]
+        #endif
+        let dirUrl = try URL(resolvingBookmarkData: bookmarkData, options: resolveOptions, relativeTo: nil, bookmarkDataIsStale: &isStale)
+
+        // Held for as long as the presenter is registered
+        self.isAccessingWatchedUrl = dirUrl.startAccessingSecurityScopedResource()
+        self.watchedUrl = dirUrl
+
+        let rootPath = dirUrl.resolvingSymlinksInPath().path
+        let presenter = VaultPresenter(url: dirUrl) { [weak self] url in
+          self?.recordChange(url, rootPath: rootPath.hasSuffix("/") ? rootPath : rootPath + "/")
+        }
+        NSFileCoordinator.addFilePresenter(presenter)
+        self.presenter = presenter
+        resolve(nil)
+      } catch {
+        reject("WATCH_ERROR", error.localizedDescription, error)
+      }
+    }
+  }
+
+  @objc
+  func stopWatching(_ resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) {
+    watchQueue.async {
+      self.removePresenter()
+      resolve(nil)
+    }
+  }
+
+  override func invalidate() {
+    watchQueue.sync {
+      self.removePresenter()
+    }
+    super.invalidate()
+  }
+
+  // Call on watchQueue
+  private func removePresenter() {
+    if let presenter = presenter {
+      NSFileCoordinator.removeFilePresenter(presenter)
+      self.presenter = nil
+    }
+    if let url = watchedUrl, isAccessingWatchedUrl {
+      url.stopAccessingSecurityScopedResource()
+    }
+    watchedUrl = nil
+    isAccessingWatchedUrl = false
+    pendingChanges.removeAll()
+  }
+
+  private func recordChange(_ url: URL, rootPath: String) {
+    watchQueue.async {
+      let fullPath = url.resolvingSymlinksInPath().path
+      guard fullPath.hasPrefix(rootPath) else { return }
+      self.pendingChanges.insert(String(fullPath.dropFirst(rootPath.count)))
+
+      if self.flushScheduled { return }
+      self.flushScheduled = true
+      self.watchQueue.asyncAfter(deadline: .now() + LocalFileBookmark.changeDebounce) {
+        self.flushScheduled = false
+        let paths = Array(self.pendingChanges)
+        self.pendingChanges.removeAll()
+        if self.hasListeners && !paths.isEmpty {
+          self.sendEvent(withName: LocalFileBookmark.changeEvent, body: ["paths": paths])
+        }
+      }
+    }
+  }
   
   @objc
   func pickAndBookmarkDirectory(_ resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) {
@@ -120,6 +229,37 @@ class LocalFileBookmark: NSObject {
     }
   }
   
+  @objc
+  func writeFileBase64(_ filename: String, base64: String, resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) {
+    guard let data = Data(base64Encoded: base64) else {
+      reject("WRITE_ERROR", "Invalid base64 data", nil)
+      return
+    }
+    withSecurityScope(reject: reject) { dirUrl in
+      let fileUrl = dirUrl.appendingPathComponent(filename)
+      do {
+        try FileManager.default.createDirectory(at: fileUrl.deletingLastPathComponent(), withIntermediateDirectories: true, attributes: nil)
+        try data.write(to: fileUrl, options: .atomic)
+        resolve(fileUrl.path)
+      } catch {
+        reject("WRITE_ERROR", error.localizedDescription, error)
+      }
+    }
+  }
+  
+  @objc
+  func readFileBase64(_ filename: String, resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) {
+    withSecurityScope(reject: reject) { dirUrl in
+      let fileUrl = dirUrl.appendingPathComponent(filename)
+      do {
+        let data = try Data(contentsOf: fileUrl)
+        resolve(data.base64EncodedString())
+      } catch {
+        reject("READ_ERROR", error.localizedDescription, error)
+      }
+    }
+  }
+  
   @objc
   func listFiles(_ resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) {
     withSecurityScope(reject: reject) { dirUrl in
@@ -137,7 +277,7 @@ class LocalFileBookmark: NSObject {
   func listFilesWithAttributes(_ resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) {
     withSecurityScope(reject: reject) { dirUrl in
       do {
-        let files = try FileManager.default.contentsOfDirectory(at: dirUrl, includingPropertiesForKeys: [.contentModificationDateKey, .isDirectoryKey], options: [.skipsHiddenFiles])
+        let files = try FileManager.default.contentsOfDirectory(at: dirUrl, includingPropertiesForKeys: [.contentModificationDateKey, .creationDateKey, .isDirectoryKey], options: [.skipsHiddenFiles])
         
         let fileStats = files.compactMap { url -> [String: Any]? in
             var stats: [String: Any] = [
@@ -145,10 +285,13 @@ class LocalFileBookmark: NSObject {
                 "path": url.path
             ]
             
-            if let resources = try? url.resourceValues(forKeys: [.contentModificationDateKey]),
-               let modDate = resources.contentModificationDate {
+            let resources = try? url.resourceValues(forKeys: [.contentModificationDateKey, .creationDateKey])
+            if let modDate = resources?.contentModificationDate {
                 stats["modificationTime"] = modDate.timeIntervalSince1970 * 1000 // In ms for consistency with JS
             }
+            if let birthDate = resources?.creationDate {
+                stats["creationTime"] = birthDate.timeIntervalSince1970 * 1000
+            }
             
             return stats
         }
@@ -165,7 +308,7 @@ class LocalFileBookmark: NSObject {
     withSecurityScope(reject: reject) { dirUrl in
       do {
         let targetDirUrl = dirUrl.appendingPathComponent(subpath)
-        let files = try FileManager.default.contentsOfDirectory(at: targetDirUrl, includingPropertiesForKeys: [.contentModificationDateKey, .isDirectoryKey], options: [.skipsHiddenFiles])
+        let files = try FileManager.default.contentsOfDirectory(at: targetDirUrl, includingPropertiesForKeys: [.contentModificationDateKey, .creationDateKey, .isDirectoryKey], options: [.skipsHiddenFiles])
         
         let fileStats = files.compactMap { url -> [String: Any]? in
             var stats: [String: Any] = [
@@ -173,10 +316,13 @@ class LocalFileBookmark: NSObject {
                 "path": url.path
             ]
             
-            if let resources = try? url.resourceValues(forKeys: [.contentModificationDateKey]),
-               let modDate = resources.contentModificationDate {
+            let resources = try? url.resourceValues(forKeys: [.contentModificationDateKey, .creationDateKey])
+            if let modDate = resources?.contentModificationDate {
                 stats["modificationTime"] = modDate.timeIntervalSince1970 * 1000
             }
+            if let birthDate = resources?.creationDate {
+                stats["creationTime"] = birthDate.timeIntervalSince1970 * 1000
+            }
             
             return stats
         }
@@ -189,6 +335,44 @@ class LocalFileBookmark: NSObject {
     }
   }
   
+  @objc
+  func listFilesRecursiveWithAttributes(_ subpath: String, resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) {
+    withSecurityScope(reject: reject) { dirUrl in
+      let rootUrl = (subpath.isEmpty ? dirUrl : dirUrl.appendingPathComponent(subpath)).resolvingSymlinksInPath()
+      let rootPath = rootUrl.path.hasSuffix("/") ? rootUrl.path : rootUrl.path + "/"
+
+      guard let enumerator = FileManager.default.enumerator(at: rootUrl, includingPropertiesForKeys: [.contentModificationDateKey, .creationDateKey, .isDirectoryKey], options: [.skipsHiddenFiles, .skipsPackageDescendants]) else {
+        resolve([])
+        return
+      }
+
+      var fileStats: [[String: Any]] = []
+      for case let url as URL in enumerator {
+        let resources = try? url.resourceValues(forKeys: [.contentModificationDateKey, .creationDateKey, .isDirectoryKey])
+        if resources?.isDirectory == true { continue }
+        guard url.pathExtension.lowercased() == "md" else { continue }
+
+        // Path relative to the requested folder, e.g. "Projects/Idea.md"
+        let fullPath = url.resolvingSymlinksInPath().path
+        let relativePath = fullPath.hasPrefix(rootPath) ? String(fullPath.dropFirst(rootPath.count)) : url.lastPathComponent
+
+        var stats: [String: Any] = [
+          "name": url.lastPathComponent,
+          "path": relativePath
+        ]
+        if let modDate = resources?.contentModificationDate {
+          stats["modificationTime"] = modDate.timeIntervalSince1970 * 1000
+        }
+        if let birthDate = resources?.creationDate {
+          stats["creationTime"] = birthDate.timeIntervalSince1970 * 1000
+        }
+        fileStats.append(stats)
+      }
+
+      resolve(fileStats)
+    }
+  }
+
   @objc
   func deleteFile(_ filename: String, resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) {
     withSecurityScope(reject: reject) { dirUrl in
@@ -202,6 +386,22 @@ class LocalFileBookmark: NSObject {
     }
   }
   
+  @objc
+  func moveFile(_ from: String, to: String, resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) {
+    withSecurityScope(reject: reject) { dirUrl in
+      let sourceUrl = dirUrl.appendingPathComponent(from)
+      let targetUrl = dirUrl.appendingPathComponent(to)
+      do {
+        // moveItem fails instead of overwriting when the target already exists
+        try FileManager.default.createDirectory(at: targetUrl.deletingLastPathComponent(), withIntermediateDirectories: true, attributes: nil)
+        try FileManager.default.moveItem(at: sourceUrl, to: targetUrl)
+        resolve(targetUrl.path)
+      } catch {
+        reject("MOVE_ERROR", error.localizedDescription, error)
+      }
+    }
+  }
+
   // Helper to manage security scope
   private func withSecurityScope(reject: @escaping RCTPromiseRejectBlock, block: (URL) -> Void) {
     guard let bookmarkData = UserDefaults.standard.data(forKey: self.bookmarkKey) else {
@@ -260,6 +460,39 @@ class LocalFileBookmark: NSObject {
   }
 }
 
+/// Receives the coordinated changes made below the watched folder
+class VaultPresenter: NSObject, NSFilePresenter {
+  let presentedItemURL: URL?
+  let presentedItemOperationQueue: OperationQueue
+  private let onChange: (URL) -> Void
+
+  init(url: URL, onChange: @escaping (URL) -> Void) {
+    self.presentedItemURL = url
+    self.onChange = onChange
+    self.presentedItemOperationQueue = OperationQueue()
+    self.presentedItemOperationQueue.maxConcurrentOperationCount = 1
+    super.init()
+  }
+
+  func presentedSubitemDidChange(at url: URL) {
+    onChange(url)
+  }
+
+  func presentedSubitemDidAppear(at url: URL) {
+    onChange(url)
+  }
+
+  func presentedSubitem(at oldURL: URL, didMoveTo newURL: URL) {
+    onChange(oldURL)
+    onChange(newURL)
+  }
+
+  func accommodatePresentedSubitemDeletion(at url: URL, completionHandler: @escaping (Error?) -> Void) {
+    onChange(url)
+    completionHandler(nil)
+  }
+}
+
 class DocumentPickerDelegate: NSObject, UIDocumentPickerDelegate {
   private let completion: (URL?) -> Void
   
@@ -1,4 +1,4 @@
-import { NativeModules } from 'react-native';
+import { NativeModules, NativeEventEmitter } from 'react-native';
 
 export interface BookmarkedDirectory {
     path: string;
@@ -45,6 +45,20 @@ export async function readFile(filename: string): Promise<string> {
     return await LocalFileBookmark.readFile(filename);
 }
 
+/**
+ * Write a binary file (base64-encoded) to the bookmarked directory
+ */
+export async function writeFileBase64(filename: string, base64: string): Promise<string> {
+    return await LocalFileBookmark.writeFileBase64(filename, base64);
+}
+
+/**
+ * Read a binary file from the bookmarked directory, base64-encoded
+ */
+export async function readFileBase64(filename: string): Promise<string> {
+    return await LocalFileBookmark.readFileBase64(filename);
+}
+
 /**
  * List all files in the bookmarked directory
  */
@@ -59,6 +73,14 @@ export async function deleteFile(filename: string): Promise<boolean> {
     return await LocalFileBookmark.deleteFile(filename);
 }
 
+/**
+ * Move/rename a file inside the bookmarked directory, creating the target's
+ * parent folder. Fails when the target already exists.
+ */
+export async function moveFile(from: string, to: string): Promise<string> {
+    return await LocalFileBookmark.moveFile(from, to);
+}
+
 /**
  * List all files in the bookmarked directory with attributes
  */
@@ -73,13 +95,41 @@ export async function listSubdirFilesWithAttributes(subpath: string): Promise<an
     return await LocalFileBookmark.listSubdirFilesWithAttributes(subpath);
 }
 
+/**
+ * List all files below a subdirectory (or the bookmarked root when empty),
+ * descending into subfolders. `path` is relative to the requested folder.
+ */
+export async function listFilesRecursiveWithAttributes(subpath: string): Promise<any[]> {
+    return await LocalFileBookmark.listFilesRecursiveWithAttributes(subpath);
+}
+
+/**
+ * Watch the bookmarked directory for changes made by other apps or by iCloud.
+ * The listener receives the changed paths, relative to the directory.
+ * Returns a function that stops watching.
+ */
+export function addChangeListener(listener: (paths: string[]) => void): () => void {
+    const emitter = new NativeEventEmitter(LocalFileBookmark);
+    const subscription = emitter.addListener('onVaultChange', (event: { paths: string[] }) => listener(event.paths));
+    LocalFileBookmark.startWatching().catch((error: any) => console.warn('Failed to watch the bookmarked directory:', error));
+    return () => {
+        subscription.remove();
+        LocalFileBookmark.stopWatching().catch(() => {});
+    };
+}
+
 export default {
     pickAndBookmarkDirectory,
     getBookmarkedDirectory,
     writeFile,
     readFile,
+    writeFileBase64,
+    readFileBase64,
     listFiles,
     listFilesWithAttributes,
     listSubdirFilesWithAttributes,
+    listFilesRecursiveWithAttributes,
     deleteFile,
+    moveFile,
+    addChangeListener,
 };
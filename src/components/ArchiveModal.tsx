@@ -66,8 +66,8 @@ export const ArchiveModal: React.FC<ArchiveModalProps> = ({ visible, onClose })
 
     const handleDeleteForever = (note: Note) => {
         Alert.alert(
-            t('delete_forever_title'),
-            t('delete_forever_confirm'),
+            t('move_to_trash_title'),
+            t('move_to_trash_confirm'),
             [
                 { text: t('cancel'), style: 'cancel' },
                 {
@@ -78,7 +78,7 @@ export const ArchiveModal: React.FC<ArchiveModalProps> = ({ visible, onClose })
                             await StorageService.deleteArchivedNote(note);
                             setArchivedNotes(prev => prev.filter(n => n.id !== note.id));
                         } catch (error) {
-                            console.error('Error deleting note forever:', error);
+                            console.error('Error moving archived note to trash:', error);
                             Alert.alert(t('error'), t('cannot_delete_note'));
                         }
                     }
@@ -0,0 +1,103 @@
+// AttachmentImage.tsx - An image embedded in a note, for the read-only
+// markdown display. Vault images are looked up and cached by
+// AttachmentService; web images load directly.
+
+import React, { useEffect, useState } from 'react';
+import { View, Text, Image, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useNotesStore } from '../stores/notesStore';
+import AttachmentService, { DisplayImage } from '../services/AttachmentService';
+import { DEFAULT_ATTACHMENT_FOLDER, isExternalImage, parseAttachmentSrc } from '../utils/attachmentUtils';
+
+interface AttachmentImageProps {
+    /** `attachment:` URL, vault path or web URL, as in the markdown */
+    src: string;
+    alt?: string;
+    /** Vault path of the note the image is embedded in */
+    notePath: string;
+}
+
+// Until the real size is known
+const DEFAULT_ASPECT_RATIO = 4 / 3;
+
+export const AttachmentImage: React.FC<AttachmentImageProps> = ({ src, alt, notePath }) => {
+    const attachmentFolder = useNotesStore((s) => s.settings.attachmentFolder) ?? DEFAULT_ATTACHMENT_FOLDER;
+    const external = isExternalImage(src);
+    const { target, width: displayWidth } = parseAttachmentSrc(src);
+
+    const [image, setImage] = useState<DisplayImage | null>(() => (external
+        ? { uri: src }
+        : AttachmentService.getCachedDisplay(target, notePath, attachmentFolder)));
+    const [isMissing, setIsMissing] = useState(false);
+
+    useEffect(() => {
+        if (external) {
+            setImage({ uri: src });
+            return;
+        }
+        let cancelled = false;
+        setIsMissing(false);
+        AttachmentService.getDisplayImage(target, notePath, attachmentFolder)
+            .then((display) => {
+                if (cancelled) return;
+                setImage(display);
+                setIsMissing(!display);
+            })
+            .catch(() => !cancelled && setIsMissing(true));
+        return () => { cancelled = true; };
+    }, [src, external, target, notePath, attachmentFolder]);
+
+    if (isMissing || !image) {
+        return (
+            <View style={styles.placeholder}>
+                <Ionicons name={isMissing ? 'image-outline' : 'hourglass-outline'} size={18} color="#999" />
+                <Text style={styles.placeholderText} numberOfLines={1}>{alt || target}</Text>
+            </View>
+        );
+    }
+
+    const aspectRatio = image.width && image.height ? image.width / image.height : DEFAULT_ASPECT_RATIO;
+    return (
+        <Image
+            source={{ uri: image.uri }}
+            accessibilityLabel={alt}
+            resizeMode="contain"
+            onLoad={(e) => {
+                // Web images report their size only once loaded
+                const { width, height } = e.nativeEvent.source ?? {};
+                if (!image.width && width && height) setImage({ ...image, width, height });
+            }}
+            style={[
+                styles.image,
+                { aspectRatio },
+                displayWidth ? { width: displayWidth } : null,
+            ]}
+        />
+    );
+};
+
+const styles = StyleSheet.create({
+    image: {
+        width: '100%',
+        maxWidth: '100%',
+        borderRadius: 8,
+        marginVertical: 4,
+        alignSelf: 'center',
+    },
+    placeholder: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+        paddingVertical: 8,
+        paddingHorizontal: 10,
+        marginVertical: 4,
+        borderRadius: 8,
+        backgroundColor: '#F0F0F0',
+        alignSelf: 'stretch',
+    },
+    placeholderText: {
+        flex: 1,
+        fontSize: 13,
+        color: '#757575',
+    },
+});
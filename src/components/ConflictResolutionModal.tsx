@@ -0,0 +1,250 @@
+// ConflictResolutionModal.tsx - Bottom sheet for resolving a note edited both here and in the vault
+
+import React, { useMemo } from 'react';
+import {
+    View,
+    Text,
+    StyleSheet,
+    Modal,
+    TouchableOpacity,
+    ScrollView,
+    useWindowDimensions
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useTranslation } from 'react-i18next';
+import { Ionicons } from '@expo/vector-icons';
+import { Note } from '../types/Note';
+import { ConflictResolution } from '../stores/slices/createDataSlice';
+import {
+    mergeText,
+    CONFLICT_MARKER_OURS,
+    CONFLICT_MARKER_SEPARATOR,
+    CONFLICT_MARKER_THEIRS
+} from '../utils/mergeUtils';
+import { getDirection } from '../utils/rtlUtils';
+
+interface ConflictResolutionModalProps {
+    visible: boolean;
+    note: Note | null;
+    /** How many conflicted notes are waiting, including this one */
+    remaining: number;
+    onResolve: (resolution: ConflictResolution) => void;
+    onClose: () => void;
+}
+
+type LineKind = 'same' | 'ours' | 'theirs' | 'oursLabel' | 'theirsLabel';
+
+const OURS_COLOR = '#1E88E5';
+const THEIRS_COLOR = '#FB8C00';
+
+/**
+ * Lines of the merged document, tagged by which side of a conflict they
+ * belong to. Marker lines become labels.
+ */
+const toMergedLines = (note: Note): { text: string; kind: LineKind }[] => {
+    if (!note.conflict) return [];
+    const { merged } = mergeText(note.conflict.base, note.content, note.conflict.theirs);
+
+    let side: 'same' | 'ours' | 'theirs' = 'same';
+    return merged.split('\n').map((line) => {
+        if (line === CONFLICT_MARKER_OURS) {
+            side = 'ours';
+            return { text: '', kind: 'oursLabel' as const };
+        }
+        if (line === CONFLICT_MARKER_SEPARATOR && side === 'ours') {
+            side = 'theirs';
+            return { text: '', kind: 'theirsLabel' as const };
+        }
+        if (line === CONFLICT_MARKER_THEIRS && side === 'theirs') {
+            side = 'same';
+            return null;
+        }
+        return { text: line, kind: side };
+    }).filter((line): line is { text: string; kind: LineKind } => line !== null);
+};
+
+export const ConflictResolutionModal: React.FC<ConflictResolutionModalProps> = ({ visible, note, remaining, onResolve, onClose }) => {
+    const { t } = useTranslation();
+    const { height: screenHeight } = useWindowDimensions();
+    const insets = useSafeAreaInsets();
+
+    const lines = useMemo(() => (visible && note ? toMergedLines(note) : []), [visible, note]);
+
+    const renderLine = (line: { text: string; kind: LineKind }, index: number) => {
+        if (line.kind === 'oursLabel' || line.kind === 'theirsLabel') {
+            const isOurs = line.kind === 'oursLabel';
+            return (
+                <Text key={index} style={[styles.sideLabel, { color: isOurs ? OURS_COLOR : THEIRS_COLOR }]}>
+                    {isOurs ? t('conflict_this_device') : t('conflict_vault')}
+                </Text>
+            );
+        }
+        return (
+            <Text
+                key={index}
+                style={[
+                    styles.line,
+                    { writingDirection: getDirection(line.text) },
+                    line.kind === 'ours' && styles.oursLine,
+                    line.kind === 'theirs' && styles.theirsLine,
+                ]}
+            >
+                {line.text || ' '}
+            </Text>
+        );
+    };
+
+    return (
+        <Modal
+            visible={visible}
+            animationType="slide"
+            transparent={true}
+            onRequestClose={onClose}
+        >
+            <View style={styles.modalOverlay}>
+                <View style={[styles.modalContent, { maxHeight: screenHeight * 0.85, paddingBottom: Math.max(insets.bottom, 16) }]}>
+                    <View style={styles.header}>
+                        <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+                            <Ionicons name="close" size={24} color="#1A1A1A" />
+                        </TouchableOpacity>
+                        <Text style={styles.headerTitle} numberOfLines={1}>{note?.title}</Text>
+                        <Text style={styles.counter}>{remaining > 1 ? t('conflict_remaining', { count: remaining }) : ''}</Text>
+                    </View>
+
+                    <Text style={styles.explanation}>{t('conflict_explanation')}</Text>
+
+                    <ScrollView style={styles.preview} contentContainerStyle={styles.previewContent}>
+                        {lines.map(renderLine)}
+                    </ScrollView>
+
+                    <View style={styles.actions}>
+                        <TouchableOpacity style={[styles.actionButton, { borderColor: OURS_COLOR }]} onPress={() => onResolve('mine')}>
+                            <Text style={[styles.actionText, { color: OURS_COLOR }]}>{t('conflict_keep_mine')}</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity style={[styles.actionButton, { borderColor: THEIRS_COLOR }]} onPress={() => onResolve('theirs')}>
+                            <Text style={[styles.actionText, { color: THEIRS_COLOR }]}>{t('conflict_keep_theirs')}</Text>
+                        </TouchableOpacity>
+                    </View>
+                    <TouchableOpacity style={styles.keepBothButton} onPress={() => onResolve('both')}>
+                        <Ionicons name="copy-outline" size={16} color="#1A1A1A" />
+                        <Text style={styles.keepBothText}>{t('conflict_keep_both')}</Text>
+                    </TouchableOpacity>
+                </View>
+            </View>
+        </Modal>
+    );
+};
+
+const styles = StyleSheet.create({
+    modalOverlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        justifyContent: 'flex-end', // Slide from bottom
+    },
+    modalContent: {
+        backgroundColor: '#F9F9F9',
+        borderTopLeftRadius: 24,
+        borderTopRightRadius: 24,
+        paddingTop: 8,
+    },
+    header: {
+        flexDirection: 'row-reverse',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        paddingHorizontal: 20,
+        paddingVertical: 16,
+        borderBottomWidth: 1,
+        borderBottomColor: '#E0E0E0',
+        backgroundColor: '#FFFFFF',
+        borderTopLeftRadius: 24,
+        borderTopRightRadius: 24,
+    },
+    headerTitle: {
+        flex: 1,
+        fontSize: 20,
+        fontWeight: 'bold',
+        color: '#1A1A1A',
+        textAlign: 'center',
+        marginHorizontal: 8,
+    },
+    closeButton: {
+        padding: 4,
+    },
+    counter: {
+        minWidth: 32,
+        fontSize: 13,
+        color: '#666',
+    },
+    explanation: {
+        fontSize: 14,
+        color: '#555',
+        lineHeight: 20,
+        paddingHorizontal: 20,
+        paddingVertical: 12,
+        textAlign: 'center',
+    },
+    preview: {
+        marginHorizontal: 16,
+        borderRadius: 12,
+        backgroundColor: '#FFFFFF',
+        borderWidth: 1,
+        borderColor: '#E0E0E0',
+    },
+    previewContent: {
+        padding: 12,
+    },
+    line: {
+        fontSize: 14,
+        lineHeight: 20,
+        color: '#1A1A1A',
+        paddingHorizontal: 4,
+    },
+    oursLine: {
+        backgroundColor: 'rgba(30, 136, 229, 0.12)',
+    },
+    theirsLine: {
+        backgroundColor: 'rgba(251, 140, 0, 0.12)',
+    },
+    sideLabel: {
+        fontSize: 12,
+        fontWeight: '700',
+        marginTop: 6,
+        paddingHorizontal: 4,
+    },
+    actions: {
+        flexDirection: 'row',
+        gap: 12,
+        paddingHorizontal: 16,
+        paddingTop: 16,
+    },
+    actionButton: {
+        flex: 1,
+        paddingVertical: 12,
+        borderRadius: 10,
+        borderWidth: 1,
+        alignItems: 'center',
+        backgroundColor: '#FFFFFF',
+    },
+    actionText: {
+        fontSize: 15,
+        fontWeight: '600',
+    },
+    keepBothButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: 6,
+        marginHorizontal: 16,
+        marginTop: 12,
+        paddingVertical: 12,
+        borderRadius: 10,
+        borderWidth: 1,
+        borderColor: '#000000',
+        backgroundColor: '#FFFFFF',
+    },
+    keepBothText: {
+        fontSize: 15,
+        fontWeight: '600',
+        color: '#1A1A1A',
+    },
+});
@@ -0,0 +1,442 @@
+// DomainManagerModal.tsx - Bottom sheet to add, rename, recolour, reorder,
+// merge and delete domains. Renames, merges and deletes rewrite the
+// `domain:` frontmatter of every note that uses the domain.
+
+import React, { useMemo, useState } from 'react';
+import {
+    View,
+    Text,
+    StyleSheet,
+    Modal,
+    TouchableOpacity,
+    ScrollView,
+    ActivityIndicator,
+    Alert,
+    useWindowDimensions
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useTranslation } from 'react-i18next';
+import { Ionicons } from '@expo/vector-icons';
+import { useNotesStore } from '../stores/notesStore';
+import { useDomains } from '../hooks/useDomains';
+import { DomainConfig, DomainType } from '../types/Note';
+import { DomainSelector } from './DomainSelector';
+import { PromptDialog } from './PromptDialog';
+import {
+    DOMAIN_COLORS,
+    DEFAULT_DOMAIN_ICON,
+    findDomain,
+    getDomainLabel,
+    nextDomainColor,
+    normalizeDomainId
+} from '../utils/domainUtils';
+import { RTL_TEXT_STYLE } from '../utils/rtlUtils';
+
+interface DomainManagerModalProps {
+    visible: boolean;
+    onClose: () => void;
+}
+
+// What the name prompt is for: a new domain, or renaming an existing value
+type NamePrompt = { mode: 'add' } | { mode: 'rename'; id: DomainType };
+
+export const DomainManagerModal: React.FC<DomainManagerModalProps> = ({ visible, onClose }) => {
+    const { t } = useTranslation();
+    const { height: screenHeight } = useWindowDimensions();
+    const insets = useSafeAreaInsets();
+    const domains = useDomains();
+    const notes = useNotesStore((s) => s.notes);
+    const updateSettings = useNotesStore((s) => s.updateSettings);
+    const migrateDomain = useNotesStore((s) => s.migrateDomain);
+    const [namePrompt, setNamePrompt] = useState<NamePrompt | null>(null);
+    const [colorPickerFor, setColorPickerFor] = useState<DomainType | null>(null);
+    const [mergeFor, setMergeFor] = useState<DomainType | null>(null);
+    const [isMigrating, setIsMigrating] = useState(false);
+
+    const counts = useMemo(() => {
+        const acc: Record<DomainType, number> = {};
+        notes.forEach((note) => {
+            if (note.domain) acc[note.domain] = (acc[note.domain] || 0) + 1;
+        });
+        return acc;
+    }, [notes]);
+
+    // `domain:` values used by notes but not defined, e.g. from another app
+    const undefinedDomains = Object.keys(counts)
+        .filter((id) => !findDomain(domains, id))
+        .sort((a, b) => a.localeCompare(b));
+
+    const setDomains = (next: DomainConfig[]) => updateSettings({ domains: next });
+
+    const runMigration = async (from: DomainType, to: DomainType | null, next: DomainConfig[]) => {
+        setIsMigrating(true);
+        try {
+            await migrateDomain(from, to);
+            setDomains(next);
+        } catch (error) {
+            console.error('Error migrating domain:', error);
+            Alert.alert(t('error'), t('domains_migrate_failed'));
+        } finally {
+            setIsMigrating(false);
+        }
+    };
+
+    const handleAdd = (name: string) => {
+        const id = normalizeDomainId(name);
+        if (!id) return;
+        if (findDomain(domains, id)) {
+            Alert.alert(t('error'), t('domains_exists', { name: id }));
+            return;
+        }
+        setDomains([...domains, { id, color: nextDomainColor(domains), icon: DEFAULT_DOMAIN_ICON }]);
+    };
+
+    // Merging drops `from` from the list; an undefined value being merged has
+    // no entry to drop
+    const confirmMerge = (from: DomainType, to: DomainType) => {
+        if (from === to) return;
+        Alert.alert(
+            t('domains_merge_title'),
+            t('domains_merge_confirm', { from: getDomainLabel(t, from), to: getDomainLabel(t, to), count: counts[from] || 0 }),
+            [
+                { text: t('cancel'), style: 'cancel' },
+                {
+                    text: t('domains_merge_action'),
+                    onPress: () => runMigration(from, to, domains.filter((d) => d.id !== from)),
+                },
+            ]
+        );
+    };
+
+    const handleRename = (from: DomainType, name: string) => {
+        const to = normalizeDomainId(name);
+        if (!to || to === from) return;
+        if (findDomain(domains, to)) {
+            confirmMerge(from, to);
+            return;
+        }
+        const existing = findDomain(domains, from);
+        const next = existing
+            ? domains.map((d) => (d.id === from ? { ...d, id: to } : d))
+            : [...domains, { id: to, color: nextDomainColor(domains), icon: DEFAULT_DOMAIN_ICON }];
+        runMigration(from, to, next);
+    };
+
+    const handleNameConfirm = (name: string) => {
+        const prompt = namePrompt;
+        setNamePrompt(null);
+        if (!prompt) return;
+        if (prompt.mode === 'add') handleAdd(name);
+        else handleRename(prompt.id, name);
+    };
+
+    const handleDelete = (id: DomainType) => {
+        Alert.alert(
+            t('domains_delete_title'),
+            t('domains_delete_confirm', { name: getDomainLabel(t, id), count: counts[id] || 0 }),
+            [
+                { text: t('cancel'), style: 'cancel' },
+                {
+                    text: t('delete'),
+                    style: 'destructive',
+                    onPress: () => {
+                        const next = domains.filter((d) => d.id !== id);
+                        if (counts[id]) runMigration(id, null, next);
+                        else setDomains(next);
+                    },
+                },
+            ]
+        );
+    };
+
+    const handleMove = (index: number, offset: number) => {
+        const target = index + offset;
+        if (target < 0 || target >= domains.length) return;
+        const next = [...domains];
+        [next[index], next[target]] = [next[target], next[index]];
+        setDomains(next);
+    };
+
+    const handleColor = (id: DomainType, color: string) => {
+        setDomains(domains.map((d) => (d.id === id ? { ...d, color } : d)));
+        setColorPickerFor(null);
+    };
+
+    const renderMergeTargets = (from: DomainType) => mergeFor === from && (
+        <View style={styles.expandedArea}>
+            <Text style={styles.expandedLabel}>{t('domains_merge_into')}</Text>
+            <DomainSelector
+                selectedDomain={null}
+                onSelectDomain={(to) => {
+                    setMergeFor(null);
+                    if (to) confirmMerge(from, to);
+                }}
+            />
+        </View>
+    );
+
+    const renderDomain = (domain: DomainConfig, index: number) => (
+        <View key={domain.id} style={styles.row}>
+            <View style={styles.rowMain}>
+                <TouchableOpacity
+                    style={[styles.swatch, { backgroundColor: domain.color }]}
+                    onPress={() => setColorPickerFor((prev) => (prev === domain.id ? null : domain.id))}
+                    hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                >
+                    <Ionicons name={domain.icon as any} size={16} color="#FFFFFF" />
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.nameArea} onPress={() => setNamePrompt({ mode: 'rename', id: domain.id })}>
+                    <Text style={styles.name} numberOfLines={1}>{getDomainLabel(t, domain.id)}</Text>
+                    <Text style={styles.meta} numberOfLines={1}>
+                        {`${domain.id} · ${t('domains_note_count', { count: counts[domain.id] || 0 })}`}
+                    </Text>
+                </TouchableOpacity>
+                <View style={styles.actions}>
+                    <TouchableOpacity style={styles.actionButton} onPress={() => handleMove(index, -1)} disabled={index === 0}>
+                        <Ionicons name="chevron-up" size={20} color={index === 0 ? '#DDD' : '#666'} />
+                    </TouchableOpacity>
+                    <TouchableOpacity style={styles.actionButton} onPress={() => handleMove(index, 1)} disabled={index === domains.length - 1}>
+                        <Ionicons name="chevron-down" size={20} color={index === domains.length - 1 ? '#DDD' : '#666'} />
+                    </TouchableOpacity>
+                    <TouchableOpacity style={styles.actionButton} onPress={() => setMergeFor((prev) => (prev === domain.id ? null : domain.id))}>
+                        <Ionicons name="git-merge-outline" size={20} color="#666" />
+                    </TouchableOpacity>
+                    <TouchableOpacity style={styles.actionButton} onPress={() => handleDelete(domain.id)}>
+                        <Ionicons name="trash-outline" size={20} color="#F44336" />
+                    </TouchableOpacity>
+                </View>
+            </View>
+            {colorPickerFor === domain.id && (
+                <View style={[styles.expandedArea, styles.palette]}>
+                    {DOMAIN_COLORS.map((color) => (
+                        <TouchableOpacity
+                            key={color}
+                            style={[styles.paletteColor, { backgroundColor: color }, color === domain.color && styles.paletteColorSelected]}
+                            onPress={() => handleColor(domain.id, color)}
+                        />
+                    ))}
+                </View>
+            )}
+            {renderMergeTargets(domain.id)}
+        </View>
+    );
+
+    const renderUndefined = (id: DomainType) => (
+        <View key={id} style={styles.row}>
+            <View style={styles.rowMain}>
+                <View style={[styles.swatch, styles.swatchUndefined]}>
+                    <Ionicons name="help-outline" size={16} color="#999" />
+                </View>
+                <TouchableOpacity style={styles.nameArea} onPress={() => setNamePrompt({ mode: 'rename', id })}>
+                    <Text style={styles.name} numberOfLines={1}>{id}</Text>
+                    <Text style={styles.meta} numberOfLines={1}>{t('domains_note_count', { count: counts[id] })}</Text>
+                </TouchableOpacity>
+                <View style={styles.actions}>
+                    <TouchableOpacity style={styles.actionButton} onPress={() => handleAdd(id)}>
+                        <Ionicons name="add-circle-outline" size={20} color="#4CAF50" />
+                    </TouchableOpacity>
+                    <TouchableOpacity style={styles.actionButton} onPress={() => setMergeFor((prev) => (prev === id ? null : id))}>
+                        <Ionicons name="git-merge-outline" size={20} color="#666" />
+                    </TouchableOpacity>
+                    <TouchableOpacity style={styles.actionButton} onPress={() => handleDelete(id)}>
+                        <Ionicons name="trash-outline" size={20} color="#F44336" />
+                    </TouchableOpacity>
+                </View>
+            </View>
+            {renderMergeTargets(id)}
+        </View>
+    );
+
+    return (
+        <Modal
+            visible={visible}
+            animationType="slide"
+            transparent={true}
+            onRequestClose={onClose}
+        >
+            <View style={styles.modalOverlay}>
+                <View style={[styles.modalContent, { maxHeight: screenHeight * 0.9, paddingBottom: Math.max(insets.bottom, 16) }]}>
+                    <View style={styles.header}>
+                        <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+                            <Ionicons name="close" size={24} color="#1A1A1A" />
+                        </TouchableOpacity>
+                        <Text style={styles.headerTitle}>{t('domains_title')}</Text>
+                        <TouchableOpacity onPress={() => setNamePrompt({ mode: 'add' })} style={styles.closeButton} disabled={isMigrating}>
+                            <Ionicons name="add" size={24} color="#1A1A1A" />
+                        </TouchableOpacity>
+                    </View>
+
+                    {isMigrating ? (
+                        <View style={styles.centerContainer}>
+                            <ActivityIndicator size="large" color="#000000" />
+                            <Text style={styles.emptyText}>{t('domains_migrating')}</Text>
+                        </View>
+                    ) : (
+                        <ScrollView contentContainerStyle={styles.listContent}>
+                            {domains.length === 0 && (
+                                <Text style={styles.emptyText}>{t('domains_empty')}</Text>
+                            )}
+                            {domains.map(renderDomain)}
+
+                            {undefinedDomains.length > 0 && (
+                                <>
+                                    <Text style={styles.sectionTitle}>{t('domains_undefined')}</Text>
+                                    <Text style={styles.hint}>{t('domains_undefined_hint')}</Text>
+                                    {undefinedDomains.map(renderUndefined)}
+                                </>
+                            )}
+                        </ScrollView>
+                    )}
+                </View>
+            </View>
+
+            <PromptDialog
+                visible={namePrompt !== null}
+                title={namePrompt?.mode === 'rename' ? t('domains_rename') : t('domains_add')}
+                message={namePrompt?.mode === 'rename' ? t('domains_rename_hint') : undefined}
+                defaultValue={namePrompt?.mode === 'rename' ? namePrompt.id : ''}
+                confirmLabel={namePrompt?.mode === 'rename' ? t('rename_action') : t('create_action')}
+                onConfirm={handleNameConfirm}
+                onCancel={() => setNamePrompt(null)}
+            />
+        </Modal>
+    );
+};
+
+const styles = StyleSheet.create({
+    modalOverlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        justifyContent: 'flex-end', // Slide from bottom
+    },
+    modalContent: {
+        backgroundColor: '#F9F9F9',
+        borderTopLeftRadius: 24,
+        borderTopRightRadius: 24,
+        paddingTop: 8,
+        minHeight: 320,
+    },
+    header: {
+        flexDirection: 'row-reverse',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        paddingHorizontal: 20,
+        paddingVertical: 16,
+        borderBottomWidth: 1,
+        borderBottomColor: '#E0E0E0',
+        backgroundColor: '#FFFFFF',
+        borderTopLeftRadius: 24,
+        borderTopRightRadius: 24,
+    },
+    headerTitle: {
+        fontSize: 20,
+        fontWeight: 'bold',
+        color: '#1A1A1A',
+    },
+    closeButton: {
+        padding: 4,
+    },
+    centerContainer: {
+        justifyContent: 'center',
+        alignItems: 'center',
+        padding: 40,
+    },
+    emptyText: {
+        fontSize: 16,
+        color: '#999',
+        marginTop: 16,
+        fontWeight: '500',
+        textAlign: 'center',
+    },
+    listContent: {
+        padding: 16,
+    },
+    sectionTitle: {
+        fontSize: 16,
+        fontWeight: '600',
+        color: '#1A1A1A',
+        marginTop: 16,
+        marginBottom: 4,
+        ...RTL_TEXT_STYLE,
+    },
+    hint: {
+        fontSize: 13,
+        color: '#888',
+        marginBottom: 8,
+        ...RTL_TEXT_STYLE,
+    },
+    row: {
+        backgroundColor: '#FFFFFF',
+        borderRadius: 12,
+        marginBottom: 8,
+        borderWidth: 1,
+        borderColor: '#EEE',
+    },
+    rowMain: {
+        flexDirection: 'row-reverse',
+        alignItems: 'center',
+        paddingHorizontal: 12,
+        paddingVertical: 10,
+        gap: 10,
+    },
+    swatch: {
+        width: 32,
+        height: 32,
+        borderRadius: 16,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    swatchUndefined: {
+        backgroundColor: '#F0F0F0',
+        borderWidth: 1,
+        borderColor: '#DDD',
+        borderStyle: 'dashed',
+    },
+    nameArea: {
+        flex: 1,
+    },
+    name: {
+        fontSize: 16,
+        color: '#1A1A1A',
+        fontWeight: '500',
+        ...RTL_TEXT_STYLE,
+    },
+    meta: {
+        fontSize: 12,
+        color: '#999',
+        marginTop: 2,
+        ...RTL_TEXT_STYLE,
+    },
+    actions: {
+        flexDirection: 'row',
+        alignItems: 'center',
+    },
+    actionButton: {
+        padding: 6,
+    },
+    expandedArea: {
+        borderTopWidth: 1,
+        borderTopColor: '#F0F0F0',
+        paddingHorizontal: 12,
+        paddingVertical: 8,
+    },
+    expandedLabel: {
+        fontSize: 13,
+        color: '#666',
+        ...RTL_TEXT_STYLE,
+    },
+    palette: {
+        flexDirection: 'row-reverse',
+        flexWrap: 'wrap',
+        gap: 10,
+    },
+    paletteColor: {
+        width: 28,
+        height: 28,
+        borderRadius: 14,
+    },
+    paletteColorSelected: {
+        borderWidth: 3,
+        borderColor: '#1A1A1A',
+    },
+});
@@ -2,7 +2,9 @@ import React, { useState } from 'react';
 import { ScrollView, TouchableOpacity, Text, View, StyleSheet } from 'react-native';
 import { useTranslation } from 'react-i18next';
 import { Ionicons } from '@expo/vector-icons';
-import { DomainType, DOMAINS } from '../types/Note';
+import { DomainType } from '../types/Note';
+import { useDomains } from '../hooks/useDomains';
+import { findDomain, getDomainLabel } from '../utils/domainUtils';
 
 interface DomainSelectorProps {
     selectedDomain: DomainType | null;
@@ -17,6 +19,7 @@ interface DomainSelectorProps {
 export const DomainSelector: React.FC<DomainSelectorProps> = ({ selectedDomain, onSelectDomain, mode = 'select', compact = false, domainCounts, style }) => {
     const { t } = useTranslation();
     const [expanded, setExpanded] = useState(false);
+    const domains = useDomains();
 
     const isCollapsible = compact;
     const isCollapsed = isCollapsible && !expanded;
@@ -29,8 +32,8 @@ export const DomainSelector: React.FC<DomainSelectorProps> = ({ selectedDomain,
 
     // ── Collapsed state (select mode only) ──
     if (isCollapsed) {
-        if (selectedDomain && DOMAINS[selectedDomain]) {
-            const config = DOMAINS[selectedDomain];
+        const config = findDomain(domains, selectedDomain);
+        if (selectedDomain && config) {
             return (
                 <View style={[styles.collapsedRow, style]}>
                     <TouchableOpacity
@@ -39,7 +42,7 @@ export const DomainSelector: React.FC<DomainSelectorProps> = ({ selectedDomain,
                     >
                         <Ionicons name="chevron-down" size={14} color="#FFFFFF" style={{ marginRight: 4 }} />
                         <Ionicons name={config.icon as any} size={16} color="#FFFFFF" style={styles.icon} />
-                        <Text style={[styles.label, { color: '#FFFFFF', fontWeight: '700' }]}>{t(`domain_${selectedDomain}`)}</Text>
+                        <Text style={[styles.label, { color: '#FFFFFF', fontWeight: '700' }]}>{getDomainLabel(t, selectedDomain)}</Text>
                     </TouchableOpacity>
                 </View>
             );
@@ -73,8 +76,8 @@ export const DomainSelector: React.FC<DomainSelectorProps> = ({ selectedDomain,
                 </TouchableOpacity>
             )}
 
-            {(Object.keys(DOMAINS) as DomainType[]).map((domain) => {
-                const config = DOMAINS[domain];
+            {domains.map((config) => {
+                const domain = config.id;
                 const isSelected = selectedDomain === domain;
 
                 return (
@@ -104,7 +107,7 @@ export const DomainSelector: React.FC<DomainSelectorProps> = ({ selectedDomain,
                                 { color: isSelected ? '#FFFFFF' : config.color, fontWeight: isSelected ? '700' : '500' },
                             ]}
                         >
-                            {t(`domain_${domain}`)}
+                            {getDomainLabel(t, domain)}
                             {domainCounts && domainCounts[domain] !== undefined && (
                                 <Text style={[
                                     styles.countText,
@@ -135,6 +138,7 @@ const styles = StyleSheet.create({
         paddingVertical: 8,
         alignItems: 'center',
         flexDirection: 'row',
+        flexWrap: 'wrap',
         justifyContent: 'center',
         width: '100%',
     },
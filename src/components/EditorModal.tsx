@@ -23,15 +23,20 @@ import { useNotesStore } from '../stores/notesStore';
 import { DomainSelector } from './DomainSelector';
 import { SmartEditor, SmartEditorRef } from './SmartEditor';
 import { MarkdownToolbar } from './MarkdownToolbar';
+import { NoteLinksBar } from './NoteLinks';
+import { HistoryModal } from './HistoryModal';
+import { TemplatePicker } from './TemplatePicker';
+import { ImageSourceSheet } from './ImageSourceSheet';
 import { TiptapToolbar } from './TiptapToolbar';
 import { EnrichedToolbar } from './EnrichedToolbar';
 import { EnrichedTitleInput } from './EnrichedTitleInput';
 import type { EnrichedEditorBridge } from './EnrichedEditor';
 import { type EditorBridge } from '@10play/tentap-editor';
 import type { OnChangeStateEvent } from 'react-native-enriched';
-import { DomainType } from '../types/Note';
+import { DomainType, Note } from '../types/Note';
 import { RTL_TEXT_STYLE } from '../utils/rtlUtils';
 import { USE_NATIVE_EDITOR } from '../config/editorMode';
+import type { TextOccurrence } from '../utils/editorUtils';
 import {
     EDITOR_SURROUND_COLOR,
     EDITOR_CARD_RADIUS,
@@ -44,6 +49,13 @@ import {
     EDITOR_BORDER_COLOR,
 } from '../theme/listExperiment';
 
+// ─── Timing ───────────────────────────────────────────────────────────────────
+
+// Before the cold-start spinner shows over the editor area
+const LOADER_DELAY_MS = 400;
+// Reveal after the open-transition's setText and focus retries have run
+const REVEAL_DELAY_MS = 500;
+
 // ─── Public ref ───────────────────────────────────────────────────────────────
 
 export interface EditorModalRef {
@@ -100,6 +112,38 @@ export interface EditorModalProps {
      * lazy-mounted on visible to avoid resource competition.
      */
     eagerMount?: boolean;
+    /**
+     * Id of the note being edited. Together with the link handlers below it
+     * enables the link bar: file name (rename), outgoing [[links]] and
+     * linked mentions. Omitted for new notes.
+     */
+    noteId?: string;
+    onWikilinkPress?: (target: string) => void;
+    onOpenNote?: (note: Note) => void;
+    onRename?: () => void;
+    /**
+     * Replace the note with an earlier version's full markdown. Enables the
+     * history button (requires `noteId`).
+     */
+    onRestoreVersion?: (content: string) => void;
+    /**
+     * Daily-note mode for new notes: the text is appended to today's daily
+     * note, so the domain is neither shown nor required. Passing
+     * `onDailyModeChange` enables the toggle button.
+     */
+    dailyMode?: boolean;
+    onDailyModeChange?: (dailyMode: boolean) => void;
+    /**
+     * Insert a template picked from the vault's templates folder. Receives
+     * the raw template; filling in variables and frontmatter is up to the
+     * caller. Enables the template button.
+     */
+    onApplyTemplate?: (template: string) => void;
+    /**
+     * A passage to select and scroll to once the text is loaded, e.g. the
+     * search snippet the note was opened from.
+     */
+    revealText?: TextOccurrence | null;
 }
 
 // ─── Component ────────────────────────────────────────────────────────────────
@@ -121,9 +165,21 @@ export const EditorModal = React.forwardRef<EditorModalRef, EditorModalProps>(({
     showTitle = false,
     compactDomain = false,
     eagerMount = false,
+    noteId,
+    onWikilinkPress,
+    onOpenNote,
+    onRename,
+    onRestoreVersion,
+    dailyMode = false,
+    onDailyModeChange,
+    onApplyTemplate,
+    revealText = null,
 }, ref) => {
     const { t } = useTranslation();
     const [showDomainToast, setShowDomainToast] = useState(false);
+    const [historyVisible, setHistoryVisible] = useState(false);
+    const [templatePickerVisible, setTemplatePickerVisible] = useState(false);
+    const [imageSheetVisible, setImageSheetVisible] = useState(false);
     const [editorBridge, setEditorBridge] = useState<EditorBridge | null>(null);
     const [enrichedBridge, setEnrichedBridge] = useState<EnrichedEditorBridge | null>(null);
     // RNE-only: latest formatting state for highlighting toolbar buttons.
@@ -138,6 +194,7 @@ export const EditorModal = React.forwardRef<EditorModalRef, EditorModalProps>(({
     const { keyboardVisible: isKeyboardVisible } = useKeyboardHeight();
 
     const { settings } = useNotesStore();
+    const historyNote = useNotesStore((s) => (historyVisible && noteId ? s.notes.find((n) => n.id === noteId) ?? null : null));
     // [INACTIVE] editorMode — תמיד richtext, בחירת מצב מושבתת
     const editorMode = 'richtext'; // settings.editorMode || 'richtext';
     // Subscribe to the text-size slider so the title input rescales live
@@ -239,7 +296,6 @@ export const EditorModal = React.forwardRef<EditorModalRef, EditorModalProps>(({
     // ready, it stays ready across visibility toggles since we now keep
     // it mounted. So the spinner only ever appears on the very first open.
     const [editorReady, setEditorReady] = useState(false);
-    const LOADER_DELAY_MS = 400;
     const [showLoader, setShowLoader] = useState(false);
     // Mirror editorReady in a ref so the deferred timer reads the LATEST
     // value at fire time, not the stale closure capture from scheduling.
@@ -293,6 +349,13 @@ export const EditorModal = React.forwardRef<EditorModalRef, EditorModalProps>(({
         return () => timers.forEach(clearTimeout);
     }, [editorReady]);
 
+    // Scroll to the search match the editor was opened at
+    useEffect(() => {
+        if (!visible || !editorReady || !revealText) return;
+        const id = setTimeout(() => editorRef.current?.revealText(revealText), REVEAL_DELAY_MS);
+        return () => clearTimeout(id);
+    }, [visible, editorReady, revealText]);
+
     React.useImperativeHandle(ref, () => ({
         clear: () => { editorRef.current?.setText?.(''); },
         setTextAndSelection: (t, sel) => { editorRef.current?.setTextAndSelection?.(t, sel); },
@@ -313,7 +376,7 @@ export const EditorModal = React.forwardRef<EditorModalRef, EditorModalProps>(({
     };
 
     const handleSave = async () => {
-        if (requireDomain && !domain) {
+        if (requireDomain && !domain && !dailyMode) {
             setShowDomainToast(true);
             setTimeout(() => setShowDomainToast(false), 1500);
             return;
@@ -428,6 +491,7 @@ export const EditorModal = React.forwardRef<EditorModalRef, EditorModalProps>(({
                                     onChange={onTextChange}
                                     onEditorReady={() => setEditorReady(true)}
                                     onEnrichedStateChange={setEnrichedState}
+                                    notePath={noteId ?? ''}
                                     placeholder=""
                                     autoFocus={false}
                                     backgroundColor="#FFFFFF"
@@ -445,22 +509,63 @@ export const EditorModal = React.forwardRef<EditorModalRef, EditorModalProps>(({
                             )}
                         </View>
 
+                        {noteId && onWikilinkPress && onOpenNote && (
+                            <NoteLinksBar
+                                noteId={noteId}
+                                text={text}
+                                onWikilinkPress={onWikilinkPress}
+                                onOpenNote={onOpenNote}
+                                onRename={onRename}
+                            />
+                        )}
+
                         {/* Domain selector + Send. Domain takes the available
                             space; send sits at the trailing edge so the user
                             picks the domain right next to the action button. */}
                         <View style={styles.domainSelectorRow}>
                             <View style={styles.domainSelectorFill}>
-                                <DomainSelector
-                                    selectedDomain={domain}
-                                    onSelectDomain={onDomainChange}
-                                    mode="select"
-                                    compact={compactDomain}
-                                    // Override the ScrollView's bottom margin
-                                    // (which would otherwise pull the chips up
-                                    // 4 px relative to the centered send button).
-                                    style={{ marginBottom: 0 }}
-                                />
+                                {dailyMode ? (
+                                    <Text style={styles.dailyModeLabel} numberOfLines={1}>{t('daily_mode_label')}</Text>
+                                ) : (
+                                    <DomainSelector
+                                        selectedDomain={domain}
+                                        onSelectDomain={onDomainChange}
+                                        mode="select"
+                                        compact={compactDomain}
+                                        // Override the ScrollView's bottom margin
+                                        // (which would otherwise pull the chips up
+                                        // 4 px relative to the centered send button).
+                                        style={{ marginBottom: 0 }}
+                                    />
+                                )}
                             </View>
+                            {onApplyTemplate && !dailyMode && (
+                                <TouchableOpacity
+                                    style={styles.iconButton}
+                                    onPress={() => setTemplatePickerVisible(true)}
+                                    hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                                >
+                                    <Ionicons name="document-text-outline" size={20} color="#000000" />
+                                </TouchableOpacity>
+                            )}
+                            {onDailyModeChange && (
+                                <TouchableOpacity
+                                    style={[styles.dailyModeButton, dailyMode && styles.dailyModeButtonActive]}
+                                    onPress={() => onDailyModeChange(!dailyMode)}
+                                    hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                                >
+                                    <Ionicons name="calendar-outline" size={20} color={dailyMode ? '#FFFFFF' : '#000000'} />
+                                </TouchableOpacity>
+                            )}
+                            {noteId && onRestoreVersion && (
+                                <TouchableOpacity
+                                    style={styles.iconButton}
+                                    onPress={() => setHistoryVisible(true)}
+                                    hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                                >
+                                    <Ionicons name="time-outline" size={20} color="#000000" />
+                                </TouchableOpacity>
+                            )}
                             <TouchableOpacity
                                 style={[styles.sendButtonModal, (!text.trim() || isSaving) && styles.sendButtonDisabled]}
                                 onPress={handleSave}
@@ -503,6 +608,7 @@ export const EditorModal = React.forwardRef<EditorModalRef, EditorModalProps>(({
                                     state={enrichedState}
                                     onPinPress={() => onPinChange(!isPinned)}
                                     isPinned={isPinned}
+                                    onImagePress={() => setImageSheetVisible(true)}
                                     onDismiss={handleClose}
                                 />
                             </View>
@@ -514,6 +620,7 @@ export const EditorModal = React.forwardRef<EditorModalRef, EditorModalProps>(({
                                     editor={editorBridge}
                                     onPinPress={() => onPinChange(!isPinned)}
                                     isPinned={isPinned}
+                                    onImagePress={() => setImageSheetVisible(true)}
                                     onDismiss={handleClose}
                                 />
                             </View>
@@ -523,6 +630,33 @@ export const EditorModal = React.forwardRef<EditorModalRef, EditorModalProps>(({
                     {/* Domain validation toast — absolute positioned so it
                         floats above everything regardless of where it sits in
                         the tree. */}
+                    {noteId && onRestoreVersion && (
+                        <HistoryModal
+                            visible={historyVisible}
+                            note={historyNote}
+                            onRestore={(content) => {
+                                setHistoryVisible(false);
+                                onRestoreVersion(content);
+                            }}
+                            onClose={() => setHistoryVisible(false)}
+                        />
+                    )}
+
+                    {onApplyTemplate && (
+                        <TemplatePicker
+                            visible={templatePickerVisible}
+                            onSelect={onApplyTemplate}
+                            onClose={() => setTemplatePickerVisible(false)}
+                        />
+                    )}
+
+                    <ImageSourceSheet
+                        visible={imageSheetVisible}
+                        notePath={noteId ?? ''}
+                        onInsert={(image) => editorRef.current?.insertImage(image)}
+                        onClose={() => setImageSheetVisible(false)}
+                    />
+
                     {showDomainToast && (
                         <View style={styles.domainToast}>
                             <Text style={styles.domainToastText}>{t('select_domain_before_save')}</Text>
@@ -702,6 +836,29 @@ const styles = StyleSheet.create({
         borderTopColor: '#E0E0E0',
         paddingHorizontal: 4,
     },
+    iconButton: {
+        width: 32,
+        height: 32,
+        marginRight: 8,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    dailyModeButton: {
+        width: 32,
+        height: 32,
+        borderRadius: 16,
+        marginRight: 8,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    dailyModeButtonActive: {
+        backgroundColor: '#000000',
+    },
+    dailyModeLabel: {
+        fontSize: 14,
+        color: '#666',
+        ...RTL_TEXT_STYLE,
+    },
     sendButtonModal: {
         // Matches the height of the domain chips (paddingVertical:8 + ~14
         // line-height ≈ 32 px) so the row reads as a single row of pills.
@@ -23,6 +23,7 @@ import {
     type EnrichedTextInputInstance,
     type OnChangeStateEvent,
 } from 'react-native-enriched';
+import { findTextOccurrence, type TextOccurrence } from '../utils/editorUtils';
 
 // ─── Public ref interface ────────────────────────────────────────────────────
 // Mirrors TiptapEditorRef as closely as possible so SmartEditor only has to
@@ -53,6 +54,8 @@ export interface EnrichedEditorBridge {
     toggleOrderedList: () => void;
     toggleUnorderedList: () => void;
     toggleCheckboxList: (checked: boolean) => void;
+    /** Insert an image at the cursor, laid out at `width` x `height` points */
+    setImage: (src: string, width: number, height: number) => void;
 }
 
 export interface EnrichedEditorRef {
@@ -60,6 +63,8 @@ export interface EnrichedEditorRef {
     focus: () => void;
     blur: () => void;
     setHtml: (html: string) => void;
+    /** Select and scroll to a passage of the text (search results) */
+    revealText: (target: TextOccurrence) => void;
     /**
      * Bridge-shaped command surface so a toolbar can call `bridge.toggleBold()`
      * just like it would on the Tiptap path. Toolbar reads the live state via
@@ -111,6 +116,8 @@ export const EnrichedEditor = forwardRef<EnrichedEditorRef, EnrichedEditorProps>
         ref,
     ) => {
         const inputRef = useRef<EnrichedTextInputInstance | null>(null);
+        // Plain text as the native view shows it, for revealText offsets
+        const plainTextRef = useRef('');
 
         // Build the bridge object once per mount. All methods proxy to the
         // native ref. We use refs (not state) because the bridge is consumed
@@ -135,6 +142,8 @@ export const EnrichedEditor = forwardRef<EnrichedEditorRef, EnrichedEditorProps>
             toggleUnorderedList: () => inputRef.current?.toggleUnorderedList(),
             toggleCheckboxList: (checked: boolean) =>
                 inputRef.current?.toggleCheckboxList(checked),
+            setImage: (src: string, width: number, height: number) =>
+                inputRef.current?.setImage(src, width, height),
         }), []);
 
         useImperativeHandle(ref, () => ({
@@ -146,6 +155,12 @@ export const EnrichedEditor = forwardRef<EnrichedEditorRef, EnrichedEditorProps>
             focus: () => inputRef.current?.focus(),
             blur: () => inputRef.current?.blur(),
             setHtml: (html: string) => inputRef.current?.setValue(html),
+            revealText: (target: TextOccurrence) => {
+                const start = findTextOccurrence(plainTextRef.current, target);
+                if (start === -1) return;
+                inputRef.current?.focus();
+                inputRef.current?.setSelection(start, start + target.text.length);
+            },
             editorBridge: bridge,
         }), [bridge]);
 
@@ -185,6 +200,9 @@ export const EnrichedEditor = forwardRef<EnrichedEditorRef, EnrichedEditorProps>
                     onChangeHtml={(e) => {
                         onChange?.(e.nativeEvent.value);
                     }}
+                    onChangeText={(e) => {
+                        plainTextRef.current = e.nativeEvent.value;
+                    }}
                     onChangeState={(e) => {
                         onStateChange?.(e.nativeEvent);
                     }}
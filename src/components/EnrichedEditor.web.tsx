@@ -19,6 +19,7 @@
 
 import React, { forwardRef } from 'react';
 import type { StyleProp, ViewStyle } from 'react-native';
+import type { TextOccurrence } from '../utils/editorUtils';
 
 // ─── Types (mirror EnrichedEditor.tsx exactly) ─────────────────────────────
 
@@ -41,6 +42,8 @@ export interface EnrichedEditorBridge {
     toggleOrderedList: () => void;
     toggleUnorderedList: () => void;
     toggleCheckboxList: (checked: boolean) => void;
+    /** Insert an image at the cursor, laid out at `width` x `height` points */
+    setImage: (src: string, width: number, height: number) => void;
 }
 
 export interface EnrichedEditorRef {
@@ -48,6 +51,8 @@ export interface EnrichedEditorRef {
     focus: () => void;
     blur: () => void;
     setHtml: (html: string) => void;
+    /** Select and scroll to a passage of the text (search results) */
+    revealText: (target: TextOccurrence) => void;
     editorBridge: EnrichedEditorBridge;
 }
 
@@ -30,6 +30,8 @@ interface EnrichedToolbarProps {
     state: OnChangeStateEvent | null;
     onPinPress?: () => void;
     isPinned?: boolean;
+    /** Opens the image source picker; the button is hidden without it. */
+    onImagePress?: () => void;
     /** Called on the dismiss button. Falls back to keyboard.dismiss() */
     onDismiss?: () => void;
 }
@@ -39,6 +41,7 @@ export const EnrichedToolbar: React.FC<EnrichedToolbarProps> = ({
     state,
     onPinPress,
     isPinned,
+    onImagePress,
     onDismiss,
 }) => {
     // RNE state may be null until the first selection event fires. Default
@@ -85,6 +88,13 @@ export const EnrichedToolbar: React.FC<EnrichedToolbarProps> = ({
                 <Ionicons name="checkbox-outline" size={22} color="#000000" />
             </ToolBtn>
 
+            {/* Attach image (matches TiptapToolbar) */}
+            {onImagePress && (
+                <ToolBtn active={false} onPress={onImagePress}>
+                    <Ionicons name="image-outline" size={22} color="#000000" />
+                </ToolBtn>
+            )}
+
             <View style={styles.vSeparator} />
 
             {/* Pin (matches TiptapToolbar) */}
@@ -0,0 +1,137 @@
+import React, { useMemo } from 'react';
+import { ScrollView, TouchableOpacity, Text, StyleSheet } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { Ionicons } from '@expo/vector-icons';
+import { getFolder, getFileName, getParentFolder } from '../utils/pathUtils';
+
+interface FolderSelectorProps {
+    /** Every folder in the vault (vault-relative paths), e.g. from collectFolders() */
+    folders: string[];
+    /** Folder being browsed; null shows the whole vault */
+    currentFolder: string | null;
+    onSelectFolder: (folder: string | null) => void;
+    /** Note count per folder, including nested subfolders */
+    folderCounts?: Record<string, number>;
+}
+
+const FOLDER_COLOR = '#5C6BC0';
+
+/**
+ * Breadcrumb-style folder browser shown under the domain filter.
+ * Shows an "up" chip and the current folder when drilled in, followed by
+ * the direct subfolders of the current level. Renders nothing for vaults
+ * without folders.
+ */
+export const FolderSelector: React.FC<FolderSelectorProps> = ({ folders, currentFolder, onSelectFolder, folderCounts }) => {
+    const { t } = useTranslation();
+
+    // Direct children of the level being browsed ('' = vault root)
+    const childFolders = useMemo(() => {
+        const level = currentFolder ?? '';
+        return folders.filter((folder) => getFolder(folder) === level);
+    }, [folders, currentFolder]);
+
+    if (folders.length === 0) return null;
+
+    const renderCount = (folder: string, color: string) =>
+        folderCounts && folderCounts[folder] !== undefined ? (
+            <Text style={[styles.countText, { color }]}> ({folderCounts[folder]})</Text>
+        ) : null;
+
+    return (
+        <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.container}
+            keyboardShouldPersistTaps="handled"
+        >
+            {currentFolder !== null && (
+                <>
+                    <TouchableOpacity
+                        style={[styles.chip, styles.upChip]}
+                        onPress={() => {
+                            const parent = getParentFolder(currentFolder);
+                            // Top-level folder → back to the whole vault
+                            onSelectFolder(parent ? parent : null);
+                        }}
+                        hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                    >
+                        <Ionicons name="arrow-up" size={16} color="#666" />
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                        style={[styles.chip, { borderColor: FOLDER_COLOR, backgroundColor: FOLDER_COLOR }]}
+                        onPress={() => onSelectFolder(null)}
+                    >
+                        <Ionicons name="folder-open" size={16} color="#FFFFFF" style={styles.icon} />
+                        <Text numberOfLines={1} style={[styles.label, { color: '#FFFFFF', fontWeight: '700' }]}>
+                            {currentFolder}
+                            {renderCount(currentFolder, '#FFFFFF')}
+                        </Text>
+                        <Ionicons name="close" size={14} color="#FFFFFF" style={styles.closeIcon} />
+                    </TouchableOpacity>
+                </>
+            )}
+
+            {currentFolder === null && (
+                <Text style={styles.hint}>{t('folders')}</Text>
+            )}
+
+            {childFolders.map((folder) => (
+                <TouchableOpacity
+                    key={folder}
+                    style={[styles.chip, { borderColor: FOLDER_COLOR }]}
+                    onPress={() => onSelectFolder(folder)}
+                >
+                    <Ionicons name="folder-outline" size={16} color={FOLDER_COLOR} style={styles.icon} />
+                    <Text numberOfLines={1} style={[styles.label, { color: FOLDER_COLOR }]}>
+                        {getFileName(folder)}
+                        {renderCount(folder, FOLDER_COLOR)}
+                    </Text>
+                </TouchableOpacity>
+            ))}
+        </ScrollView>
+    );
+};
+
+const styles = StyleSheet.create({
+    container: {
+        paddingHorizontal: 8,
+        paddingBottom: 4,
+        alignItems: 'center',
+        flexDirection: 'row',
+    },
+    chip: {
+        flexDirection: 'row-reverse',
+        alignItems: 'center',
+        paddingHorizontal: 10,
+        paddingVertical: 6,
+        borderRadius: 20,
+        marginHorizontal: 2,
+        borderWidth: 1,
+        borderColor: 'transparent',
+    },
+    upChip: {
+        backgroundColor: '#eee',
+        borderColor: '#ddd',
+        paddingHorizontal: 8,
+    },
+    icon: {
+        marginLeft: 6,
+    },
+    closeIcon: {
+        marginRight: 6,
+    },
+    label: {
+        fontSize: 13,
+    },
+    hint: {
+        fontSize: 12,
+        color: '#999',
+        marginHorizontal: 6,
+    },
+    countText: {
+        fontSize: 11,
+        opacity: 0.8,
+        fontWeight: 'normal',
+    },
+});
@@ -6,14 +6,20 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { RTL_TEXT_STYLE } from '../utils/rtlUtils';
 import { SearchBar } from './SearchBar';
 import { DomainSelector } from './DomainSelector';
-import { DomainType } from '../types/Note';
+import { FolderSelector } from './FolderSelector';
+import { SmartListSelector } from './SmartListSelector';
+import { DomainType, SmartList } from '../types/Note';
 import { SURROUND_COLOR, CHROME_FULL_WIDTH } from '../theme/listExperiment';
 
 interface HeaderProps {
     title: string;
     onSettingsPress: () => void;
+    onTasksPress?: () => void;
+    /** Opens the sort and grouping options */
+    onListViewPress?: () => void;
     // Search Props
     onSearch: (query: string) => void;
+    searchQuery?: string;
     onSearchFocus: () => void;
     onSearchBlur: () => void;
     isSearchFocused: boolean;
@@ -21,6 +27,20 @@ interface HeaderProps {
     currentDomain: DomainType | null;
     onFilterByDomain: (domain: DomainType | null) => void;
     domainCounts?: Record<DomainType, number>;
+    // Folder Browse Props
+    folders?: string[];
+    currentFolder?: string | null;
+    onFilterByFolder?: (folder: string | null) => void;
+    folderCounts?: Record<string, number>;
+    // Smart List Props
+    smartLists?: SmartList[];
+    activeSmartListId?: string | null;
+    onSelectSmartList?: (id: string | null) => void;
+    onEditSmartList?: (smartList: SmartList | null) => void;
+    // Tag Filter Props
+    selectedTag?: string | null;
+    onTagsPress?: () => void;
+    onClearTag?: () => void;
     // Visibility
     hideSearchAndDomain?: boolean;
     onLayout?: (y: number, height: number) => void;
@@ -31,13 +51,27 @@ interface HeaderProps {
 export const Header: React.FC<HeaderProps> = ({
     title,
     onSettingsPress,
+    onTasksPress,
+    onListViewPress,
     onSearch,
+    searchQuery,
     onSearchFocus,
     onSearchBlur,
     isSearchFocused,
     currentDomain,
     onFilterByDomain,
     domainCounts,
+    folders,
+    currentFolder = null,
+    onFilterByFolder,
+    folderCounts,
+    smartLists,
+    activeSmartListId = null,
+    onSelectSmartList,
+    onEditSmartList,
+    selectedTag,
+    onTagsPress,
+    onClearTag,
     hideSearchAndDomain,
     onLayout,
     showReconnect,
@@ -53,9 +87,16 @@ export const Header: React.FC<HeaderProps> = ({
         <View onLayout={onLayout ? (e) => onLayout(e.nativeEvent.layout.y, e.nativeEvent.layout.height) : undefined}>
             {/* Top Bar */}
             <View style={[styles.header, { paddingTop: headerPaddingTop }]}>
-                <TouchableOpacity onPress={onSettingsPress} style={styles.iconButton}>
-                    <Ionicons name="settings-outline" size={24} color="#1A1A1A" />
-                </TouchableOpacity>
+                <View style={styles.headerSide}>
+                    <TouchableOpacity onPress={onSettingsPress} style={styles.iconButton}>
+                        <Ionicons name="settings-outline" size={24} color="#1A1A1A" />
+                    </TouchableOpacity>
+                    {onTasksPress && (
+                        <TouchableOpacity onPress={onTasksPress} style={styles.iconButton}>
+                            <Ionicons name="checkbox-outline" size={24} color="#1A1A1A" />
+                        </TouchableOpacity>
+                    )}
+                </View>
                 <View style={styles.headerCenter}>
                     <Text style={styles.headerTitle}>{title}</Text>
                     {showReconnect && (
@@ -65,7 +106,20 @@ export const Header: React.FC<HeaderProps> = ({
                         </TouchableOpacity>
                     )}
                 </View>
-                <View style={styles.iconPlaceholder} />
+                <View style={styles.headerSide}>
+                    {onListViewPress && (
+                        <TouchableOpacity onPress={onListViewPress} style={styles.iconButton}>
+                            <Ionicons name="swap-vertical-outline" size={24} color="#1A1A1A" />
+                        </TouchableOpacity>
+                    )}
+                    {onTagsPress ? (
+                        <TouchableOpacity onPress={onTagsPress} style={styles.iconButton}>
+                            <Ionicons name={selectedTag ? 'pricetags' : 'pricetags-outline'} size={24} color="#1A1A1A" />
+                        </TouchableOpacity>
+                    ) : (
+                        <View style={styles.iconPlaceholder} />
+                    )}
+                </View>
             </View>
 
             {/* Search Bar & Domain Filter
@@ -78,6 +132,7 @@ export const Header: React.FC<HeaderProps> = ({
                     <View style={styles.searchContainerInner}>
                         <SearchBar
                             onSearch={onSearch}
+                            value={searchQuery}
                             onFocus={onSearchFocus}
                             onBlur={onSearchBlur}
                             placeholder={t('search_placeholder')}
@@ -90,6 +145,30 @@ export const Header: React.FC<HeaderProps> = ({
                                 mode="filter"
                             />
                         )}
+                        {!isSearchFocused && smartLists && onSelectSmartList && onEditSmartList && (
+                            <SmartListSelector
+                                smartLists={smartLists}
+                                activeSmartListId={activeSmartListId}
+                                onSelectSmartList={onSelectSmartList}
+                                onEditSmartList={onEditSmartList}
+                            />
+                        )}
+                        {!!selectedTag && (
+                            <View style={styles.activeTagRow}>
+                                <TouchableOpacity style={styles.activeTagChip} onPress={onClearTag}>
+                                    <Text style={styles.activeTagText} numberOfLines={1}>#{selectedTag}</Text>
+                                    <Ionicons name="close" size={14} color="#FFFFFF" />
+                                </TouchableOpacity>
+                            </View>
+                        )}
+                        {!isSearchFocused && folders && onFilterByFolder && (
+                            <FolderSelector
+                                folders={folders}
+                                currentFolder={currentFolder}
+                                onSelectFolder={onFilterByFolder}
+                                folderCounts={folderCounts}
+                            />
+                        )}
                     </View>
                 </View>
             )}
@@ -118,6 +197,10 @@ const styles = StyleSheet.create({
     iconButton: {
         padding: 8,
     },
+    headerSide: {
+        flexDirection: 'row',
+        alignItems: 'center',
+    },
     iconPlaceholder: {
         width: 40,
     },
@@ -152,6 +235,27 @@ const styles = StyleSheet.create({
         borderRadius: 12,
         marginTop: 4,
     },
+    activeTagRow: {
+        flexDirection: 'row-reverse',
+        paddingHorizontal: 10,
+        paddingTop: 4,
+    },
+    activeTagChip: {
+        flexDirection: 'row-reverse',
+        alignItems: 'center',
+        backgroundColor: '#00897B',
+        paddingHorizontal: 10,
+        paddingVertical: 4,
+        borderRadius: 16,
+        maxWidth: '100%',
+    },
+    activeTagText: {
+        color: '#FFFFFF',
+        fontSize: 13,
+        fontWeight: '600',
+        marginLeft: 6,
+        flexShrink: 1,
+    },
     reconnectText: {
         color: '#FFFFFF',
         fontSize: 12,
@@ -0,0 +1,329 @@
+// HistoryModal.tsx - Bottom sheet listing a note's saved versions with a diff and restore
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+    View,
+    Text,
+    StyleSheet,
+    Modal,
+    TouchableOpacity,
+    ScrollView,
+    ActivityIndicator,
+    useWindowDimensions
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useTranslation } from 'react-i18next';
+import { Ionicons } from '@expo/vector-icons';
+import { Note, NoteVersion } from '../types/Note';
+import StorageService from '../services/StorageService';
+import { diffLines, DiffLine } from '../utils/mergeUtils';
+import { getDirection } from '../utils/rtlUtils';
+
+interface HistoryModalProps {
+    visible: boolean;
+    note: Note | null;
+    /** Replace the note's current content with a version's content */
+    onRestore: (content: string) => void;
+    onClose: () => void;
+}
+
+// Unchanged lines kept around each change; longer unchanged runs fold into one row
+const CONTEXT_LINES = 2;
+
+type DiffRow = DiffLine | { type: 'skipped'; count: number };
+
+/** Keep a little context around each change and fold the rest */
+const foldUnchanged = (lines: DiffLine[]): DiffRow[] => {
+    const rows: DiffRow[] = [];
+    let i = 0;
+    while (i < lines.length) {
+        if (lines[i].type !== 'same') {
+            rows.push(lines[i++]);
+            continue;
+        }
+        let end = i;
+        while (end < lines.length && lines[end].type === 'same') end++;
+        const run = lines.slice(i, end);
+        const keepHead = i === 0 ? 0 : CONTEXT_LINES;
+        const keepTail = end === lines.length ? 0 : CONTEXT_LINES;
+        if (run.length > keepHead + keepTail + 1) {
+            rows.push(...run.slice(0, keepHead));
+            rows.push({ type: 'skipped', count: run.length - keepHead - keepTail });
+            rows.push(...run.slice(run.length - keepTail));
+        } else {
+            rows.push(...run);
+        }
+        i = end;
+    }
+    return rows;
+};
+
+export const HistoryModal: React.FC<HistoryModalProps> = ({ visible, note, onRestore, onClose }) => {
+    const { t, i18n } = useTranslation();
+    const { height: screenHeight } = useWindowDimensions();
+    const insets = useSafeAreaInsets();
+    const [versions, setVersions] = useState<NoteVersion[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [selected, setSelected] = useState<NoteVersion | null>(null);
+    const [selectedContent, setSelectedContent] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!visible || !note) return;
+        let cancelled = false;
+        setSelected(null);
+        setSelectedContent(null);
+        setIsLoading(true);
+        StorageService.listVersions(note)
+            .then((list) => { if (!cancelled) setVersions(list); })
+            .catch((error) => console.error('Error loading note history:', error))
+            .finally(() => { if (!cancelled) setIsLoading(false); });
+        return () => { cancelled = true; };
+    }, [visible, note?.id]);
+
+    const formatVersionDate = (date: Date) => {
+        const locale = i18n.language === 'he' ? 'he-IL' : 'en-US';
+        return date.toLocaleString(locale, {
+            day: 'numeric',
+            month: 'short',
+            year: 'numeric',
+            hour: '2-digit',
+            minute: '2-digit',
+        });
+    };
+
+    const handleSelect = async (version: NoteVersion) => {
+        if (!note) return;
+        if (selected?.id === version.id) {
+            setSelected(null);
+            return;
+        }
+        setSelected(version);
+        setSelectedContent(null);
+        try {
+            setSelectedContent(await StorageService.readVersion(note, version));
+        } catch (error) {
+            console.error('Error reading note version:', error);
+            setSelected(null);
+        }
+    };
+
+    // What restoring the selected version would change in the current note
+    const diffRows = useMemo(
+        () => (note && selectedContent !== null ? foldUnchanged(diffLines(note.content, selectedContent)) : []),
+        [note?.content, selectedContent]
+    );
+
+    const renderDiffRow = (row: DiffRow, index: number) => {
+        if (row.type === 'skipped') {
+            return (
+                <Text key={index} style={styles.skippedLine}>
+                    {t('history_unchanged_lines', { count: row.count })}
+                </Text>
+            );
+        }
+        return (
+            <Text
+                key={index}
+                style={[
+                    styles.diffLine,
+                    { writingDirection: getDirection(row.text) },
+                    row.type === 'added' && styles.addedLine,
+                    row.type === 'removed' && styles.removedLine,
+                ]}
+            >
+                {row.type === 'added' ? '+ ' : row.type === 'removed' ? '− ' : '  '}{row.text}
+            </Text>
+        );
+    };
+
+    return (
+        <Modal
+            visible={visible}
+            animationType="slide"
+            transparent={true}
+            onRequestClose={onClose}
+        >
+            <View style={styles.modalOverlay}>
+                <View style={[styles.modalContent, { maxHeight: screenHeight * 0.85, paddingBottom: Math.max(insets.bottom, 16) }]}>
+                    <View style={styles.header}>
+                        <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+                            <Ionicons name="close" size={24} color="#1A1A1A" />
+                        </TouchableOpacity>
+                        <Text style={styles.headerTitle}>{t('history_title')}</Text>
+                        <View style={styles.headerPlaceholder} />
+                    </View>
+
+                    {isLoading ? (
+                        <View style={styles.centerContainer}>
+                            <ActivityIndicator size="large" color="#000000" />
+                        </View>
+                    ) : versions.length === 0 ? (
+                        <View style={styles.centerContainer}>
+                            <Ionicons name="time-outline" size={64} color="#CCC" />
+                            <Text style={styles.emptyText}>{t('history_empty')}</Text>
+                        </View>
+                    ) : (
+                        <ScrollView contentContainerStyle={styles.listContent}>
+                            {versions.map((version) => {
+                                const isSelected = selected?.id === version.id;
+                                return (
+                                    <View key={version.id} style={styles.versionItem}>
+                                        <TouchableOpacity style={styles.versionHeader} onPress={() => handleSelect(version)}>
+                                            <Ionicons name="time-outline" size={18} color="#666" />
+                                            <Text style={styles.versionDate}>{formatVersionDate(version.createdAt)}</Text>
+                                            <Ionicons name={isSelected ? 'chevron-up' : 'chevron-down'} size={18} color="#999" />
+                                        </TouchableOpacity>
+
+                                        {isSelected && (
+                                            selectedContent === null ? (
+                                                <ActivityIndicator style={styles.diffLoader} color="#000000" />
+                                            ) : (
+                                                <>
+                                                    <Text style={styles.diffCaption}>{t('history_diff_caption')}</Text>
+                                                    <View style={styles.diffBox}>
+                                                        {diffRows.every((row) => row.type === 'same' || row.type === 'skipped')
+                                                            ? <Text style={styles.skippedLine}>{t('history_identical')}</Text>
+                                                            : diffRows.map(renderDiffRow)}
+                                                    </View>
+                                                    <TouchableOpacity
+                                                        style={styles.restoreButton}
+                                                        onPress={() => onRestore(selectedContent)}
+                                                    >
+                                                        <Ionicons name="arrow-undo-outline" size={18} color="#FFFFFF" />
+                                                        <Text style={styles.restoreText}>{t('history_restore')}</Text>
+                                                    </TouchableOpacity>
+                                                </>
+                                            )
+                                        )}
+                                    </View>
+                                );
+                            })}
+                        </ScrollView>
+                    )}
+                </View>
+            </View>
+        </Modal>
+    );
+};
+
+const styles = StyleSheet.create({
+    modalOverlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        justifyContent: 'flex-end', // Slide from bottom
+    },
+    modalContent: {
+        backgroundColor: '#F9F9F9',
+        borderTopLeftRadius: 24,
+        borderTopRightRadius: 24,
+        paddingTop: 8,
+        minHeight: 240,
+    },
+    header: {
+        flexDirection: 'row-reverse',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        paddingHorizontal: 20,
+        paddingVertical: 16,
+        borderBottomWidth: 1,
+        borderBottomColor: '#E0E0E0',
+        backgroundColor: '#FFFFFF',
+        borderTopLeftRadius: 24,
+        borderTopRightRadius: 24,
+    },
+    headerTitle: {
+        fontSize: 20,
+        fontWeight: 'bold',
+        color: '#1A1A1A',
+    },
+    closeButton: {
+        padding: 4,
+    },
+    headerPlaceholder: {
+        width: 32,
+    },
+    centerContainer: {
+        justifyContent: 'center',
+        alignItems: 'center',
+        padding: 40,
+    },
+    emptyText: {
+        fontSize: 18,
+        color: '#999',
+        marginTop: 16,
+        fontWeight: '500',
+        textAlign: 'center',
+    },
+    listContent: {
+        padding: 16,
+    },
+    versionItem: {
+        backgroundColor: '#FFFFFF',
+        borderRadius: 12,
+        marginBottom: 10,
+        padding: 12,
+        borderWidth: 1,
+        borderColor: '#EEE',
+    },
+    versionHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+    },
+    versionDate: {
+        flex: 1,
+        fontSize: 15,
+        color: '#1A1A1A',
+        fontWeight: '500',
+    },
+    diffLoader: {
+        marginVertical: 16,
+    },
+    diffCaption: {
+        fontSize: 12,
+        color: '#888',
+        marginTop: 12,
+        marginBottom: 6,
+    },
+    diffBox: {
+        borderRadius: 8,
+        backgroundColor: '#FAFAFA',
+        paddingVertical: 6,
+    },
+    diffLine: {
+        fontSize: 13,
+        lineHeight: 19,
+        color: '#444',
+        paddingHorizontal: 8,
+    },
+    addedLine: {
+        backgroundColor: 'rgba(76, 175, 80, 0.15)',
+        color: '#1B5E20',
+    },
+    removedLine: {
+        backgroundColor: 'rgba(244, 67, 54, 0.12)',
+        color: '#B71C1C',
+    },
+    skippedLine: {
+        fontSize: 12,
+        color: '#999',
+        fontStyle: 'italic',
+        paddingHorizontal: 8,
+        paddingVertical: 4,
+    },
+    restoreButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: 6,
+        marginTop: 12,
+        paddingVertical: 10,
+        borderRadius: 10,
+        backgroundColor: '#000000',
+    },
+    restoreText: {
+        color: '#FFFFFF',
+        fontSize: 15,
+        fontWeight: '600',
+    },
+});
@@ -0,0 +1,164 @@
+// ImageSourceSheet.tsx - Bottom sheet to attach an image to the open note
+// from the camera, the photo library or the file system. The image is saved
+// to the vault's attachment folder before it is handed to the editor.
+
+import React, { useState } from 'react';
+import {
+    View,
+    Text,
+    StyleSheet,
+    Modal,
+    TouchableOpacity,
+    ActivityIndicator,
+    Alert,
+    Platform,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useTranslation } from 'react-i18next';
+import { Ionicons } from '@expo/vector-icons';
+import { useNotesStore } from '../stores/notesStore';
+import AttachmentService, { ImageSource, SavedImage } from '../services/AttachmentService';
+import { DEFAULT_ATTACHMENT_FOLDER } from '../utils/attachmentUtils';
+import { RTL_TEXT_STYLE } from '../utils/rtlUtils';
+
+interface ImageSourceSheetProps {
+    visible: boolean;
+    /** Vault path of the note the image goes into, '' for a new note */
+    notePath: string;
+    onInsert: (image: SavedImage) => void;
+    onClose: () => void;
+}
+
+// The browser has no camera picker; the library opens the same file dialog
+const SOURCES: { source: ImageSource; icon: keyof typeof Ionicons.glyphMap }[] = Platform.OS === 'web'
+    ? [{ source: 'file', icon: 'folder-open-outline' }]
+    : [
+        { source: 'camera', icon: 'camera-outline' },
+        { source: 'library', icon: 'images-outline' },
+        { source: 'file', icon: 'folder-open-outline' },
+    ];
+
+export const ImageSourceSheet: React.FC<ImageSourceSheetProps> = ({ visible, notePath, onInsert, onClose }) => {
+    const { t } = useTranslation();
+    const insets = useSafeAreaInsets();
+    const attachmentFolder = useNotesStore((s) => s.settings.attachmentFolder) ?? DEFAULT_ATTACHMENT_FOLDER;
+    const [isSaving, setIsSaving] = useState(false);
+
+    const handlePick = async (source: ImageSource) => {
+        try {
+            const picked = await AttachmentService.pickImage(source);
+            if (!picked) return;
+            setIsSaving(true);
+            const saved = await AttachmentService.saveImage(picked, notePath, attachmentFolder);
+            onClose();
+            onInsert(saved);
+        } catch (error) {
+            console.error('Error attaching image:', error);
+            const message = (error as Error).message === 'camera_permission_denied'
+                ? t('camera_permission_denied')
+                : t('image_attach_failed');
+            Alert.alert(t('error'), message);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Modal
+            visible={visible}
+            animationType="slide"
+            transparent={true}
+            onRequestClose={onClose}
+        >
+            <TouchableOpacity activeOpacity={1} style={styles.modalOverlay} onPress={onClose}>
+                {/* Stop the sheet from receiving the backdrop tap. */}
+                <TouchableOpacity
+                    activeOpacity={1}
+                    onPress={() => {}}
+                    style={[styles.modalContent, { paddingBottom: Math.max(insets.bottom, 16) }]}
+                >
+                    <View style={styles.header}>
+                        <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+                            <Ionicons name="close" size={24} color="#1A1A1A" />
+                        </TouchableOpacity>
+                        <Text style={styles.headerTitle}>{t('image_source_title')}</Text>
+                        <View style={styles.headerPlaceholder}>
+                            {isSaving && <ActivityIndicator size="small" color="#000000" />}
+                        </View>
+                    </View>
+
+                    <View style={styles.listContent}>
+                        {SOURCES.map(({ source, icon }) => (
+                            <TouchableOpacity
+                                key={source}
+                                style={styles.sourceRow}
+                                onPress={() => handlePick(source)}
+                                disabled={isSaving}
+                            >
+                                <Ionicons name={icon} size={22} color="#1A1A1A" />
+                                <Text style={styles.sourceText}>{t(`image_source_${source}`)}</Text>
+                            </TouchableOpacity>
+                        ))}
+                    </View>
+                </TouchableOpacity>
+            </TouchableOpacity>
+        </Modal>
+    );
+};
+
+const styles = StyleSheet.create({
+    modalOverlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        justifyContent: 'flex-end', // Slide from bottom
+    },
+    modalContent: {
+        backgroundColor: '#F9F9F9',
+        borderTopLeftRadius: 24,
+        borderTopRightRadius: 24,
+        paddingTop: 8,
+    },
+    header: {
+        flexDirection: 'row-reverse',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        paddingHorizontal: 20,
+        paddingVertical: 16,
+        borderBottomWidth: 1,
+        borderBottomColor: '#E0E0E0',
+        backgroundColor: '#FFFFFF',
+        borderTopLeftRadius: 24,
+        borderTopRightRadius: 24,
+    },
+    headerTitle: {
+        fontSize: 20,
+        fontWeight: 'bold',
+        color: '#1A1A1A',
+    },
+    closeButton: {
+        padding: 4,
+    },
+    headerPlaceholder: {
+        width: 32,
+        alignItems: 'center',
+    },
+    listContent: {
+        padding: 16,
+        gap: 8,
+    },
+    sourceRow: {
+        flexDirection: 'row-reverse',
+        alignItems: 'center',
+        gap: 12,
+        paddingVertical: 14,
+        paddingHorizontal: 16,
+        borderRadius: 12,
+        backgroundColor: '#FFFFFF',
+    },
+    sourceText: {
+        flex: 1,
+        fontSize: 16,
+        color: '#1A1A1A',
+        ...RTL_TEXT_STYLE,
+    },
+});
@@ -0,0 +1,167 @@
+// ListViewModal.tsx - Bottom sheet to pick the sort order and sections of
+// the note list. The choice is kept per domain filter.
+
+import React from 'react';
+import {
+    View,
+    Text,
+    StyleSheet,
+    Modal,
+    TouchableOpacity,
+    ScrollView,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useTranslation } from 'react-i18next';
+import { Ionicons } from '@expo/vector-icons';
+import { ListViewSettings } from '../types/Note';
+import { SORT_MODES, GROUP_MODES } from '../utils/sortUtils';
+import { RTL_TEXT_STYLE } from '../utils/rtlUtils';
+
+interface ListViewModalProps {
+    visible: boolean;
+    view: ListViewSettings;
+    /** What the choice applies to, e.g. the domain being filtered */
+    scopeLabel: string;
+    onChange: (view: ListViewSettings) => void;
+    onClose: () => void;
+}
+
+export const ListViewModal: React.FC<ListViewModalProps> = ({ visible, view, scopeLabel, onChange, onClose }) => {
+    const { t } = useTranslation();
+    const insets = useSafeAreaInsets();
+
+    const renderOptions = <K extends keyof ListViewSettings>(key: K, options: ListViewSettings[K][]) => (
+        <View style={styles.optionRow}>
+            {options.map((option) => {
+                const isSelected = view[key] === option;
+                return (
+                    <TouchableOpacity
+                        key={option}
+                        style={[styles.optionChip, isSelected && styles.optionChipSelected]}
+                        onPress={() => onChange({ ...view, [key]: option })}
+                    >
+                        <Text style={[styles.optionChipText, isSelected && styles.optionChipTextSelected]}>
+                            {t(`list_${key}_${option}`)}
+                        </Text>
+                    </TouchableOpacity>
+                );
+            })}
+        </View>
+    );
+
+    return (
+        <Modal
+            visible={visible}
+            animationType="slide"
+            transparent={true}
+            onRequestClose={onClose}
+        >
+            <TouchableOpacity activeOpacity={1} style={styles.modalOverlay} onPress={onClose}>
+                {/* Stop the sheet from receiving the backdrop tap. */}
+                <TouchableOpacity
+                    activeOpacity={1}
+                    onPress={() => {}}
+                    style={[styles.modalContent, { paddingBottom: Math.max(insets.bottom, 16) }]}
+                >
+                    <View style={styles.header}>
+                        <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+                            <Ionicons name="close" size={24} color="#1A1A1A" />
+                        </TouchableOpacity>
+                        <Text style={styles.headerTitle}>{t('list_view_title')}</Text>
+                        <View style={styles.headerPlaceholder} />
+                    </View>
+
+                    <ScrollView contentContainerStyle={styles.listContent}>
+                        <Text style={styles.sectionTitle}>{t('list_sort')}</Text>
+                        {renderOptions('sort', SORT_MODES)}
+                        {view.sort === 'manual' && <Text style={styles.hint}>{t('list_sort_manual_hint')}</Text>}
+
+                        <Text style={styles.sectionTitle}>{t('list_group')}</Text>
+                        {renderOptions('group', GROUP_MODES)}
+
+                        <Text style={styles.hint}>{t('list_view_scope', { scope: scopeLabel })}</Text>
+                    </ScrollView>
+                </TouchableOpacity>
+            </TouchableOpacity>
+        </Modal>
+    );
+};
+
+const styles = StyleSheet.create({
+    modalOverlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        justifyContent: 'flex-end', // Slide from bottom
+    },
+    modalContent: {
+        backgroundColor: '#F9F9F9',
+        borderTopLeftRadius: 24,
+        borderTopRightRadius: 24,
+        paddingTop: 8,
+    },
+    header: {
+        flexDirection: 'row-reverse',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        paddingHorizontal: 20,
+        paddingVertical: 16,
+        borderBottomWidth: 1,
+        borderBottomColor: '#E0E0E0',
+        backgroundColor: '#FFFFFF',
+        borderTopLeftRadius: 24,
+        borderTopRightRadius: 24,
+    },
+    headerTitle: {
+        fontSize: 20,
+        fontWeight: 'bold',
+        color: '#1A1A1A',
+    },
+    closeButton: {
+        padding: 4,
+    },
+    headerPlaceholder: {
+        width: 32,
+    },
+    listContent: {
+        padding: 16,
+    },
+    sectionTitle: {
+        fontSize: 16,
+        fontWeight: '600',
+        color: '#1A1A1A',
+        marginBottom: 8,
+        ...RTL_TEXT_STYLE,
+    },
+    optionRow: {
+        flexDirection: 'row-reverse',
+        flexWrap: 'wrap',
+        gap: 8,
+        marginBottom: 16,
+    },
+    optionChip: {
+        paddingVertical: 8,
+        paddingHorizontal: 14,
+        borderRadius: 16,
+        borderWidth: 1,
+        borderColor: '#000000',
+        backgroundColor: '#FFFFFF',
+    },
+    optionChipSelected: {
+        backgroundColor: '#000000',
+    },
+    optionChipText: {
+        color: '#000000',
+        fontSize: 14,
+        fontWeight: '500',
+    },
+    optionChipTextSelected: {
+        color: '#FFFFFF',
+    },
+    hint: {
+        fontSize: 13,
+        color: '#888',
+        marginTop: -8,
+        marginBottom: 16,
+        ...RTL_TEXT_STYLE,
+    },
+});
@@ -1,7 +1,7 @@
 // NoteCard.tsx - Expandable inline note card
 // Tap to expand/view, Long press to edit, auto-save on blur
 
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import {
     View,
     Text,
@@ -19,13 +19,17 @@ import {
 } from 'react-native';
 import { useTranslation } from 'react-i18next';
 import { Ionicons, MaterialCommunityIcons } from '@expo/vector-icons';
-import { Note, DOMAINS, DomainType } from '../types/Note';
+import { Note, DomainType } from '../types/Note';
 import { useNotesStore } from '../stores/notesStore';
+import { useDomains } from '../hooks/useDomains';
 import FrontmatterService, { getContentWithoutFrontmatter, updateFrontmatter, removeFrontmatterKey } from '../services/FrontmatterService';
+import SearchService from '../services/SearchService';
 import { DomainSelector } from './DomainSelector';
 import { UnifiedMarkdownDisplay } from './UnifiedMarkdownDisplay';
+import { LinkedMentions } from './NoteLinks';
 import { SmartEditor, SmartEditorRef } from './SmartEditor';
 import { getDirection, RTL_TEXT_STYLE } from '../utils/rtlUtils';
+import { findDomain, getDomainLabel } from '../utils/domainUtils';
 import { handleListContinuation, toggleCheckboxByIndex, appendChecklistItem } from '../utils/markdownUtils';
 import {
     CARD_RADIUS,
@@ -71,6 +75,12 @@ interface NoteCardProps {
     onEditRequest?: () => void; // Request external editing instead of inline
     onQuickAddRequest?: () => void; // Request external editing + append checklist item
     onEditorReady?: () => void; // Fired when the rich text editor WebView is initialized
+    onWikilinkPress?: (target: string) => void; // A [[wikilink]] in the body was tapped
+    onOpenNote?: (note: Note) => void; // A linked mention (backlink) was tapped
+    searchQuery?: string; // Active search: show the matching passages instead of the preview
+    searchMatches?: number[][]; // Where the search matched, as ranges of note.content; found here when not given
+    onSnippetPress?: (start: number, end: number) => void; // A passage was tapped; offsets of its first match in note.content
+    dateField?: 'created' | 'updated'; // Which date the card shows; follows the list's sort
     style?: StyleProp<ViewStyle>;
 }
 
@@ -142,11 +152,27 @@ const renderInlineMarkdown = (text: string): React.ReactNode => {
     return out;
 };
 
-const NoteCardImpl: React.FC<NoteCardProps> = ({ note, onPress, onUpdate, onDismissKeyboard, onSync, onArchive, onEditStart, onEditEnd, onEditContentChange, onEditSelectionChange, onStatusChange, externalEditContent, externalIsPinned, maxEditHeight, editorHorizontalInset = 64, autoEdit, forceExitEdit, onEditRequest, onQuickAddRequest, onEditorReady, style }) => {
+// Wrap the [start, end] (end inclusive) ranges of `text` in highlight spans
+const renderHighlighted = (text: string, indices: number[][]): React.ReactNode => {
+    if (indices.length === 0) return text;
+    const out: React.ReactNode[] = [];
+    let lastEnd = 0;
+    indices.forEach(([start, end]) => {
+        if (start < lastEnd) return;
+        if (start > lastEnd) out.push(text.substring(lastEnd, start));
+        out.push(<Text key={start} style={styles.highlight}>{text.substring(start, end + 1)}</Text>);
+        lastEnd = end + 1;
+    });
+    if (lastEnd < text.length) out.push(text.substring(lastEnd));
+    return out;
+};
+
+const NoteCardImpl: React.FC<NoteCardProps> = ({ note, onPress, onUpdate, onDismissKeyboard, onSync, onArchive, onEditStart, onEditEnd, onEditContentChange, onEditSelectionChange, onStatusChange, externalEditContent, externalIsPinned, maxEditHeight, editorHorizontalInset = 64, autoEdit, forceExitEdit, onEditRequest, onQuickAddRequest, onEditorReady, onWikilinkPress, onOpenNote, searchQuery, searchMatches, onSnippetPress, dateField = 'updated', style }) => {
     const { t, i18n } = useTranslation();
     // Subscribe to the textScale setting so the card re-renders when the
     // user drags the slider on the Settings screen.
     const textScale = useNotesStore((s) => s.settings.textScale);
+    const domainConfig = findDomain(useDomains(), note.domain);
     // Parse content upfront for autoEdit mode
     const initialParsed = autoEdit ? FrontmatterService.parseFrontmatter(note.content) : null;
 
@@ -251,10 +277,35 @@ const NoteCardImpl: React.FC<NoteCardProps> = ({ note, onPress, onUpdate, onDism
     const preview = cleanBody.substring(0, 120);
     const hasMore = cleanBody.length > 120;
 
+    // Search-result mode: highlighted title, the best matching passages of
+    // the body and how often the query occurs
+    const activeQuery = !isEditing ? searchQuery?.trim() ?? '' : '';
+    const search = useMemo(() => {
+        if (!activeQuery) return null;
+        const matches = searchMatches ?? SearchService.getMatches(note.content, activeQuery);
+        const bodyStart = note.content.length - displayContent.length;
+        // The heading is highlighted in place; skip passages matching only there
+        const headingEnd = bodyStart + (hasTitle ? firstLine.length : 0);
+        const titleStart = bodyStart + firstLine.indexOf(title);
+        return {
+            titleMatches: hasTitle
+                ? matches
+                    .filter(([start]) => start < headingEnd)
+                    .map(([start, end]) => [start - titleStart, end - titleStart])
+                : [],
+            snippets: SearchService.getSnippets(note, matches)
+                .filter((snippet) => snippet.start + snippet.indices[snippet.indices.length - 1][0] >= headingEnd),
+            matchCount: matches.length,
+            bodyStart,
+        };
+    }, [activeQuery, searchMatches, note]);
+    const showSnippets = !!search && !isExpanded && search.snippets.length > 0;
+
     const syncStatusColor = {
         synced: '#4CAF50',
         pending: '#FF9800',
         error: '#F44336',
+        conflict: '#FB8C00',
     }[note.syncStatus];
 
     // Format timestamp
@@ -314,7 +365,7 @@ const NoteCardImpl: React.FC<NoteCardProps> = ({ note, onPress, onUpdate, onDism
 
     // Handle blur - save and exit
     const handleBlur = () => {
-        const fullContent = FrontmatterService.composeContent(editFrontmatter, editBody);
+        const fullContent = FrontmatterService.composeContent(editFrontmatter, editBody, note.content);
         if (isEditing && fullContent !== note.content) {
             onUpdate(fullContent);
         }
@@ -336,7 +387,7 @@ const NoteCardImpl: React.FC<NoteCardProps> = ({ note, onPress, onUpdate, onDism
             delete finalFrontmatter.pinned;
         }
 
-        const fullContent = FrontmatterService.composeContent(finalFrontmatter, editBody);
+        const fullContent = FrontmatterService.composeContent(finalFrontmatter, editBody, note.content);
 
         // Always update if the pin state changed from original, even if strings somehow match
         if (isEditing && (fullContent !== note.content || isPinned !== !!note.pinned)) {
@@ -358,7 +409,7 @@ const NoteCardImpl: React.FC<NoteCardProps> = ({ note, onPress, onUpdate, onDism
     useEffect(() => {
         if (forceExitEdit && isEditing) {
             // Save content if changed, but don't call onEditEnd (parent already knows)
-            const fullContent = FrontmatterService.composeContent(editFrontmatter, editBody);
+            const fullContent = FrontmatterService.composeContent(editFrontmatter, editBody, note.content);
             if (fullContent !== note.content) {
                 onUpdate(fullContent);
             }
@@ -494,19 +545,19 @@ const NoteCardImpl: React.FC<NoteCardProps> = ({ note, onPress, onUpdate, onDism
                                 hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
                                 style={[
                                     styles.domainChip,
-                                    note.domain && DOMAINS[note.domain] ? {
+                                    domainConfig ? {
                                         backgroundColor: DOMAIN_CHIP_USES_TINT
-                                            ? DOMAINS[note.domain].color + '20'
+                                            ? domainConfig.color + '20'
                                             : '#FFFFFF',
-                                        borderColor: DOMAINS[note.domain].color
+                                        borderColor: domainConfig.color
                                     } : (isEditing ? styles.domainEditButton : {})
                                 ]}
                             >
                                 <Text style={[
                                     styles.domainText,
-                                    note.domain && DOMAINS[note.domain] ? { color: DOMAINS[note.domain].color } : styles.domainEditPlaceholder
+                                    domainConfig ? { color: domainConfig.color } : styles.domainEditPlaceholder
                                 ]}>
-                                    {note.domain ? t(`domain_${note.domain}`) : t('add_domain')}
+                                    {note.domain ? getDomainLabel(t, note.domain) : t('add_domain')}
                                 </Text>
                             </TouchableOpacity>
                         )}
@@ -521,7 +572,7 @@ const NoteCardImpl: React.FC<NoteCardProps> = ({ note, onPress, onUpdate, onDism
                                         const newFrontmatter = { ...editFrontmatter, pinned: newPinned };
                                         setEditFrontmatter(newFrontmatter);
     
-                                        const fullContent = FrontmatterService.composeContent(newFrontmatter, editBody);
+                                        const fullContent = FrontmatterService.composeContent(newFrontmatter, editBody, note.content);
     
                                         // Force immediate save for metadata changes
                                         onUpdate(fullContent);
@@ -537,8 +588,30 @@ const NoteCardImpl: React.FC<NoteCardProps> = ({ note, onPress, onUpdate, onDism
                                 />
                             </TouchableOpacity>
                         )}
+                        {note.syncStatus === 'conflict' && (
+                            <Ionicons name="git-compare-outline" size={16} color={syncStatusColor} style={styles.pinIcon} />
+                        )}
+                        {/* Saved locally, waiting for the vault to be reachable */}
+                        {note.syncStatus === 'pending' && (
+                            <Ionicons
+                                name="cloud-upload-outline"
+                                size={16}
+                                color={syncStatusColor}
+                                style={styles.pinIcon}
+                                accessibilityLabel={t('sync_pending')}
+                            />
+                        )}
+                        {note.syncStatus === 'error' && (
+                            <Ionicons
+                                name="cloud-offline-outline"
+                                size={16}
+                                color={syncStatusColor}
+                                style={styles.pinIcon}
+                                accessibilityLabel={t('sync_error')}
+                            />
+                        )}
                         <Text style={styles.timestamp}>
-                            {formatTimestamp(note.updatedAt)}
+                            {formatTimestamp(dateField === 'created' ? note.createdAt : note.updatedAt)}
                         </Text>
     
                         {/* On web there are no inline buttons — archive is the
@@ -570,7 +643,7 @@ const NoteCardImpl: React.FC<NoteCardProps> = ({ note, onPress, onUpdate, onDism
                             setEditFrontmatter(newFrontmatter);
                             setShowDomainSelector(false);
     
-                            const fullContent = FrontmatterService.composeContent(newFrontmatter, editBody);
+                            const fullContent = FrontmatterService.composeContent(newFrontmatter, editBody, note.content);
                             onUpdate(fullContent);
                         }}
                         mode="select"
@@ -594,6 +667,7 @@ const NoteCardImpl: React.FC<NoteCardProps> = ({ note, onPress, onUpdate, onDism
                         <SmartEditor
                             ref={handleEditorRef}
                             initialContent={editBody}
+                            notePath={note.id}
                             selection={editSelection}
                             onChange={handleTextChangeWithListContinuation}
                             onSelectionChange={(e: any) => {
@@ -609,7 +683,7 @@ const NoteCardImpl: React.FC<NoteCardProps> = ({ note, onPress, onUpdate, onDism
                         />
                     </View>
                 ) : (
-                    <View style={!isExpanded ? { maxHeight: 100, overflow: 'hidden' } : undefined}>
+                    <View style={!isExpanded && !showSnippets ? { maxHeight: 100, overflow: 'hidden' } : undefined}>
                         {/* Title — renders inline markdown (`**bold**`,
                             `*italic*`, etc.) as styled spans instead of
                             leaking the raw markers into the card. */}
@@ -622,22 +696,55 @@ const NoteCardImpl: React.FC<NoteCardProps> = ({ note, onPress, onUpdate, onDism
                                     paragraphs containing Hebrew runs, which
                                     misplaces trailing punctuation/digits. */}
                                 {getDirection(title) === 'rtl' ? '‏' : '‎'}
-                                {renderInlineMarkdown(title)}
+                                {search && search.titleMatches.length > 0
+                                    ? renderHighlighted(title, search.titleMatches)
+                                    : renderInlineMarkdown(title)}
                             </Text>
                         )}
+                        {/* Search matches — tapping one opens the editor there */}
+                        {showSnippets && search && (
+                            <View style={styles.snippets}>
+                                {search.snippets.map((snippet) => (
+                                    <TouchableOpacity
+                                        key={snippet.start}
+                                        disabled={!onSnippetPress}
+                                        onPress={() => {
+                                            const [start, end] = snippet.indices[0];
+                                            onSnippetPress?.(snippet.start + start, snippet.start + end + 1);
+                                        }}
+                                    >
+                                        <Text
+                                            style={[styles.snippet, { fontSize: 14 * textScale, textAlign: getDirection(snippet.text) === 'rtl' ? 'right' : 'left', writingDirection: getDirection(snippet.text) }]}
+                                            numberOfLines={3}
+                                        >
+                                            {snippet.start > search.bodyStart ? '…' : ''}
+                                            {renderHighlighted(snippet.text, snippet.indices)}
+                                            {snippet.end < note.content.length ? '…' : ''}
+                                        </Text>
+                                    </TouchableOpacity>
+                                ))}
+                            </View>
+                        )}
                         {/* Body preview */}
-                        <View style={!isExpanded ? { maxHeight: 120, overflow: 'hidden' } : undefined}>
-                            <UnifiedMarkdownDisplay
-                                content={bodyContent}
-                                scale={textScale}
-                                onToggleCheckbox={isExpanded && !isEditing ? (index) => {
-                                    const newContent = toggleCheckboxByIndex(note.content, index);
-                                    if (newContent !== note.content) {
-                                        onUpdate(newContent);
-                                    }
-                                } : undefined}
-                            />
-                        </View>
+                        {!showSnippets && (
+                            <View style={!isExpanded ? { maxHeight: 120, overflow: 'hidden' } : undefined}>
+                                <UnifiedMarkdownDisplay
+                                    content={bodyContent}
+                                    notePath={note.id}
+                                    scale={textScale}
+                                    onWikilinkPress={onWikilinkPress}
+                                    onToggleCheckbox={isExpanded && !isEditing ? (index) => {
+                                        const newContent = toggleCheckboxByIndex(note.content, index);
+                                        if (newContent !== note.content) {
+                                            onUpdate(newContent);
+                                        }
+                                    } : undefined}
+                                />
+                            </View>
+                        )}
+                        {search && search.matchCount > 0 && !isExpanded && (
+                            <Text style={styles.matchCount}>{t('search_match_count', { count: search.matchCount })}</Text>
+                        )}
                         {/* gradientOverlay (the white fade at the bottom
                             of long collapsed notes) was removed — content
                             now hard-clips at the maxHeight so the user
@@ -664,6 +771,11 @@ const NoteCardImpl: React.FC<NoteCardProps> = ({ note, onPress, onUpdate, onDism
                     </View>
                 )}
     
+                {/* Linked mentions — other notes linking here */}
+                {isExpanded && !isEditing && onOpenNote && (
+                    <LinkedMentions noteId={note.id} onOpenNote={onOpenNote} />
+                )}
+    
                 {/* Tags */}
                 {note.tags && note.tags.length > 0 && !isEditing && (
                     <View style={styles.tagsContainer}>
@@ -695,6 +807,10 @@ const NoteCardImpl: React.FC<NoteCardProps> = ({ note, onPress, onUpdate, onDism
 // by the parent on every render — comparing by identity would defeat memo
 // and re-render every card on every keystroke / search input / modal toggle.
 // Style is also intentionally skipped as it is typically an inline object.
+// Search matches are recomputed for every list update; compare their values
+const areRangesEqual = (a?: number[][], b?: number[][]): boolean =>
+    a === b || (!!a && !!b && a.length === b.length && a.every((range, i) => range[0] === b[i][0] && range[1] === b[i][1]));
+
 const arePropsEqual = (prev: NoteCardProps, next: NoteCardProps): boolean => {
     if (prev.note !== next.note) return false;
     if (prev.externalEditContent !== next.externalEditContent) return false;
@@ -703,6 +819,9 @@ const arePropsEqual = (prev: NoteCardProps, next: NoteCardProps): boolean => {
     if (prev.editorHorizontalInset !== next.editorHorizontalInset) return false;
     if (prev.autoEdit !== next.autoEdit) return false;
     if (prev.forceExitEdit !== next.forceExitEdit) return false;
+    if (prev.searchQuery !== next.searchQuery) return false;
+    if (!areRangesEqual(prev.searchMatches, next.searchMatches)) return false;
+    if (prev.dateField !== next.dateField) return false;
     return true;
 };
 
@@ -811,6 +930,25 @@ const styles = StyleSheet.create({
         // textAlign/writingDirection removed here to be dynamic in render
         marginBottom: 6,
     },
+    highlight: {
+        backgroundColor: '#FFE58F',
+        color: '#1A1A1A',
+    },
+    snippets: {
+        marginTop: 2,
+    },
+    snippet: {
+        fontSize: 14,
+        color: '#333333',
+        lineHeight: 20,
+        paddingVertical: 4,
+    },
+    matchCount: {
+        fontSize: 12,
+        color: '#888888',
+        marginTop: 6,
+        ...RTL_TEXT_STYLE,
+    },
     preview: {
         fontSize: 15,
         color: '#333333',
@@ -0,0 +1,213 @@
+// NoteLinks.tsx - Backlinks ("linked mentions") panel and the editor's link bar
+
+import React, { useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, StyleSheet } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { Ionicons } from '@expo/vector-icons';
+import { Note } from '../types/Note';
+import { useNotesStore } from '../stores/notesStore';
+import LinkService, { parseWikilinks } from '../services/LinkService';
+import { getFileName } from '../utils/pathUtils';
+import { getDirection } from '../utils/rtlUtils';
+
+const LINK_COLOR = '#6A1B9A';
+
+// Show `[[Target|alias]]` as its visible label in context snippets
+const stripWikilinkSyntax = (text: string): string =>
+    text.replace(/\[\[([^\]|]+)\|([^\]]+)\]\]/g, '$2').replace(/\[\[([^\]]+)\]\]/g, '$1');
+
+/**
+ * Re-read backlinks whenever the notes change. The link index is rebuilt
+ * together with the search index, so subscribing to `notes` is enough.
+ */
+const useBacklinks = (noteId: string) => {
+    const notes = useNotesStore((s) => s.notes);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    return useMemo(() => LinkService.getBacklinks(noteId), [noteId, notes]);
+};
+
+interface LinkedMentionsProps {
+    noteId: string;
+    onOpenNote: (note: Note) => void;
+    /** Start with the list open (the header still toggles it) */
+    initiallyExpanded?: boolean;
+    /** Cap the list height; scrolls beyond it */
+    maxHeight?: number;
+}
+
+/**
+ * Collapsible list of notes that link to `noteId`, each with the line the
+ * link appears on. Renders nothing when the note has no backlinks.
+ */
+export const LinkedMentions: React.FC<LinkedMentionsProps> = ({ noteId, onOpenNote, initiallyExpanded = false, maxHeight }) => {
+    const { t } = useTranslation();
+    const backlinks = useBacklinks(noteId);
+    const [expanded, setExpanded] = useState(initiallyExpanded);
+
+    if (backlinks.length === 0) return null;
+
+    return (
+        <View style={styles.mentions}>
+            <TouchableOpacity style={styles.mentionsHeader} onPress={() => setExpanded(!expanded)}>
+                <Ionicons name="return-down-back" size={16} color={LINK_COLOR} />
+                <Text style={styles.mentionsTitle}>{t('linked_mentions', { count: backlinks.length })}</Text>
+                <Ionicons name={expanded ? 'chevron-up' : 'chevron-down'} size={16} color="#999" />
+            </TouchableOpacity>
+            {expanded && (
+                <ScrollView style={maxHeight ? { maxHeight } : undefined} nestedScrollEnabled>
+                    {backlinks.map(({ note, context }) => {
+                        const snippet = stripWikilinkSyntax(context);
+                        const direction = getDirection(snippet || note.title);
+                        const align = direction === 'rtl' ? 'right' : 'left';
+                        return (
+                            <TouchableOpacity key={note.id} style={styles.mentionItem} onPress={() => onOpenNote(note)}>
+                                <Text style={[styles.mentionNote, { textAlign: align }]} numberOfLines={1}>
+                                    {note.title}
+                                </Text>
+                                {!!snippet && (
+                                    <Text style={[styles.mentionContext, { textAlign: align, writingDirection: direction }]} numberOfLines={2}>
+                                        {snippet}
+                                    </Text>
+                                )}
+                            </TouchableOpacity>
+                        );
+                    })}
+                </ScrollView>
+            )}
+        </View>
+    );
+};
+
+interface NoteLinksBarProps {
+    /** Note being edited */
+    noteId: string;
+    /** Current editor markdown, used for the outgoing link chips */
+    text: string;
+    onWikilinkPress: (target: string) => void;
+    onOpenNote: (note: Note) => void;
+    onRename?: () => void;
+}
+
+/**
+ * Strip under the editor: the note's file name (tap to rename), chips for
+ * every outgoing `[[link]]`, and the linked mentions list.
+ */
+export const NoteLinksBar: React.FC<NoteLinksBarProps> = ({ noteId, text, onWikilinkPress, onOpenNote, onRename }) => {
+    const outgoing = useMemo(() => {
+        const seen = new Set<string>();
+        return parseWikilinks(text).filter((link) => {
+            const key = link.target.toLowerCase();
+            if (seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        });
+    }, [text]);
+
+    return (
+        <View style={styles.bar}>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.barRow} keyboardShouldPersistTaps="handled">
+                <TouchableOpacity style={styles.fileChip} onPress={onRename} disabled={!onRename}>
+                    <Ionicons name="document-text-outline" size={14} color="#666" />
+                    <Text style={styles.fileText} numberOfLines={1}>{getFileName(noteId).replace(/\.md$/, '')}</Text>
+                    {onRename && <Ionicons name="pencil" size={12} color="#999" />}
+                </TouchableOpacity>
+                {outgoing.map((link) => {
+                    const exists = !!LinkService.resolve(link.target, noteId);
+                    return (
+                        <TouchableOpacity
+                            key={link.target}
+                            style={[styles.linkChip, !exists && styles.linkChipMissing]}
+                            onPress={() => onWikilinkPress(link.target)}
+                        >
+                            <Ionicons name={exists ? 'link' : 'add'} size={14} color={LINK_COLOR} />
+                            <Text style={styles.linkText} numberOfLines={1}>{link.target}</Text>
+                        </TouchableOpacity>
+                    );
+                })}
+            </ScrollView>
+            <LinkedMentions noteId={noteId} onOpenNote={onOpenNote} maxHeight={160} />
+        </View>
+    );
+};
+
+const styles = StyleSheet.create({
+    mentions: {
+        marginTop: 12,
+        borderTopWidth: 1,
+        borderTopColor: '#F0F0F0',
+        paddingTop: 8,
+    },
+    mentionsHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+        paddingVertical: 4,
+    },
+    mentionsTitle: {
+        flex: 1,
+        fontSize: 13,
+        fontWeight: '600',
+        color: LINK_COLOR,
+    },
+    mentionItem: {
+        paddingVertical: 6,
+        paddingHorizontal: 8,
+        marginTop: 4,
+        borderRadius: 8,
+        backgroundColor: '#F7F2FA',
+    },
+    mentionNote: {
+        fontSize: 14,
+        fontWeight: '600',
+        color: '#1A1A1A',
+    },
+    mentionContext: {
+        fontSize: 13,
+        color: '#666',
+        marginTop: 2,
+    },
+    bar: {
+        paddingHorizontal: 16,
+        paddingTop: 6,
+    },
+    barRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+    },
+    fileChip: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+        paddingHorizontal: 10,
+        paddingVertical: 4,
+        borderRadius: 14,
+        backgroundColor: '#F0F0F0',
+        maxWidth: 220,
+    },
+    fileText: {
+        fontSize: 12,
+        color: '#666',
+        flexShrink: 1,
+    },
+    linkChip: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+        paddingHorizontal: 10,
+        paddingVertical: 4,
+        borderRadius: 14,
+        borderWidth: 1,
+        borderColor: LINK_COLOR,
+        maxWidth: 200,
+    },
+    linkChipMissing: {
+        borderStyle: 'dashed',
+        opacity: 0.7,
+    },
+    linkText: {
+        fontSize: 12,
+        color: LINK_COLOR,
+        flexShrink: 1,
+    },
+});
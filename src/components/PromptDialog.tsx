@@ -0,0 +1,136 @@
+// PromptDialog.tsx - Small centered dialog for confirmations and one-line input
+// Custom instead of Alert.alert/Alert.prompt: those are inconsistent on
+// react-native-web and Alert.prompt does not exist on Android.
+
+import React, { useEffect, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, Modal, StyleSheet } from 'react-native';
+import { useTranslation } from 'react-i18next';
+
+interface PromptDialogProps {
+    visible: boolean;
+    title: string;
+    message?: string;
+    /** When set, shows a text input prefilled with this value */
+    defaultValue?: string;
+    confirmLabel: string;
+    onConfirm: (value: string) => void;
+    onCancel: () => void;
+}
+
+export const PromptDialog: React.FC<PromptDialogProps> = ({ visible, title, message, defaultValue, confirmLabel, onConfirm, onCancel }) => {
+    const { t } = useTranslation();
+    const [value, setValue] = useState(defaultValue ?? '');
+    const hasInput = defaultValue !== undefined;
+
+    // Reset the field every time the dialog opens
+    useEffect(() => {
+        if (visible) setValue(defaultValue ?? '');
+    }, [visible, defaultValue]);
+
+    const canConfirm = !hasInput || value.trim().length > 0;
+
+    return (
+        <Modal visible={visible} transparent animationType="fade" onRequestClose={onCancel}>
+            <TouchableOpacity activeOpacity={1} style={styles.backdrop} onPress={onCancel}>
+                {/* Stop the inner card from receiving the backdrop tap. */}
+                <TouchableOpacity activeOpacity={1} onPress={() => {}} style={styles.dialog}>
+                    <Text style={styles.title}>{title}</Text>
+                    {!!message && <Text style={styles.message}>{message}</Text>}
+                    {hasInput && (
+                        <TextInput
+                            style={styles.input}
+                            value={value}
+                            onChangeText={setValue}
+                            autoFocus
+                            selectTextOnFocus
+                            autoCapitalize="none"
+                            autoCorrect={false}
+                            onSubmitEditing={() => canConfirm && onConfirm(value.trim())}
+                        />
+                    )}
+                    <View style={styles.buttonsRow}>
+                        <TouchableOpacity style={styles.button} onPress={onCancel}>
+                            <Text style={styles.buttonText}>{t('cancel')}</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                            style={[styles.button, !canConfirm && styles.buttonDisabled]}
+                            onPress={() => onConfirm(value.trim())}
+                            disabled={!canConfirm}
+                        >
+                            <Text style={styles.buttonText}>{confirmLabel}</Text>
+                        </TouchableOpacity>
+                    </View>
+                </TouchableOpacity>
+            </TouchableOpacity>
+        </Modal>
+    );
+};
+
+const styles = StyleSheet.create({
+    backdrop: {
+        flex: 1,
+        backgroundColor: 'rgba(0,0,0,0.45)',
+        justifyContent: 'center',
+        alignItems: 'center',
+        padding: 20,
+    },
+    dialog: {
+        width: '100%',
+        maxWidth: 360,
+        backgroundColor: '#FFFFFF',
+        borderRadius: 16,
+        padding: 24,
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 4 },
+        shadowOpacity: 0.18,
+        shadowRadius: 16,
+        elevation: 6,
+    },
+    title: {
+        fontSize: 18,
+        fontWeight: '700',
+        color: '#1A1A1A',
+        marginBottom: 8,
+        textAlign: 'center',
+    },
+    message: {
+        fontSize: 14,
+        color: '#555',
+        lineHeight: 20,
+        marginBottom: 16,
+        textAlign: 'center',
+    },
+    input: {
+        borderWidth: 1,
+        borderColor: '#DDD',
+        borderRadius: 10,
+        paddingHorizontal: 12,
+        paddingVertical: 10,
+        fontSize: 15,
+        color: '#1A1A1A',
+        marginBottom: 20,
+        textAlign: 'auto',
+    },
+    buttonsRow: {
+        flexDirection: 'row',
+        gap: 12,
+    },
+    button: {
+        flex: 1,
+        paddingVertical: 12,
+        borderRadius: 10,
+        alignItems: 'center',
+        justifyContent: 'center',
+        backgroundColor: '#FFFFFF',
+        borderWidth: 1,
+        borderColor: '#000000',
+    },
+    buttonDisabled: {
+        opacity: 0.4,
+    },
+    buttonText: {
+        color: '#000000',
+        fontSize: 15,
+        fontWeight: '600',
+    },
+});
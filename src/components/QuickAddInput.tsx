@@ -21,6 +21,8 @@ import { SURROUND_COLOR, CHROME_FULL_WIDTH } from '../theme/listExperiment';
 interface QuickAddInputProps {
     text: string;
     isSending: boolean;
+    /** Sending appends to today's daily note rather than creating a note */
+    isDailyMode?: boolean;
     bottomPadding: number;
     onOpenModal: () => void;
     onSend: () => void;
@@ -29,6 +31,7 @@ interface QuickAddInputProps {
 export const QuickAddInput: React.FC<QuickAddInputProps> = ({
     text,
     isSending,
+    isDailyMode = false,
     bottomPadding,
     onOpenModal,
     onSend,
@@ -53,8 +56,9 @@ export const QuickAddInput: React.FC<QuickAddInputProps> = ({
                     outer Pressable handles taps on it (and on the gray
                     around it) uniformly. */}
                 <View style={styles.fakeInput}>
-                    <Text style={previewText ? styles.previewText : styles.placeholder} numberOfLines={1}>
-                        {previewText ?? t('add_note_placeholder')}
+                    {isDailyMode && <Ionicons name="calendar-outline" size={16} color="#666" />}
+                    <Text style={[previewText ? styles.previewText : styles.placeholder, styles.inputText]} numberOfLines={1}>
+                        {previewText ?? t(isDailyMode ? 'add_to_daily_placeholder' : 'add_note_placeholder')}
                     </Text>
                 </View>
 
@@ -102,7 +106,12 @@ const styles = StyleSheet.create({
         borderColor: '#E4E6EB',
         paddingHorizontal: 16,
         paddingVertical: 12,
-        justifyContent: 'center',
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+    },
+    inputText: {
+        flex: 1,
     },
     placeholder: {
         color: '#A9A9A9',
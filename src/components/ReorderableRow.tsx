@@ -0,0 +1,85 @@
+// ReorderableRow.tsx - List row with a drag handle for the manual sort.
+// The row follows the finger while the handle is held; on release the list
+// gets the distance dragged and works out the new position from its row
+// heights.
+
+import React, { useMemo, useRef, useState } from 'react';
+import { Animated, PanResponder, StyleSheet, View, LayoutChangeEvent, StyleProp, ViewStyle } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+interface ReorderableRowProps {
+    /** Shows the handle; rows without it are laid out as plain Views */
+    enabled: boolean;
+    onDragStart: () => void;
+    /** Vertical distance the row was dragged, negative upwards */
+    onDragEnd: (dy: number) => void;
+    onLayout?: (event: LayoutChangeEvent) => void;
+    style?: StyleProp<ViewStyle>;
+    children: React.ReactNode;
+}
+
+export const ReorderableRow: React.FC<ReorderableRowProps> = ({ enabled, onDragStart, onDragEnd, onLayout, style, children }) => {
+    const translateY = useRef(new Animated.Value(0)).current;
+    const [isDragging, setIsDragging] = useState(false);
+    // The responder is created once; read the latest callbacks through a ref
+    const callbacks = useRef({ onDragStart, onDragEnd });
+    callbacks.current = { onDragStart, onDragEnd };
+
+    const panResponder = useMemo(() => {
+        const finish = (dy: number) => {
+            setIsDragging(false);
+            translateY.setValue(0);
+            callbacks.current.onDragEnd(dy);
+        };
+        return PanResponder.create({
+            onStartShouldSetPanResponder: () => true,
+            onMoveShouldSetPanResponder: () => true,
+            // Keep the drag when the list or a swipeable would take over
+            onPanResponderTerminationRequest: () => false,
+            onPanResponderGrant: () => {
+                setIsDragging(true);
+                callbacks.current.onDragStart();
+            },
+            onPanResponderMove: Animated.event([null, { dy: translateY }], { useNativeDriver: false }),
+            onPanResponderRelease: (_event, gesture) => finish(gesture.dy),
+            onPanResponderTerminate: (_event, gesture) => finish(gesture.dy),
+        });
+    }, [translateY]);
+
+    if (!enabled) {
+        return <View style={style} onLayout={onLayout}>{children}</View>;
+    }
+
+    return (
+        <Animated.View
+            style={[style, isDragging && styles.dragging, { transform: [{ translateY }] }]}
+            onLayout={onLayout}
+        >
+            {children}
+            <View style={styles.handle} {...panResponder.panHandlers}>
+                <Ionicons name="reorder-three" size={22} color={isDragging ? '#1A1A1A' : '#999'} />
+            </View>
+        </Animated.View>
+    );
+};
+
+const styles = StyleSheet.create({
+    dragging: {
+        zIndex: 100,
+        elevation: 8,
+        opacity: 0.9,
+        shadowColor: '#000',
+        shadowOpacity: 0.2,
+        shadowRadius: 8,
+        shadowOffset: { width: 0, height: 4 },
+    },
+    handle: {
+        position: 'absolute',
+        left: 0,
+        top: 0,
+        bottom: 0,
+        width: 32,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+});
@@ -1,12 +1,14 @@
 // SearchBar.tsx - Search input with real-time filtering
 
-import React, { useState, forwardRef } from 'react';
+import React, { useState, useEffect, forwardRef } from 'react';
 import { View, TextInput, TouchableOpacity, StyleSheet, Keyboard, Platform } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { RTL_TEXT_STYLE } from '../utils/rtlUtils';
 
 interface SearchBarProps {
     onSearch: (query: string) => void;
+    /** Query set from outside the bar, e.g. by a purenotes://search link */
+    value?: string;
     placeholder?: string;
     onFocus?: () => void;
     onBlur?: () => void;
@@ -14,11 +16,16 @@ interface SearchBarProps {
 
 export const SearchBar = forwardRef<TextInput, SearchBarProps>(({
     onSearch,
+    value,
     placeholder = '',
     onFocus,
     onBlur
 }, ref) => {
-    const [query, setQuery] = useState('');
+    const [query, setQuery] = useState(value ?? '');
+
+    useEffect(() => {
+        if (value !== undefined) setQuery(value);
+    }, [value]);
 
     const handleChange = (text: string) => {
         setQuery(text);
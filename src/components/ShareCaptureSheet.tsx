@@ -0,0 +1,339 @@
+// ShareCaptureSheet.tsx - Bottom sheet shown when text, a link or images are
+// shared from another app: a preview of the content and where it goes — a
+// new note (with its domain), today's daily note or an existing note.
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+    View,
+    Text,
+    TextInput,
+    Image,
+    StyleSheet,
+    Modal,
+    TouchableOpacity,
+    ScrollView,
+    ActivityIndicator,
+    useWindowDimensions
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useTranslation } from 'react-i18next';
+import { Ionicons } from '@expo/vector-icons';
+import { useNotesStore } from '../stores/notesStore';
+import { useDomains } from '../hooks/useDomains';
+import { DomainSelector } from './DomainSelector';
+import { DomainType } from '../types/Note';
+import { SharedContent, formatSharedContent } from '../utils/shareUtils';
+import { RTL_TEXT_STYLE } from '../utils/rtlUtils';
+
+export type ShareTarget =
+    | { type: 'new'; domain: DomainType | null }
+    | { type: 'daily' }
+    | { type: 'note'; noteId: string };
+
+interface ShareCaptureSheetProps {
+    /** Content to file; the sheet is shown while set */
+    shared: SharedContent | null;
+    isSaving: boolean;
+    onSave: (target: ShareTarget) => void;
+    onClose: () => void;
+}
+
+// Notes listed at once while picking a note to append to
+const MAX_NOTE_RESULTS = 30;
+
+const TARGETS: { type: ShareTarget['type']; icon: keyof typeof Ionicons.glyphMap }[] = [
+    { type: 'new', icon: 'document-text-outline' },
+    { type: 'daily', icon: 'calendar-outline' },
+    { type: 'note', icon: 'add-circle-outline' },
+];
+
+export const ShareCaptureSheet: React.FC<ShareCaptureSheetProps> = ({ shared, isSaving, onSave, onClose }) => {
+    const { t } = useTranslation();
+    const { height: screenHeight } = useWindowDimensions();
+    const insets = useSafeAreaInsets();
+    const domains = useDomains();
+    const notes = useNotesStore((s) => s.notes);
+
+    const [targetType, setTargetType] = useState<ShareTarget['type']>('new');
+    const [domain, setDomain] = useState<DomainType | null>(null);
+    const [noteQuery, setNoteQuery] = useState('');
+    const [noteId, setNoteId] = useState<string | null>(null);
+
+    // Every share starts from a new note
+    useEffect(() => {
+        if (!shared) return;
+        setTargetType('new');
+        setDomain(null);
+        setNoteQuery('');
+        setNoteId(null);
+    }, [shared?.id]);
+
+    const matchingNotes = useMemo(() => {
+        if (targetType !== 'note') return [];
+        const query = noteQuery.trim().toLowerCase();
+        const matches = query
+            ? notes.filter((n) => n.title.toLowerCase().includes(query) || n.id.toLowerCase().includes(query))
+            : notes;
+        return matches.slice(0, MAX_NOTE_RESULTS);
+    }, [targetType, noteQuery, notes]);
+
+    if (!shared) return null;
+
+    const preview = formatSharedContent(shared, []);
+    // As in quick-add, a domain is required only while there are domains to pick from
+    const canSave = !isSaving && (
+        targetType === 'daily'
+        || (targetType === 'new' && (domain !== null || domains.length === 0))
+        || (targetType === 'note' && noteId !== null)
+    );
+
+    const handleSave = () => {
+        if (!canSave) return;
+        if (targetType === 'new') onSave({ type: 'new', domain });
+        else if (targetType === 'daily') onSave({ type: 'daily' });
+        else if (noteId) onSave({ type: 'note', noteId });
+    };
+
+    return (
+        <Modal
+            visible={true}
+            animationType="slide"
+            transparent={true}
+            onRequestClose={onClose}
+        >
+            <View style={styles.modalOverlay}>
+                <View style={[styles.modalContent, { maxHeight: screenHeight * 0.9, paddingBottom: Math.max(insets.bottom, 16) }]}>
+                    <View style={styles.header}>
+                        <TouchableOpacity onPress={onClose} style={styles.closeButton} disabled={isSaving}>
+                            <Ionicons name="close" size={24} color="#1A1A1A" />
+                        </TouchableOpacity>
+                        <Text style={styles.headerTitle}>{t('share_title')}</Text>
+                        <View style={styles.headerPlaceholder}>
+                            {isSaving && <ActivityIndicator size="small" color="#000000" />}
+                        </View>
+                    </View>
+
+                    <ScrollView contentContainerStyle={styles.listContent} keyboardShouldPersistTaps="handled">
+                        <View style={styles.preview}>
+                            {!!shared.title && <Text style={styles.previewTitle} numberOfLines={1}>{shared.title}</Text>}
+                            {!!preview && <Text style={styles.previewText} numberOfLines={5}>{preview}</Text>}
+                            {shared.images.length > 0 && (
+                                <ScrollView horizontal contentContainerStyle={styles.thumbnails}>
+                                    {shared.images.map((image) => (
+                                        <Image key={image.uri} source={{ uri: image.uri }} style={styles.thumbnail} />
+                                    ))}
+                                </ScrollView>
+                            )}
+                        </View>
+
+                        <Text style={styles.fieldLabel}>{t('share_save_to')}</Text>
+                        {TARGETS.map(({ type, icon }) => {
+                            const isSelected = targetType === type;
+                            return (
+                                <TouchableOpacity
+                                    key={type}
+                                    style={[styles.targetRow, isSelected && styles.targetRowSelected]}
+                                    onPress={() => setTargetType(type)}
+                                >
+                                    <Ionicons name={icon} size={22} color="#1A1A1A" />
+                                    <Text style={styles.targetText}>{t(`share_target_${type}`)}</Text>
+                                    {isSelected && <Ionicons name="checkmark" size={20} color="#000000" />}
+                                </TouchableOpacity>
+                            );
+                        })}
+
+                        {targetType === 'new' && domains.length > 0 && (
+                            <>
+                                <Text style={styles.fieldLabel}>{t('select_domain')}</Text>
+                                <DomainSelector selectedDomain={domain} onSelectDomain={setDomain} />
+                            </>
+                        )}
+
+                        {targetType === 'note' && (
+                            <>
+                                <TextInput
+                                    style={styles.textField}
+                                    value={noteQuery}
+                                    onChangeText={setNoteQuery}
+                                    placeholder={t('share_search_notes')}
+                                    placeholderTextColor="#999"
+                                    autoCorrect={false}
+                                />
+                                {matchingNotes.map((note) => {
+                                    const isSelected = noteId === note.id;
+                                    return (
+                                        <TouchableOpacity
+                                            key={note.id}
+                                            style={[styles.noteRow, isSelected && styles.targetRowSelected]}
+                                            onPress={() => setNoteId(note.id)}
+                                        >
+                                            <Text style={styles.noteTitle} numberOfLines={1}>{note.title}</Text>
+                                            {isSelected && <Ionicons name="checkmark" size={18} color="#000000" />}
+                                        </TouchableOpacity>
+                                    );
+                                })}
+                                {matchingNotes.length === 0 && <Text style={styles.hint}>{t('share_no_notes')}</Text>}
+                            </>
+                        )}
+
+                        <TouchableOpacity
+                            style={[styles.saveButton, !canSave && styles.saveButtonDisabled]}
+                            onPress={handleSave}
+                            disabled={!canSave}
+                        >
+                            <Text style={styles.saveButtonText}>{t('save')}</Text>
+                        </TouchableOpacity>
+                    </ScrollView>
+                </View>
+            </View>
+        </Modal>
+    );
+};
+
+const styles = StyleSheet.create({
+    modalOverlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        justifyContent: 'flex-end', // Slide from bottom
+    },
+    modalContent: {
+        backgroundColor: '#F9F9F9',
+        borderTopLeftRadius: 24,
+        borderTopRightRadius: 24,
+        paddingTop: 8,
+    },
+    header: {
+        flexDirection: 'row-reverse',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        paddingHorizontal: 20,
+        paddingVertical: 16,
+        borderBottomWidth: 1,
+        borderBottomColor: '#E0E0E0',
+        backgroundColor: '#FFFFFF',
+        borderTopLeftRadius: 24,
+        borderTopRightRadius: 24,
+    },
+    headerTitle: {
+        fontSize: 20,
+        fontWeight: 'bold',
+        color: '#1A1A1A',
+    },
+    closeButton: {
+        padding: 4,
+    },
+    headerPlaceholder: {
+        width: 32,
+        alignItems: 'center',
+    },
+    listContent: {
+        padding: 16,
+    },
+    preview: {
+        padding: 12,
+        borderRadius: 12,
+        backgroundColor: '#FFFFFF',
+        marginBottom: 16,
+        gap: 6,
+    },
+    previewTitle: {
+        fontSize: 15,
+        fontWeight: '600',
+        color: '#1A1A1A',
+        ...RTL_TEXT_STYLE,
+    },
+    previewText: {
+        fontSize: 14,
+        color: '#444',
+        ...RTL_TEXT_STYLE,
+    },
+    thumbnails: {
+        gap: 8,
+    },
+    thumbnail: {
+        width: 64,
+        height: 64,
+        borderRadius: 8,
+        backgroundColor: '#F0F0F0',
+    },
+    fieldLabel: {
+        fontSize: 14,
+        fontWeight: '500',
+        color: '#333',
+        marginBottom: 6,
+        marginTop: 4,
+        ...RTL_TEXT_STYLE,
+    },
+    targetRow: {
+        flexDirection: 'row-reverse',
+        alignItems: 'center',
+        gap: 12,
+        paddingVertical: 14,
+        paddingHorizontal: 16,
+        borderRadius: 12,
+        borderWidth: 1,
+        borderColor: 'transparent',
+        backgroundColor: '#FFFFFF',
+        marginBottom: 8,
+    },
+    targetRowSelected: {
+        borderColor: '#000000',
+    },
+    targetText: {
+        flex: 1,
+        fontSize: 16,
+        color: '#1A1A1A',
+        ...RTL_TEXT_STYLE,
+    },
+    textField: {
+        borderWidth: 1,
+        borderColor: '#E0E0E0',
+        borderRadius: 10,
+        paddingHorizontal: 12,
+        paddingVertical: 10,
+        fontSize: 15,
+        color: '#1A1A1A',
+        backgroundColor: '#FFFFFF',
+        marginTop: 4,
+        marginBottom: 8,
+    },
+    noteRow: {
+        flexDirection: 'row-reverse',
+        alignItems: 'center',
+        gap: 8,
+        paddingVertical: 10,
+        paddingHorizontal: 12,
+        borderRadius: 10,
+        borderWidth: 1,
+        borderColor: 'transparent',
+        backgroundColor: '#FFFFFF',
+        marginBottom: 6,
+    },
+    noteTitle: {
+        flex: 1,
+        fontSize: 15,
+        color: '#1A1A1A',
+        ...RTL_TEXT_STYLE,
+    },
+    hint: {
+        fontSize: 13,
+        color: '#888',
+        marginBottom: 8,
+        ...RTL_TEXT_STYLE,
+    },
+    saveButton: {
+        backgroundColor: '#000000',
+        borderRadius: 12,
+        paddingVertical: 14,
+        alignItems: 'center',
+        marginTop: 16,
+    },
+    saveButtonDisabled: {
+        opacity: 0.4,
+    },
+    saveButtonText: {
+        color: '#FFFFFF',
+        fontSize: 16,
+        fontWeight: '600',
+    },
+});
@@ -19,8 +19,11 @@ import { NativeLiveEditor, NativeLiveEditorRef } from './NativeLiveEditor';
 import { TiptapEditor, TiptapEditorRef } from './TiptapEditor';
 import { EnrichedEditor, EnrichedEditorRef, EnrichedEditorBridge } from './EnrichedEditor';
 import { useNotesStore } from '../stores/notesStore';
-import MarkdownConverterService from '../services/MarkdownConverterService';
+import MarkdownConverterService, { ImageResolver } from '../services/MarkdownConverterService';
+import AttachmentService, { SavedImage } from '../services/AttachmentService';
 import { USE_NATIVE_EDITOR } from '../config/editorMode';
+import type { TextOccurrence } from '../utils/editorUtils';
+import { DEFAULT_ATTACHMENT_FOLDER } from '../utils/attachmentUtils';
 
 // Debounce window for HTML→Markdown conversion while the user is actively
 // typing. The conversion is expensive (regex + node-html-markdown) and
@@ -41,6 +44,8 @@ export interface SmartEditorRef {
     setTextAndSelection: (text: string, sel: { start: number; end: number }) => void;
     /** Move cursor (markdown mode only). */
     setSelection: (sel: { start: number; end: number }) => void;
+    /** Select and scroll to a passage of the text (richtext mode only). */
+    revealText: (target: TextOccurrence) => void;
     /**
      * Returns the Tiptap EditorBridge for richtext mode (Tiptap path only).
      * Returns null in markdown mode OR when running on the RNE path.
@@ -58,6 +63,8 @@ export interface SmartEditorRef {
      * In markdown mode this is handled externally via appendChecklistItem.
      */
     insertCheckboxItem: () => void;
+    /** Insert a just-saved attachment at the cursor (richtext mode only). */
+    insertImage: (image: SavedImage) => void;
 }
 
 // ─── Props ───────────────────────────────────────────────────────────────────
@@ -81,6 +88,8 @@ export interface SmartEditorProps {
     /** Background colour for the rich text editor WebView. */
     backgroundColor?: string;
     autoFocus?: boolean;
+    /** Vault path of the note, to find its embedded images. '' for a new note. */
+    notePath?: string;
     // Native TextInput-only props — accepted here so callers don't get type errors,
     // but they are forwarded only in markdown mode (NativeLiveEditor).
     selection?: { start: number; end: number };
@@ -106,6 +115,7 @@ export const SmartEditor = forwardRef<SmartEditorRef, SmartEditorProps>(
             scrollEnabled = true,
             backgroundColor,
             autoFocus,
+            notePath = '',
             // Destructure native-only props so they are not forwarded to TiptapEditor/WebView
             selection,
             onSelectionChange,
@@ -125,6 +135,12 @@ export const SmartEditor = forwardRef<SmartEditorRef, SmartEditorProps>(
         // as the notes-list display.
         const textScale = settings.textScale ?? 1;
 
+        // Read by the image resolver, which runs outside React's render
+        const notePathRef = useRef(notePath);
+        notePathRef.current = notePath;
+        const attachmentFolderRef = useRef(DEFAULT_ATTACHMENT_FOLDER);
+        attachmentFolderRef.current = settings.attachmentFolder ?? DEFAULT_ATTACHMENT_FOLDER;
+
         const nativeEditorRef = useRef<NativeLiveEditorRef>(null);
         const tiptapEditorRef = useRef<TiptapEditorRef>(null);
         const enrichedEditorRef = useRef<EnrichedEditorRef>(null);
@@ -157,6 +173,57 @@ export const SmartEditor = forwardRef<SmartEditorRef, SmartEditorProps>(
             return markdown;
         };
 
+        // Images already copied to the cache are shown at once; the rest start
+        // as placeholders until refreshImages has loaded them
+        const resolveImage: ImageResolver = (target) => {
+            const image = AttachmentService.getCachedDisplay(target, notePathRef.current, attachmentFolderRef.current);
+            return image ? { src: image.uri, width: image.width, height: image.height } : null;
+        };
+
+        const toHtml = (markdown: string): string => (USE_NATIVE_EDITOR
+            ? MarkdownConverterService.markdownToHtmlForRne(markdown, resolveImage)
+            : MarkdownConverterService.markdownToHtml(markdown, resolveImage));
+
+        const setEditorHtml = (html: string, markdown: string) => {
+            // Keep mirrors in sync so a subsequent getMarkdown
+            // returns the just-set content faithfully.
+            latestHtmlRef.current = html;
+            conversionCacheRef.current = { html, markdown };
+            if (USE_NATIVE_EDITOR) {
+                enrichedEditorRef.current?.setHtml(html);
+            } else {
+                tiptapEditorRef.current?.setHtml(html);
+            }
+        };
+
+        const editorReadyRef = useRef(false);
+        const pendingRefreshRef = useRef<(() => void) | null>(null);
+
+        const handleEditorReady = () => {
+            editorReadyRef.current = true;
+            pendingRefreshRef.current?.();
+            pendingRefreshRef.current = null;
+            onEditorReady?.();
+        };
+
+        // Load the note's images that aren't cached yet, then show them —
+        // unless the user has edited the note since `html` was set
+        const refreshImages = (markdown: string, html: string) => {
+            AttachmentService.preload(notePathRef.current, markdown, attachmentFolderRef.current)
+                .then((changed) => {
+                    if (!changed) return;
+                    const apply = () => {
+                        const current = latestHtmlRef.current;
+                        if (current !== html && convertAndCache(current) !== markdown) return;
+                        setEditorHtml(toHtml(markdown), markdown);
+                    };
+                    // Content set before the WebView is up would be lost
+                    if (editorReadyRef.current) apply();
+                    else pendingRefreshRef.current = apply;
+                })
+                .catch((error) => console.warn('Failed to load note images:', error));
+        };
+
         const flushHtmlConversion = useCallback(() => {
             if (debounceTimerRef.current) {
                 clearTimeout(debounceTimerRef.current);
@@ -236,18 +303,9 @@ export const SmartEditor = forwardRef<SmartEditorRef, SmartEditorProps>(
                     // Convert markdown to HTML using the path-appropriate
                     // converter. The Tiptap and RNE flavors emit different
                     // tag shapes (taskList vs checkbox, codeblock, etc.).
-                    const html = USE_NATIVE_EDITOR
-                        ? MarkdownConverterService.markdownToHtmlForRne(text)
-                        : MarkdownConverterService.markdownToHtml(text);
-                    // Keep mirrors in sync so a subsequent getMarkdown
-                    // returns the just-set content faithfully.
-                    latestHtmlRef.current = html;
-                    conversionCacheRef.current = { html, markdown: text };
-                    if (USE_NATIVE_EDITOR) {
-                        enrichedEditorRef.current?.setHtml(html);
-                    } else {
-                        tiptapEditorRef.current?.setHtml(html);
-                    }
+                    const html = toHtml(text);
+                    setEditorHtml(html, text);
+                    refreshImages(text, html);
                 },
 
                 setTextAndSelection: (text: string, sel: { start: number; end: number }) => {
@@ -255,16 +313,9 @@ export const SmartEditor = forwardRef<SmartEditorRef, SmartEditorProps>(
                         nativeEditorRef.current?.setTextAndSelection?.(text, sel);
                         return;
                     }
-                    const html = USE_NATIVE_EDITOR
-                        ? MarkdownConverterService.markdownToHtmlForRne(text)
-                        : MarkdownConverterService.markdownToHtml(text);
-                    latestHtmlRef.current = html;
-                    conversionCacheRef.current = { html, markdown: text };
-                    if (USE_NATIVE_EDITOR) {
-                        enrichedEditorRef.current?.setHtml(html);
-                    } else {
-                        tiptapEditorRef.current?.setHtml(html);
-                    }
+                    const html = toHtml(text);
+                    setEditorHtml(html, text);
+                    refreshImages(text, html);
                 },
 
                 setSelection: (sel: { start: number; end: number }) => {
@@ -273,6 +324,15 @@ export const SmartEditor = forwardRef<SmartEditorRef, SmartEditorProps>(
                     }
                 },
 
+                revealText: (target: TextOccurrence) => {
+                    if (editorMode !== 'richtext') return;
+                    if (USE_NATIVE_EDITOR) {
+                        enrichedEditorRef.current?.revealText(target);
+                    } else {
+                        tiptapEditorRef.current?.revealText(target);
+                    }
+                },
+
                 getEditorBridge: () => {
                     if (editorMode !== 'richtext' || USE_NATIVE_EDITOR) return null;
                     return tiptapEditorRef.current?.editorBridge ?? null;
@@ -301,6 +361,22 @@ export const SmartEditor = forwardRef<SmartEditorRef, SmartEditorProps>(
                         bridge.toggleTaskList();
                     }
                 },
+
+                insertImage: (image: SavedImage) => {
+                    if (editorMode !== 'richtext') return;
+                    // The editor only knows the cache URI; remember which
+                    // embed it stands for so the note gets `![[…]]` back
+                    MarkdownConverterService.registerImageSource(image.uri, image.embed);
+                    if (USE_NATIVE_EDITOR) {
+                        const bridge = enrichedEditorRef.current?.editorBridge;
+                        if (!bridge) return;
+                        const { width, height } = MarkdownConverterService.getRneImageSize(image.width, image.height);
+                        bridge.focus();
+                        bridge.setImage(image.uri, width, height);
+                    } else {
+                        tiptapEditorRef.current?.editorBridge.setImage(image.uri);
+                    }
+                },
             }),
             [editorMode],
         );
@@ -332,9 +408,7 @@ export const SmartEditor = forwardRef<SmartEditorRef, SmartEditorProps>(
         // previously re-ran markdownToHtml unnecessarily.
         const initialHtmlRef = useRef<string | null>(null);
         if (initialHtmlRef.current === null) {
-            const html = USE_NATIVE_EDITOR
-                ? MarkdownConverterService.markdownToHtmlForRne(initialContent)
-                : MarkdownConverterService.markdownToHtml(initialContent);
+            const html = toHtml(initialContent);
             initialHtmlRef.current = html;
             // Seed mirrors so getMarkdown can return faithful content even if
             // the user opens the editor and immediately saves without typing.
@@ -343,6 +417,12 @@ export const SmartEditor = forwardRef<SmartEditorRef, SmartEditorProps>(
         }
         const initialHtml = initialHtmlRef.current;
 
+        // Images of the opened note that weren't cached yet
+        useEffect(() => {
+            if (editorMode === 'richtext') refreshImages(initialContent, initialHtml);
+            // eslint-disable-next-line react-hooks/exhaustive-deps
+        }, []);
+
         // Debounce: store the latest HTML in refs and schedule a single
         // conversion. Rapid keystrokes collapse into one conversion at the
         // end of the debounce window. Save paths read latestHtmlRef directly.
@@ -363,7 +443,7 @@ export const SmartEditor = forwardRef<SmartEditorRef, SmartEditorProps>(
                     onChange={handleRichTextChange}
                     onFocus={onFocus}
                     onBlur={onBlur}
-                    onReady={onEditorReady}
+                    onReady={handleEditorReady}
                     onStateChange={onEnrichedStateChange}
                     placeholder={placeholder}
                     style={style as any}
@@ -381,7 +461,7 @@ export const SmartEditor = forwardRef<SmartEditorRef, SmartEditorProps>(
                 onChange={handleRichTextChange}
                 onFocus={onFocus}
                 onBlur={onBlur}
-                onReady={onEditorReady}
+                onReady={handleEditorReady}
                 placeholder={placeholder}
                 style={style}
                 backgroundColor={backgroundColor}
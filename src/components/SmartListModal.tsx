@@ -0,0 +1,372 @@
+// SmartListModal.tsx - Bottom sheet to create, edit and delete a smart list:
+// a named filter (search query, tags, domains, folder, pinned, open tasks,
+// recently modified) saved in the settings and shown as a chip in the header.
+
+import React, { useEffect, useState } from 'react';
+import {
+    View,
+    Text,
+    TextInput,
+    StyleSheet,
+    Modal,
+    TouchableOpacity,
+    ScrollView,
+    Alert,
+    useWindowDimensions
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useTranslation } from 'react-i18next';
+import { Ionicons } from '@expo/vector-icons';
+import { useNotesStore } from '../stores/notesStore';
+import { useDomains } from '../hooks/useDomains';
+import { DomainType, NoteFilter, SmartList } from '../types/Note';
+import { getDomainLabel } from '../utils/domainUtils';
+import { isFilterEmpty } from '../utils/filterUtils';
+import { RTL_TEXT_STYLE } from '../utils/rtlUtils';
+
+interface SmartListModalProps {
+    visible: boolean;
+    /** List to edit; null creates a new one */
+    smartList: SmartList | null;
+    /** Starting filter for a new list, e.g. what the note list shows now */
+    initialFilter?: NoteFilter;
+    onClose: () => void;
+}
+
+// Settings persisted before smart lists existed have none
+const NO_SMART_LISTS: SmartList[] = [];
+
+// 0 = any time
+const MODIFIED_WITHIN_OPTIONS = [0, 1, 7, 30, 90];
+
+const parseTags = (text: string): string[] =>
+    text.split(/[,\s]+/).map((tag) => tag.replace(/^#/, '').trim()).filter(Boolean);
+
+export const SmartListModal: React.FC<SmartListModalProps> = ({ visible, smartList, initialFilter, onClose }) => {
+    const { t } = useTranslation();
+    const { height: screenHeight } = useWindowDimensions();
+    const insets = useSafeAreaInsets();
+    const domains = useDomains();
+    const smartLists = useNotesStore((s) => s.settings.smartLists) ?? NO_SMART_LISTS;
+    const updateSettings = useNotesStore((s) => s.updateSettings);
+    const selectSmartList = useNotesStore((s) => s.selectSmartList);
+
+    const [name, setName] = useState('');
+    const [query, setQuery] = useState('');
+    const [tags, setTags] = useState('');
+    const [selectedDomains, setSelectedDomains] = useState<DomainType[]>([]);
+    const [folder, setFolder] = useState('');
+    const [pinned, setPinned] = useState(false);
+    const [hasOpenTasks, setHasOpenTasks] = useState(false);
+    const [modifiedWithinDays, setModifiedWithinDays] = useState(0);
+
+    // Reset the form every time the sheet opens
+    useEffect(() => {
+        if (!visible) return;
+        const filter = smartList?.filter ?? initialFilter ?? {};
+        setName(smartList?.name ?? '');
+        setQuery(filter.query ?? '');
+        setTags((filter.tags ?? []).join(', '));
+        setSelectedDomains(filter.domains ?? []);
+        setFolder(filter.folder ?? '');
+        setPinned(!!filter.pinned);
+        setHasOpenTasks(!!filter.hasOpenTasks);
+        setModifiedWithinDays(filter.modifiedWithinDays ?? 0);
+    }, [visible, smartList, initialFilter]);
+
+    const filter: NoteFilter = {
+        ...(query.trim() ? { query: query.trim() } : {}),
+        ...(parseTags(tags).length > 0 ? { tags: parseTags(tags) } : {}),
+        ...(selectedDomains.length > 0 ? { domains: selectedDomains } : {}),
+        ...(folder.trim() ? { folder: folder.trim().replace(/^\/+|\/+$/g, '') } : {}),
+        ...(pinned ? { pinned } : {}),
+        ...(hasOpenTasks ? { hasOpenTasks } : {}),
+        ...(modifiedWithinDays ? { modifiedWithinDays } : {}),
+    };
+    const canSave = name.trim().length > 0 && !isFilterEmpty(filter);
+
+    const toggleDomain = (domain: DomainType) => {
+        setSelectedDomains((prev) => (prev.includes(domain) ? prev.filter((d) => d !== domain) : [...prev, domain]));
+    };
+
+    const handleSave = () => {
+        if (!canSave) return;
+        if (smartList) {
+            updateSettings({
+                smartLists: smartLists.map((list) => (list.id === smartList.id ? { ...list, name: name.trim(), filter } : list)),
+            });
+        } else {
+            const created: SmartList = { id: `smart-${Date.now().toString(36)}`, name: name.trim(), filter };
+            updateSettings({ smartLists: [...smartLists, created] });
+            selectSmartList(created.id);
+        }
+        onClose();
+    };
+
+    const handleDelete = () => {
+        if (!smartList) return;
+        Alert.alert(
+            t('smart_list_delete_title'),
+            t('smart_list_delete_confirm', { name: smartList.name }),
+            [
+                { text: t('cancel'), style: 'cancel' },
+                {
+                    text: t('delete'),
+                    style: 'destructive',
+                    onPress: () => {
+                        updateSettings({ smartLists: smartLists.filter((list) => list.id !== smartList.id) });
+                        onClose();
+                    },
+                },
+            ]
+        );
+    };
+
+    const renderToggle = (label: string, value: boolean, onChange: (value: boolean) => void) => (
+        <TouchableOpacity
+            style={[styles.optionChip, value && styles.optionChipSelected]}
+            onPress={() => onChange(!value)}
+        >
+            <Text style={[styles.optionChipText, value && styles.optionChipTextSelected]}>{label}</Text>
+        </TouchableOpacity>
+    );
+
+    return (
+        <Modal
+            visible={visible}
+            animationType="slide"
+            transparent={true}
+            onRequestClose={onClose}
+        >
+            <View style={styles.modalOverlay}>
+                <View style={[styles.modalContent, { maxHeight: screenHeight * 0.9, paddingBottom: Math.max(insets.bottom, 16) }]}>
+                    <View style={styles.header}>
+                        <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+                            <Ionicons name="close" size={24} color="#1A1A1A" />
+                        </TouchableOpacity>
+                        <Text style={styles.headerTitle}>{smartList ? t('smart_list_edit') : t('smart_list_new')}</Text>
+                        {smartList ? (
+                            <TouchableOpacity onPress={handleDelete} style={styles.closeButton}>
+                                <Ionicons name="trash-outline" size={22} color="#F44336" />
+                            </TouchableOpacity>
+                        ) : (
+                            <View style={styles.headerPlaceholder} />
+                        )}
+                    </View>
+
+                    <ScrollView contentContainerStyle={styles.listContent} keyboardShouldPersistTaps="handled">
+                        <Text style={styles.fieldLabel}>{t('smart_list_name')}</Text>
+                        <TextInput
+                            style={styles.textField}
+                            value={name}
+                            onChangeText={setName}
+                            placeholder={t('smart_list_name_placeholder')}
+                            placeholderTextColor="#999"
+                        />
+
+                        <Text style={styles.fieldLabel}>{t('smart_list_query')}</Text>
+                        <TextInput
+                            style={styles.textField}
+                            value={query}
+                            onChangeText={setQuery}
+                            placeholder={t('search_placeholder')}
+                            placeholderTextColor="#999"
+                            autoCapitalize="none"
+                            autoCorrect={false}
+                        />
+
+                        <Text style={styles.fieldLabel}>{t('smart_list_tags')}</Text>
+                        <TextInput
+                            style={styles.textField}
+                            value={tags}
+                            onChangeText={setTags}
+                            placeholder={t('smart_list_tags_placeholder')}
+                            placeholderTextColor="#999"
+                            autoCapitalize="none"
+                            autoCorrect={false}
+                        />
+
+                        <Text style={styles.fieldLabel}>{t('smart_list_folder')}</Text>
+                        <TextInput
+                            style={styles.textField}
+                            value={folder}
+                            onChangeText={setFolder}
+                            placeholder={t('smart_list_folder_placeholder')}
+                            placeholderTextColor="#999"
+                            autoCapitalize="none"
+                            autoCorrect={false}
+                        />
+
+                        {domains.length > 0 && (
+                            <>
+                                <Text style={styles.fieldLabel}>{t('smart_list_domains')}</Text>
+                                <View style={styles.optionRow}>
+                                    {domains.map((domain) => {
+                                        const isSelected = selectedDomains.includes(domain.id);
+                                        return (
+                                            <TouchableOpacity
+                                                key={domain.id}
+                                                style={[
+                                                    styles.optionChip,
+                                                    { borderColor: domain.color },
+                                                    isSelected && { backgroundColor: domain.color },
+                                                ]}
+                                                onPress={() => toggleDomain(domain.id)}
+                                            >
+                                                <Text style={[styles.optionChipText, { color: isSelected ? '#FFFFFF' : domain.color }]}>
+                                                    {getDomainLabel(t, domain.id)}
+                                                </Text>
+                                            </TouchableOpacity>
+                                        );
+                                    })}
+                                </View>
+                            </>
+                        )}
+
+                        <Text style={styles.fieldLabel}>{t('smart_list_only')}</Text>
+                        <View style={styles.optionRow}>
+                            {renderToggle(t('smart_list_pinned'), pinned, setPinned)}
+                            {renderToggle(t('smart_list_open_tasks'), hasOpenTasks, setHasOpenTasks)}
+                        </View>
+
+                        <Text style={styles.fieldLabel}>{t('smart_list_modified_within')}</Text>
+                        <View style={styles.optionRow}>
+                            {MODIFIED_WITHIN_OPTIONS.map((days) => {
+                                const isSelected = modifiedWithinDays === days;
+                                return (
+                                    <TouchableOpacity
+                                        key={days}
+                                        style={[styles.optionChip, isSelected && styles.optionChipSelected]}
+                                        onPress={() => setModifiedWithinDays(days)}
+                                    >
+                                        <Text style={[styles.optionChipText, isSelected && styles.optionChipTextSelected]}>
+                                            {days ? t('smart_list_days', { count: days }) : t('smart_list_any_time')}
+                                        </Text>
+                                    </TouchableOpacity>
+                                );
+                            })}
+                        </View>
+
+                        {isFilterEmpty(filter) && (
+                            <Text style={styles.hint}>{t('smart_list_empty_hint')}</Text>
+                        )}
+
+                        <TouchableOpacity
+                            style={[styles.saveButton, !canSave && styles.saveButtonDisabled]}
+                            onPress={handleSave}
+                            disabled={!canSave}
+                        >
+                            <Text style={styles.saveButtonText}>{t('save')}</Text>
+                        </TouchableOpacity>
+                    </ScrollView>
+                </View>
+            </View>
+        </Modal>
+    );
+};
+
+const styles = StyleSheet.create({
+    modalOverlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        justifyContent: 'flex-end', // Slide from bottom
+    },
+    modalContent: {
+        backgroundColor: '#F9F9F9',
+        borderTopLeftRadius: 24,
+        borderTopRightRadius: 24,
+        paddingTop: 8,
+        minHeight: 320,
+    },
+    header: {
+        flexDirection: 'row-reverse',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        paddingHorizontal: 20,
+        paddingVertical: 16,
+        borderBottomWidth: 1,
+        borderBottomColor: '#E0E0E0',
+        backgroundColor: '#FFFFFF',
+        borderTopLeftRadius: 24,
+        borderTopRightRadius: 24,
+    },
+    headerTitle: {
+        fontSize: 20,
+        fontWeight: 'bold',
+        color: '#1A1A1A',
+    },
+    closeButton: {
+        padding: 4,
+    },
+    headerPlaceholder: {
+        width: 32,
+    },
+    listContent: {
+        padding: 16,
+    },
+    fieldLabel: {
+        fontSize: 14,
+        fontWeight: '500',
+        color: '#333',
+        marginBottom: 6,
+        marginTop: 4,
+        ...RTL_TEXT_STYLE,
+    },
+    textField: {
+        borderWidth: 1,
+        borderColor: '#E0E0E0',
+        borderRadius: 10,
+        paddingHorizontal: 12,
+        paddingVertical: 10,
+        fontSize: 15,
+        color: '#1A1A1A',
+        backgroundColor: '#FFFFFF',
+        marginBottom: 12,
+    },
+    optionRow: {
+        flexDirection: 'row-reverse',
+        flexWrap: 'wrap',
+        gap: 8,
+        marginBottom: 12,
+    },
+    optionChip: {
+        paddingVertical: 8,
+        paddingHorizontal: 14,
+        borderRadius: 16,
+        borderWidth: 1,
+        borderColor: '#000000',
+        backgroundColor: '#FFFFFF',
+    },
+    optionChipSelected: {
+        backgroundColor: '#000000',
+    },
+    optionChipText: {
+        color: '#000000',
+        fontSize: 14,
+        fontWeight: '500',
+    },
+    optionChipTextSelected: {
+        color: '#FFFFFF',
+    },
+    hint: {
+        fontSize: 13,
+        color: '#888',
+        marginBottom: 8,
+        ...RTL_TEXT_STYLE,
+    },
+    saveButton: {
+        backgroundColor: '#000000',
+        borderRadius: 12,
+        paddingVertical: 14,
+        alignItems: 'center',
+        marginTop: 8,
+    },
+    saveButtonDisabled: {
+        opacity: 0.4,
+    },
+    saveButtonText: {
+        color: '#FFFFFF',
+        fontSize: 16,
+        fontWeight: '600',
+    },
+});
@@ -0,0 +1,97 @@
+import React from 'react';
+import { ScrollView, TouchableOpacity, Text, StyleSheet } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { Ionicons } from '@expo/vector-icons';
+import { SmartList } from '../types/Note';
+
+interface SmartListSelectorProps {
+    smartLists: SmartList[];
+    activeSmartListId: string | null;
+    onSelectSmartList: (id: string | null) => void;
+    /** Long press edits a list; null creates one from the current filter */
+    onEditSmartList: (smartList: SmartList | null) => void;
+}
+
+const SMART_LIST_COLOR = '#8E24AA';
+
+/**
+ * Saved smart lists as chips under the domain filter. Tapping a chip
+ * applies it on top of the other filters (tapping again clears it), long
+ * press edits it, and the "+" chip saves a new one.
+ */
+export const SmartListSelector: React.FC<SmartListSelectorProps> = ({ smartLists, activeSmartListId, onSelectSmartList, onEditSmartList }) => {
+    const { t } = useTranslation();
+
+    return (
+        <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.container}
+            keyboardShouldPersistTaps="handled"
+        >
+            {smartLists.map((list) => {
+                const isActive = list.id === activeSmartListId;
+                return (
+                    <TouchableOpacity
+                        key={list.id}
+                        style={[styles.chip, { borderColor: SMART_LIST_COLOR }, isActive && { backgroundColor: SMART_LIST_COLOR }]}
+                        onPress={() => onSelectSmartList(isActive ? null : list.id)}
+                        onLongPress={() => onEditSmartList(list)}
+                    >
+                        <Ionicons name={isActive ? 'funnel' : 'funnel-outline'} size={14} color={isActive ? '#FFFFFF' : SMART_LIST_COLOR} style={styles.icon} />
+                        <Text numberOfLines={1} style={[styles.label, { color: isActive ? '#FFFFFF' : SMART_LIST_COLOR }, isActive && styles.labelActive]}>
+                            {list.name}
+                        </Text>
+                    </TouchableOpacity>
+                );
+            })}
+
+            <TouchableOpacity
+                style={[styles.chip, styles.addChip]}
+                onPress={() => onEditSmartList(null)}
+                accessibilityLabel={t('smart_list_new')}
+            >
+                <Ionicons name="add" size={16} color="#666" />
+                {smartLists.length === 0 && <Text style={styles.hint}>{t('smart_list_save_current')}</Text>}
+            </TouchableOpacity>
+        </ScrollView>
+    );
+};
+
+const styles = StyleSheet.create({
+    container: {
+        paddingHorizontal: 8,
+        paddingBottom: 4,
+        alignItems: 'center',
+        flexDirection: 'row',
+    },
+    chip: {
+        flexDirection: 'row-reverse',
+        alignItems: 'center',
+        paddingHorizontal: 10,
+        paddingVertical: 6,
+        borderRadius: 20,
+        marginHorizontal: 2,
+        borderWidth: 1,
+        borderColor: 'transparent',
+    },
+    addChip: {
+        backgroundColor: '#eee',
+        borderColor: '#ddd',
+        paddingHorizontal: 8,
+    },
+    icon: {
+        marginLeft: 6,
+    },
+    label: {
+        fontSize: 13,
+    },
+    labelActive: {
+        fontWeight: '700',
+    },
+    hint: {
+        fontSize: 12,
+        color: '#666',
+        marginRight: 4,
+    },
+});
@@ -0,0 +1,225 @@
+// TagBrowser.tsx - Bottom sheet listing every tag in the vault as a tree
+
+import React, { useMemo, useState } from 'react';
+import {
+    View,
+    Text,
+    StyleSheet,
+    Modal,
+    TouchableOpacity,
+    ScrollView,
+    useWindowDimensions
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useTranslation } from 'react-i18next';
+import { Ionicons } from '@expo/vector-icons';
+import { Note } from '../types/Note';
+import { buildTagTree, TagNode } from '../utils/tagUtils';
+
+interface TagBrowserProps {
+    visible: boolean;
+    notes: Note[];
+    selectedTag: string | null;
+    onSelectTag: (tag: string | null) => void;
+    onClose: () => void;
+}
+
+const TAG_COLOR = '#00897B';
+
+export const TagBrowser: React.FC<TagBrowserProps> = ({ visible, notes, selectedTag, onSelectTag, onClose }) => {
+    const { t } = useTranslation();
+    const { height: screenHeight } = useWindowDimensions();
+    const insets = useSafeAreaInsets();
+    // Nested tags start collapsed; keys are full tag paths
+    const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+    // Only compute the tree while the sheet is open
+    const tree = useMemo(() => (visible ? buildTagTree(notes) : []), [visible, notes]);
+
+    const toggleExpand = (tag: string) => {
+        setExpanded((prev) => {
+            const next = new Set(prev);
+            if (next.has(tag)) next.delete(tag);
+            else next.add(tag);
+            return next;
+        });
+    };
+
+    const handleSelect = (tag: string) => {
+        onSelectTag(selectedTag === tag ? null : tag);
+        onClose();
+    };
+
+    const renderNode = (node: TagNode, depth: number): React.ReactNode => {
+        const isSelected = selectedTag?.toLowerCase() === node.tag.toLowerCase();
+        const hasChildren = node.children.length > 0;
+        const isExpanded = expanded.has(node.tag);
+
+        return (
+            <View key={node.tag}>
+                <View style={[styles.row, { paddingRight: 16 + depth * 20 }]}>
+                    {hasChildren ? (
+                        <TouchableOpacity
+                            onPress={() => toggleExpand(node.tag)}
+                            style={styles.expandButton}
+                            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                        >
+                            <Ionicons name={isExpanded ? 'chevron-down' : 'chevron-back'} size={16} color="#666" />
+                        </TouchableOpacity>
+                    ) : (
+                        <View style={styles.expandButton} />
+                    )}
+                    <TouchableOpacity
+                        style={[styles.tagChip, isSelected && styles.tagChipSelected]}
+                        onPress={() => handleSelect(node.tag)}
+                    >
+                        <Text style={[styles.tagText, isSelected && styles.tagTextSelected]} numberOfLines={1}>
+                            #{node.name}
+                        </Text>
+                        <Text style={[styles.countText, isSelected && styles.tagTextSelected]}>{node.count}</Text>
+                    </TouchableOpacity>
+                </View>
+                {hasChildren && isExpanded && node.children.map((child) => renderNode(child, depth + 1))}
+            </View>
+        );
+    };
+
+    return (
+        <Modal
+            visible={visible}
+            animationType="slide"
+            transparent={true}
+            onRequestClose={onClose}
+        >
+            <View style={styles.modalOverlay}>
+                <View style={[styles.modalContent, { maxHeight: screenHeight * 0.8, paddingBottom: Math.max(insets.bottom, 16) }]}>
+                    <View style={styles.header}>
+                        <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+                            <Ionicons name="close" size={24} color="#1A1A1A" />
+                        </TouchableOpacity>
+                        <Text style={styles.headerTitle}>{t('tags_title')}</Text>
+                        {selectedTag ? (
+                            <TouchableOpacity
+                                onPress={() => {
+                                    onSelectTag(null);
+                                    onClose();
+                                }}
+                                style={styles.closeButton}
+                            >
+                                <Text style={styles.clearText}>{t('clear')}</Text>
+                            </TouchableOpacity>
+                        ) : (
+                            <View style={styles.headerPlaceholder} />
+                        )}
+                    </View>
+
+                    {tree.length === 0 ? (
+                        <View style={styles.centerContainer}>
+                            <Ionicons name="pricetags-outline" size={64} color="#CCC" />
+                            <Text style={styles.emptyText}>{t('tags_empty')}</Text>
+                        </View>
+                    ) : (
+                        <ScrollView contentContainerStyle={styles.listContent}>
+                            {tree.map((node) => renderNode(node, 0))}
+                        </ScrollView>
+                    )}
+                </View>
+            </View>
+        </Modal>
+    );
+};
+
+const styles = StyleSheet.create({
+    modalOverlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        justifyContent: 'flex-end', // Slide from bottom
+    },
+    modalContent: {
+        backgroundColor: '#F9F9F9',
+        borderTopLeftRadius: 24,
+        borderTopRightRadius: 24,
+        paddingTop: 8,
+        minHeight: 240,
+    },
+    header: {
+        flexDirection: 'row-reverse',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        paddingHorizontal: 20,
+        paddingVertical: 16,
+        borderBottomWidth: 1,
+        borderBottomColor: '#E0E0E0',
+        backgroundColor: '#FFFFFF',
+        borderTopLeftRadius: 24,
+        borderTopRightRadius: 24,
+    },
+    headerTitle: {
+        fontSize: 20,
+        fontWeight: 'bold',
+        color: '#1A1A1A',
+    },
+    closeButton: {
+        padding: 4,
+    },
+    headerPlaceholder: {
+        width: 32,
+    },
+    clearText: {
+        fontSize: 14,
+        color: '#666',
+    },
+    centerContainer: {
+        justifyContent: 'center',
+        alignItems: 'center',
+        padding: 40,
+    },
+    emptyText: {
+        fontSize: 18,
+        color: '#999',
+        marginTop: 16,
+        fontWeight: '500',
+    },
+    listContent: {
+        paddingVertical: 12,
+    },
+    row: {
+        flexDirection: 'row-reverse',
+        alignItems: 'center',
+        paddingLeft: 16,
+        paddingVertical: 4,
+    },
+    expandButton: {
+        width: 24,
+        alignItems: 'center',
+    },
+    tagChip: {
+        flexDirection: 'row-reverse',
+        alignItems: 'center',
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        borderRadius: 16,
+        borderWidth: 1,
+        borderColor: TAG_COLOR,
+        marginRight: 4,
+        flexShrink: 1,
+    },
+    tagChipSelected: {
+        backgroundColor: TAG_COLOR,
+    },
+    tagText: {
+        fontSize: 14,
+        color: TAG_COLOR,
+        fontWeight: '500',
+        flexShrink: 1,
+    },
+    tagTextSelected: {
+        color: '#FFFFFF',
+    },
+    countText: {
+        fontSize: 12,
+        color: TAG_COLOR,
+        opacity: 0.8,
+        marginRight: 8,
+    },
+});
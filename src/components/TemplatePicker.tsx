@@ -0,0 +1,183 @@
+// TemplatePicker.tsx - Bottom sheet listing the notes in the vault's templates folder
+
+import React, { useEffect, useState } from 'react';
+import {
+    View,
+    Text,
+    StyleSheet,
+    Modal,
+    TouchableOpacity,
+    ScrollView,
+    ActivityIndicator,
+    Alert,
+    useWindowDimensions
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useTranslation } from 'react-i18next';
+import { Ionicons } from '@expo/vector-icons';
+import StorageService from '../services/StorageService';
+import { FileStat } from '../services/providers/StorageProvider';
+import { useNotesStore } from '../stores/notesStore';
+import { DEFAULT_TEMPLATES_SETTINGS } from '../utils/templateUtils';
+import { joinPath } from '../utils/pathUtils';
+import { RTL_TEXT_STYLE } from '../utils/rtlUtils';
+
+interface TemplatePickerProps {
+    visible: boolean;
+    /** Receives the raw template markdown; variables are not filled in yet */
+    onSelect: (template: string) => void;
+    onClose: () => void;
+}
+
+export const TemplatePicker: React.FC<TemplatePickerProps> = ({ visible, onSelect, onClose }) => {
+    const { t } = useTranslation();
+    const { height: screenHeight } = useWindowDimensions();
+    const insets = useSafeAreaInsets();
+    const folder = useNotesStore((s) => (s.settings.templates ?? DEFAULT_TEMPLATES_SETTINGS).folder);
+    const [templates, setTemplates] = useState<FileStat[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+
+    useEffect(() => {
+        if (!visible) return;
+        let cancelled = false;
+        setIsLoading(true);
+        StorageService.listTemplates(folder)
+            .then((list) => { if (!cancelled) setTemplates(list); })
+            .catch((error) => console.error('Error loading templates:', error))
+            .finally(() => { if (!cancelled) setIsLoading(false); });
+        return () => { cancelled = true; };
+    }, [visible, folder]);
+
+    // `Templates/Work/Meeting.md` → `Work/Meeting`
+    const displayName = (template: FileStat) => {
+        const prefix = `${joinPath(folder)}/`;
+        const path = template.path.startsWith(prefix) ? template.path.substring(prefix.length) : template.path;
+        return path.replace(/\.md$/, '');
+    };
+
+    const handleSelect = async (template: FileStat) => {
+        const content = await StorageService.readFile(template.path);
+        if (content === null) {
+            Alert.alert(t('error'), t('template_cannot_read'));
+            return;
+        }
+        onClose();
+        onSelect(content);
+    };
+
+    return (
+        <Modal
+            visible={visible}
+            animationType="slide"
+            transparent={true}
+            onRequestClose={onClose}
+        >
+            <View style={styles.modalOverlay}>
+                <View style={[styles.modalContent, { maxHeight: screenHeight * 0.7, paddingBottom: Math.max(insets.bottom, 16) }]}>
+                    <View style={styles.header}>
+                        <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+                            <Ionicons name="close" size={24} color="#1A1A1A" />
+                        </TouchableOpacity>
+                        <Text style={styles.headerTitle}>{t('templates_title')}</Text>
+                        <View style={styles.headerPlaceholder} />
+                    </View>
+
+                    {isLoading ? (
+                        <View style={styles.centerContainer}>
+                            <ActivityIndicator size="large" color="#000000" />
+                        </View>
+                    ) : templates.length === 0 ? (
+                        <View style={styles.centerContainer}>
+                            <Ionicons name="document-text-outline" size={64} color="#CCC" />
+                            <Text style={styles.emptyText}>{t('templates_empty', { folder: joinPath(folder) || '—' })}</Text>
+                        </View>
+                    ) : (
+                        <ScrollView contentContainerStyle={styles.listContent}>
+                            {templates.map((template) => (
+                                <TouchableOpacity
+                                    key={template.path}
+                                    style={styles.templateRow}
+                                    onPress={() => handleSelect(template)}
+                                >
+                                    <Ionicons name="document-text-outline" size={20} color="#666" />
+                                    <Text style={styles.templateName} numberOfLines={1}>{displayName(template)}</Text>
+                                </TouchableOpacity>
+                            ))}
+                        </ScrollView>
+                    )}
+                </View>
+            </View>
+        </Modal>
+    );
+};
+
+const styles = StyleSheet.create({
+    modalOverlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        justifyContent: 'flex-end', // Slide from bottom
+    },
+    modalContent: {
+        backgroundColor: '#F9F9F9',
+        borderTopLeftRadius: 24,
+        borderTopRightRadius: 24,
+        paddingTop: 8,
+        minHeight: 240,
+    },
+    header: {
+        flexDirection: 'row-reverse',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        paddingHorizontal: 20,
+        paddingVertical: 16,
+        borderBottomWidth: 1,
+        borderBottomColor: '#E0E0E0',
+        backgroundColor: '#FFFFFF',
+        borderTopLeftRadius: 24,
+        borderTopRightRadius: 24,
+    },
+    headerTitle: {
+        fontSize: 20,
+        fontWeight: 'bold',
+        color: '#1A1A1A',
+    },
+    closeButton: {
+        padding: 4,
+    },
+    headerPlaceholder: {
+        width: 32,
+    },
+    centerContainer: {
+        justifyContent: 'center',
+        alignItems: 'center',
+        padding: 40,
+    },
+    emptyText: {
+        fontSize: 16,
+        color: '#999',
+        marginTop: 16,
+        fontWeight: '500',
+        textAlign: 'center',
+    },
+    listContent: {
+        padding: 16,
+    },
+    templateRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+        backgroundColor: '#FFFFFF',
+        borderRadius: 12,
+        paddingHorizontal: 16,
+        paddingVertical: 14,
+        marginBottom: 8,
+        borderWidth: 1,
+        borderColor: '#EEE',
+    },
+    templateName: {
+        flex: 1,
+        fontSize: 16,
+        color: '#1A1A1A',
+        ...RTL_TEXT_STYLE,
+    },
+});
@@ -18,6 +18,8 @@ import {
     CoreBridge,
     type EditorBridge,
 } from '@10play/tentap-editor';
+import * as FileSystem from 'expo-file-system/legacy';
+import type { TextOccurrence } from '../utils/editorUtils';
 
 
 // Remove TenTap bridges that this app doesn't use — every removed extension
@@ -26,7 +28,6 @@ import {
 // internal Tiptap `name` property:
 //
 //   - 'placeholder'  → unused placeholder text bridge
-//   - 'image'        → personal markdown notes don't carry inline images
 //   - 'color'        → not a standard markdown construct; the markdown
 //                       converter never emits color styles
 //   - 'highlight'    → same as color — not present in user content
@@ -34,11 +35,10 @@ import {
 //
 // Kept (DO NOT remove without verifying user content): bold, italic, strike,
 // underline, code, heading, bulletList, orderedList, listItem, blockquote,
-// taskList, link, hardBreak, history, core. These can all appear in
+// taskList, link, image, hardBreak, history, core. These can all appear in
 // existing markdown notes — removing them would silently lose formatting.
 const REMOVED_BRIDGE_NAMES = new Set([
     'placeholder',
-    'image',
     'color',
     'highlight',
     'dropCursor',
@@ -47,6 +47,11 @@ const bridgeExtensions = TenTapStartKit.filter(
     (ext) => !REMOVED_BRIDGE_NAMES.has(ext.name)
 );
 
+// Embedded vault images are shown from copies in the app cache (see
+// AttachmentService). Loading the editor page from that folder lets the
+// WebView read them as same-origin file:// URLs.
+const ATTACHMENT_CACHE_URL = FileSystem.cacheDirectory ?? undefined;
+
 // ─── Public ref interface ────────────────────────────────────────────────────
 
 export interface TiptapEditorRef {
@@ -54,6 +59,8 @@ export interface TiptapEditorRef {
     focus: () => void;
     blur: () => void;
     setHtml: (html: string) => void;
+    /** Select and scroll to a passage of the text (search results) */
+    revealText: (target: TextOccurrence) => void;
     editorBridge: EditorBridge;
 }
 
@@ -208,6 +215,7 @@ export const TiptapEditor = forwardRef<TiptapEditorRef, TiptapEditorProps>(
             dynamicHeight: false,
             initialContent: initialHtml,
             bridgeExtensions: extensions,
+            webviewBaseURL: ATTACHMENT_CACHE_URL,
             theme: {
                 webview: {
                     backgroundColor,
@@ -288,6 +296,35 @@ export const TiptapEditor = forwardRef<TiptapEditorRef, TiptapEditorProps>(
             focus: () => editor.focus(),
             blur: () => editor.blur(),
             setHtml: (html: string) => editor.setContent(html),
+            revealText: (target: TextOccurrence) => {
+                // Tiptap's positions aren't reachable from here, so select a
+                // DOM range; ProseMirror picks up DOM selection changes.
+                editor.injectJS(`
+                    (function() {
+                        var root = document.querySelector('.ProseMirror');
+                        if (!root) return;
+                        var needle = ${JSON.stringify(target.text.toLowerCase())};
+                        var occurrence = ${target.occurrence};
+                        var walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+                        var found = null, count = 0, node;
+                        while (count <= occurrence && (node = walker.nextNode())) {
+                            var text = node.nodeValue.toLowerCase();
+                            for (var i = text.indexOf(needle); i !== -1 && count <= occurrence; i = text.indexOf(needle, i + 1)) {
+                                found = { node: node, offset: i };
+                                count++;
+                            }
+                        }
+                        if (!found) return;
+                        var range = document.createRange();
+                        range.setStart(found.node, found.offset);
+                        range.setEnd(found.node, found.offset + needle.length);
+                        var selection = window.getSelection();
+                        selection.removeAllRanges();
+                        selection.addRange(range);
+                        found.node.parentElement.scrollIntoView({ block: 'center' });
+                    })();
+                `);
+            },
             editorBridge: editor,
         }), [editor]);
 
@@ -295,6 +332,9 @@ export const TiptapEditor = forwardRef<TiptapEditorRef, TiptapEditorProps>(
             <View style={styles.container}>
                 <RichText
                     editor={editor}
+                    allowFileAccess
+                    allowFileAccessFromFileURLs
+                    allowingReadAccessToURL={ATTACHMENT_CACHE_URL}
                 />
             </View>
         );
@@ -10,12 +10,15 @@ import { Editor } from '@tiptap/core';
 import StarterKit from '@tiptap/starter-kit';
 import TaskList from '@tiptap/extension-task-list';
 import TaskItem from '@tiptap/extension-task-item';
+import Image from '@tiptap/extension-image';
+import type { TextOccurrence } from '../utils/editorUtils';
 
 export interface TiptapEditorRef {
     getHtml: () => Promise<string>;
     focus: () => void;
     blur: () => void;
     setHtml: (html: string) => void;
+    revealText: (target: TextOccurrence) => void;
     editorBridge: any;
 }
 
@@ -88,6 +91,8 @@ export const TiptapEditor = forwardRef<TiptapEditorRef, TiptapEditorProps>(
                     TaskItem.configure({
                         nested: true,
                     }),
+                    // Vault images are shown from data URIs on web
+                    Image.configure({ allowBase64: true }),
                 ],
                 content: initialHtml,
                 autofocus: autoFocus,
@@ -134,6 +139,25 @@ export const TiptapEditor = forwardRef<TiptapEditorRef, TiptapEditorProps>(
             focus: () => (tiptapEditor.current as any)?.focus(),
             blur: () => (tiptapEditor.current as any)?.commands.blur(),
             setHtml: (html: string) => tiptapEditor.current?.commands.setContent(html),
+            revealText: (target: TextOccurrence) => {
+                const editor = tiptapEditor.current;
+                const needle = target.text.toLowerCase();
+                if (!editor || !needle) return;
+                // Nth match across text nodes, else the last one
+                let from = -1;
+                let count = 0;
+                editor.state.doc.descendants((node, pos) => {
+                    if (count > target.occurrence) return false;
+                    if (!node.isText || !node.text) return;
+                    const text = node.text.toLowerCase();
+                    for (let i = text.indexOf(needle); i !== -1 && count <= target.occurrence; i = text.indexOf(needle, i + 1)) {
+                        from = pos + i;
+                        count++;
+                    }
+                });
+                if (from === -1) return;
+                editor.chain().focus().setTextSelection({ from, to: from + needle.length }).scrollIntoView().run();
+            },
             // Mock bridge for compatibility with toolbar logic in parents
             editorBridge: {
                 focus: (pos?: 'start' | 'end') => {
@@ -154,6 +178,7 @@ export const TiptapEditor = forwardRef<TiptapEditorRef, TiptapEditorProps>(
                 toggleBulletList: () => tiptapEditor.current?.chain().focus().toggleBulletList().run(),
                 toggleOrderedList: () => tiptapEditor.current?.chain().focus().toggleOrderedList().run(),
                 toggleTaskList: () => tiptapEditor.current?.chain().focus().toggleTaskList().run(),
+                setImage: (src: string) => tiptapEditor.current?.chain().focus().setImage({ src }).run(),
                 getEditorState,
                 _subscribeToEditorStateUpdate: (callback: (state: any) => void) => {
                     stateListeners.current.push(callback);
@@ -182,6 +207,7 @@ export const TiptapEditor = forwardRef<TiptapEditorRef, TiptapEditorProps>(
                     }
                     .ProseMirror p { margin-bottom: 0.5em; }
                     .ProseMirror [dir="auto"] { text-align: start; }
+                    .ProseMirror img { max-width: 100%; height: auto; border-radius: 6px; }
                     
                     /* Task List Styles */
                     .ProseMirror ul[data-type="taskList"] {
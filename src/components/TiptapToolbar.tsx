@@ -22,6 +22,8 @@ interface TiptapToolbarProps {
     editor: EditorBridge;
     onPinPress?: () => void;
     isPinned?: boolean;
+    /** Opens the image source picker; the button is hidden without it. */
+    onImagePress?: () => void;
     /** Called when the dismiss button is pressed. If provided, replaces the default keyboard-dismiss behaviour. */
     onDismiss?: () => void;
 }
@@ -32,6 +34,7 @@ export const TiptapToolbar: React.FC<TiptapToolbarProps> = ({
     editor,
     onPinPress,
     isPinned,
+    onImagePress,
     onDismiss,
 }) => {
     // useBridgeState re-renders this component whenever the editor selection
@@ -91,6 +94,17 @@ export const TiptapToolbar: React.FC<TiptapToolbarProps> = ({
                 />
             </ToolBtn>
 
+            {/* Attach image */}
+            {onImagePress && (
+                <ToolBtn active={false} onPress={onImagePress}>
+                    <Ionicons
+                        name="image-outline"
+                        size={22}
+                        color="#000000"
+                    />
+                </ToolBtn>
+            )}
+
             {/* Separator */}
             <View style={styles.vSeparator} />
 
@@ -1,8 +1,11 @@
 import React, { useRef, useMemo } from 'react';
 import { View, Text, TouchableOpacity, StyleSheet, Platform, StyleProp, ViewStyle } from 'react-native';
-import Markdown from 'react-native-markdown-display';
+import Markdown, { openUrl } from 'react-native-markdown-display';
 import { Ionicons } from '@expo/vector-icons';
 import { getDirection } from '../utils/rtlUtils';
+import { wikilinksToMarkdown, getWikilinkTarget } from '../services/LinkService';
+import { embedsToMarkdown } from '../utils/attachmentUtils';
+import { AttachmentImage } from './AttachmentImage';
 
 interface UnifiedMarkdownDisplayProps {
     content: string;
@@ -11,8 +14,13 @@ interface UnifiedMarkdownDisplayProps {
     numberOfLines?: number;
     /** Multiplier applied to body and heading font sizes. 1 = default. */
     scale?: number;
+    /** Called with the link target when a `[[wikilink]]` is tapped. */
+    onWikilinkPress?: (target: string) => void;
+    /** Vault path of the note, to find its embedded images. */
+    notePath?: string;
 }
 
+
 // Android: RN's `writingDirection` style is iOS-only, and `textAlign: 'right'`
 // alone does not change the paragraph-level BiDi direction — Android decides
 // paragraph direction from the device locale. Symptom: when the device is in
@@ -43,16 +51,17 @@ const getNodeText = (node: any): string => {
     return text;
 };
 
-const UnifiedMarkdownDisplayImpl: React.FC<UnifiedMarkdownDisplayProps> = ({ content, onToggleCheckbox, style, numberOfLines, scale = 1 }) => {
+const UnifiedMarkdownDisplayImpl: React.FC<UnifiedMarkdownDisplayProps> = ({ content, onToggleCheckbox, style, numberOfLines, scale = 1, onWikilinkPress, notePath = '' }) => {
 
     // Checkbox Render Index reference to preserve unique indexes across render
     const checklistRenderIndex = useRef(0);
     // Reset before every render so indexes correctly match content structure
     checklistRenderIndex.current = 0;
 
-    // Strip out the RLM character just for the React Native Markdown parser
-    // This allows native syntax block recognition to succeed; styling direction is managed separately below
-    const cleanContent = content;
+    // Obsidian `[[wikilinks]]` are not markdown; rewrite them as links on the
+    // `wikilink:` scheme so the parser turns them into tappable link nodes.
+    // `![[image.png]]` embeds likewise become images on the `attachment:` scheme.
+    const cleanContent = useMemo(() => wikilinksToMarkdown(embedsToMarkdown(content)), [content]);
 
     // Memoize rules so the Markdown library can reuse them across renders.
     // Rebuilt only when one of the actually-referenced inputs changes.
@@ -71,13 +80,52 @@ const UnifiedMarkdownDisplayImpl: React.FC<UnifiedMarkdownDisplayProps> = ({ con
             // If content is empty after stripping (e.g. just a checkbox), return null to avoid empty Text view
             if (!nodeContent) return null;
 
-            return <Text key={node.key} style={ruleStyles.body} numberOfLines={numberOfLines}>{nodeContent}</Text>;
+            // Text inside a link would otherwise take the body color and hide
+            // the link styling, so re-apply it here.
+            const linkParent = parent.find((p: any) => p.type === 'link');
+            const linkStyle = linkParent
+                ? [ruleStyles.link, getWikilinkTarget(linkParent.attributes?.href || '') !== null && wikilinkStyle]
+                : null;
+
+            return <Text key={node.key} style={[ruleStyles.body, linkStyle]} numberOfLines={numberOfLines}>{nodeContent}</Text>;
         },
 
+        link: (node: any, children: any, parent: any, ruleStyles: any) => {
+            const href: string = node.attributes?.href || '';
+            const target = getWikilinkTarget(href);
+            return (
+                <Text
+                    key={node.key}
+                    style={[ruleStyles.link, target !== null && wikilinkStyle]}
+                    onPress={() => (target !== null ? onWikilinkPress?.(target) : openUrl(href))}
+                >
+                    {children}
+                </Text>
+            );
+        },
+
+        image: (node: any) => (
+            <AttachmentImage
+                key={node.key}
+                src={node.attributes?.src || ''}
+                alt={node.attributes?.alt}
+                notePath={notePath}
+            />
+        ),
+
         paragraph: (node: any, children: any, parent: any, ruleStyles: any) => {
             const textContent = getNodeText(node);
             const direction = getDirection(textContent);
 
+            // Images are Views, which can't sit inside a <Text>
+            if (node.children?.some((c: any) => c.type === 'image')) {
+                return (
+                    <View key={node.key} style={[ruleStyles.paragraph, { alignSelf: 'stretch', width: '100%' }]}>
+                        {children}
+                    </View>
+                );
+            }
+
             return (
                 <Text
                     key={node.key}
@@ -210,7 +258,7 @@ const UnifiedMarkdownDisplayImpl: React.FC<UnifiedMarkdownDisplayProps> = ({ con
                 </View>
             );
         },
-    }), [numberOfLines, onToggleCheckbox]);
+    }), [numberOfLines, onToggleCheckbox, onWikilinkPress, notePath]);
 
     return (
         // alignSelf:'stretch' + width:'100%' guarantees the markdown surface
@@ -241,6 +289,13 @@ const scaledMarkdownStyles = (scale: number) => ({
     list_item_bullet: { ...markdownStyles.list_item_bullet, fontSize: 15 * scale, lineHeight: 22 * scale },
 });
 
+// Wikilinks read as internal links: accent color, no underline
+const wikilinkStyle = {
+    color: '#6A1B9A',
+    textDecorationLine: 'none' as const,
+    fontWeight: '500' as const,
+};
+
 // Memo: skip re-render when content/props haven't changed (default shallow
 // compare). Avoids re-parsing markdown when an unrelated NoteCard prop nudges
 // the parent.
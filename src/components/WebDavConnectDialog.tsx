@@ -0,0 +1,204 @@
+// WebDavConnectDialog.tsx - Server address and login for a WebDAV vault
+// The server is checked before anything is saved; the login then goes to
+// secure storage through StorageService, and only the address to settings.
+
+import React, { useEffect, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, Modal, StyleSheet, ActivityIndicator } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import StorageService from '../services/StorageService';
+import { PureNotesVaultConfig } from '../types/Note';
+
+interface WebDavConnectDialogProps {
+    visible: boolean;
+    onConnect: (config: PureNotesVaultConfig) => void;
+    onCancel: () => void;
+}
+
+export const WebDavConnectDialog: React.FC<WebDavConnectDialogProps> = ({ visible, onConnect, onCancel }) => {
+    const { t } = useTranslation();
+    const [url, setUrl] = useState('');
+    const [username, setUsername] = useState('');
+    const [password, setPassword] = useState('');
+    const [isConnecting, setIsConnecting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Start clean every time the dialog opens; the password is never kept
+    useEffect(() => {
+        if (visible) {
+            setPassword('');
+            setError(null);
+            setIsConnecting(false);
+        }
+    }, [visible]);
+
+    const canConnect = url.trim().length > 0 && username.trim().length > 0 && !isConnecting;
+
+    const handleConnect = async () => {
+        if (!canConnect) return;
+        setIsConnecting(true);
+        setError(null);
+        try {
+            const config = await StorageService.connectWebDav(url.trim(), { username: username.trim(), password });
+            onConnect(config);
+        } catch (err) {
+            console.error('Error connecting WebDAV vault:', err);
+            setError(err instanceof Error ? err.message : String(err));
+        } finally {
+            setIsConnecting(false);
+        }
+    };
+
+    return (
+        <Modal visible={visible} transparent animationType="fade" onRequestClose={onCancel}>
+            <TouchableOpacity activeOpacity={1} style={styles.backdrop} onPress={onCancel}>
+                {/* Stop the inner card from receiving the backdrop tap. */}
+                <TouchableOpacity activeOpacity={1} onPress={() => {}} style={styles.dialog}>
+                    <Text style={styles.title}>{t('webdav_title')}</Text>
+                    <Text style={styles.message}>{t('webdav_desc')}</Text>
+
+                    <Text style={styles.label}>{t('webdav_url')}</Text>
+                    <TextInput
+                        style={styles.input}
+                        value={url}
+                        onChangeText={setUrl}
+                        placeholder="https://cloud.example.com/remote.php/dav/files/me/Notes"
+                        placeholderTextColor="#999"
+                        autoCapitalize="none"
+                        autoCorrect={false}
+                        keyboardType="url"
+                        textContentType="URL"
+                    />
+
+                    <Text style={styles.label}>{t('webdav_username')}</Text>
+                    <TextInput
+                        style={styles.input}
+                        value={username}
+                        onChangeText={setUsername}
+                        autoCapitalize="none"
+                        autoCorrect={false}
+                        textContentType="username"
+                    />
+
+                    <Text style={styles.label}>{t('webdav_password')}</Text>
+                    <TextInput
+                        style={styles.input}
+                        value={password}
+                        onChangeText={setPassword}
+                        secureTextEntry
+                        autoCapitalize="none"
+                        autoCorrect={false}
+                        textContentType="password"
+                        onSubmitEditing={handleConnect}
+                    />
+
+                    {!!error && (
+                        <Text style={styles.error}>
+                            {t('webdav_connect_failed')}{'\n'}{error}
+                        </Text>
+                    )}
+
+                    <View style={styles.buttonsRow}>
+                        <TouchableOpacity style={styles.button} onPress={onCancel}>
+                            <Text style={styles.buttonText}>{t('cancel')}</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                            style={[styles.button, !canConnect && styles.buttonDisabled]}
+                            onPress={handleConnect}
+                            disabled={!canConnect}
+                        >
+                            {isConnecting ? (
+                                <ActivityIndicator size="small" color="#000000" />
+                            ) : (
+                                <Text style={styles.buttonText}>{t('webdav_connect')}</Text>
+                            )}
+                        </TouchableOpacity>
+                    </View>
+                </TouchableOpacity>
+            </TouchableOpacity>
+        </Modal>
+    );
+};
+
+const styles = StyleSheet.create({
+    backdrop: {
+        flex: 1,
+        backgroundColor: 'rgba(0,0,0,0.45)',
+        justifyContent: 'center',
+        alignItems: 'center',
+        padding: 20,
+    },
+    dialog: {
+        width: '100%',
+        maxWidth: 400,
+        backgroundColor: '#FFFFFF',
+        borderRadius: 16,
+        padding: 24,
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 4 },
+        shadowOpacity: 0.18,
+        shadowRadius: 16,
+        elevation: 6,
+    },
+    title: {
+        fontSize: 18,
+        fontWeight: '700',
+        color: '#1A1A1A',
+        marginBottom: 8,
+        textAlign: 'center',
+    },
+    message: {
+        fontSize: 14,
+        color: '#555',
+        lineHeight: 20,
+        marginBottom: 16,
+        textAlign: 'center',
+    },
+    label: {
+        fontSize: 13,
+        fontWeight: '600',
+        color: '#555',
+        marginBottom: 6,
+    },
+    input: {
+        borderWidth: 1,
+        borderColor: '#DDD',
+        borderRadius: 10,
+        paddingHorizontal: 12,
+        paddingVertical: 10,
+        fontSize: 15,
+        color: '#1A1A1A',
+        marginBottom: 14,
+        // Addresses and logins are Latin; keep them left-to-right in Hebrew too
+        textAlign: 'left',
+        writingDirection: 'ltr',
+    },
+    error: {
+        fontSize: 13,
+        color: '#D32F2F',
+        lineHeight: 18,
+        marginBottom: 14,
+    },
+    buttonsRow: {
+        flexDirection: 'row',
+        gap: 12,
+        marginTop: 6,
+    },
+    button: {
+        flex: 1,
+        paddingVertical: 12,
+        borderRadius: 10,
+        alignItems: 'center',
+        justifyContent: 'center',
+        backgroundColor: '#FFFFFF',
+        borderWidth: 1,
+        borderColor: '#000000',
+    },
+    buttonDisabled: {
+        opacity: 0.4,
+    },
+    buttonText: {
+        color: '#000000',
+        fontSize: 15,
+        fontWeight: '600',
+    },
+});
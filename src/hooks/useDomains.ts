@@ -0,0 +1,8 @@
+import { useNotesStore } from '../stores/notesStore';
+import { DEFAULT_DOMAINS } from '../utils/domainUtils';
+import { DomainConfig } from '../types/Note';
+
+// Settings persisted before domains were configurable have no `domains` key
+export function useDomains(): DomainConfig[] {
+    return useNotesStore((s) => s.settings.domains) ?? DEFAULT_DOMAINS;
+}
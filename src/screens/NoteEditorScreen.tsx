@@ -19,6 +19,7 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { SmartEditor, SmartEditorRef } from '../components/SmartEditor';
 import { MarkdownToolbar } from '../components/MarkdownToolbar';
 import { TiptapToolbar } from '../components/TiptapToolbar';
+import { ImageSourceSheet } from '../components/ImageSourceSheet';
 import { type EditorBridge } from '@10play/tentap-editor';
 import { DomainSelector } from '../components/DomainSelector';
 import { Ionicons, MaterialCommunityIcons } from '@expo/vector-icons';
@@ -57,6 +58,7 @@ export const NoteEditorScreen = ({ navigation, route }: any) => {
         return others;
     });
     const [showToast, setShowToast] = useState(false);
+    const [imageSheetVisible, setImageSheetVisible] = useState(false);
 
     const [editorInstance, setEditorInstance] = useState<SmartEditorRef | null>(null);
     const [editorBridge, setEditorBridge] = useState<EditorBridge | null>(null);
@@ -158,8 +160,9 @@ export const NoteEditorScreen = ({ navigation, route }: any) => {
             const bodyMarkdown = await editorRef.current?.getMarkdown() || '';
 
             let fullContent = FrontmatterService.composeContent(
-                { ...otherFrontmatterRef.current, domain: domain },
-                bodyMarkdown
+                { ...otherFrontmatterRef.current, ...(domain ? { domain: domain } : {}) },
+                bodyMarkdown,
+                existingNoteFromRoute?.content
             );
 
             // Apply pinned state
@@ -199,8 +202,9 @@ export const NoteEditorScreen = ({ navigation, route }: any) => {
                 // Trigger save
                 if (currentNoteRef.current) {
                     let fullContent = FrontmatterService.composeContent(
-                        { ...otherFrontmatterRef.current, domain: domainRef.current },
-                        newBodyMarkdown
+                        { ...otherFrontmatterRef.current, ...(domainRef.current ? { domain: domainRef.current } : {}) },
+                        newBodyMarkdown,
+                        existingNoteFromRoute?.content
                     );
 
                     // Apply pinned state
@@ -318,6 +322,7 @@ export const NoteEditorScreen = ({ navigation, route }: any) => {
                     initialContent={bodyText}
                     onChange={handleEditorChange}
                     onSelectionChange={(e: any) => setSelection(e.nativeEvent.selection)}
+                    notePath={currentNoteRef.current?.id ?? ''}
                     autoFocus={true}
                     backgroundColor="#FFFFFF"
                 />
@@ -343,10 +348,18 @@ export const NoteEditorScreen = ({ navigation, route }: any) => {
                         editor={editorBridge}
                         onPinPress={() => setIsPinned(!isPinned)}
                         isPinned={isPinned}
+                        onImagePress={() => setImageSheetVisible(true)}
                     />
                 ) : null}
             </View>
 
+            <ImageSourceSheet
+                visible={imageSheetVisible}
+                notePath={currentNoteRef.current?.id ?? ''}
+                onInsert={(image) => editorRef.current?.insertImage(image)}
+                onClose={() => setImageSheetVisible(false)}
+            />
+
             {/* Helper FAB for adding checklist items */}
             {hasChecklist && !isKeyboardVisible && (
                 <TouchableOpacity
@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useRef, useCallback } from 'react';
+import React, { useEffect, useState, useRef, useCallback, useMemo } from 'react';
 import { useTranslation } from 'react-i18next';
 import {
     View,
@@ -9,10 +9,10 @@ import {
     Platform,
     Keyboard,
     RefreshControl,
+    Alert,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import Swipeable from 'react-native-gesture-handler/Swipeable';
-import * as Linking from 'expo-linking';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useNotesStore } from '../stores/notesStore';
@@ -21,12 +21,33 @@ import { updateFrontmatter, removeFrontmatterKey } from '../services/Frontmatter
 import FrontmatterService from '../services/FrontmatterService';
 import { handleListContinuation } from '../utils/markdownUtils';
 import { RTL_TEXT_STYLE } from '../utils/rtlUtils';
+import { collectFolders, getFolder, getFileName, joinPath, splitPath } from '../utils/pathUtils';
+import { getTitleFromHeading, sanitizeFileName } from '../utils/fileNameUtils';
+import { renderTemplate, DEFAULT_TEMPLATES_SETTINGS } from '../utils/templateUtils';
+import { getTextOccurrence, TextOccurrence } from '../utils/editorUtils';
+import { DATE_BUCKETS, DateBucket, getGroupKey, getListView, getListViewKey } from '../utils/sortUtils';
+import { findDomain, getDomainLabel } from '../utils/domainUtils';
+import { DEFAULT_ATTACHMENT_FOLDER } from '../utils/attachmentUtils';
+import { SharedContent, appendSharedBlock, formatSharedContent, toSharedNoteContent } from '../utils/shareUtils';
 import { Header } from '../components/Header';
+import { TagBrowser } from '../components/TagBrowser';
+import { SmartListModal } from '../components/SmartListModal';
+import { ListViewModal } from '../components/ListViewModal';
+import { ReorderableRow } from '../components/ReorderableRow';
+import { PromptDialog } from '../components/PromptDialog';
+import { ConflictResolutionModal } from '../components/ConflictResolutionModal';
+import { ShareCaptureSheet, ShareTarget } from '../components/ShareCaptureSheet';
+import LinkService from '../services/LinkService';
+import ReminderService from '../services/ReminderService';
+import ShareService from '../services/ShareService';
+import UrlApiService, { UrlApiHandlers } from '../services/UrlApiService';
+import PureNotesService from '../services/PureNotesService';
 import { QuickAddInput } from '../components/QuickAddInput';
 import { EditorModal, EditorModalRef } from '../components/EditorModal';
 import { EmptyNotesList } from '../components/EmptyNotesList';
-import { Note, DomainType } from '../types/Note';
+import { Note, DomainType, NoteFilter, SmartList, ListViewSettings } from '../types/Note';
 import { useKeyboardHeight } from '../hooks/useKeyboardHeight';
+import { useDomains } from '../hooks/useDomains';
 import {
     LIST_BACKGROUND,
     LIST_FADE_ENABLED,
@@ -69,8 +90,13 @@ const ScrollFade: React.FC<{
     );
 };
 
-export const NotesListScreen = ({ navigation }: any) => {
-    const { t } = useTranslation();
+// A note, or the header of the section the notes after it belong to
+type NoteListRow =
+    | { type: 'note'; note: Note }
+    | { type: 'section'; key: string; title: string; color?: string; count: number };
+
+export const NotesListScreen = ({ navigation, route }: any) => {
+    const { t, i18n } = useTranslation();
     const {
         notes,
         filteredNotes,
@@ -81,15 +107,32 @@ export const NotesListScreen = ({ navigation }: any) => {
         archiveNote,
         createNote,
         updateNote,
+        renameNote,
+        resolveConflict,
+        restoreVersion,
+        openDailyNote,
+        appendToDailyNote,
+        searchQuery,
+        searchMatches,
         currentDomain,
         filterByDomain,
+        currentFolder,
+        filterByFolder,
+        selectedTag,
+        filterByTag,
+        activeSmartListId,
+        selectSmartList,
+        reorderNote,
         settings,
+        updateSettings,
         isVaultPermissionGranted,
+        isVaultUnreachable,
         reconnectWebVault,
         lockNote,
         unlockNote,
     } = useNotesStore();
 
+    const domains = useDomains();
     const domainCounts = notes.reduce((acc, note) => {
         if (note.domain) {
             acc[note.domain] = (acc[note.domain] || 0) + 1;
@@ -97,9 +140,27 @@ export const NotesListScreen = ({ navigation }: any) => {
         return acc;
     }, {} as Record<DomainType, number>);
 
+    // Folders derive from note ids (vault-relative paths); counts include subfolders
+    const folders = useMemo(() => collectFolders(notes.map((n) => n.id)), [notes]);
+    const folderCounts = useMemo(() => {
+        const counts: Record<string, number> = {};
+        notes.forEach((note) => {
+            let dir = getFolder(note.id);
+            while (dir) {
+                counts[dir] = (counts[dir] || 0) + 1;
+                dir = getFolder(dir);
+            }
+        });
+        return counts;
+    }, [notes]);
+
     const [quickNoteText, setQuickNoteText] = useState('');
     const [quickNotePinned, setQuickNotePinned] = useState(false);
     const [quickNoteDomain, setQuickNoteDomain] = useState<DomainType | null>(null);
+    // Quick-add appends a timestamped bullet to today's daily note instead
+    const [quickNoteToDaily, setQuickNoteToDaily] = useState(false);
+    // Frontmatter from an inserted template other than domain/pinned
+    const quickNoteOtherFm = useRef<Record<string, any>>({});
     const [isSending, setIsSending] = useState(false);
     const { keyboardVisible, keyboardHeight } = useKeyboardHeight();
     const [refreshing, setRefreshing] = useState(false);
@@ -108,6 +169,22 @@ export const NotesListScreen = ({ navigation }: any) => {
     const flatListRef = useRef<FlatList>(null);
     const insets = useSafeAreaInsets();
     const [showToast, setShowToast] = useState(false);
+    const [tagBrowserVisible, setTagBrowserVisible] = useState(false);
+    // Smart list being edited; null while creating one, undefined when closed
+    const [smartListEditing, setSmartListEditing] = useState<SmartList | null | undefined>(undefined);
+    const currentFilter = useMemo<NoteFilter>(() => ({
+        query: searchQuery,
+        tags: selectedTag ? [selectedTag] : undefined,
+        domains: currentDomain ? [currentDomain] : undefined,
+        folder: currentFolder,
+    }), [searchQuery, selectedTag, currentDomain, currentFolder]);
+
+    // Sort and sections, remembered per domain filter
+    const listView = getListView(settings, currentDomain);
+    const [listViewVisible, setListViewVisible] = useState(false);
+    const handleListViewChange = (view: ListViewSettings) => {
+        updateSettings({ listViews: { ...settings.listViews, [getListViewKey(currentDomain)]: view } });
+    };
 
     // ── QuickAdd modal state (lifted from QuickAddInput) ──────────────────
     // The QuickAdd EditorModal is rendered here at NotesListScreen root with
@@ -125,6 +202,8 @@ export const NotesListScreen = ({ navigation }: any) => {
     const [editModalPinned, setEditModalPinned] = useState(false);
     const editModalOtherFm = useRef<Record<string, any>>({});
     const editModalRef = useRef<EditorModalRef>(null);
+    // Search match the modal was opened from, selected once the text loads
+    const [editModalReveal, setEditModalReveal] = useState<TextOccurrence | null>(null);
 
     // Initial load: fetch notes & draft
     useEffect(() => {
@@ -167,31 +246,45 @@ export const NotesListScreen = ({ navigation }: any) => {
     }, [quickNoteText, quickNotePinned, quickNoteDomain]);
 
     const [shouldOpenQuickAdd, setShouldOpenQuickAdd] = useState(false);
+    // Content shared from another app, waiting for the user to pick where it goes
+    const [sharedContent, setSharedContent] = useState<SharedContent | null>(null);
+    const [isSavingShare, setIsSavingShare] = useState(false);
 
-    // Handle deep links (e.g., from iOS Widget)
+    // Handle deep links: the iOS widget, the share extension, reminders and
+    // the automation URL API (purenotes://new, append, open, search, daily)
     useEffect(() => {
-        const handleUrl = (url: string | null) => {
-            if (url && url.includes('purenotes://add')) {
-                setShouldOpenQuickAdd(true);
+        const urlApiHandlers: UrlApiHandlers = {
+            openQuickAdd: () => setShouldOpenQuickAdd(true),
+            // Opened by the openNoteId effect below, which sees the current modal state
+            openNote: (note) => navigation.setParams({ openNoteId: note.id }),
+            search: searchNotes,
+            showError: (message) => Alert.alert(t('error'), message),
+        };
+
+        const handleUrl = (url: string) => {
+            const shareId = ShareService.getShareId(url);
+            if (shareId) {
+                ShareService.readShare(shareId)
+                    .then((shared) => shared && setSharedContent(shared))
+                    .catch((error) => console.error('Failed to read shared content:', error));
+                return;
             }
+            UrlApiService.handleUrl(url, urlApiHandlers);
         };
 
-        // Handle URL that opened the app
-        Linking.getInitialURL().then((url) => {
-            if (url) handleUrl(url);
-        });
+        // The link that opened the app, and links arriving while it runs
+        const removeLinkListener = PureNotesService.setupDeepLinking(handleUrl);
 
-        // Listen for URLs when app is in background/foreground
-        const linkingSubscription = Linking.addEventListener('url', ({ url }) => {
-            if (url) handleUrl(url);
-        });
+        // Tapped reminder notifications carry a purenotes://open link
+        const removeReminderListener = ReminderService.addOpenListener(handleUrl);
 
         return () => {
-            linkingSubscription.remove();
+            removeLinkListener();
+            removeReminderListener();
         };
     }, []);
 
-    // Open the QuickAdd modal when a deep link requests it (iOS Widget).
+    // Open the QuickAdd modal when a deep link requests it (iOS Widget, purenotes://add).
     useEffect(() => {
         if (!shouldOpenQuickAdd) return;
         setQuickAddModalVisible(true);
@@ -277,6 +370,10 @@ export const NotesListScreen = ({ navigation }: any) => {
         navigation.navigate('Settings');
     };
 
+    const handleTasks = () => {
+        navigation.navigate('Tasks');
+    };
+
     // Generate filename from current date with seconds
     const generateFilename = (): string => {
         const now = new Date();
@@ -289,6 +386,20 @@ export const NotesListScreen = ({ navigation }: any) => {
         return `${year}-${month}-${day}_${hours}-${minutes}-${seconds}`;
     };
 
+    // Optimistic UI: clear input + dismiss keyboard immediately so the
+    // user gets instant feedback. Persistence happens in the background.
+    const clearQuickAdd = () => {
+        Keyboard.dismiss();
+        setQuickAddModalVisible(false);
+        quickAddEditorRef.current?.blur();
+        quickAddEditorRef.current?.clear();
+        setQuickNoteText('');
+        setQuickNotePinned(false);
+        setQuickNoteDomain(null);
+        quickNoteOtherFm.current = {};
+        AsyncStorage.removeItem('quickNoteDraft').catch(() => {});
+    };
+
     // Send quick note
     // `freshContent` (when provided) is the editor's live content captured by
     // EditorModal — preferred over quickNoteText state which may trail the
@@ -298,7 +409,21 @@ export const NotesListScreen = ({ navigation }: any) => {
         const text = sourceText.trim();
         if (!text || isSending) return;
 
-        if (!quickNoteDomain) {
+        if (quickNoteToDaily) {
+            setIsSending(true);
+            clearQuickAdd();
+            try {
+                await appendToDailyNote(text);
+            } catch (error) {
+                console.error('Error appending to daily note:', error);
+            } finally {
+                setIsSending(false);
+            }
+            return;
+        }
+
+        // A domain is required only while there are domains to pick from
+        if (!quickNoteDomain && domains.length > 0) {
             setShowToast(true);
             setTimeout(() => {
                 setShowToast(false);
@@ -314,6 +439,9 @@ export const NotesListScreen = ({ navigation }: any) => {
         }
         let formattedText = lines.join('\n');
 
+        if (Object.keys(quickNoteOtherFm.current).length > 0) {
+            formattedText = FrontmatterService.composeContent(quickNoteOtherFm.current, formattedText);
+        }
         if (quickNotePinned) {
             formattedText = updateFrontmatter(formattedText, 'pinned', true);
         }
@@ -321,23 +449,17 @@ export const NotesListScreen = ({ navigation }: any) => {
             formattedText = updateFrontmatter(formattedText, 'domain', quickNoteDomain);
         }
 
-        const filename = generateFilename();
+        // Title-derived names fall back to the timestamp when there is no usable heading
+        const filename = ((settings.noteNaming ?? 'timestamp') === 'heading' && getTitleFromHeading(formattedText))
+            || generateFilename();
 
-        // Optimistic UI: clear input + dismiss keyboard immediately so the
-        // user gets instant feedback. Persistence happens in the background.
         setIsSending(true);
-        Keyboard.dismiss();
-        setQuickAddModalVisible(false);
-        quickAddEditorRef.current?.blur();
-        quickAddEditorRef.current?.clear();
-        setQuickNoteText('');
-        setQuickNotePinned(false);
-        setQuickNoteDomain(null);
-        AsyncStorage.removeItem('quickNoteDraft').catch(() => {});
+        clearQuickAdd();
 
         try {
             // createNote already updates the store, so no extra loadNotes() needed.
-            await createNote(filename, formattedText);
+            // While browsing a folder, new notes land in that folder.
+            await createNote(filename, formattedText, currentFolder ?? undefined);
         } catch (error) {
             console.error('Error creating quick note:', error);
         } finally {
@@ -345,15 +467,63 @@ export const NotesListScreen = ({ navigation }: any) => {
         }
     };
 
+    // File shared content: images go to the attachment folder of the note
+    // they end up in, then the text, links and embeds are added to it
+    const handleShareSave = async (target: ShareTarget) => {
+        if (!sharedContent || isSavingShare) return;
+        const shared = sharedContent;
+        const attachmentFolder = settings.attachmentFolder ?? DEFAULT_ATTACHMENT_FOLDER;
+
+        setIsSavingShare(true);
+        try {
+            if (target.type === 'daily') {
+                const daily = await openDailyNote();
+                const embeds = await ShareService.saveImages(shared, daily.id, attachmentFolder);
+                await appendToDailyNote(formatSharedContent(shared, embeds));
+            } else if (target.type === 'note') {
+                const note = notes.find((n) => n.id === target.noteId);
+                if (!note) throw new Error('Note not found');
+                const embeds = await ShareService.saveImages(shared, note.id, attachmentFolder);
+                await updateNote(note.id, note.filePath, appendSharedBlock(note.content, formatSharedContent(shared, embeds)));
+            } else {
+                // The note does not exist yet; its folder is all the attachment folder depends on
+                const folder = currentFolder ?? undefined;
+                const embeds = await ShareService.saveImages(shared, joinPath(folder, 'shared.md'), attachmentFolder);
+                let content = toSharedNoteContent(shared, formatSharedContent(shared, embeds), t('share_default_title'));
+                if (target.domain) {
+                    content = updateFrontmatter(content, 'domain', target.domain);
+                }
+                const filename = ((settings.noteNaming ?? 'timestamp') === 'heading' && getTitleFromHeading(content))
+                    || generateFilename();
+                await createNote(filename, content, folder);
+            }
+            ShareService.discard(shared.id);
+            setSharedContent(null);
+        } catch (error) {
+            console.error('Error saving shared content:', error);
+            Alert.alert(t('error'), t('share_save_failed'));
+        } finally {
+            setIsSavingShare(false);
+        }
+    };
+
+    const handleShareClose = () => {
+        if (sharedContent) ShareService.discard(sharedContent.id);
+        setSharedContent(null);
+    };
+
     // ── Open edit modal for an existing note ──────────────────────────────
     // Title and body are now edited as a single continuous document in the
     // editor — no separate title field. The first line acts as the title
     // (kept as `# Heading` markdown so the convention with QuickAdd is
     // preserved). On save we re-prepend `# ` if the user removed it.
-    const openEditModal = useCallback((note: Note) => {
+    // `reveal` is a range of note.content to select, e.g. a search match
+    const openEditModal = useCallback((note: Note, reveal?: { start: number; end: number }) => {
         const parsed = FrontmatterService.parseFrontmatter(note.content);
         const { domain: d, pinned: p, ...otherFm } = parsed.frontmatter;
+        const bodyStart = note.content.length - parsed.body.length;
 
+        setEditModalReveal(reveal ? getTextOccurrence(parsed.body, reveal.start - bodyStart, reveal.end - bodyStart) : null);
         setEditModalNote(note);
         setEditModalBody(parsed.body);
         setEditModalDomain((d as DomainType) || null);
@@ -400,9 +570,12 @@ export const NotesListScreen = ({ navigation }: any) => {
             body = lines.join('\n');
         }
 
+        // Pass the note's previous content so untouched properties keep
+        // their original YAML text; a cleared domain drops the key entirely.
         let fullContent = FrontmatterService.composeContent(
-            { ...otherFmSnapshot, domain: domainSnapshot },
-            body
+            { ...otherFmSnapshot, ...(domainSnapshot ? { domain: domainSnapshot } : {}) },
+            body,
+            noteToSave.content
         );
 
         if (pinnedSnapshot) {
@@ -425,6 +598,263 @@ export const NotesListScreen = ({ navigation }: any) => {
         handleEditModalSave(freshBody);
     };
 
+    // ── Wikilinks ─────────────────────────────────────────────────────────
+    // Tapping [[Target]] opens the resolved note in the edit modal, or offers
+    // to create it when nothing in the vault matches.
+    const [missingLinkTarget, setMissingLinkTarget] = useState<string | null>(null);
+    const [isRenameVisible, setIsRenameVisible] = useState(false);
+
+    const openLinkedNote = (note: Note) => {
+        if (!editModalVisible) {
+            openEditModal(note);
+            return;
+        }
+        // Save the note being edited first, then reopen the modal on the
+        // linked note in a separate render so EditorModal sees the
+        // visible false→true transition and loads the new text.
+        handleEditModalSave();
+        setTimeout(() => openEditModal(note), 0);
+    };
+
+    const handleWikilinkPress = (target: string, fromNoteId?: string) => {
+        const linked = LinkService.resolve(target, fromNoteId);
+        if (linked) {
+            openLinkedNote(linked);
+        } else {
+            setMissingLinkTarget(target);
+        }
+    };
+
+    const handleCreateLinkedNote = async () => {
+        const target = missingLinkTarget;
+        setMissingLinkTarget(null);
+        if (!target) return;
+
+        // Link targets may hold characters file systems reject (`?`, `:`...)
+        const { dir, name } = splitPath(target);
+        const fileName = sanitizeFileName(name);
+        const folder = dir.split('/').map(sanitizeFileName).filter(Boolean).join('/');
+        if (!fileName) {
+            Alert.alert(t('error'), t('create_linked_note_invalid', { name }));
+            return;
+        }
+        try {
+            const created = await createNote(fileName, `# ${name}\n`, folder || undefined);
+            openLinkedNote(created);
+        } catch (error) {
+            console.error('Error creating linked note:', error);
+            Alert.alert(t('error'), (error as Error).message);
+        }
+    };
+
+    // ── Templates ─────────────────────────────────────────────────────────
+    // Fills in the template's variables and inserts its body — replacing an
+    // empty editor, else below the current text — with the cursor at its
+    // {{cursor}} marker. Template frontmatter prefills the domain and pin
+    // chips; other keys are kept and written on save.
+    const applyTemplate = (
+        template: string,
+        title: string,
+        currentBody: string,
+        editor: EditorModalRef | null,
+        target: {
+            setBody: (body: string) => void;
+            setDomain: (domain: DomainType | null) => void;
+            setPinned: (pinned: boolean) => void;
+            otherFm: React.MutableRefObject<Record<string, any>>;
+        }
+    ) => {
+        const { dateFormat, timeFormat } = settings.templates ?? DEFAULT_TEMPLATES_SETTINGS;
+        const { frontmatter, body, cursor } = renderTemplate(template, { title, date: new Date(), dateFormat, timeFormat });
+        const { domain: d, pinned: p, ...otherFm } = frontmatter;
+        if (d) target.setDomain(d as DomainType);
+        if (p !== undefined) target.setPinned(p === true);
+        target.otherFm.current = { ...target.otherFm.current, ...otherFm };
+
+        const prefix = currentBody.trim() ? `${currentBody.replace(/\s+$/, '')}\n\n` : '';
+        const newBody = prefix + body;
+        const offset = prefix.length + (cursor ?? body.length);
+        target.setBody(newBody);
+        editor?.setTextAndSelection(newBody, { start: offset, end: offset });
+    };
+
+    // New notes don't have a name yet; {{title}} gets the timestamp name
+    const handleQuickAddTemplate = (template: string) => {
+        applyTemplate(template, generateFilename(), quickNoteText, quickAddEditorRef.current, {
+            setBody: setQuickNoteText,
+            setDomain: setQuickNoteDomain,
+            setPinned: setQuickNotePinned,
+            otherFm: quickNoteOtherFm,
+        });
+    };
+
+    const handleEditTemplate = (template: string) => {
+        if (!editModalNote) return;
+        const title = getFileName(editModalNote.id).replace(/\.md$/, '');
+        applyTemplate(template, title, editModalBody, editModalRef.current, {
+            setBody: setEditModalBody,
+            setDomain: setEditModalDomain,
+            setPinned: setEditModalPinned,
+            otherFm: editModalOtherFm,
+        });
+    };
+
+    // ── Opening a note by id ──────────────────────────────────────────────
+    // The Tasks screen and `purenotes://open?id=` links (reminders) navigate
+    // here with `openNoteId`. On a cold start the notes may still be loading.
+    const openNoteId: string | undefined = route?.params?.openNoteId;
+    const hasNotes = notes.length > 0;
+    useEffect(() => {
+        if (!openNoteId || (!hasNotes && isLoading)) return;
+        navigation.setParams({ openNoteId: undefined });
+        const note = notes.find((n) => n.id === openNoteId);
+        if (note) {
+            openLinkedNote(note);
+        } else {
+            Alert.alert(t('error'), t('note_not_found'));
+        }
+    }, [openNoteId, hasNotes, isLoading]);
+
+    // ── Daily notes ───────────────────────────────────────────────────────
+    const handleOpenToday = async () => {
+        try {
+            openLinkedNote(await openDailyNote());
+        } catch (error) {
+            Alert.alert(t('error'), (error as Error).message);
+        }
+    };
+
+    const todayLabel = new Date().toLocaleDateString(i18n.language === 'he' ? 'he-IL' : 'en-US', {
+        weekday: 'long',
+        day: 'numeric',
+        month: 'long',
+    });
+
+    const handleRenameNote = async (newName: string) => {
+        setIsRenameVisible(false);
+        if (!editModalNote) return;
+        try {
+            // renameNote also rewrites [[links]] in every note pointing here
+            const renamed = await renameNote(editModalNote.id, newName);
+            setEditModalNote(renamed);
+        } catch (error) {
+            Alert.alert(t('error'), (error as Error).message);
+        }
+    };
+
+    // ── History ───────────────────────────────────────────────────────────
+    // Restoring saves right away (snapshotting what it replaces) and loads
+    // the restored markdown into the open editor.
+    const handleRestoreVersion = async (content: string) => {
+        if (!editModalNote) return;
+        try {
+            const restored = await restoreVersion(editModalNote.id, content);
+            const parsed = FrontmatterService.parseFrontmatter(restored.content);
+            const { domain: d, pinned: p, ...otherFm } = parsed.frontmatter;
+
+            setEditModalNote(restored);
+            setEditModalBody(parsed.body);
+            setEditModalDomain((d as DomainType) || null);
+            setEditModalPinned(p === true);
+            editModalOtherFm.current = otherFm;
+            editModalRef.current?.setTextAndSelection(parsed.body, { start: 0, end: 0 });
+        } catch (error) {
+            Alert.alert(t('error'), (error as Error).message);
+        }
+    };
+
+    // ── Conflicts ─────────────────────────────────────────────────────────
+    // Saves that overlapped with an outside edit wait here until the user
+    // picks a side; the banner stays until every conflict is resolved.
+    const conflictedNotes = useMemo(() => notes.filter((n) => n.syncStatus === 'conflict'), [notes]);
+    const [conflictModalVisible, setConflictModalVisible] = useState(false);
+
+    useEffect(() => {
+        if (conflictedNotes.length === 0) setConflictModalVisible(false);
+    }, [conflictedNotes.length]);
+
+    // NoteCard is memoized and ignores callback identity, so hand it stable
+    // wrappers that always call the latest handlers.
+    const linkHandlersRef = useRef({ handleWikilinkPress, openLinkedNote, openEditModal });
+    linkHandlersRef.current = { handleWikilinkPress, openLinkedNote, openEditModal };
+    const onCardWikilinkPress = useCallback((target: string, fromNoteId: string) => {
+        linkHandlersRef.current.handleWikilinkPress(target, fromNoteId);
+    }, []);
+    const onCardOpenNote = useCallback((note: Note) => {
+        linkHandlersRef.current.openLinkedNote(note);
+    }, []);
+    const onCardSnippetPress = useCallback((note: Note, start: number, end: number) => {
+        linkHandlersRef.current.openEditModal(note, { start, end });
+    }, []);
+
+    // ── Sections and manual order ─────────────────────────────────────────
+    // Grouped lists get their section headers as rows between the notes
+    const listRows = useMemo<NoteListRow[]>(() => {
+        if (listView.group === 'none') return filteredNotes.map((note) => ({ type: 'note', note }));
+
+        const groups = new Map<string, Note[]>();
+        const now = new Date();
+        filteredNotes.forEach((note) => {
+            const key = getGroupKey(note, listView.group, listView.sort, now);
+            if (!groups.has(key)) groups.set(key, []);
+            groups.get(key)!.push(note);
+        });
+
+        const sectionTitle = (key: string) => {
+            if (listView.group === 'date') return t(`list_date_${key}`);
+            if (listView.group === 'domain') return key ? getDomainLabel(t, key) : t('list_no_domain');
+            return key || t('list_vault_root');
+        };
+        // Defined domains in their configured order, then unknown ones, then none
+        const rank = (key: string) => {
+            if (listView.group === 'date') return DATE_BUCKETS.indexOf(key as DateBucket);
+            if (listView.group === 'folder') return key ? 1 : 0;
+            if (!key) return domains.length + 1;
+            const index = domains.findIndex((d) => d.id === key);
+            return index === -1 ? domains.length : index;
+        };
+
+        return [...groups.keys()]
+            .sort((a, b) => rank(a) - rank(b) || a.localeCompare(b))
+            .flatMap((key): NoteListRow[] => [
+                {
+                    type: 'section',
+                    key,
+                    title: sectionTitle(key),
+                    color: listView.group === 'domain' ? findDomain(domains, key)?.color : undefined,
+                    count: groups.get(key)!.length,
+                },
+                ...groups.get(key)!.map((note): NoteListRow => ({ type: 'note', note })),
+            ]);
+    }, [filteredNotes, listView.group, listView.sort, domains, t]);
+
+    // Dragging only makes sense where the list shows the manual order itself
+    const canReorder = listView.sort === 'manual' && listView.group === 'none' && !searchQuery.trim();
+    const [isReordering, setIsReordering] = useState(false);
+    const rowHeights = useRef(new Map<string, number>());
+
+    // Walk the rows the note was dragged over; half a row counts as passing it
+    const handleReorder = (note: Note, dy: number) => {
+        setIsReordering(false);
+        const from = filteredNotes.indexOf(note);
+        if (from === -1) return;
+        const rowHeight = (index: number) => (rowHeights.current.get(filteredNotes[index].id) ?? 0) + CARD_GAP;
+        let to = from;
+        let remaining = Math.abs(dy);
+        const step = dy > 0 ? 1 : -1;
+        while (to + step >= 0 && to + step < filteredNotes.length && remaining >= rowHeight(to + step) / 2) {
+            remaining -= rowHeight(to + step);
+            to += step;
+        }
+        if (to !== from) {
+            reorderNote(note.id, to).catch((error) => console.error('Error reordering note:', error));
+        }
+    };
+    const reorderRef = useRef(handleReorder);
+    reorderRef.current = handleReorder;
+    const onRowDragStart = useCallback(() => setIsReordering(true), []);
+    const onRowDragEnd = useCallback((note: Note, dy: number) => reorderRef.current(note, dy), []);
+
     const renderRightActions = (_progress: any, _dragX: any, item: Note) => {
         return (
             <TouchableOpacity
@@ -437,9 +867,23 @@ export const NotesListScreen = ({ navigation }: any) => {
         );
     };
 
-    const renderNote = useCallback(({ item }: { item: Note }) => {
+    const renderRow = useCallback(({ item: row }: { item: NoteListRow }) => {
+        if (row.type === 'section') {
+            return (
+                <View style={styles.sectionHeader}>
+                    {!!row.color && <View style={[styles.sectionDot, { backgroundColor: row.color }]} />}
+                    <Text style={styles.sectionTitle} numberOfLines={1}>{row.title}</Text>
+                    <Text style={styles.sectionCount}>{row.count}</Text>
+                </View>
+            );
+        }
+        const item = row.note;
         return (
-            <View
+            <ReorderableRow
+                enabled={canReorder}
+                onDragStart={onRowDragStart}
+                onDragEnd={(dy) => onRowDragEnd(item, dy)}
+                onLayout={(e) => rowHeights.current.set(item.id, e.nativeEvent.layout.height)}
                 style={{
                     marginBottom: CARD_GAP,
                     borderBottomWidth: CARD_SEPARATOR_WIDTH,
@@ -457,11 +901,17 @@ export const NotesListScreen = ({ navigation }: any) => {
                         onArchive={() => handleArchive(item)}
                         onEditRequest={() => openEditModal(item)}
                         onQuickAddRequest={() => openEditModal(item)}
+                        onWikilinkPress={(target) => onCardWikilinkPress(target, item.id)}
+                        onOpenNote={onCardOpenNote}
+                        searchQuery={searchQuery}
+                        searchMatches={searchMatches.get(item.id)}
+                        dateField={listView.sort === 'created' ? 'created' : 'updated'}
+                        onSnippetPress={(start, end) => onCardSnippetPress(item, start, end)}
                     />
                 </Swipeable>
-            </View>
+            </ReorderableRow>
         );
-    }, [handleUpdateNote, openEditModal]);
+    }, [handleUpdateNote, openEditModal, onCardWikilinkPress, onCardOpenNote, onCardSnippetPress, searchQuery, searchMatches, listView.sort, canReorder, onRowDragStart, onRowDragEnd]);
 
     return (
         <View style={styles.container}>
@@ -469,31 +919,70 @@ export const NotesListScreen = ({ navigation }: any) => {
             <Header
                 title={t('main_title')}
                 onSettingsPress={handleSettings}
+                onTasksPress={handleTasks}
+                onListViewPress={() => setListViewVisible(true)}
                 onSearch={searchNotes}
+                searchQuery={searchQuery}
                 onSearchFocus={() => setIsSearchFocused(true)}
                 onSearchBlur={() => setIsSearchFocused(false)}
                 isSearchFocused={isSearchFocused}
                 currentDomain={currentDomain}
                 onFilterByDomain={filterByDomain}
                 domainCounts={domainCounts}
+                folders={folders}
+                currentFolder={currentFolder}
+                onFilterByFolder={filterByFolder}
+                folderCounts={folderCounts}
+                selectedTag={selectedTag}
+                smartLists={settings.smartLists ?? []}
+                activeSmartListId={activeSmartListId}
+                onSelectSmartList={selectSmartList}
+                onEditSmartList={setSmartListEditing}
+                onTagsPress={() => setTagBrowserVisible(true)}
+                onClearTag={() => filterByTag(null)}
                 hideSearchAndDomain={isQuickNoteActive}
                 showReconnect={Platform.OS === 'web' && !!settings.vault && !isVaultPermissionGranted}
                 onReconnect={reconnectWebVault}
             />
 
+            {conflictedNotes.length > 0 && !isQuickNoteActive && (
+                <TouchableOpacity style={styles.conflictBanner} onPress={() => setConflictModalVisible(true)}>
+                    <Ionicons name="git-compare-outline" size={18} color="#FFFFFF" />
+                    <Text style={styles.conflictBannerText}>{t('conflict_banner', { count: conflictedNotes.length })}</Text>
+                    <Text style={styles.conflictBannerAction}>{t('conflict_resolve')}</Text>
+                </TouchableOpacity>
+            )}
+
+            {isVaultUnreachable && !isQuickNoteActive && (
+                <TouchableOpacity style={[styles.conflictBanner, styles.unreachableBanner]} onPress={() => loadNotes()}>
+                    <Ionicons name="cloud-offline-outline" size={18} color="#FFFFFF" />
+                    <Text style={styles.conflictBannerText}>{t('vault_unreachable_banner')}</Text>
+                    <Text style={styles.conflictBannerAction}>{t('vault_unreachable_retry')}</Text>
+                </TouchableOpacity>
+            )}
+
             {/* Notes List — wrapped so we can lay a top blur over its first
                 visible row. Notes scroll behind the blur for a soft fade. */}
             <View style={styles.listWrapper}>
             <FlatList
                 ref={flatListRef}
                 style={{ flex: 1 }}
-                data={filteredNotes}
-                renderItem={renderNote}
-                keyExtractor={(item) => item.id}
+                data={listRows}
+                renderItem={renderRow}
+                keyExtractor={(row) => (row.type === 'section' ? `section:${row.key}` : row.note.id)}
+                scrollEnabled={!isReordering}
                 contentContainerStyle={[
                     styles.listContent,
                     { paddingBottom: keyboardVisible ? keyboardHeight + 160 : 120 }
                 ]}
+                ListHeaderComponent={!searchQuery && !selectedTag && !activeSmartListId ? (
+                    <TouchableOpacity style={styles.todayEntry} onPress={handleOpenToday}>
+                        <Ionicons name="calendar-outline" size={18} color="#1A1A1A" />
+                        <Text style={styles.todayEntryTitle}>{t('daily_today')}</Text>
+                        <Text style={styles.todayEntryDate} numberOfLines={1}>{todayLabel}</Text>
+                        <Ionicons name="chevron-forward" size={16} color="#999" />
+                    </TouchableOpacity>
+                ) : null}
                 ListEmptyComponent={<EmptyNotesList isLoading={isLoading} />}
                 showsVerticalScrollIndicator={false}
                 keyboardShouldPersistTaps="handled"
@@ -555,6 +1044,7 @@ export const NotesListScreen = ({ navigation }: any) => {
                     <QuickAddInput
                         text={quickNoteText}
                         isSending={isSending}
+                        isDailyMode={quickNoteToDaily}
                         bottomPadding={Platform.OS === 'android' ? Math.max(insets.bottom, 60) : (insets.bottom > 0 ? insets.bottom : 16)}
                         onOpenModal={() => {
                             setQuickAddModalVisible(true);
@@ -585,7 +1075,10 @@ export const NotesListScreen = ({ navigation }: any) => {
                     setQuickAddModalVisible(false);
                     setIsQuickNoteActive(false);
                 }}
-                requireDomain={true}
+                requireDomain={domains.length > 0}
+                dailyMode={quickNoteToDaily}
+                onDailyModeChange={setQuickNoteToDaily}
+                onApplyTemplate={handleQuickAddTemplate}
                 eagerMount={true}
             />
 
@@ -605,6 +1098,13 @@ export const NotesListScreen = ({ navigation }: any) => {
                 onPinChange={setEditModalPinned}
                 onSave={handleEditModalSave}
                 onClose={handleEditModalClose}
+                noteId={editModalNote?.id}
+                onWikilinkPress={(target) => handleWikilinkPress(target, editModalNote?.id)}
+                onOpenNote={openLinkedNote}
+                onRename={() => setIsRenameVisible(true)}
+                onRestoreVersion={handleRestoreVersion}
+                onApplyTemplate={handleEditTemplate}
+                revealText={editModalReveal}
                 compactDomain
                 // Android: Tiptap WebView never finishes its JS init when
                 // mounted lazily on first modal-open (Android pauses freshly
@@ -616,6 +1116,69 @@ export const NotesListScreen = ({ navigation }: any) => {
                 eagerMount={Platform.OS === 'android'}
             />
 
+            {/* Tag Browser — nested tag tree with note counts */}
+            <TagBrowser
+                visible={tagBrowserVisible}
+                notes={notes}
+                selectedTag={selectedTag}
+                onSelectTag={filterByTag}
+                onClose={() => setTagBrowserVisible(false)}
+            />
+
+            {/* Text, links and images shared from other apps */}
+            <ShareCaptureSheet
+                shared={sharedContent}
+                isSaving={isSavingShare}
+                onSave={handleShareSave}
+                onClose={handleShareClose}
+            />
+
+            <ListViewModal
+                visible={listViewVisible}
+                view={listView}
+                scopeLabel={currentDomain ? getDomainLabel(t, currentDomain) : t('list_view_all_notes')}
+                onChange={handleListViewChange}
+                onClose={() => setListViewVisible(false)}
+            />
+
+            {/* Create or edit a smart list; a new one starts from the current filter */}
+            <SmartListModal
+                visible={smartListEditing !== undefined}
+                smartList={smartListEditing ?? null}
+                initialFilter={currentFilter}
+                onClose={() => setSmartListEditing(undefined)}
+            />
+
+            <ConflictResolutionModal
+                visible={conflictModalVisible}
+                note={conflictedNotes[0] ?? null}
+                remaining={conflictedNotes.length}
+                onResolve={(resolution) => {
+                    if (conflictedNotes[0]) resolveConflict(conflictedNotes[0].id, resolution);
+                }}
+                onClose={() => setConflictModalVisible(false)}
+            />
+
+            {/* Wikilink target missing → offer to create it */}
+            <PromptDialog
+                visible={missingLinkTarget !== null}
+                title={t('create_linked_note_title')}
+                message={t('create_linked_note_message', { name: missingLinkTarget ?? '' })}
+                confirmLabel={t('create_action')}
+                onConfirm={handleCreateLinkedNote}
+                onCancel={() => setMissingLinkTarget(null)}
+            />
+
+            {/* Rename the note open in the edit modal */}
+            <PromptDialog
+                visible={isRenameVisible}
+                title={t('rename_note')}
+                defaultValue={editModalNote ? getFileName(editModalNote.id).replace(/\.md$/, '') : ''}
+                confirmLabel={t('rename_action')}
+                onConfirm={handleRenameNote}
+                onCancel={() => setIsRenameVisible(false)}
+            />
+
             {/* Error Message */}
             {error && (
                 <View style={styles.errorContainer}>
@@ -701,6 +1264,77 @@ const styles = StyleSheet.create({
         marginTop: 4,
         fontWeight: '500',
     },
+    sectionHeader: {
+        flexDirection: 'row-reverse',
+        alignItems: 'center',
+        gap: 6,
+        marginTop: 8,
+        marginBottom: 8,
+    },
+    sectionDot: {
+        width: 10,
+        height: 10,
+        borderRadius: 5,
+    },
+    sectionTitle: {
+        flex: 1,
+        fontSize: 15,
+        fontWeight: '600',
+        color: '#333',
+        ...RTL_TEXT_STYLE,
+    },
+    sectionCount: {
+        fontSize: 13,
+        color: '#999',
+    },
+    todayEntry: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        marginBottom: 12,
+        paddingHorizontal: 14,
+        paddingVertical: 12,
+        borderRadius: 12,
+        backgroundColor: '#FFFFFF',
+        borderWidth: 1,
+        borderColor: '#E4E6EB',
+    },
+    todayEntryTitle: {
+        fontSize: 15,
+        fontWeight: '600',
+        color: '#1A1A1A',
+    },
+    todayEntryDate: {
+        flex: 1,
+        fontSize: 14,
+        color: '#666',
+    },
+    conflictBanner: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        marginHorizontal: 16,
+        marginBottom: 8,
+        paddingHorizontal: 14,
+        paddingVertical: 10,
+        borderRadius: 12,
+        backgroundColor: '#FB8C00',
+    },
+    conflictBannerText: {
+        flex: 1,
+        color: '#FFFFFF',
+        fontSize: 14,
+        fontWeight: '500',
+        ...RTL_TEXT_STYLE,
+    },
+    conflictBannerAction: {
+        color: '#FFFFFF',
+        fontSize: 14,
+        fontWeight: '700',
+    },
+    unreachableBanner: {
+        backgroundColor: '#757575',
+    },
     errorContainer: {
         position: 'absolute',
         bottom: 120,
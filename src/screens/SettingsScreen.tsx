@@ -10,6 +10,8 @@ import {
     Alert,
     Platform,
     Modal,
+    TextInput,
+    ActivityIndicator,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
@@ -18,25 +20,111 @@ import { useNotesStore } from '../stores/notesStore';
 import PureNotesService from '../services/PureNotesService';
 import StorageService from '../services/StorageService';
 import { ArchiveModal } from '../components/ArchiveModal';
+import { TrashModal } from '../components/TrashModal';
+import { DomainManagerModal } from '../components/DomainManagerModal';
+import { WebDavConnectDialog } from '../components/WebDavConnectDialog';
 import { Slider } from '../components/Slider';
 import { RTL_TEXT_STYLE } from '../utils/rtlUtils';
+import { DEFAULT_DAILY_NOTES_SETTINGS, getDailyNotePath } from '../utils/dailyNoteUtils';
+import { DEFAULT_TEMPLATES_SETTINGS } from '../utils/templateUtils';
+import { DEFAULT_REMINDERS_SETTINGS } from '../utils/reminderUtils';
+import { DEFAULT_ATTACHMENT_FOLDER } from '../utils/attachmentUtils';
+import ReminderService from '../services/ReminderService';
+import BackgroundSyncService from '../services/BackgroundSyncService';
+import { DailyNotesSettings, TemplatesSettings, RemindersSettings, PureNotesVaultConfig } from '../types/Note';
 
 const TEXT_SCALE_MIN = 0.85;
 const TEXT_SCALE_MAX = 1.4;
 const TEXT_SCALE_STEP = 0.05;
+// Trash auto-purge choices in days; 0 keeps deleted notes until emptied by hand
+const TRASH_RETENTION_OPTIONS = [7, 30, 90, 0];
+// Vault check intervals in minutes; watchers pick up most changes sooner
+const SYNC_INTERVAL_OPTIONS = [1, 5, 15, 30];
+const NOTE_NAMING_OPTIONS = ['timestamp', 'heading'] as const;
+// Passed as a value so i18next doesn't treat the braces as its own placeholders
+const TEMPLATE_VARIABLES_HINT = '{{title}}, {{date}}, {{time}}, {{date:FORMAT}}, {{cursor}}';
 
 export const SettingsScreen = ({ navigation }: any) => {
     const { t } = useTranslation();
     const { settings, updateSettings, setVaultConfig /* [INACTIVE] setEditorMode */ } = useNotesStore();
     const [vaultName, setVaultName] = useState(settings.vault?.vaultName || '');
     const [isArchiveVisible, setIsArchiveVisible] = useState(false);
+    const [isTrashVisible, setIsTrashVisible] = useState(false);
+    const [isDomainsVisible, setIsDomainsVisible] = useState(false);
+    const [isWebDavVisible, setIsWebDavVisible] = useState(false);
+    const isWebDavVault = settings.vault?.provider === 'webdav';
+    const trashRetentionDays = settings.trashRetentionDays ?? 30;
+    const noteNaming = settings.noteNaming ?? 'timestamp';
+    const dailyNotes = settings.dailyNotes ?? DEFAULT_DAILY_NOTES_SETTINGS;
+    const templates = settings.templates ?? DEFAULT_TEMPLATES_SETTINGS;
+    const attachmentFolder = settings.attachmentFolder ?? DEFAULT_ATTACHMENT_FOLDER;
+    const syncDomainsWithVault = settings.syncDomainsWithVault ?? false;
+    const reminders = settings.reminders ?? DEFAULT_REMINDERS_SETTINGS;
     // Custom-styled disconnect confirmation. Replaces Alert.alert which is
     // unreliable on react-native-web (the auto-converted browser confirm
     // could be auto-dismissed by some browsers and didn't fire onPress).
     const [isDisconnectConfirmVisible, setIsDisconnectConfirmVisible] = useState(false);
+    const [isSyncingNow, setIsSyncingNow] = useState(false);
     const insets = useSafeAreaInsets();
     const headerPaddingTop = Math.max(insets.top, 12);
 
+    const updateDailyNotes = (changes: Partial<DailyNotesSettings>) => {
+        updateSettings({ dailyNotes: { ...dailyNotes, ...changes } });
+    };
+
+    // Take folder, format and template from Obsidian's Daily notes plugin
+    const handleImportObsidianDailyNotes = async () => {
+        try {
+            const config = await StorageService.readObsidianDailyNotesConfig();
+            if (!config) {
+                Alert.alert(t('error'), t('daily_obsidian_not_found'));
+                return;
+            }
+            updateDailyNotes(config);
+        } catch (error) {
+            console.error('Error reading Obsidian daily notes config:', error);
+            Alert.alert(t('error'), t('daily_obsidian_not_found'));
+        }
+    };
+
+    const updateReminders = (changes: Partial<RemindersSettings>) => {
+        updateSettings({ reminders: { ...reminders, ...changes } });
+    };
+
+    const updateTemplates = (changes: Partial<TemplatesSettings>) => {
+        updateSettings({ templates: { ...templates, ...changes } });
+    };
+
+    // Take folder and date/time formats from Obsidian's Templates plugin
+    const handleImportObsidianTemplates = async () => {
+        try {
+            const config = await StorageService.readObsidianTemplatesConfig();
+            if (!config) {
+                Alert.alert(t('error'), t('templates_obsidian_not_found'));
+                return;
+            }
+            updateTemplates(config);
+        } catch (error) {
+            console.error('Error reading Obsidian templates config:', error);
+            Alert.alert(t('error'), t('templates_obsidian_not_found'));
+        }
+    };
+
+    // Take the attachment location from Obsidian's Files & links settings
+    const handleImportObsidianAttachments = async () => {
+        try {
+            const folder = await StorageService.readObsidianAttachmentFolder();
+            if (folder === null) {
+                Alert.alert(t('error'), t('attachments_obsidian_not_found'));
+                return;
+            }
+            updateSettings({ attachmentFolder: folder || '/' });
+        } catch (error) {
+            console.error('Error reading Obsidian attachment settings:', error);
+            Alert.alert(t('error'), t('attachments_obsidian_not_found'));
+        }
+    };
+
     const handleSelectVaultDirectory = async () => {
         try {
             const vaultConfig = await StorageService.selectExternalFolder();
@@ -58,6 +146,11 @@ export const SettingsScreen = ({ navigation }: any) => {
         }
     };
 
+    const handleWebDavConnect = (vaultConfig: PureNotesVaultConfig) => {
+        setVaultConfig(vaultConfig);
+        setIsWebDavVisible(false);
+    };
+
     const handleDisconnectVault = () => {
         // Open a custom-styled confirmation modal instead of Alert.alert —
         // the native alert behaves inconsistently on react-native-web and
@@ -66,6 +159,9 @@ export const SettingsScreen = ({ navigation }: any) => {
     };
 
     const performDisconnect = () => {
+        if (isWebDavVault) {
+            StorageService.disconnectWebDav().catch((error) => console.warn('Failed to clear the WebDAV login:', error));
+        }
         setVaultConfig({ vaultName: '', isConnected: false });
         setVaultName('');
         setIsDisconnectConfirmVisible(false);
@@ -79,6 +175,15 @@ export const SettingsScreen = ({ navigation }: any) => {
         updateSettings({ autoSync: value });
     };
 
+    const handleSyncNow = async () => {
+        setIsSyncingNow(true);
+        try {
+            await BackgroundSyncService.syncNow();
+        } finally {
+            setIsSyncingNow(false);
+        }
+    };
+
     return (
         <ScrollView style={styles.container}>
             {/* Header */}
@@ -132,16 +237,30 @@ export const SettingsScreen = ({ navigation }: any) => {
                                         : t('select_external_folder')}
                             </Text>
                         </TouchableOpacity>
+
+                        {StorageService.isWebDavSupported() && (
+                            <TouchableOpacity
+                                style={[styles.button, styles.buttonSecondary]}
+                                onPress={() => setIsWebDavVisible(true)}
+                            >
+                                <Ionicons name="server-outline" size={20} color="#000000" />
+                                <Text style={[styles.buttonText, styles.buttonTextSecondary]}>
+                                    {t('webdav_connect_server')}
+                                </Text>
+                            </TouchableOpacity>
+                        )}
                     </>
                 ) : (
                     <>
                         <View style={styles.storageCard}>
-                            <Ionicons name="cloud-outline" size={24} color="#000000" />
+                            <Ionicons name={isWebDavVault ? 'server-outline' : 'cloud-outline'} size={24} color="#000000" />
                             <View style={{ flex: 1, marginLeft: 12 }}>
                                 <Text style={styles.storageTitle}>
-                                    {Platform.OS === 'web'
-                                        ? t('connected_folder_web')
-                                        : t('connected_external_storage')}
+                                    {isWebDavVault
+                                        ? t('connected_webdav')
+                                        : Platform.OS === 'web'
+                                            ? t('connected_folder_web')
+                                            : t('connected_external_storage')}
                                 </Text>
                                 <Text style={styles.storageDesc} numberOfLines={1}>
                                     {settings.vault.vaultName}
@@ -176,6 +295,65 @@ export const SettingsScreen = ({ navigation }: any) => {
                 )}
             </View>
 
+            {/* Sync — picking up changes other apps make to the vault */}
+            {settings.vault?.isConnected && (
+                <View style={styles.section}>
+                    <Text style={styles.sectionTitle}>{t('sync_title')}</Text>
+                    <View style={styles.optionRow}>
+                        {[true, false].map((enabled) => {
+                            const isSelected = settings.autoSync === enabled;
+                            return (
+                                <TouchableOpacity
+                                    key={String(enabled)}
+                                    style={[styles.optionChip, isSelected && styles.optionChipSelected]}
+                                    onPress={() => handleAutoSyncToggle(enabled)}
+                                >
+                                    <Text style={[styles.optionChipText, isSelected && styles.optionChipTextSelected]}>
+                                        {enabled ? t('sync_auto') : t('sync_manual')}
+                                    </Text>
+                                </TouchableOpacity>
+                            );
+                        })}
+                    </View>
+
+                    {settings.autoSync && (
+                        <>
+                            <Text style={[styles.fieldLabel, styles.fieldLabelSpaced]}>{t('sync_interval')}</Text>
+                            <View style={styles.optionRow}>
+                                {SYNC_INTERVAL_OPTIONS.map((minutes) => {
+                                    const isSelected = settings.syncInterval === minutes;
+                                    return (
+                                        <TouchableOpacity
+                                            key={minutes}
+                                            style={[styles.optionChip, isSelected && styles.optionChipSelected]}
+                                            onPress={() => updateSettings({ syncInterval: minutes })}
+                                        >
+                                            <Text style={[styles.optionChipText, isSelected && styles.optionChipTextSelected]}>
+                                                {t('sync_interval_minutes', { count: minutes })}
+                                            </Text>
+                                        </TouchableOpacity>
+                                    );
+                                })}
+                            </View>
+                        </>
+                    )}
+                    <Text style={styles.hint}>{settings.autoSync ? t('sync_auto_hint') : t('sync_manual_hint')}</Text>
+
+                    <TouchableOpacity
+                        style={[styles.button, styles.buttonSecondary]}
+                        onPress={handleSyncNow}
+                        disabled={isSyncingNow}
+                    >
+                        {isSyncingNow
+                            ? <ActivityIndicator size="small" color="#000000" />
+                            : <Ionicons name="sync-outline" size={20} color="#000000" />}
+                        <Text style={[styles.buttonText, styles.buttonTextSecondary]}>
+                            {t('sync_now')}
+                        </Text>
+                    </TouchableOpacity>
+                </View>
+            )}
+
             {/* [INACTIVE] Editor Settings — בחירת מצב עורך מושבתת. ברירת מחדל: richtext בלבד.
             <View style={styles.section}>
                 <Text style={styles.sectionTitle}>תצוגת עורך הטקסט</Text>
@@ -244,6 +422,234 @@ export const SettingsScreen = ({ navigation }: any) => {
                 <Text style={styles.hint}>{t('text_size_hint')}</Text>
             </View>
 
+            {/* File names for new quick notes */}
+            <View style={styles.section}>
+                <Text style={styles.sectionTitle}>{t('note_naming')}</Text>
+                <View style={styles.optionRow}>
+                    {NOTE_NAMING_OPTIONS.map((option) => {
+                        const isSelected = noteNaming === option;
+                        return (
+                            <TouchableOpacity
+                                key={option}
+                                style={[styles.optionChip, isSelected && styles.optionChipSelected]}
+                                onPress={() => updateSettings({ noteNaming: option })}
+                            >
+                                <Text style={[styles.optionChipText, isSelected && styles.optionChipTextSelected]}>
+                                    {t(`note_naming_${option}`)}
+                                </Text>
+                            </TouchableOpacity>
+                        );
+                    })}
+                </View>
+                <Text style={styles.hint}>{t('note_naming_hint')}</Text>
+            </View>
+
+            {/* Domains */}
+            <View style={styles.section}>
+                <Text style={styles.sectionTitle}>{t('domains_title')}</Text>
+
+                <TouchableOpacity
+                    style={[styles.button, styles.buttonSecondary]}
+                    onPress={() => setIsDomainsVisible(true)}
+                >
+                    <Ionicons name="pricetags-outline" size={20} color="#000000" />
+                    <Text style={[styles.buttonText, styles.buttonTextSecondary]}>
+                        {t('manage_domains')}
+                    </Text>
+                </TouchableOpacity>
+
+                {settings.vault && (
+                    <>
+                        <Text style={styles.sectionSubtitle}>{t('domains_storage')}</Text>
+                        <View style={styles.optionRow}>
+                            {[false, true].map((inVault) => {
+                                const isSelected = syncDomainsWithVault === inVault;
+                                return (
+                                    <TouchableOpacity
+                                        key={String(inVault)}
+                                        style={[styles.optionChip, isSelected && styles.optionChipSelected]}
+                                        onPress={() => updateSettings({ syncDomainsWithVault: inVault })}
+                                    >
+                                        <Text style={[styles.optionChipText, isSelected && styles.optionChipTextSelected]}>
+                                            {inVault ? t('domains_storage_vault') : t('domains_storage_device')}
+                                        </Text>
+                                    </TouchableOpacity>
+                                );
+                            })}
+                        </View>
+                        <Text style={styles.hint}>{t('domains_storage_hint')}</Text>
+                    </>
+                )}
+            </View>
+
+            {/* Reminders — local notifications for due/remind dates */}
+            {ReminderService.isSupported() && (
+                <View style={styles.section}>
+                    <Text style={styles.sectionTitle}>{t('reminders_title')}</Text>
+                    <View style={styles.optionRow}>
+                        {[true, false].map((enabled) => {
+                            const isSelected = reminders.enabled === enabled;
+                            return (
+                                <TouchableOpacity
+                                    key={String(enabled)}
+                                    style={[styles.optionChip, isSelected && styles.optionChipSelected]}
+                                    onPress={() => updateReminders({ enabled })}
+                                >
+                                    <Text style={[styles.optionChipText, isSelected && styles.optionChipTextSelected]}>
+                                        {enabled ? t('reminders_on') : t('reminders_off')}
+                                    </Text>
+                                </TouchableOpacity>
+                            );
+                        })}
+                    </View>
+
+                    <Text style={[styles.fieldLabel, styles.fieldLabelSpaced]}>{t('reminders_default_time')}</Text>
+                    <TextInput
+                        style={styles.textField}
+                        value={reminders.defaultTime}
+                        onChangeText={(defaultTime) => updateReminders({ defaultTime })}
+                        placeholder={DEFAULT_REMINDERS_SETTINGS.defaultTime}
+                        placeholderTextColor="#999"
+                        keyboardType="numbers-and-punctuation"
+                        autoCorrect={false}
+                    />
+                    <Text style={styles.hint}>{t('reminders_hint')}</Text>
+                </View>
+            )}
+
+            {/* Daily notes — same settings as Obsidian's Daily notes plugin */}
+            <View style={styles.section}>
+                <Text style={styles.sectionTitle}>{t('daily_notes')}</Text>
+
+                <Text style={styles.fieldLabel}>{t('daily_folder')}</Text>
+                <TextInput
+                    style={styles.textField}
+                    value={dailyNotes.folder}
+                    onChangeText={(folder) => updateDailyNotes({ folder })}
+                    placeholder={t('daily_folder_placeholder')}
+                    placeholderTextColor="#999"
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                />
+
+                <Text style={styles.fieldLabel}>{t('daily_format')}</Text>
+                <TextInput
+                    style={styles.textField}
+                    value={dailyNotes.format}
+                    onChangeText={(format) => updateDailyNotes({ format })}
+                    placeholder={DEFAULT_DAILY_NOTES_SETTINGS.format}
+                    placeholderTextColor="#999"
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                />
+
+                <Text style={styles.fieldLabel}>{t('daily_template')}</Text>
+                <TextInput
+                    style={styles.textField}
+                    value={dailyNotes.template}
+                    onChangeText={(template) => updateDailyNotes({ template })}
+                    placeholder={t('daily_template_placeholder')}
+                    placeholderTextColor="#999"
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                />
+                <Text style={styles.hint}>
+                    {t('daily_path_preview', { path: getDailyNotePath(new Date(), dailyNotes) })}
+                </Text>
+
+                {settings.vault && (
+                    <TouchableOpacity
+                        style={[styles.button, styles.buttonSecondary, styles.buttonSpaced]}
+                        onPress={handleImportObsidianDailyNotes}
+                    >
+                        <Ionicons name="download-outline" size={20} color="#000000" />
+                        <Text style={[styles.buttonText, styles.buttonTextSecondary]}>
+                            {t('daily_import_obsidian')}
+                        </Text>
+                    </TouchableOpacity>
+                )}
+            </View>
+
+            {/* Templates — same settings as Obsidian's Templates plugin */}
+            <View style={styles.section}>
+                <Text style={styles.sectionTitle}>{t('templates_title')}</Text>
+
+                <Text style={styles.fieldLabel}>{t('templates_folder')}</Text>
+                <TextInput
+                    style={styles.textField}
+                    value={templates.folder}
+                    onChangeText={(folder) => updateTemplates({ folder })}
+                    placeholder={DEFAULT_TEMPLATES_SETTINGS.folder}
+                    placeholderTextColor="#999"
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                />
+
+                <Text style={styles.fieldLabel}>{t('templates_date_format')}</Text>
+                <TextInput
+                    style={styles.textField}
+                    value={templates.dateFormat}
+                    onChangeText={(dateFormat) => updateTemplates({ dateFormat })}
+                    placeholder={DEFAULT_TEMPLATES_SETTINGS.dateFormat}
+                    placeholderTextColor="#999"
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                />
+
+                <Text style={styles.fieldLabel}>{t('templates_time_format')}</Text>
+                <TextInput
+                    style={styles.textField}
+                    value={templates.timeFormat}
+                    onChangeText={(timeFormat) => updateTemplates({ timeFormat })}
+                    placeholder={DEFAULT_TEMPLATES_SETTINGS.timeFormat}
+                    placeholderTextColor="#999"
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                />
+                <Text style={styles.hint}>{t('templates_hint', { variables: TEMPLATE_VARIABLES_HINT })}</Text>
+
+                {settings.vault && (
+                    <TouchableOpacity
+                        style={[styles.button, styles.buttonSecondary, styles.buttonSpaced]}
+                        onPress={handleImportObsidianTemplates}
+                    >
+                        <Ionicons name="download-outline" size={20} color="#000000" />
+                        <Text style={[styles.buttonText, styles.buttonTextSecondary]}>
+                            {t('daily_import_obsidian')}
+                        </Text>
+                    </TouchableOpacity>
+                )}
+            </View>
+
+            {/* Attachments — Obsidian's "Default location for new attachments" */}
+            <View style={styles.section}>
+                <Text style={styles.sectionTitle}>{t('attachments_title')}</Text>
+
+                <Text style={styles.fieldLabel}>{t('attachments_folder')}</Text>
+                <TextInput
+                    style={styles.textField}
+                    value={attachmentFolder}
+                    onChangeText={(folder) => updateSettings({ attachmentFolder: folder })}
+                    placeholder={DEFAULT_ATTACHMENT_FOLDER}
+                    placeholderTextColor="#999"
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                />
+                <Text style={styles.hint}>{t('attachments_hint')}</Text>
+
+                {settings.vault && (
+                    <TouchableOpacity
+                        style={[styles.button, styles.buttonSecondary, styles.buttonSpaced]}
+                        onPress={handleImportObsidianAttachments}
+                    >
+                        <Ionicons name="download-outline" size={20} color="#000000" />
+                        <Text style={[styles.buttonText, styles.buttonTextSecondary]}>
+                            {t('daily_import_obsidian')}
+                        </Text>
+                    </TouchableOpacity>
+                )}
+            </View>
+
             {/* Archive Settings */}
             <View style={styles.section}>
                 <Text style={styles.sectionTitle}>{t('archive')}</Text>
@@ -259,6 +665,40 @@ export const SettingsScreen = ({ navigation }: any) => {
                 </TouchableOpacity>
             </View>
 
+            {/* Trash Settings */}
+            <View style={styles.section}>
+                <Text style={styles.sectionTitle}>{t('trash_title')}</Text>
+
+                <TouchableOpacity
+                    style={[styles.button, styles.buttonSecondary]}
+                    onPress={() => setIsTrashVisible(true)}
+                >
+                    <Ionicons name="trash-outline" size={20} color="#000000" />
+                    <Text style={[styles.buttonText, styles.buttonTextSecondary]}>
+                        {t('manage_trash')}
+                    </Text>
+                </TouchableOpacity>
+
+                <Text style={styles.sectionSubtitle}>{t('trash_retention')}</Text>
+                <View style={styles.optionRow}>
+                    {TRASH_RETENTION_OPTIONS.map((days) => {
+                        const isSelected = trashRetentionDays === days;
+                        return (
+                            <TouchableOpacity
+                                key={days}
+                                style={[styles.optionChip, isSelected && styles.optionChipSelected]}
+                                onPress={() => updateSettings({ trashRetentionDays: days })}
+                            >
+                                <Text style={[styles.optionChipText, isSelected && styles.optionChipTextSelected]}>
+                                    {days === 0 ? t('trash_retention_never') : t('trash_retention_days', { count: days })}
+                                </Text>
+                            </TouchableOpacity>
+                        );
+                    })}
+                </View>
+                <Text style={styles.hint}>{t('trash_retention_hint')}</Text>
+            </View>
+
             {/* App Info */}
             <View style={styles.section}>
                 <Text style={styles.sectionTitle}>{t('about')}</Text>
@@ -274,6 +714,25 @@ export const SettingsScreen = ({ navigation }: any) => {
                 onClose={() => setIsArchiveVisible(false)}
             />
 
+            {/* Trash Modal */}
+            <TrashModal
+                visible={isTrashVisible}
+                onClose={() => setIsTrashVisible(false)}
+            />
+
+            {/* Domains Modal */}
+            <DomainManagerModal
+                visible={isDomainsVisible}
+                onClose={() => setIsDomainsVisible(false)}
+            />
+
+            {/* WebDAV vault connection */}
+            <WebDavConnectDialog
+                visible={isWebDavVisible}
+                onConnect={handleWebDavConnect}
+                onCancel={() => setIsWebDavVisible(false)}
+            />
+
             {/* Custom disconnect confirmation — matches app style and works
                 reliably on every platform (unlike Alert.alert on web). */}
             <Modal
@@ -415,6 +874,55 @@ const styles = StyleSheet.create({
         textAlign: 'center',
         marginTop: 8,
     },
+    fieldLabel: {
+        fontSize: 14,
+        fontWeight: '500',
+        color: '#333',
+        marginBottom: 6,
+    },
+    fieldLabelSpaced: {
+        marginTop: 16,
+    },
+    textField: {
+        borderWidth: 1,
+        borderColor: '#E0E0E0',
+        borderRadius: 10,
+        paddingHorizontal: 12,
+        paddingVertical: 10,
+        fontSize: 15,
+        color: '#1A1A1A',
+        marginBottom: 12,
+        textAlign: 'left',
+        writingDirection: 'ltr',
+    },
+    buttonSpaced: {
+        marginTop: 16,
+        marginBottom: 0,
+    },
+    optionRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 8,
+    },
+    optionChip: {
+        paddingVertical: 8,
+        paddingHorizontal: 14,
+        borderRadius: 16,
+        borderWidth: 1,
+        borderColor: '#000000',
+        backgroundColor: '#FFFFFF',
+    },
+    optionChipSelected: {
+        backgroundColor: '#000000',
+    },
+    optionChipText: {
+        color: '#000000',
+        fontSize: 14,
+        fontWeight: '500',
+    },
+    optionChipTextSelected: {
+        color: '#FFFFFF',
+    },
     textSizeRow: {
         flexDirection: 'row',
         alignItems: 'center',
@@ -0,0 +1,402 @@
+// TasksScreen.tsx - Every checklist item in the vault, grouped by note, domain or due date
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+    View,
+    Text,
+    TouchableOpacity,
+    StyleSheet,
+    SectionList,
+    Alert,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { useNotesStore } from '../stores/notesStore';
+import { useDomains } from '../hooks/useDomains';
+import StorageService from '../services/StorageService';
+import { Note, Task, TaskPriority } from '../types/Note';
+import { DEFAULT_TASKS_SETTINGS, parseTasks, compareTasks, getDueBucket, DueBucket, toggleTask as toggleTaskInContent } from '../utils/taskUtils';
+import { findDomain, getDomainLabel } from '../utils/domainUtils';
+import { getFileName, getFolder } from '../utils/pathUtils';
+import { RTL_TEXT_STYLE } from '../utils/rtlUtils';
+
+const GROUP_OPTIONS = ['note', 'domain', 'due'] as const;
+const DUE_BUCKETS: DueBucket[] = ['overdue', 'today', 'upcoming', 'no_date'];
+const PRIORITY_ICONS: Record<TaskPriority, string> = {
+    highest: '🔺', high: '⏫', medium: '🔼', none: '', low: '🔽', lowest: '⏬',
+};
+
+interface TaskEntry {
+    task: Task;
+    note: Note;
+    archived: boolean;
+}
+
+interface TaskSection {
+    key: string;
+    title: string;
+    color?: string;
+    data: TaskEntry[];
+}
+
+const noteTitle = (note: Note) => getFileName(note.id).replace(/\.md$/, '');
+
+export const TasksScreen = ({ navigation }: any) => {
+    const { t } = useTranslation();
+    const insets = useSafeAreaInsets();
+    const headerPaddingTop = Math.max(insets.top, 12);
+    const { notes, settings, updateSettings, toggleTask } = useNotesStore();
+    const domains = useDomains();
+    const tasksSettings = settings.tasks ?? DEFAULT_TASKS_SETTINGS;
+    const [archivedNotes, setArchivedNotes] = useState<Note[]>([]);
+
+    const updateTasksSettings = (changes: Partial<typeof tasksSettings>) => {
+        updateSettings({ tasks: { ...tasksSettings, ...changes } });
+    };
+
+    useEffect(() => {
+        if (!tasksSettings.includeArchive) {
+            setArchivedNotes([]);
+            return;
+        }
+        let cancelled = false;
+        StorageService.listArchivedNotes()
+            .then((list) => { if (!cancelled) setArchivedNotes(list); })
+            .catch((error) => console.error('Error loading archived notes:', error));
+        return () => { cancelled = true; };
+    }, [tasksSettings.includeArchive]);
+
+    const sections = useMemo<TaskSection[]>(() => {
+        const entries: TaskEntry[] = [];
+        const collect = (note: Note, archived: boolean) => {
+            parseTasks(note.content, note.id).forEach((task) => {
+                if (tasksSettings.showCompleted || !task.checked) entries.push({ task, note, archived });
+            });
+        };
+        notes.forEach((note) => collect(note, false));
+        archivedNotes.forEach((note) => collect(note, true));
+
+        const groups = new Map<string, TaskSection>();
+        const add = (key: string, title: string, entry: TaskEntry, color?: string) => {
+            if (!groups.has(key)) groups.set(key, { key, title, color, data: [] });
+            groups.get(key)!.data.push(entry);
+        };
+        const today = new Date();
+        entries.forEach((entry) => {
+            if (tasksSettings.groupBy === 'due') {
+                const bucket = getDueBucket(entry.task, today);
+                add(bucket, t(`tasks_due_${bucket}`), entry);
+            } else if (tasksSettings.groupBy === 'domain') {
+                const domain = entry.note.domain;
+                add(domain ?? '', domain ? getDomainLabel(t, domain) : t('tasks_no_domain'), entry, findDomain(domains, domain)?.color);
+            } else {
+                const key = `${entry.archived ? 'archive:' : ''}${entry.note.id}`;
+                add(key, noteTitle(entry.note), entry);
+            }
+        });
+
+        const result = [...groups.values()];
+        result.forEach((section) => section.data.sort((a, b) => compareTasks(a.task, b.task)));
+        if (tasksSettings.groupBy === 'due') {
+            result.sort((a, b) => DUE_BUCKETS.indexOf(a.key as DueBucket) - DUE_BUCKETS.indexOf(b.key as DueBucket));
+        } else if (tasksSettings.groupBy === 'domain') {
+            // Defined domains in their configured order, then unknown ones, then none
+            const rank = (key: string) => {
+                if (!key) return domains.length + 1;
+                const index = domains.findIndex((d) => d.id === key);
+                return index === -1 ? domains.length : index;
+            };
+            result.sort((a, b) => rank(a.key) - rank(b.key) || a.title.localeCompare(b.title));
+        } else {
+            result.sort((a, b) => a.title.localeCompare(b.title));
+        }
+        return result;
+    }, [notes, archivedNotes, tasksSettings.groupBy, tasksSettings.showCompleted, domains, t]);
+
+    const handleToggle = async ({ task, note, archived }: TaskEntry) => {
+        try {
+            if (archived) {
+                // Archived notes aren't in the store; write them directly
+                const updated = await StorageService.updateArchivedNote(note, toggleTaskInContent(note.content, task));
+                setArchivedNotes((prev) => prev.map((n) => (n.id === note.id ? updated : n)));
+            } else {
+                await toggleTask(task);
+            }
+        } catch (error) {
+            console.error('Error toggling task:', error);
+            Alert.alert(t('error'), t('tasks_toggle_failed'));
+        }
+    };
+
+    const handleOpen = ({ note, archived }: TaskEntry) => {
+        if (archived) return;
+        navigation.navigate('NotesList', { openNoteId: note.id });
+    };
+
+    const renderTask = ({ item }: { item: TaskEntry }) => {
+        const { task, note, archived } = item;
+        const isOverdue = !task.checked && getDueBucket(task) === 'overdue';
+        const meta: string[] = [];
+        if (tasksSettings.groupBy !== 'note') {
+            const folder = getFolder(note.id);
+            meta.push(folder ? `${folder}/${noteTitle(note)}` : noteTitle(note));
+        }
+        if (task.scheduled) meta.push(`⏳ ${task.scheduled}`);
+        if (task.recurrence) meta.push(`🔁 ${task.recurrence}`);
+
+        return (
+            <View style={styles.taskRow}>
+                <TouchableOpacity
+                    onPress={() => handleToggle(item)}
+                    hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                >
+                    <Ionicons
+                        name={task.checked ? 'checkbox' : 'square-outline'}
+                        size={22}
+                        color={task.checked ? '#999' : '#1A1A1A'}
+                    />
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.taskBody} onPress={() => handleOpen(item)} disabled={archived} activeOpacity={0.7}>
+                    <Text style={[styles.taskText, task.checked && styles.taskTextChecked]}>
+                        {PRIORITY_ICONS[task.priority] ? `${PRIORITY_ICONS[task.priority]} ` : ''}{task.description}
+                    </Text>
+                    {(!!task.due || meta.length > 0 || archived) && (
+                        <View style={styles.metaRow}>
+                            {!!task.due && (
+                                <Text style={[styles.dueBadge, isOverdue && styles.dueBadgeOverdue]}>📅 {task.due}</Text>
+                            )}
+                            {archived && (
+                                <Ionicons name="archive-outline" size={12} color="#999" />
+                            )}
+                            {meta.length > 0 && (
+                                <Text style={styles.metaText} numberOfLines={1}>{meta.join(' · ')}</Text>
+                            )}
+                        </View>
+                    )}
+                </TouchableOpacity>
+            </View>
+        );
+    };
+
+    const renderSectionHeader = ({ section }: { section: TaskSection }) => (
+        <View style={styles.sectionHeader}>
+            {!!section.color && <View style={[styles.sectionDot, { backgroundColor: section.color }]} />}
+            {section.key.startsWith('archive:') && <Ionicons name="archive-outline" size={14} color="#666" />}
+            <Text style={styles.sectionTitle} numberOfLines={1}>{section.title}</Text>
+            <Text style={styles.sectionCount}>{section.data.length}</Text>
+        </View>
+    );
+
+    return (
+        <View style={styles.container}>
+            <View style={[styles.header, { paddingTop: headerPaddingTop }]}>
+                <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+                    <Ionicons name="arrow-back" size={24} color="#1A1A1A" />
+                </TouchableOpacity>
+                <Text style={styles.headerTitle}>{t('tasks_title')}</Text>
+                <View style={styles.placeholder} />
+            </View>
+
+            <View style={styles.controls}>
+                <View style={styles.optionRow}>
+                    {GROUP_OPTIONS.map((option) => {
+                        const isSelected = tasksSettings.groupBy === option;
+                        return (
+                            <TouchableOpacity
+                                key={option}
+                                style={[styles.optionChip, isSelected && styles.optionChipSelected]}
+                                onPress={() => updateTasksSettings({ groupBy: option })}
+                            >
+                                <Text style={[styles.optionChipText, isSelected && styles.optionChipTextSelected]}>
+                                    {t(`tasks_group_${option}`)}
+                                </Text>
+                            </TouchableOpacity>
+                        );
+                    })}
+                </View>
+                <View style={styles.optionRow}>
+                    <TouchableOpacity
+                        style={[styles.optionChip, tasksSettings.showCompleted && styles.optionChipSelected]}
+                        onPress={() => updateTasksSettings({ showCompleted: !tasksSettings.showCompleted })}
+                    >
+                        <Text style={[styles.optionChipText, tasksSettings.showCompleted && styles.optionChipTextSelected]}>
+                            {t('tasks_show_completed')}
+                        </Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                        style={[styles.optionChip, tasksSettings.includeArchive && styles.optionChipSelected]}
+                        onPress={() => updateTasksSettings({ includeArchive: !tasksSettings.includeArchive })}
+                    >
+                        <Text style={[styles.optionChipText, tasksSettings.includeArchive && styles.optionChipTextSelected]}>
+                            {t('tasks_include_archive')}
+                        </Text>
+                    </TouchableOpacity>
+                </View>
+            </View>
+
+            <SectionList
+                sections={sections}
+                keyExtractor={(item) => `${item.archived ? 'archive:' : ''}${item.note.id}:${item.task.line}`}
+                renderItem={renderTask}
+                renderSectionHeader={renderSectionHeader}
+                stickySectionHeadersEnabled={false}
+                contentContainerStyle={[styles.listContent, { paddingBottom: Math.max(insets.bottom, 16) }]}
+                ListEmptyComponent={
+                    <View style={styles.emptyContainer}>
+                        <Ionicons name="checkbox-outline" size={64} color="#CCC" />
+                        <Text style={styles.emptyText}>{t('tasks_empty')}</Text>
+                    </View>
+                }
+            />
+        </View>
+    );
+};
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#F0F2F5',
+    },
+    header: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        paddingHorizontal: 20,
+        paddingBottom: 16,
+        backgroundColor: '#FFFFFF',
+        borderBottomWidth: 1,
+        borderBottomColor: '#E0E0E0',
+    },
+    headerTitle: {
+        fontSize: 24,
+        fontWeight: 'bold',
+        color: '#1A1A1A',
+    },
+    backButton: {
+        padding: 8,
+    },
+    placeholder: {
+        width: 40,
+    },
+    controls: {
+        backgroundColor: '#FFFFFF',
+        paddingHorizontal: 16,
+        paddingVertical: 12,
+        gap: 8,
+        borderBottomWidth: 1,
+        borderBottomColor: '#E0E0E0',
+    },
+    optionRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 8,
+        width: '100%',
+        maxWidth: 720,
+        alignSelf: 'center',
+    },
+    optionChip: {
+        paddingVertical: 6,
+        paddingHorizontal: 12,
+        borderRadius: 16,
+        borderWidth: 1,
+        borderColor: '#000000',
+        backgroundColor: '#FFFFFF',
+    },
+    optionChipSelected: {
+        backgroundColor: '#000000',
+    },
+    optionChipText: {
+        fontSize: 13,
+        color: '#000000',
+        fontWeight: '500',
+    },
+    optionChipTextSelected: {
+        color: '#FFFFFF',
+    },
+    listContent: {
+        padding: 16,
+        width: '100%',
+        maxWidth: 720,
+        alignSelf: 'center',
+    },
+    sectionHeader: {
+        flexDirection: 'row-reverse',
+        alignItems: 'center',
+        gap: 6,
+        marginTop: 16,
+        marginBottom: 8,
+    },
+    sectionDot: {
+        width: 10,
+        height: 10,
+        borderRadius: 5,
+    },
+    sectionTitle: {
+        flex: 1,
+        fontSize: 15,
+        fontWeight: '600',
+        color: '#333',
+        ...RTL_TEXT_STYLE,
+    },
+    sectionCount: {
+        fontSize: 13,
+        color: '#999',
+    },
+    taskRow: {
+        flexDirection: 'row-reverse',
+        alignItems: 'flex-start',
+        gap: 12,
+        backgroundColor: '#FFFFFF',
+        borderRadius: 12,
+        paddingHorizontal: 14,
+        paddingVertical: 12,
+        marginBottom: 6,
+        borderWidth: 1,
+        borderColor: '#EEE',
+    },
+    taskBody: {
+        flex: 1,
+    },
+    taskText: {
+        fontSize: 16,
+        color: '#1A1A1A',
+        ...RTL_TEXT_STYLE,
+    },
+    taskTextChecked: {
+        color: '#999',
+        textDecorationLine: 'line-through',
+    },
+    metaRow: {
+        flexDirection: 'row-reverse',
+        alignItems: 'center',
+        gap: 8,
+        marginTop: 4,
+    },
+    dueBadge: {
+        fontSize: 12,
+        color: '#666',
+    },
+    dueBadgeOverdue: {
+        color: '#E53935',
+        fontWeight: '600',
+    },
+    metaText: {
+        flexShrink: 1,
+        fontSize: 12,
+        color: '#999',
+        ...RTL_TEXT_STYLE,
+    },
+    emptyContainer: {
+        justifyContent: 'center',
+        alignItems: 'center',
+        padding: 40,
+    },
+    emptyText: {
+        fontSize: 16,
+        color: '#999',
+        marginTop: 16,
+        fontWeight: '500',
+        textAlign: 'center',
+    },
+});
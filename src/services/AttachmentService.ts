@@ -0,0 +1,190 @@
+// AttachmentService.ts
+// Images in the vault: picking one from the camera, the photo library or the
+// file system, saving it to the attachment folder, and turning embedded
+// images (see utils/attachmentUtils) into URIs that <Image> and the editors
+// can load. Providers such as SAF and security-scoped iCloud folders have no
+// URI other views can read, so resolved images are copied to the app cache
+// (a data URI on web) once per session.
+
+import { Image, Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system/legacy';
+import * as DocumentPicker from 'expo-document-picker';
+import * as ImagePicker from 'expo-image-picker';
+import StorageService from './StorageService';
+import { joinPath } from '../utils/pathUtils';
+import { getUniqueFileName, sanitizeFileName } from '../utils/fileNameUtils';
+import {
+    getAttachmentCandidates,
+    getAttachmentFileName,
+    getAttachmentFolder,
+    getImageExtension,
+    getMimeType,
+    parseImageEmbeds,
+} from '../utils/attachmentUtils';
+
+const CACHE_DIR = `${FileSystem.cacheDirectory}attachments/`;
+const PICKER_QUALITY = 0.8;
+
+export type ImageSource = 'camera' | 'library' | 'file';
+
+export interface PickedImage {
+    base64: string;
+    /** Original file name, for files picked from the file system */
+    fileName?: string;
+    mimeType?: string;
+    width?: number;
+    height?: number;
+}
+
+/** An image ready to display: a loadable URI and its pixel size */
+export interface DisplayImage {
+    uri: string;
+    width?: number;
+    height?: number;
+}
+
+export interface SavedImage extends DisplayImage {
+    /** Vault path of the new file */
+    path: string;
+    /** Markdown to insert into the note, e.g. `![[Pasted image 2026….png]]` */
+    embed: string;
+}
+
+// Pickers on web hand back data URLs rather than bare base64
+const stripDataUrl = (base64: string): string => base64.replace(/^data:[^,]*,/, '');
+
+// Stable, file-system safe cache name for a vault path
+const getCacheName = (path: string): string => {
+    let hash = 5381;
+    for (let i = 0; i < path.length; i++) hash = ((hash * 33) ^ path.charCodeAt(i)) >>> 0;
+    return `${hash.toString(36)}-${path.length}.${getImageExtension(path)}`;
+};
+
+class AttachmentService {
+    // Vault path → displayable image, for this session
+    private displayCache: Map<string, DisplayImage> = new Map();
+    private pending: Map<string, Promise<DisplayImage | null>> = new Map();
+
+    /** Ask for an image; null when the user cancels */
+    async pickImage(source: ImageSource): Promise<PickedImage | null> {
+        if (source === 'file') {
+            const result = await DocumentPicker.getDocumentAsync({ type: 'image/*', copyToCacheDirectory: true, base64: true });
+            if (result.canceled || !result.assets?.length) return null;
+            const asset = result.assets[0];
+            const base64 = asset.base64
+                ? stripDataUrl(asset.base64)
+                : await FileSystem.readAsStringAsync(asset.uri, { encoding: FileSystem.EncodingType.Base64 });
+            return { base64, fileName: asset.name, mimeType: asset.mimeType };
+        }
+
+        if (source === 'camera') {
+            const permission = await ImagePicker.requestCameraPermissionsAsync();
+            if (!permission.granted) throw new Error('camera_permission_denied');
+        }
+
+        const options: ImagePicker.ImagePickerOptions = { mediaTypes: ['images'], quality: PICKER_QUALITY, base64: true };
+        const result = source === 'camera'
+            ? await ImagePicker.launchCameraAsync(options)
+            : await ImagePicker.launchImageLibraryAsync(options);
+        if (result.canceled || !result.assets?.length) return null;
+        const asset = result.assets[0];
+        if (!asset.base64) throw new Error('The picked image could not be read');
+        return {
+            base64: stripDataUrl(asset.base64),
+            mimeType: asset.mimeType,
+            width: asset.width,
+            height: asset.height,
+        };
+    }
+
+    /**
+     * Save a picked image to the attachment folder of `notePath`. Camera and
+     * library images get Obsidian's `Pasted image <timestamp>` name; picked
+     * files keep theirs.
+     */
+    async saveImage(image: PickedImage, notePath: string, folderSetting: string): Promise<SavedImage> {
+        const extension = getImageExtension(image.fileName, image.mimeType);
+        const baseName = image.fileName
+            ? sanitizeFileName(image.fileName.replace(/\.[^.]+$/, '')) || 'image'
+            : getAttachmentFileName(extension).replace(/\.[^.]+$/, '');
+        const folder = getAttachmentFolder(notePath, folderSetting);
+
+        const fileName = getUniqueFileName(`${baseName}.${extension}`, await StorageService.listFileNames(folder));
+        const path = joinPath(folder, fileName);
+        await StorageService.writeBinaryFile(path, image.base64);
+
+        const display = await this.cacheDisplay(path, image.base64, image.width, image.height);
+        return { ...display, path, embed: `![[${fileName}]]` };
+    }
+
+    /** The display image of an embed target if it was already resolved */
+    getCachedDisplay(target: string, notePath: string, folderSetting: string): DisplayImage | null {
+        for (const path of getAttachmentCandidates(target, notePath, folderSetting)) {
+            const cached = this.displayCache.get(path);
+            if (cached) return cached;
+        }
+        return null;
+    }
+
+    /** Find the vault file `target` refers to and make it displayable; null when missing */
+    async getDisplayImage(target: string, notePath: string, folderSetting: string): Promise<DisplayImage | null> {
+        const cached = this.getCachedDisplay(target, notePath, folderSetting);
+        if (cached) return cached;
+
+        for (const path of getAttachmentCandidates(target, notePath, folderSetting)) {
+            const display = await this.loadPath(path);
+            if (display) return display;
+        }
+        return null;
+    }
+
+    /**
+     * Resolve every image embedded in `content`. True when any image that
+     * was not cached before could be loaded, i.e. the note should re-render.
+     */
+    async preload(notePath: string, content: string, folderSetting: string): Promise<boolean> {
+        const missing = parseImageEmbeds(content)
+            .filter((embed) => !this.getCachedDisplay(embed.target, notePath, folderSetting));
+        if (missing.length === 0) return false;
+
+        const results = await Promise.all(
+            missing.map((embed) => this.getDisplayImage(embed.target, notePath, folderSetting).catch(() => null))
+        );
+        return results.some(Boolean);
+    }
+
+    private loadPath(path: string): Promise<DisplayImage | null> {
+        let promise = this.pending.get(path);
+        if (!promise) {
+            promise = StorageService.readBinaryFile(path)
+                .then((base64) => (base64 ? this.cacheDisplay(path, base64) : null))
+                .finally(() => this.pending.delete(path));
+            this.pending.set(path, promise);
+        }
+        return promise;
+    }
+
+    private async cacheDisplay(path: string, base64: string, width?: number, height?: number): Promise<DisplayImage> {
+        let uri: string;
+        if (Platform.OS === 'web') {
+            uri = `data:${getMimeType(path)};base64,${base64}`;
+        } else {
+            const info = await FileSystem.getInfoAsync(CACHE_DIR);
+            if (!info.exists) await FileSystem.makeDirectoryAsync(CACHE_DIR, { intermediates: true });
+            uri = `${CACHE_DIR}${getCacheName(path)}`;
+            await FileSystem.writeAsStringAsync(uri, base64, { encoding: FileSystem.EncodingType.Base64 });
+        }
+
+        if (!width || !height) {
+            const size = await Image.getSize(uri).catch(() => null);
+            width = size?.width;
+            height = size?.height;
+        }
+
+        const display: DisplayImage = { uri, width, height };
+        this.displayCache.set(path, display);
+        return display;
+    }
+}
+
+export default new AttachmentService();
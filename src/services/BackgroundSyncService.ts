@@ -1,66 +1,203 @@
 // BackgroundSyncService.ts
-// Periodically polls the active storage provider for external changes and
-// merges them quietly into the notes store, without disturbing currently-edited notes.
+// Keeps the notes store in step with changes made to the vault outside the
+// app, without disturbing currently-edited notes. Where the storage provider
+// can watch the vault, changed files are pushed in as they happen; the vault
+// is also polled at the user's sync interval, less often while nothing
+// changes. Where the provider can tell what changed since the last poll
+// (WebDAV ETags, Web file times), a poll reads only those files. Both follow
+// the autoSync setting; syncNow() runs on demand.
+// Also retries saves the vault could not take, with backoff, until it is reachable again.
 
-import { AppState, AppStateStatus, Platform } from 'react-native';
+import { AppState, AppStateStatus } from 'react-native';
 import { useNotesStore } from '../stores/notesStore';
+import StorageService from './StorageService';
+import WriteJournalService from './WriteJournalService';
 
-// 30 s interval (was 5-8 s). The Xcode logs showed 8+ file listings of
-// 164 files each in the first ~30 s after launch, choking the JS thread
-// while the WebView was trying to mount. External edits (e.g., from
-// Obsidian on another device) propagating in 30 s instead of 5 s is a
-// fine trade-off; foreground transitions still trigger an immediate sync
-// via handleAppStateChange below.
-const DEFAULT_INTERVAL_MS = 30000;
+const MINUTE_MS = 60 * 1000;
+// Each poll that finds nothing doubles the wait, up to this many intervals
+const MAX_BACKOFF_FACTOR = 8;
+// Watchers report bursts (a sync client writing many files); wait for the burst to end
+const WATCH_DEBOUNCE_MS = 1000;
+// Watched changes that arrive while a note is being edited wait this long
+const WATCH_RETRY_MS = 5000;
 
-// Skip the very first periodic tick by this much, so it does NOT fire
-// while iOS is still launching the WebView's WebContent process (which
-// can take 4-6 s on iPad). Once that's done the first periodic tick is
-// fine. AppState foreground transitions still trigger a tick immediately.
-const STARTUP_GRACE_MS = 30000;
+// Changes reported by the watcher and not synced yet; `full` when the
+// watcher could not tell which files changed
+interface PendingChanges {
+    full: boolean;
+    paths: Set<string>;
+}
 
 class BackgroundSyncService {
-    private intervalId: ReturnType<typeof setInterval> | null = null;
-    private startupTimerId: ReturnType<typeof setTimeout> | null = null;
-    private intervalMs: number = DEFAULT_INTERVAL_MS;
+    private pollTimerId: ReturnType<typeof setTimeout> | null = null;
+    private idlePolls = 0;
     private appStateSub: { remove: () => void } | null = null;
     private isAppActive: boolean = AppState.currentState === 'active';
     private isSyncing: boolean = false;
+    private isFlushing: boolean = false;
+    private retryTimerId: ReturnType<typeof setTimeout> | null = null;
+    private unsubscribeStore: (() => void) | null = null;
+    private stopWatching: (() => void) | null = null;
+    private watchTimerId: ReturnType<typeof setTimeout> | null = null;
+    private pendingChanges: PendingChanges | null = null;
+    // Vault and settings the watcher and poll were set up for
+    private configuredFor: string | null = null;
 
-    start(intervalMs: number = DEFAULT_INTERVAL_MS): void {
+    start(): void {
         this.stop();
-        this.intervalMs = intervalMs;
 
         // Track foreground/background to skip ticks while backgrounded
         this.appStateSub = AppState.addEventListener('change', this.handleAppStateChange);
 
-        // Defer the FIRST periodic tick by STARTUP_GRACE_MS to keep the
-        // JS thread free during the WebView's cold-start window. The
-        // initial `loadNotes()` from NotesListScreen mount has already
-        // populated the store by the time the user can interact, so
-        // there's nothing the user is waiting for during the grace period.
-        this.startupTimerId = setTimeout(() => {
-            this.startupTimerId = null;
-            this.tick().catch(() => {});
-            this.intervalId = setInterval(() => {
-                this.tick().catch(() => {});
-            }, this.intervalMs);
-        }, STARTUP_GRACE_MS);
+        this.unsubscribeStore = useNotesStore.subscribe((state, prev) => {
+            // A save that could not reach the vault leaves its note pending
+            if (state.notes !== prev.notes) this.scheduleRetry();
+            // The vault is (re)connected by loadNotes, after settings rehydrate
+            if (state.settings !== prev.settings || state.isLoading !== prev.isLoading) this.configure();
+        });
+        this.scheduleRetry();
+        this.configure();
     }
 
     stop(): void {
-        if (this.startupTimerId !== null) {
-            clearTimeout(this.startupTimerId);
-            this.startupTimerId = null;
-        }
-        if (this.intervalId !== null) {
-            clearInterval(this.intervalId);
-            this.intervalId = null;
-        }
+        this.stopVaultSync();
+        this.configuredFor = null;
         if (this.appStateSub) {
             this.appStateSub.remove();
             this.appStateSub = null;
         }
+        if (this.retryTimerId !== null) {
+            clearTimeout(this.retryTimerId);
+            this.retryTimerId = null;
+        }
+        if (this.unsubscribeStore) {
+            this.unsubscribeStore();
+            this.unsubscribeStore = null;
+        }
+    }
+
+    /** Write pending saves and read the whole vault now, whatever the settings */
+    async syncNow(): Promise<void> {
+        this.pendingChanges = null;
+        await this.tick();
+        this.idlePolls = 0;
+        this.schedulePoll();
+    }
+
+    // Watch and poll the vault as the settings ask; restarts only when the
+    // vault, autoSync or the interval changed. Notes kept on the device
+    // change only through the app, so there is nothing to sync.
+    private configure = () => {
+        const { settings } = useNotesStore.getState();
+        const vault = StorageService.getConfig();
+        const isEnabled = settings.autoSync && !!vault?.isConnected;
+        const key = isEnabled ? `${vault!.vaultDirectoryUri}|${settings.syncInterval}` : 'off';
+        if (key === this.configuredFor) return;
+        this.configuredFor = key;
+
+        this.stopVaultSync();
+        if (!isEnabled) return;
+        this.stopWatching = StorageService.watch(this.handleVaultChange);
+        this.idlePolls = 0;
+        this.schedulePoll();
+    };
+
+    private stopVaultSync() {
+        if (this.stopWatching) {
+            this.stopWatching();
+            this.stopWatching = null;
+        }
+        if (this.watchTimerId !== null) {
+            clearTimeout(this.watchTimerId);
+            this.watchTimerId = null;
+        }
+        if (this.pollTimerId !== null) {
+            clearTimeout(this.pollTimerId);
+            this.pollTimerId = null;
+        }
+        this.pendingChanges = null;
+    }
+
+    // The first poll never comes sooner than the interval, which also keeps
+    // the JS thread free while the editor's WebView cold-starts
+    private schedulePoll() {
+        if (this.pollTimerId !== null) {
+            clearTimeout(this.pollTimerId);
+            this.pollTimerId = null;
+        }
+        if (this.configuredFor === null || this.configuredFor === 'off') return;
+        const { settings } = useNotesStore.getState();
+
+        const factor = Math.min(2 ** this.idlePolls, MAX_BACKOFF_FACTOR);
+        this.pollTimerId = setTimeout(async () => {
+            this.pollTimerId = null;
+            const changed = await this.tick(true).catch(() => false);
+            this.idlePolls = changed ? 0 : this.idlePolls + 1;
+            this.schedulePoll();
+        }, settings.syncInterval * MINUTE_MS * factor);
+    }
+
+    private handleVaultChange = (paths: string[]) => {
+        const pending = this.pendingChanges ?? { full: false, paths: new Set<string>() };
+        if (paths.length === 0) pending.full = true;
+        paths.forEach((path) => pending.paths.add(path));
+        this.pendingChanges = pending;
+        this.scheduleWatchedSync(WATCH_DEBOUNCE_MS);
+    };
+
+    private scheduleWatchedSync(delay: number) {
+        if (this.watchTimerId !== null) clearTimeout(this.watchTimerId);
+        this.watchTimerId = setTimeout(() => {
+            this.watchTimerId = null;
+            this.syncWatchedChanges().catch(() => {});
+        }, delay);
+    }
+
+    private async syncWatchedChanges(): Promise<void> {
+        const pending = this.pendingChanges;
+        // Backgrounded: the tick on resume reads the whole vault anyway
+        if (!pending || !this.isAppActive) return;
+        if (this.isSyncing || useNotesStore.getState().lockedNoteIds.size > 0) {
+            this.scheduleWatchedSync(WATCH_RETRY_MS);
+            return;
+        }
+
+        this.pendingChanges = null;
+        await this.sync(pending.full ? undefined : Array.from(pending.paths));
+        // Something is changing the vault; check it at the base interval again
+        this.idlePolls = 0;
+        this.schedulePoll();
+    }
+
+    // Retry pending writes after the journal's backoff delay
+    private scheduleRetry = () => {
+        if (this.retryTimerId !== null) return;
+        const hasPending = useNotesStore.getState().notes
+            .some((n) => n.syncStatus === 'pending' || n.syncStatus === 'error');
+        if (!hasPending) return;
+
+        WriteJournalService.getRetryDelay()
+            .then((delay) => {
+                if (delay === null || this.retryTimerId !== null) return;
+                this.retryTimerId = setTimeout(() => {
+                    this.retryTimerId = null;
+                    this.flushPendingWrites().catch(() => {});
+                }, delay);
+            })
+            .catch(() => {});
+    };
+
+    private async flushPendingWrites(): Promise<void> {
+        // Foreground transitions flush through tick()
+        if (!this.isAppActive || this.isFlushing) return;
+        this.isFlushing = true;
+        try {
+            await useNotesStore.getState().flushPendingWrites();
+        } finally {
+            this.isFlushing = false;
+        }
+        // The statuses may not have changed, so the store listener won't reschedule
+        this.scheduleRetry();
     }
 
     private handleAppStateChange = (next: AppStateStatus) => {
@@ -68,28 +205,50 @@ class BackgroundSyncService {
         this.isAppActive = next === 'active';
         // On resume, run an immediate tick to refresh fast
         if (!wasActive && this.isAppActive) {
+            this.pendingChanges = null;
+            this.idlePolls = 0;
             this.tick().catch(() => {});
+            this.schedulePoll();
         }
     };
 
-    private async tick(): Promise<void> {
-        if (!this.isAppActive) return;
-        if (this.isSyncing) return;
+    // Resolves whether the notes changed. `incremental` reads only what the
+    // vault reports as changed, where it can tell.
+    private async tick(incremental: boolean = false): Promise<boolean> {
+        if (!this.isAppActive) return false;
+        if (this.isSyncing) return false;
+        await this.flushPendingWrites();
         // Skip while the user is editing a note. `lockedNoteIds` is non-empty
         // whenever a card is in inline-edit mode or open in the EditorModal.
-        // Polling the file system + rebuilding the Fuse search index during
+        // Polling the file system + rebuilding the link index during
         // typing produces visible jank on the JS thread; deferring is safe
         // because the user's local edits are the source of truth anyway.
-        if (useNotesStore.getState().lockedNoteIds.size > 0) return;
+        if (useNotesStore.getState().lockedNoteIds.size > 0) return false;
+        if (!incremental || !StorageService.canCheckChanges()) return this.sync();
+
+        let paths: string[] | null;
+        this.isSyncing = true;
+        try {
+            paths = await StorageService.checkChanges();
+        } catch (error) {
+            // The full listing reports the vault as unreachable if it still is
+            console.warn('BackgroundSyncService change check failed:', error);
+            paths = null;
+        } finally {
+            this.isSyncing = false;
+        }
+        if (paths !== null && paths.length === 0) return false;
+        return this.sync(paths ?? undefined);
+    }
+
+    private async sync(paths?: string[]): Promise<boolean> {
         this.isSyncing = true;
         try {
-            const syncFromExternal = useNotesStore.getState().syncFromExternal;
-            if (typeof syncFromExternal === 'function') {
-                await syncFromExternal();
-            }
+            return await useNotesStore.getState().syncFromExternal(paths);
         } catch (error) {
             // Swallow errors quietly — background sync is best-effort
-            console.warn('BackgroundSyncService tick failed:', error);
+            console.warn('BackgroundSyncService sync failed:', error);
+            return false;
         } finally {
             this.isSyncing = false;
         }
@@ -112,10 +112,42 @@ class CloudFileService {
         }
     }
 
+    /**
+     * Write a binary file (base64-encoded) to the bookmarked folder
+     */
+    async writeFileBase64(filename: string, base64: string): Promise<void> {
+        if (!this.isAvailable) {
+            throw new Error('Bookmarks not available on this platform');
+        }
+
+        try {
+            await FileBookmark.writeFileBase64(filename, base64);
+        } catch (error) {
+            console.error('Error writing binary file:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Read a binary file from the bookmarked folder, base64-encoded
+     */
+    async readFileBase64(filename: string): Promise<string> {
+        if (!this.isAvailable) {
+            throw new Error('Bookmarks not available on this platform');
+        }
+
+        try {
+            return await FileBookmark.readFileBase64(filename);
+        } catch (error) {
+            console.error('Error reading binary file:', error);
+            throw error;
+        }
+    }
+
     /**
      * List all files in the bookmarked folder with attributes
      */
-    async listMarkdownFilesWithAttributes(): Promise<{ name: string, path: string, modificationTime?: number }[]> {
+    async listMarkdownFilesWithAttributes(): Promise<{ name: string, path: string, modificationTime?: number, creationTime?: number }[]> {
         if (!this.isAvailable) {
             throw new Error('Bookmarks not available on this platform');
         }
@@ -139,7 +171,7 @@ class CloudFileService {
     /**
      * List all files in a specific subdirectory of the bookmarked folder with attributes
      */
-    async listSubdirFilesWithAttributes(subpath: string): Promise<{ name: string, path: string, modificationTime?: number }[]> {
+    async listSubdirFilesWithAttributes(subpath: string): Promise<{ name: string, path: string, modificationTime?: number, creationTime?: number }[]> {
         if (!this.isAvailable) {
             throw new Error('Bookmarks not available on this platform');
         }
@@ -160,6 +192,43 @@ class CloudFileService {
         }
     }
 
+    /**
+     * Names of all files and folders in a subdirectory of the bookmarked
+     * folder (the root when empty); empty when it doesn't exist
+     */
+    async listFileNames(subpath: string = ''): Promise<string[]> {
+        if (!this.isAvailable) {
+            throw new Error('Bookmarks not available on this platform');
+        }
+
+        const files = await FileBookmark.listSubdirFilesWithAttributes(subpath);
+        return files.map((f: any) => f.name);
+    }
+
+    /**
+     * List markdown files below a folder of the bookmarked directory (the root
+     * when empty), including nested subfolders. Paths are vault-relative.
+     */
+    async listMarkdownFilesRecursive(subpath: string = ''): Promise<{ name: string, path: string, modificationTime?: number, creationTime?: number }[]> {
+        if (!this.isAvailable) {
+            throw new Error('Bookmarks not available on this platform');
+        }
+
+        try {
+            const files = await FileBookmark.listFilesRecursiveWithAttributes(subpath);
+
+            const mdFiles = files
+                .filter((f: any) => f.name.endsWith('.md'))
+                .map((f: any) => ({ ...f, path: subpath ? `${subpath}/${f.path}` : f.path }));
+
+            console.log(`Found ${mdFiles.length} markdown files under ${subpath || 'root'}`);
+            return mdFiles;
+        } catch (error) {
+            console.error(`Error listing files recursively in ${subpath || 'root'}:`, error);
+            return [];
+        }
+    }
+
     /**
      * List all files in the bookmarked folder
      */
@@ -218,6 +287,31 @@ class CloudFileService {
             throw error;
         }
     }
+
+    async moveFile(from: string, to: string): Promise<void> {
+        if (!this.isAvailable) {
+            throw new Error('Bookmarks not available on this platform');
+        }
+
+        try {
+            console.log('📦 Moving file:', from, '→', to);
+
+            await FileBookmark.moveFile(from, to);
+        } catch (error) {
+            console.error('Error moving file:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Get notified of changes made to the bookmarked folder outside the app
+     */
+    watchChanges(listener: (paths: string[]) => void): () => void {
+        if (!this.isAvailable) {
+            throw new Error('Bookmarks not available on this platform');
+        }
+        return FileBookmark.addChangeListener(listener);
+    }
 }
 
 export default new CloudFileService();
@@ -28,11 +28,23 @@ class CloudFileService {
         throw new Error('CloudFileService is not available on web');
     }
 
-    async listMarkdownFilesWithAttributes(): Promise<{ name: string; path: string; modificationTime?: number }[]> {
+    async writeFileBase64(_filename: string, _base64: string): Promise<void> {
+        throw new Error('CloudFileService is not available on web');
+    }
+
+    async readFileBase64(_filename: string): Promise<string> {
+        throw new Error('CloudFileService is not available on web');
+    }
+
+    async listMarkdownFilesWithAttributes(): Promise<{ name: string; path: string; modificationTime?: number; creationTime?: number }[]> {
         return [];
     }
 
-    async listSubdirFilesWithAttributes(_subpath: string): Promise<{ name: string; path: string; modificationTime?: number }[]> {
+    async listSubdirFilesWithAttributes(_subpath: string): Promise<{ name: string; path: string; modificationTime?: number; creationTime?: number }[]> {
+        return [];
+    }
+
+    async listMarkdownFilesRecursive(_subpath: string = ''): Promise<{ name: string; path: string; modificationTime?: number; creationTime?: number }[]> {
         return [];
     }
 
@@ -47,6 +59,14 @@ class CloudFileService {
     async deleteFile(_filename: string): Promise<void> {
         throw new Error('CloudFileService is not available on web');
     }
+
+    async moveFile(_from: string, _to: string): Promise<void> {
+        throw new Error('CloudFileService is not available on web');
+    }
+
+    watchChanges(_listener: (paths: string[]) => void): () => void {
+        throw new Error('CloudFileService is not available on web');
+    }
 }
 
 export default new CloudFileService();
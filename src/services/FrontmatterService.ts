@@ -1,6 +1,14 @@
 // FrontmatterService.ts - Parse and update YAML frontmatter in markdown files
+//
+// Obsidian notes carry real YAML: list-valued `tags:` / `aliases:`, block
+// scalars, nested maps, quoted values containing colons and comments. The
+// parser below understands the subset of YAML that shows up in practice
+// (block + flow collections, plain / quoted / block scalars, comments), and
+// the serializer is *raw-preserving*: every top-level key whose value did
+// not change is written back byte-for-byte from the original frontmatter,
+// so editing a note from PureNotes never rewrites properties it didn't touch.
 
-interface Frontmatter {
+export interface Frontmatter {
     [key: string]: any;
 }
 
@@ -10,57 +18,434 @@ interface ParseResult {
 }
 
 /**
- * Parse YAML frontmatter from markdown content
+ * One top-level chunk of the original frontmatter block. `key` is null for
+ * comment / blank lines, which are carried through verbatim on serialize.
  */
-export function parseFrontmatter(content: string): ParseResult {
-    // We want to capture exactly what comes after the second `---` and its mandatory trailing newline
-    // without aggressively consuming whitespace from the body itself.
-    const frontmatterRegex = /^\s*---\s*[\r\n]+([\s\S]*?)[\r\n]+---\r?\n?/;
-    const match = content.match(frontmatterRegex);
+interface RawEntry {
+    key: string | null;
+    raw: string[];
+    value?: any;
+}
+
+interface YamlLine {
+    indent: number;
+    text: string; // Line content with indentation removed
+    raw: string;  // Line exactly as written
+}
+
+// We want to capture exactly what comes after the second `---` and its mandatory trailing newline
+// without aggressively consuming whitespace from the body itself.
+const FRONTMATTER_REGEX = /^\s*---\s*[\r\n]+([\s\S]*?)[\r\n]+---\r?\n?/;
+
+// `key:` followed by whitespace or end of line. Keys may be quoted.
+const KEY_REGEX = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s#'"\-?:,\[\]{}][^:]*?|-[^\s:][^:]*?)\s*:(?:\s+(.*))?$/;
+
+const INDENT = '  ';
 
-    if (!match) {
-        return { frontmatter: {}, body: content };
+// ── Parsing ──────────────────────────────────────────────────────────
+
+const toLines = (text: string): YamlLine[] =>
+    text.replace(/\r\n?/g, '\n').split('\n').map((raw) => {
+        const trimmedStart = raw.replace(/^[ \t]+/, '');
+        return { indent: raw.length - trimmedStart.length, text: trimmedStart.trimEnd(), raw };
+    });
+
+const isBlank = (line: YamlLine) => line.text === '' || line.text.startsWith('#');
+
+const isSequenceItem = (text: string) => text === '-' || text.startsWith('- ');
+
+/** Remove a trailing ` # comment` from a plain (unquoted) scalar. */
+const stripComment = (text: string): string => {
+    const idx = text.search(/(^|\s)#/);
+    return idx === -1 ? text : text.substring(0, idx).trimEnd();
+};
+
+const unquoteKey = (key: string): string => {
+    if (key.startsWith('"')) return parseDoubleQuoted(key);
+    if (key.startsWith("'")) return key.slice(1, -1).replace(/''/g, "'");
+    return key.trim();
+};
+
+const parseDoubleQuoted = (quoted: string): string => {
+    const inner = quoted.slice(1, -1);
+    return inner.replace(/\\(u[0-9a-fA-F]{4}|x[0-9a-fA-F]{2}|.)/g, (_m, esc: string) => {
+        switch (esc[0]) {
+            case 'n': return '\n';
+            case 't': return '\t';
+            case 'r': return '\r';
+            case '0': return '\0';
+            case 'u':
+            case 'x': return String.fromCharCode(parseInt(esc.substring(1), 16));
+            default: return esc; // \" \\ \/ and anything unknown
+        }
+    });
+};
+
+/** Resolve a plain scalar to null / boolean / number / string (YAML 1.2 core schema). */
+const resolvePlain = (value: string): any => {
+    if (value === '' || value === '~' || /^(null|Null|NULL)$/.test(value)) return null;
+    if (/^(true|True|TRUE)$/.test(value)) return true;
+    if (/^(false|False|FALSE)$/.test(value)) return false;
+    if (/^[-+]?(\d+|\d*\.\d+|\d+\.\d*)([eE][-+]?\d+)?$/.test(value)) return Number(value);
+    if (/^0x[0-9a-fA-F]+$/.test(value)) return parseInt(value, 16);
+    return value;
+};
+
+/**
+ * Parse an inline (single-logical-line) value: quoted string, flow
+ * collection or plain scalar. Continuation lines are folded with spaces.
+ */
+const parseInlineValue = (text: string): any => {
+    const trimmed = text.trim();
+    if (trimmed.startsWith('"')) {
+        const end = findClosingQuote(trimmed, '"');
+        return parseDoubleQuoted(trimmed.substring(0, end + 1));
+    }
+    if (trimmed.startsWith("'")) {
+        const end = findClosingQuote(trimmed, "'");
+        return trimmed.substring(1, end).replace(/''/g, "'");
     }
+    if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+        return parseFlow(trimmed, { pos: 0 });
+    }
+    return resolvePlain(stripComment(trimmed));
+};
 
-    const frontmatterStr = match[1];
-    const body = content.substring(match[0].length);
-    const frontmatter: Frontmatter = {};
+const findClosingQuote = (text: string, quote: '"' | "'"): number => {
+    for (let i = 1; i < text.length; i++) {
+        if (quote === '"' && text[i] === '\\') { i++; continue; }
+        if (text[i] === quote) {
+            if (quote === "'" && text[i + 1] === "'") { i++; continue; }
+            return i;
+        }
+    }
+    return text.length - 1;
+};
+
+/** Minimal flow-collection parser: `[a, "b", {c: 1}]`, `{a: [1, 2]}`. */
+const parseFlow = (text: string, state: { pos: number }): any => {
+    const skipSpace = () => {
+        while (state.pos < text.length && /\s/.test(text[state.pos])) state.pos++;
+    };
+    const readScalar = (terminators: string): any => {
+        skipSpace();
+        const ch = text[state.pos];
+        if (ch === '[' || ch === '{') return parseFlow(text, state);
+        if (ch === '"' || ch === "'") {
+            const rest = text.substring(state.pos);
+            const end = findClosingQuote(rest, ch);
+            state.pos += end + 1;
+            return ch === '"' ? parseDoubleQuoted(rest.substring(0, end + 1)) : rest.substring(1, end).replace(/''/g, "'");
+        }
+        const start = state.pos;
+        while (state.pos < text.length && !terminators.includes(text[state.pos])) {
+            // `:` only terminates a key when followed by whitespace
+            if (text[state.pos] === ':' && terminators.includes(':') && /\s|$/.test(text[state.pos + 1] ?? '')) break;
+            state.pos++;
+        }
+        return resolvePlain(text.substring(start, state.pos).trim());
+    };
 
-    // Parse simple YAML (key: value pairs)
-    frontmatterStr.split('\n').forEach(line => {
-        const colonIndex = line.indexOf(':');
-        if (colonIndex > 0) {
-            const key = line.substring(0, colonIndex).trim();
-            let value = line.substring(colonIndex + 1).trim();
-
-            // Parse boolean values
-            if (value === 'true') {
-                frontmatter[key] = true;
-            } else if (value === 'false') {
-                frontmatter[key] = false;
-            } else if (!isNaN(Number(value)) && value !== '') {
-                frontmatter[key] = Number(value);
+    const open = text[state.pos];
+    state.pos++;
+    if (open === '[') {
+        const items: any[] = [];
+        skipSpace();
+        while (state.pos < text.length && text[state.pos] !== ']') {
+            items.push(readScalar(',]'));
+            skipSpace();
+            if (text[state.pos] === ',') state.pos++;
+            skipSpace();
+        }
+        state.pos++;
+        return items;
+    }
+
+    const map: Frontmatter = {};
+    skipSpace();
+    while (state.pos < text.length && text[state.pos] !== '}') {
+        const key = readScalar(',:}');
+        skipSpace();
+        let value: any = null;
+        if (text[state.pos] === ':') {
+            state.pos++;
+            value = readScalar(',}');
+        }
+        map[String(key)] = value;
+        skipSpace();
+        if (text[state.pos] === ',') state.pos++;
+        skipSpace();
+    }
+    state.pos++;
+    return map;
+};
+
+/** Parse a `|` / `>` block scalar from its (more-indented) content lines. */
+const parseBlockScalar = (header: string, lines: YamlLine[], parentIndent: number): string => {
+    const literal = header.startsWith('|');
+    const chomp = header.includes('-') ? 'strip' : header.includes('+') ? 'keep' : 'clip';
+    const explicitIndent = header.match(/[1-9]/);
+
+    const firstContent = lines.find((l) => l.text !== '');
+    const indent = explicitIndent
+        ? parentIndent + Number(explicitIndent[0])
+        : firstContent ? firstContent.indent : parentIndent + INDENT.length;
+
+    const content = lines.map((l) => (l.text === '' ? '' : l.raw.substring(Math.min(indent, l.indent))));
+
+    let text: string;
+    if (literal) {
+        text = content.join('\n');
+    } else {
+        // Folded: single newlines become spaces, blank lines become newlines,
+        // more-indented lines are kept as-is.
+        text = '';
+        content.forEach((line, i) => {
+            if (i === 0) { text = line; return; }
+            const prev = content[i - 1];
+            if (line === '' || prev === '' || /^\s/.test(line) || /^\s/.test(prev)) {
+                text += '\n' + line;
             } else {
-                // Remove quotes if present
-                if ((value.startsWith('"') && value.endsWith('"')) ||
-                    (value.startsWith("'") && value.endsWith("'"))) {
-                    value = value.slice(1, -1);
-                }
-                frontmatter[key] = value;
+                text += ' ' + line;
+            }
+        });
+    }
+
+    const body = text.replace(/\n+$/, '');
+    const trailing = text.substring(body.length);
+    if (chomp === 'strip') return body;
+    if (chomp === 'keep') return body + trailing + '\n';
+    return body === '' ? '' : body + '\n';
+};
+
+/**
+ * Parse the value of `key: <inline>` given the lines nested below it.
+ */
+const parseValue = (inline: string, children: YamlLine[], parentIndent: number): any => {
+    const text = inline.trim();
+
+    if (/^[|>][-+1-9]*(\s+#.*)?$/.test(text)) {
+        return parseBlockScalar(text.replace(/\s+#.*$/, ''), children, parentIndent);
+    }
+
+    const content = children.filter((l) => !isBlank(l));
+    if (text !== '' && !text.startsWith('#')) {
+        // Flow collections and quoted scalars may span several lines.
+        const continuation = content.map((l) => l.text).join(' ');
+        return parseInlineValue(continuation ? `${text} ${continuation}` : text);
+    }
+
+    if (content.length === 0) return null;
+    return parseBlock(content);
+};
+
+/** Parse an indented block (sequence or mapping) of non-blank lines. */
+const parseBlock = (lines: YamlLine[]): any => {
+    const baseIndent = lines[0].indent;
+
+    if (isSequenceItem(lines[0].text)) {
+        const items: any[] = [];
+        let i = 0;
+        while (i < lines.length) {
+            const line = lines[i];
+            const rest = line.text === '-' ? '' : line.text.substring(2);
+            const offset = line.text.length - rest.trimStart().length;
+            i++;
+            const nested: YamlLine[] = [];
+            while (i < lines.length && (lines[i].indent > baseIndent || (lines[i].indent === baseIndent && !isSequenceItem(lines[i].text)))) {
+                nested.push(lines[i]);
+                i++;
             }
+
+            const itemText = rest.trim();
+            if (itemText === '') {
+                items.push(nested.length ? parseBlock(nested) : null);
+            } else if (KEY_REGEX.test(itemText) && !/^["'\[{]/.test(itemText)) {
+                // `- key: value` starts a mapping whose keys align with `key`
+                const virtual: YamlLine = { indent: baseIndent + offset, text: itemText, raw: ' '.repeat(baseIndent + offset) + itemText };
+                items.push(parseBlock([virtual, ...nested]));
+            } else {
+                items.push(parseValue(itemText, nested, baseIndent));
+            }
+        }
+        return items;
+    }
+
+    const map: Frontmatter = {};
+    let i = 0;
+    while (i < lines.length) {
+        const line = lines[i];
+        const match = line.text.match(KEY_REGEX);
+        i++;
+        const nested: YamlLine[] = [];
+        while (i < lines.length && (lines[i].indent > baseIndent || (lines[i].indent === baseIndent && isSequenceItem(lines[i].text)))) {
+            nested.push(lines[i]);
+            i++;
+        }
+        if (!match) continue; // Not a mapping line — ignore rather than corrupt
+        map[unquoteKey(match[1])] = parseValue(match[2] ?? '', nested, baseIndent);
+    }
+    return map;
+};
+
+/**
+ * Split a frontmatter block into top-level entries, keeping each entry's
+ * original lines so untouched keys can be written back verbatim.
+ */
+const parseEntries = (yaml: string): RawEntry[] => {
+    const lines = toLines(yaml);
+    const entries: RawEntry[] = [];
+    let i = 0;
+
+    while (i < lines.length) {
+        const line = lines[i];
+        const match = line.indent === 0 ? line.text.match(KEY_REGEX) : null;
+        if (!match) {
+            // Comment, blank line or stray indentation at top level
+            entries.push({ key: null, raw: [line.raw] });
+            i++;
+            continue;
+        }
+
+        const valueText = match[2] ?? '';
+        const isBlockScalar = /^[|>]/.test(valueText.trim());
+        const children: YamlLine[] = [];
+        i++;
+        while (i < lines.length) {
+            const next = lines[i];
+            const belongs = next.indent > 0 || next.text === '' ||
+                (next.indent === 0 && isSequenceItem(next.text) && valueText.trim() === '');
+            if (!belongs || (!isBlockScalar && next.indent === 0 && next.text.startsWith('#'))) break;
+            children.push(next);
+            i++;
+        }
+
+        // Trailing blank lines are layout, not part of the value
+        const trailing: YamlLine[] = [];
+        while (children.length && children[children.length - 1].text === '') {
+            trailing.unshift(children.pop()!);
         }
+
+        entries.push({
+            key: unquoteKey(match[1]),
+            raw: [line.raw, ...children.map((c) => c.raw)],
+            value: parseValue(valueText, children, 0),
+        });
+        trailing.forEach((t) => entries.push({ key: null, raw: [t.raw] }));
+    }
+
+    return entries;
+};
+
+const splitFrontmatter = (content: string): { yaml: string | null; body: string } => {
+    const match = content.match(FRONTMATTER_REGEX);
+    if (!match) return { yaml: null, body: content };
+    return { yaml: match[1], body: content.substring(match[0].length) };
+};
+
+/**
+ * Parse YAML frontmatter from markdown content
+ */
+export function parseFrontmatter(content: string): ParseResult {
+    const { yaml, body } = splitFrontmatter(content);
+    if (yaml === null) {
+        return { frontmatter: {}, body };
+    }
+
+    const frontmatter: Frontmatter = {};
+    parseEntries(yaml).forEach((entry) => {
+        if (entry.key !== null) frontmatter[entry.key] = entry.value;
     });
 
     return { frontmatter, body };
 }
 
+// ── Serializing ──────────────────────────────────────────────────────
+
+const needsQuotes = (value: string): boolean =>
+    value === '' ||
+    value !== value.trim() ||
+    /^[-?:,\[\]{}#&*!|>'"%@`]/.test(value) ||
+    /: |:$| #|[\t\n\r]/.test(value) ||
+    typeof resolvePlain(value) !== 'string';
+
+const quote = (value: string): string =>
+    '"' + value
+        .replace(/\\/g, '\\\\')
+        .replace(/"/g, '\\"')
+        .replace(/\n/g, '\\n')
+        .replace(/\t/g, '\\t')
+        .replace(/\r/g, '\\r') + '"';
+
+const serializeScalar = (value: any): string => {
+    if (value === null || value === undefined) return '';
+    if (typeof value === 'boolean' || typeof value === 'number') return String(value);
+    if (value instanceof Date) return value.toISOString();
+    const str = String(value);
+    return needsQuotes(str) ? quote(str) : str;
+};
+
+const isPlainObject = (value: any): value is Frontmatter =>
+    value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+
+/**
+ * Serialize `value` as the right-hand side of a `key:` (or `-`) at `indent`.
+ * Returns the text that follows the colon plus any nested lines.
+ */
+const serializeValue = (value: any, indent: string): string => {
+    if (Array.isArray(value)) {
+        if (value.length === 0) return ' []';
+        return value.map((item) => `\n${indent}${INDENT}-${serializeSequenceItem(item, indent + INDENT)}`).join('');
+    }
+    if (isPlainObject(value)) {
+        const keys = Object.keys(value).filter((k) => value[k] !== undefined);
+        if (keys.length === 0) return ' {}';
+        return keys.map((k) => `\n${indent}${INDENT}${serializeKey(k)}:${serializeValue(value[k], indent + INDENT)}`).join('');
+    }
+    if (typeof value === 'string' && value.includes('\n') && !/^[ \t]/.test(value)) {
+        const body = value.replace(/\n$/, '');
+        const header = value.endsWith('\n') ? (body.endsWith('\n') ? '|+' : '|') : '|-';
+        return ` ${header}` + body.split('\n').map((line) => (line ? `\n${indent}${INDENT}${line}` : '\n')).join('');
+    }
+    const scalar = serializeScalar(value);
+    return scalar === '' ? '' : ` ${scalar}`;
+};
+
+const serializeSequenceItem = (item: any, indent: string): string => {
+    if (isPlainObject(item) && Object.keys(item).length > 0) {
+        // `- key: value` with following keys aligned under the first one
+        const nested = serializeValue(item, indent);
+        return ' ' + nested.replace(/^\n\s*/, '');
+    }
+    return serializeValue(item, indent);
+};
+
+const serializeKey = (key: string): string =>
+    KEY_REGEX.test(`${key}:`) && !needsQuotes(key) ? key : quote(key);
+
+const serializeEntry = (key: string, value: any): string[] =>
+    `${serializeKey(key)}:${serializeValue(value, '')}`.split('\n');
+
+const deepEqual = (a: any, b: any): boolean => {
+    if (a === b) return true;
+    if (Array.isArray(a) && Array.isArray(b)) {
+        return a.length === b.length && a.every((v, i) => deepEqual(v, b[i]));
+    }
+    if (isPlainObject(a) && isPlainObject(b)) {
+        const aKeys = Object.keys(a);
+        const bKeys = Object.keys(b);
+        return aKeys.length === bKeys.length && aKeys.every((k, i) => k === bKeys[i] && deepEqual(a[k], b[k]));
+    }
+    return false;
+};
+
 /**
  * Update or add a frontmatter property
  */
 export function updateFrontmatter(content: string, key: string, value: any): string {
     const { frontmatter, body } = parseFrontmatter(content);
     frontmatter[key] = value;
-    return buildContent(frontmatter, body);
+    return buildContent(frontmatter, body, content);
 }
 
 /**
@@ -69,7 +454,7 @@ export function updateFrontmatter(content: string, key: string, value: any): str
 export function removeFrontmatterKey(content: string, key: string): string {
     const { frontmatter, body } = parseFrontmatter(content);
     delete frontmatter[key];
-    return buildContent(frontmatter, body);
+    return buildContent(frontmatter, body, content);
 }
 
 /**
@@ -97,33 +482,49 @@ export function getFrontmatterProperty<T>(content: string, key: string): T | und
 }
 
 /**
- * Build content with frontmatter
+ * Build content with frontmatter.
+ *
+ * Pass the note's previous content as `original` whenever the frontmatter
+ * object was derived from it: keys whose values are unchanged keep their
+ * exact original text (quoting, comments, list style), and key order is
+ * preserved. New keys are appended in the order they appear in `frontmatter`.
  */
-/**
- * Build content with frontmatter
- */
-export function composeContent(frontmatter: Frontmatter, body: string): string {
-    return buildContent(frontmatter, body);
+export function composeContent(frontmatter: Frontmatter, body: string, original?: string): string {
+    return buildContent(frontmatter, body, original);
 }
 
-function buildContent(frontmatter: Frontmatter, body: string): string {
-    const keys = Object.keys(frontmatter);
+function buildContent(frontmatter: Frontmatter, body: string, original?: string): string {
+    const keys = Object.keys(frontmatter).filter((key) => frontmatter[key] !== undefined);
 
     if (keys.length === 0) {
         return body;
     }
 
-    const lines = keys.map(key => {
-        const value = frontmatter[key];
-        if (typeof value === 'boolean') {
-            return `${key}: ${value}`;
-        } else if (typeof value === 'number') {
-            return `${key}: ${value}`;
-        } else {
-            return `${key}: ${value}`;
+    const originalYaml = original !== undefined ? splitFrontmatter(original).yaml : null;
+    const entries = originalYaml !== null ? parseEntries(originalYaml) : [];
+
+    const lines: string[] = [];
+    const written = new Set<string>();
+
+    entries.forEach((entry) => {
+        if (entry.key === null) {
+            lines.push(...entry.raw);
+            return;
         }
+        if (!keys.includes(entry.key) || written.has(entry.key)) return;
+
+        const value = frontmatter[entry.key];
+        lines.push(...(deepEqual(entry.value, value) ? entry.raw : serializeEntry(entry.key, value)));
+        written.add(entry.key);
     });
 
+    keys.filter((key) => !written.has(key)).forEach((key) => {
+        lines.push(...serializeEntry(key, frontmatter[key]));
+    });
+
+    // Drop blank lines left dangling at the end after removing keys
+    while (lines.length && lines[lines.length - 1].trim() === '') lines.pop();
+
     return `---\n${lines.join('\n')}\n---\n${body}`;
 }
 
@@ -0,0 +1,218 @@
+// LinkService.ts - Wikilink parsing, resolution and backlink index
+// Understands Obsidian-style `[[Note]]`, `[[Note|alias]]`, `[[Note#Heading]]`
+// and `[[folder/Note]]` links. Embeds (`![[...]]`) are not treated as links.
+
+import { Note, Backlink } from '../types/Note';
+import { getContentWithoutFrontmatter } from './FrontmatterService';
+import { getFolder, getFileName } from '../utils/pathUtils';
+
+export interface WikiLink {
+    /** Link target as written, without heading/alias, e.g. `Projects/Idea` */
+    target: string;
+    heading?: string;
+    alias?: string;
+    /** Full matched text, e.g. `[[Idea|my idea]]` */
+    raw: string;
+    /** Offset of `raw` in the scanned text */
+    index: number;
+}
+
+// Captures: 1 = `!` embed marker, 2 = link body between the brackets
+const WIKILINK_REGEX = /(!?)\[\[([^\[\]\n]+?)\]\]/g;
+const FENCED_CODE_REGEX = /^(```|~~~)[\s\S]*?^\1\s*$/gm;
+
+// URL scheme used to smuggle wikilinks through the markdown renderer
+export const WIKILINK_SCHEME = 'wikilink:';
+
+/** Strip `.md` and surrounding whitespace; link targets are extension-less */
+const normalizeTarget = (target: string): string => target.trim().replace(/\.md$/i, '');
+
+/** Lowercased vault path without `.md` — the key links are resolved against */
+const toLinkKey = (path: string): string => normalizeTarget(path).toLowerCase();
+
+/** Blank out fenced code blocks so offsets stay valid but links inside are ignored */
+const maskCode = (text: string): string => text.replace(FENCED_CODE_REGEX, (block) => block.replace(/[^\n]/g, ' '));
+
+/**
+ * Find every wikilink in `text`, in order of appearance.
+ */
+export const parseWikilinks = (text: string): WikiLink[] => {
+    const links: WikiLink[] = [];
+    const scanned = maskCode(text);
+    for (const match of scanned.matchAll(WIKILINK_REGEX)) {
+        if (match[1]) continue; // embed
+        const body = match[2];
+        const pipe = body.indexOf('|');
+        const linkPart = pipe === -1 ? body : body.substring(0, pipe);
+        const alias = pipe === -1 ? undefined : body.substring(pipe + 1).trim() || undefined;
+        const hash = linkPart.indexOf('#');
+        const target = normalizeTarget(hash === -1 ? linkPart : linkPart.substring(0, hash));
+        const heading = hash === -1 ? undefined : linkPart.substring(hash + 1).trim() || undefined;
+        // `[[#Heading]]` points inside the same note; nothing to index
+        if (!target) continue;
+        links.push({ target, heading, alias, raw: match[0], index: match.index ?? 0 });
+    }
+    return links;
+};
+
+/**
+ * Rewrite wikilinks as markdown links on the `wikilink:` scheme so
+ * react-native-markdown-display renders them as tappable links. The visible
+ * label is the alias, else the target (plus heading) as Obsidian shows it.
+ */
+export const wikilinksToMarkdown = (text: string): string => {
+    if (!text.includes('[[')) return text;
+    const links = parseWikilinks(text);
+    if (links.length === 0) return text;
+
+    let out = '';
+    let lastEnd = 0;
+    links.forEach((link) => {
+        const label = link.alias || (link.heading ? `${link.target} > ${link.heading}` : link.target);
+        const escapedLabel = label.replace(/([\[\]\\])/g, '\\$1');
+        out += text.substring(lastEnd, link.index);
+        out += `[${escapedLabel}](${WIKILINK_SCHEME}${encodeURIComponent(link.target)})`;
+        lastEnd = link.index + link.raw.length;
+    });
+    return out + text.substring(lastEnd);
+};
+
+/** Extract the wikilink target from a `wikilink:` URL, or null for ordinary URLs */
+export const getWikilinkTarget = (url: string): string | null => {
+    if (!url.startsWith(WIKILINK_SCHEME)) return null;
+    try {
+        return decodeURIComponent(url.substring(WIKILINK_SCHEME.length));
+    } catch {
+        return url.substring(WIKILINK_SCHEME.length);
+    }
+};
+
+/**
+ * Point every link to `oldPath` at `newPath`, keeping headings and aliases.
+ * Links are rewritten in the same style they were written: bare names stay
+ * bare, path-qualified links keep a path.
+ */
+export const updateLinksInContent = (content: string, oldPath: string, newPath: string): string => {
+    const oldKey = toLinkKey(oldPath);
+    const oldName = toLinkKey(getFileName(oldPath));
+    const newTarget = normalizeTarget(newPath);
+    const newName = normalizeTarget(getFileName(newPath));
+
+    const links = parseWikilinks(content);
+    let changed = false;
+    let out = '';
+    let lastEnd = 0;
+
+    links.forEach((link) => {
+        const key = link.target.toLowerCase();
+        const isPathLink = link.target.includes('/');
+        const matches = isPathLink ? (key === oldKey || oldKey.endsWith(`/${key}`)) : key === oldName;
+        if (!matches) return;
+
+        const target = isPathLink ? newTarget : newName;
+        const heading = link.heading ? `#${link.heading}` : '';
+        const alias = link.alias ? `|${link.alias}` : '';
+        out += content.substring(lastEnd, link.index) + `[[${target}${heading}${alias}]]`;
+        lastEnd = link.index + link.raw.length;
+        changed = true;
+    });
+
+    return changed ? out + content.substring(lastEnd) : content;
+};
+
+/** The line around `index`, trimmed, used as backlink context */
+const getContextLine = (text: string, index: number): string => {
+    const start = text.lastIndexOf('\n', index - 1) + 1;
+    const end = text.indexOf('\n', index);
+    return text.substring(start, end === -1 ? text.length : end).trim();
+};
+
+class LinkService {
+    private notesById: Map<string, Note> = new Map();
+    // Lowercased file name (no `.md`) → ids of notes with that name
+    private idsByName: Map<string, string[]> = new Map();
+    // Target note id → backlinks pointing at it
+    private backlinks: Map<string, Backlink[]> = new Map();
+
+    /**
+     * Rebuild the link index from scratch
+     */
+    initialize(notes: Note[]): void {
+        this.notesById = new Map(notes.map((n) => [n.id, n]));
+        this.idsByName = new Map();
+        this.backlinks = new Map();
+
+        notes.forEach((note) => {
+            const name = toLinkKey(getFileName(note.id));
+            const ids = this.idsByName.get(name);
+            if (ids) ids.push(note.id);
+            else this.idsByName.set(name, [note.id]);
+        });
+
+        notes.forEach((note) => {
+            const body = getContentWithoutFrontmatter(note.content);
+            const seen = new Set<string>();
+            parseWikilinks(body).forEach((link) => {
+                const target = this.resolve(link.target, note.id);
+                // One mention per source note is enough for the panel
+                if (!target || target.id === note.id || seen.has(target.id)) return;
+                seen.add(target.id);
+
+                const list = this.backlinks.get(target.id) || [];
+                list.push({ sourceId: note.id, context: getContextLine(body, link.index) });
+                this.backlinks.set(target.id, list);
+            });
+        });
+    }
+
+    /**
+     * Resolve a link target to a note the way Obsidian does: path-qualified
+     * targets match by path suffix; bare names match by file name, preferring
+     * the linking note's folder, then the shortest path.
+     */
+    resolve(target: string, fromNoteId?: string): Note | null {
+        const key = toLinkKey(target);
+        if (!key) return null;
+
+        let candidates: string[];
+        if (key.includes('/')) {
+            const exact = this.notesById.get(`${normalizeTarget(target)}.md`);
+            if (exact) return exact;
+            candidates = (this.idsByName.get(toLinkKey(getFileName(key))) || []).filter((id) => {
+                const idKey = toLinkKey(id);
+                return idKey === key || idKey.endsWith(`/${key}`);
+            });
+        } else {
+            candidates = this.idsByName.get(key) || [];
+        }
+
+        if (candidates.length === 0) return null;
+        if (candidates.length > 1 && fromNoteId !== undefined) {
+            const folder = getFolder(fromNoteId);
+            const sameFolder = candidates.find((id) => getFolder(id) === folder);
+            if (sameFolder) return this.notesById.get(sameFolder) || null;
+        }
+        const best = [...candidates].sort((a, b) => a.split('/').length - b.split('/').length || a.length - b.length)[0];
+        return this.notesById.get(best) || null;
+    }
+
+    /**
+     * Notes linking to the given note, with the line each link appears on
+     */
+    getBacklinks(noteId: string): { note: Note; context: string }[] {
+        return (this.backlinks.get(noteId) || [])
+            .map((link) => ({ note: this.notesById.get(link.sourceId), context: link.context }))
+            .filter((entry): entry is { note: Note; context: string } => !!entry.note)
+            .sort((a, b) => b.note.updatedAt.getTime() - a.note.updatedAt.getTime());
+    }
+
+    /**
+     * Notes whose content links to the given note (by any spelling that
+     * resolves to it). Used to rewrite links when a note is renamed.
+     */
+    getLinkingNotes(noteId: string): Note[] {
+        return this.getBacklinks(noteId).map((entry) => entry.note);
+    }
+}
+
+export default new LinkService();
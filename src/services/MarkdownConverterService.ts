@@ -25,26 +25,125 @@
 // The Tiptap-targeted methods (markdownToHtml / htmlToMarkdown) and the
 // RNE-targeted methods (markdownToHtmlForRne / htmlToMarkdownFromRne) live
 // side-by-side so flipping the feature flag is a clean no-op rollback path.
+//
+// Embedded vault images (`![[photo.png]]`, `![](attachments/photo.png)`)
+// become <img> tags whose src is a loadable URI from the caller's resolver,
+// or an `attachment:` placeholder while unresolved. Each src is remembered
+// with the embed it came from, so HTML → Markdown writes back the original
+// embed rather than the cache URI the editor displayed.
 
 import { marked } from 'marked';
 import { NodeHtmlMarkdown } from 'node-html-markdown';
+import { replaceImageEmbeds, toAttachmentSrc } from '../utils/attachmentUtils';
 
 const nhm = new NodeHtmlMarkdown({}, undefined, undefined);
 
+export interface ResolvedImage {
+    src: string;
+    width?: number;
+    height?: number;
+}
+
+/** Loadable source of an embedded vault image, null while unknown */
+export type ImageResolver = (target: string) => ResolvedImage | null;
+
+// RNE lays images out at a fixed size: unresolved ones get a placeholder
+// box, resolved ones are scaled down to fit a phone-width editor
+const RNE_PLACEHOLDER_IMAGE_SIZE = { width: 240, height: 180 };
+const RNE_MAX_IMAGE_WIDTH = 280;
+
+// Stand-in for a known <img> while NodeHtmlMarkdown runs; letters only so
+// nothing in it gets escaped
+const IMAGE_MARKER_REGEX = /IMAGEEMBEDMARKER(\d+)END/g;
+
+const escapeAttribute = (value: string): string =>
+    value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const unescapeAttribute = (value: string): string =>
+    value.replace(/&quot;/g, '"').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+
 class MarkdownConverterService {
+    // <img> src → the markdown embed it stands for
+    private static imageEmbeds: Map<string, string> = new Map();
+
+    /** Remember that an <img> with `src` is written back as `embed` */
+    static registerImageSource(src: string, embed: string): void {
+        MarkdownConverterService.imageEmbeds.set(src, embed);
+    }
+
+    // ─── Images ───────────────────────────────────────────────────────────────
+
+    /** Size RNE lays an image out at, given its pixel size and any `|width` */
+    static getRneImageSize(width?: number, height?: number, displayWidth?: number): { width: number; height: number } {
+        if (!width || !height) return RNE_PLACEHOLDER_IMAGE_SIZE;
+        const scaledWidth = Math.min(displayWidth ?? width, RNE_MAX_IMAGE_WIDTH);
+        return { width: scaledWidth, height: Math.round((scaledWidth * height) / width) };
+    }
+
+    /** Replace vault image embeds in `markdown` with inline <img> tags */
+    private static embedImages(markdown: string, resolveImage: ImageResolver | undefined, forRne: boolean): string {
+        return replaceImageEmbeds(markdown, (embed) => {
+            const resolved = resolveImage?.(embed.target) ?? null;
+            // The width goes into the src so `![[a.png|300]]` and `![[a.png]]`
+            // don't share one entry
+            const src = resolved
+                ? `${resolved.src}${embed.width ? `#w${embed.width}` : ''}`
+                : toAttachmentSrc(embed.target, embed.width);
+            MarkdownConverterService.registerImageSource(src, embed.raw);
+
+            let size = '';
+            if (forRne) {
+                const { width, height } = MarkdownConverterService.getRneImageSize(resolved?.width, resolved?.height, embed.width);
+                size = ` width="${width}" height="${height}"`;
+            } else if (embed.width) {
+                size = ` width="${embed.width}"`;
+            }
+            const tag = `<img src="${escapeAttribute(src)}" alt="${escapeAttribute(embed.alt)}"${size}>`;
+            // Alone on its line, marked would pass the tag through as a raw
+            // HTML block that NHM then joins with the next one
+            const lineStart = markdown.lastIndexOf('\n', embed.index - 1) + 1;
+            const lineEnd = markdown.indexOf('\n', embed.index);
+            const line = markdown.substring(lineStart, lineEnd === -1 ? markdown.length : lineEnd);
+            return line.trim() === embed.raw ? `<p>${tag}</p>` : tag;
+        });
+    }
+
+    /**
+     * Swap <img> tags this service created for markers before the HTML goes
+     * through NodeHtmlMarkdown. Other images (pasted web images…) are left
+     * for NHM to write as `![alt](src)`.
+     */
+    private static extractImages(html: string): { html: string; embeds: string[] } {
+        const embeds: string[] = [];
+        const processed = html.replace(/<img\b[^>]*>/gi, (tag) => {
+            const src = tag.match(/\bsrc=(["'])(.*?)\1/i);
+            const embed = src ? MarkdownConverterService.imageEmbeds.get(unescapeAttribute(src[2])) : undefined;
+            if (!embed) return tag;
+            embeds.push(embed);
+            return `IMAGEEMBEDMARKER${embeds.length - 1}END`;
+        });
+        return { html: processed, embeds };
+    }
+
+    private static restoreImages(markdown: string, embeds: string[]): string {
+        if (embeds.length === 0) return markdown;
+        return markdown.replace(IMAGE_MARKER_REGEX, (_match, index) => embeds[Number(index)] ?? '');
+    }
+
     // ─── Markdown → HTML ──────────────────────────────────────────────────────
 
     /**
      * Converts raw Markdown to Tiptap-compatible HTML.
      * GFM task lists are converted to Tiptap's <ul data-type="taskList"> structure.
+     * `resolveImage` supplies the src of embedded vault images.
      */
-    static markdownToHtml(markdown: string): string {
+    static markdownToHtml(markdown: string, resolveImage?: ImageResolver): string {
         if (!markdown) return '';
         try {
             // 0. Pre-process markdown to normalize task items.
             // We use a unique marker that is highly unlikely to appear in natural text.
             // We preserve the list bullet structure so marked still sees it as a list item.
-            let preprocessed = markdown.replace(/^(\s*[-*+]\s*)\[ \]\s*/gm, '$1TASK_UNCHECKED_MARKER ');
+            let preprocessed = MarkdownConverterService.embedImages(markdown, resolveImage, false).replace(/^(\s*[-*+]\s*)\[ \]\s*/gm, '$1TASK_UNCHECKED_MARKER ');
             preprocessed = preprocessed.replace(/^(\s*[-*+]\s*)\[[xX]\]\s*/gm, '$1TASK_CHECKED_MARKER ');
 
             let html = marked.parse(preprocessed, { gfm: true, breaks: true }) as string;
@@ -113,11 +212,15 @@ class MarkdownConverterService {
     static htmlToMarkdown(html: string): string {
         if (!html) return '';
         try {
+            // 0. Known images become text markers first, so the tag stripping
+            //    below keeps images inside task items.
+            const images = MarkdownConverterService.extractImages(html);
+
             // 1. Convert Tiptap task items to plain "- [ ] " / "- [x] " text BEFORE
             //    NodeHtmlMarkdown sees the list, so NHM treats them as normal list items
             //    whose text already contains the checkbox token.
             //    Use lookaheads so data-type and data-checked match in any order.
-            let processed = html.replace(
+            let processed = images.html.replace(
                 /<li(?=[^>]*data-type="taskItem")(?=[^>]*data-checked="(true|false)")[^>]*>([\s\S]*?)<\/li>/gi,
                 (_match, checked, inner) => {
                     const prefix = checked === 'true' ? '- [x] ' : '- [ ] ';
@@ -136,7 +239,7 @@ class MarkdownConverterService {
             // 2. Remove the data-type attribute so NHM renders the list as a normal <ul>
             processed = processed.replace(/ data-type="taskList"/gi, '');
 
-            let md = nhm.translate(processed);
+            let md = MarkdownConverterService.restoreImages(nhm.translate(processed), images.embeds);
 
             // 3. NHM escapes special chars in our "- [ ] " prefix.
             //    Depending on NHM version / bullet style, output may be:
@@ -183,13 +286,14 @@ class MarkdownConverterService {
      * markers into unique sentinels that survive marked's HTML parsing,
      * then post-process the HTML into the target format.
      */
-    static markdownToHtmlForRne(markdown: string): string {
+    static markdownToHtmlForRne(markdown: string, resolveImage?: ImageResolver): string {
         if (!markdown) return '';
         try {
             // 0. Pre-process markdown to mark task items with unique sentinels.
             //    This survives marked's parsing intact and lets us find them in
             //    the HTML output regardless of which task-item form marked emits.
-            let preprocessed = markdown.replace(
+            //    Images become <img> with an explicit size, which RNE needs.
+            let preprocessed = MarkdownConverterService.embedImages(markdown, resolveImage, true).replace(
                 /^(\s*[-*+]\s*)\[ \]\s*/gm,
                 '$1TASK_UNCHECKED_MARKER ',
             );
@@ -350,7 +454,8 @@ class MarkdownConverterService {
                 },
             );
 
-            let md = nhm.translate(processed);
+            const images = MarkdownConverterService.extractImages(processed);
+            let md = MarkdownConverterService.restoreImages(nhm.translate(images.html), images.embeds);
 
             // 3. NHM escapes the brackets in our injected "- [ ] " prefix.
             //    Same un-escaping pass as the Tiptap path.
@@ -0,0 +1,126 @@
+// NoteCacheService.ts
+// Local cache of the vault's notes: per file, the modification time it was
+// listed with, a hash of its content and the metadata parsed from it. It is
+// read once, lazily, then kept in memory and written through to SQLite
+// (IndexedDB on web). StorageService.listNotes diffs the vault against it,
+// so only files that changed are read, and only content that changed is
+// parsed again. Entries are scoped per vault, so switching vaults never
+// shows another vault's notes.
+
+import { Note, DomainType } from '../types/Note';
+import { NoteCacheRow, readCacheRows, writeCacheRows, deleteCacheRows } from '../utils/noteCacheStorage';
+
+export interface CachedNote {
+    note: Note;
+    /** File modification time when last listed; null after our own write */
+    mtime: number | null;
+    hash: string;
+}
+
+/** Cheap content fingerprint (FNV-1a) to tell a touched file from a changed one */
+export const hashContent = (content: string): string => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < content.length; i++) {
+        hash ^= content.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+    return `${hash.toString(36)}-${content.length}`;
+};
+
+const toRow = ({ note, mtime, hash }: CachedNote): NoteCacheRow => ({
+    path: note.id,
+    mtime,
+    hash,
+    title: note.title,
+    content: note.content,
+    createdAt: note.createdAt.getTime(),
+    updatedAt: note.updatedAt.getTime(),
+    pinned: !!note.pinned,
+    domain: note.domain ?? null,
+    tags: note.tags ?? [],
+    due: note.due ?? null,
+    remind: note.remind ?? null,
+    order: note.order ?? null,
+});
+
+const fromRow = (row: NoteCacheRow): CachedNote => ({
+    note: {
+        id: row.path,
+        title: row.title,
+        content: row.content,
+        createdAt: new Date(row.createdAt),
+        updatedAt: new Date(row.updatedAt),
+        filePath: row.path,
+        syncStatus: 'synced',
+        tags: row.tags,
+        pinned: row.pinned,
+        domain: (row.domain ?? undefined) as DomainType | undefined,
+        due: row.due ?? undefined,
+        remind: row.remind ?? undefined,
+        order: row.order ?? undefined,
+    },
+    mtime: row.mtime,
+    hash: row.hash,
+});
+
+class NoteCacheService {
+    private scope: string | null = null;
+    private entries: Map<string, CachedNote> | null = null;
+    private loading: Promise<Map<string, CachedNote>> | null = null;
+    // Serializes writes so an older change never lands after a newer one
+    private persisting: Promise<void> = Promise.resolve();
+
+    /** Cached notes of the vault `scope`, by path, newest first */
+    load(scope: string): Promise<Map<string, CachedNote>> {
+        if (this.scope !== scope) {
+            this.scope = scope;
+            this.entries = null;
+            this.loading = null;
+        }
+        if (this.entries) return Promise.resolve(this.entries);
+        if (!this.loading) {
+            const loading: Promise<Map<string, CachedNote>> = readCacheRows(scope)
+                .catch((error) => {
+                    console.error('Failed to load the note cache:', error);
+                    return [] as NoteCacheRow[];
+                })
+                .then((rows) => {
+                    const entries = new Map(rows.map((row) => [row.path, fromRow(row)]));
+                    // The vault may have been switched while reading
+                    if (this.loading === loading) {
+                        this.entries = entries;
+                        this.loading = null;
+                    }
+                    return entries;
+                });
+            this.loading = loading;
+        }
+        return this.loading;
+    }
+
+    /** Record notes as the vault holds them */
+    async put(scope: string, entries: { note: Note; mtime: number | null }[]): Promise<void> {
+        if (entries.length === 0) return;
+        const cache = await this.load(scope);
+        const cached = entries.map(({ note, mtime }) => ({ note, mtime, hash: hashContent(note.content) }));
+        cached.forEach((entry) => cache.set(entry.note.id, entry));
+        await this.persist(() => writeCacheRows(scope, cached.map(toRow)));
+    }
+
+    async remove(scope: string, paths: string[]): Promise<void> {
+        if (paths.length === 0) return;
+        const cache = await this.load(scope);
+        paths.forEach((path) => cache.delete(path));
+        await this.persist(() => deleteCacheRows(scope, paths));
+    }
+
+    // The cache only saves work; failing to write it never fails the caller
+    private persist(write: () => Promise<void>): Promise<void> {
+        this.persisting = this.persisting
+            .then(write)
+            .catch((error) => console.warn('Failed to update the note cache:', error));
+        return this.persisting;
+    }
+}
+
+export default new NoteCacheService();
@@ -178,10 +178,11 @@ class PureNotesService {
     }
 
     /**
-     * Set up deep linking to receive callbacks from Obsidian
+     * Listen for purenotes:// links: the one that opened the app and those
+     * arriving while it runs (widgets, shares, x-callback-url calls and
+     * responses). Returns a function that stops listening.
      */
-    setupDeepLinking(callback: (url: string) => void): void {
-        // Listen for incoming URLs (x-callback-url responses)
+    setupDeepLinking(callback: (url: string) => void): () => void {
         const subscription = Linking.addEventListener('url', ({ url }) => {
             if (url.startsWith('purenotes://')) {
                 callback(url);
@@ -194,6 +195,8 @@ class PureNotesService {
                 callback(url);
             }
         });
+
+        return () => subscription.remove();
     }
 
     /**
@@ -0,0 +1,151 @@
+// ReminderService.ts
+// Schedules local notifications for note and task reminders (see
+// utils/reminderUtils). Everything stays on the device: the OS fires the
+// notifications, no server is involved. Tapping one opens
+// `purenotes://open?id=<note id>`.
+
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { Note, RemindersSettings } from '../types/Note';
+import { collectReminders, Reminder } from '../utils/reminderUtils';
+import PureNotesService from './PureNotesService';
+
+// Our notifications among everything scheduled for the app
+const IDENTIFIER_PREFIX = 'reminder:';
+const ANDROID_CHANNEL_ID = 'reminders';
+// Saves come in bursts (autosave, background sync); reschedule once they settle
+const SYNC_DEBOUNCE_MS = 2000;
+
+class ReminderService {
+    private syncTimer: ReturnType<typeof setTimeout> | null = null;
+    private isSyncing = false;
+    private pendingSync: { notes: Note[]; settings: RemindersSettings } | null = null;
+    private isConfigured = false;
+
+    /** Local notifications need a native app */
+    isSupported(): boolean {
+        return Platform.OS !== 'web';
+    }
+
+    private async configure(): Promise<void> {
+        if (this.isConfigured) return;
+        this.isConfigured = true;
+        // Show reminders that fire while the app is open as well
+        Notifications.setNotificationHandler({
+            handleNotification: async () => ({
+                shouldShowBanner: true,
+                shouldShowList: true,
+                shouldPlaySound: true,
+                shouldSetBadge: false,
+            }),
+        });
+        if (Platform.OS === 'android') {
+            await Notifications.setNotificationChannelAsync(ANDROID_CHANNEL_ID, {
+                name: 'Reminders',
+                importance: Notifications.AndroidImportance.HIGH,
+            });
+        }
+    }
+
+    private async ensurePermission(): Promise<boolean> {
+        const current = await Notifications.getPermissionsAsync();
+        if (current.granted) return true;
+        if (!current.canAskAgain) return false;
+        return (await Notifications.requestPermissionsAsync()).granted;
+    }
+
+    // Changes when the reminder's text or time does, so edits reschedule it
+    private identifierFor(reminder: Reminder): string {
+        return `${IDENTIFIER_PREFIX}${reminder.key}@${reminder.date.getTime()}:${reminder.title}`;
+    }
+
+    /** Reschedule after the notes settle; call on every change to the notes */
+    scheduleSync(notes: Note[], settings: RemindersSettings): void {
+        if (!this.isSupported()) return;
+        this.pendingSync = { notes, settings };
+        if (this.syncTimer !== null) clearTimeout(this.syncTimer);
+        this.syncTimer = setTimeout(() => {
+            this.syncTimer = null;
+            this.flush().catch((error) => console.warn('Reminder sync failed:', error));
+        }, SYNC_DEBOUNCE_MS);
+    }
+
+    private async flush(): Promise<void> {
+        if (this.isSyncing || !this.pendingSync) return;
+        const { notes, settings } = this.pendingSync;
+        this.pendingSync = null;
+        this.isSyncing = true;
+        try {
+            await this.sync(notes, settings);
+        } finally {
+            this.isSyncing = false;
+        }
+        // Changes that arrived mid-sync
+        if (this.pendingSync) await this.flush();
+    }
+
+    /**
+     * Make the scheduled notifications match the reminders in `notes`:
+     * cancel the ones that are gone or changed, schedule the new ones.
+     */
+    async sync(notes: Note[], settings: RemindersSettings): Promise<void> {
+        if (!this.isSupported()) return;
+        await this.configure();
+
+        const wanted = new Map<string, Reminder>();
+        if (settings.enabled) {
+            collectReminders(notes, settings).forEach((reminder) => wanted.set(this.identifierFor(reminder), reminder));
+        }
+
+        const scheduled = (await Notifications.getAllScheduledNotificationsAsync())
+            .map((request: Notifications.NotificationRequest) => request.identifier)
+            .filter((identifier: string) => identifier.startsWith(IDENTIFIER_PREFIX));
+        for (const identifier of scheduled) {
+            if (!wanted.has(identifier)) await Notifications.cancelScheduledNotificationAsync(identifier);
+        }
+
+        const missing = [...wanted].filter(([identifier]) => !scheduled.includes(identifier));
+        if (missing.length === 0 || !(await this.ensurePermission())) return;
+
+        for (const [identifier, reminder] of missing) {
+            await Notifications.scheduleNotificationAsync({
+                identifier,
+                content: {
+                    title: reminder.title,
+                    body: reminder.body,
+                    data: { url: PureNotesService.createAppUri('open', { id: reminder.noteId }) },
+                },
+                trigger: {
+                    type: Notifications.SchedulableTriggerInputTypes.DATE,
+                    date: reminder.date,
+                    channelId: ANDROID_CHANNEL_ID,
+                },
+            });
+        }
+    }
+
+    /**
+     * Call `onOpen` with the deep link of each reminder the user taps,
+     * including the one that launched the app. Returns an unsubscribe function.
+     */
+    addOpenListener(onOpen: (url: string) => void): () => void {
+        if (!this.isSupported()) return () => {};
+
+        const handle = (response: Notifications.NotificationResponse | null) => {
+            const url = response?.notification.request.content.data?.url;
+            if (typeof url === 'string') onOpen(url);
+        };
+        const subscription = Notifications.addNotificationResponseReceivedListener(handle);
+        Notifications.getLastNotificationResponseAsync()
+            .then((response: Notifications.NotificationResponse | null) => {
+                handle(response);
+                // Don't reopen the same note on the next mount
+                if (response) return Notifications.clearLastNotificationResponseAsync();
+            })
+            .catch((error: unknown) => console.warn('Failed to read the launching notification:', error));
+
+        return () => subscription.remove();
+    }
+}
+
+export default new ReminderService();
@@ -1,113 +1,328 @@
-// SearchService.ts - Fuzzy search implementation using Fuse.js
+// SearchService.ts - Full-text search over an incremental inverted index
+// Each note is indexed once and re-indexed only when its title or content
+// changes, so keeping the index current after a save is cheap. Tokenising
+// and the query syntax live in utils/searchUtils.
 
-import Fuse from 'fuse.js';
-import { Note, SearchResult } from '../types/Note';
+import { Note, SearchResult, SearchSnippet } from '../types/Note';
+import { hasTag } from '../utils/tagUtils';
+import { parseFrontmatter } from './FrontmatterService';
+import {
+    SearchClause,
+    SearchQuery,
+    parseSearchQuery,
+    tokenize,
+    getWordStems,
+    matchesDateClause,
+    toSearchDate,
+} from '../utils/searchUtils';
+
+interface IndexedNote {
+    note: Note;
+    // Normalised words joined by single spaces, for phrase checks
+    title: string;
+    body: string;
+    // Every word this note added to the postings, to take it out again
+    words: string[];
+}
+
+interface TextMatch {
+    start: number;
+    end: number;
+    term: string;
+}
+
+// A word in the title counts as much as three in the body
+const TITLE_WEIGHT = 3;
+const BODY_WEIGHT = 1;
+// Matches on a Hebrew stem (`בית` in `הבית`) or a prefix of a longer word
+const STEM_FACTOR = 0.5;
+const PREFIX_FACTOR = 0.6;
+const PHRASE_IN_TITLE_BONUS = 2;
+
+const SNIPPET_LENGTH = 120;
+const SNIPPET_CONTEXT = 40;
 
 class SearchService {
-    private fuse: Fuse<Note> | null = null;
+    private indexed = new Map<string, IndexedNote>();
+    // word → note id → weight
+    private postings = new Map<string, Map<string, number>>();
+    // Position of each note in the last synced list, to break score ties
+    private order = new Map<string, number>();
 
     /**
-     * Initialize the search index with notes
+     * Bring the index in line with `notes`: notes that are gone are removed
+     * and only new or edited notes are (re-)indexed.
      */
-    initialize(notes: Note[]): void {
-        const options = {
-            keys: [
-                { name: 'title', weight: 0.7 },
-                { name: 'content', weight: 0.3 },
-                { name: 'tags', weight: 0.5 },
-            ],
-            threshold: 0.3, // Lower = more strict matching
-            includeMatches: true,
-            includeScore: true,
-            minMatchCharLength: 2,
-            ignoreLocation: true,
+    sync(notes: Note[]): void {
+        const ids = new Set(notes.map((note) => note.id));
+        for (const id of Array.from(this.indexed.keys())) {
+            if (!ids.has(id)) this.removeNote(id);
+        }
+        notes.forEach((note) => this.indexNote(note));
+        this.order = new Map(notes.map((note, i) => [note.id, i]));
+    }
+
+    /**
+     * Add a note to the index, or update it. An unchanged title and content
+     * only refresh the stored note (pinned, domain, dates are read from it).
+     */
+    indexNote(note: Note): void {
+        const existing = this.indexed.get(note.id);
+        if (existing && existing.note.title === note.title && existing.note.content === note.content) {
+            existing.note = note;
+            return;
+        }
+        if (existing) this.removeNote(note.id);
+
+        const weights = new Map<string, number>();
+        const addWords = (words: string[], weight: number) => {
+            words.forEach((word) => {
+                weights.set(word, (weights.get(word) ?? 0) + weight);
+                getWordStems(word).forEach((stem) => weights.set(stem, (weights.get(stem) ?? 0) + weight * STEM_FACTOR));
+            });
         };
+        const titleWords = tokenize(note.title).map((token) => token.value);
+        const bodyWords = tokenize(parseFrontmatter(note.content).body).map((token) => token.value);
+        addWords(titleWords, TITLE_WEIGHT);
+        addWords(bodyWords, BODY_WEIGHT);
+
+        weights.forEach((weight, word) => {
+            let notes = this.postings.get(word);
+            if (!notes) {
+                notes = new Map();
+                this.postings.set(word, notes);
+            }
+            notes.set(note.id, weight);
+        });
+        this.indexed.set(note.id, {
+            note,
+            title: titleWords.join(' '),
+            body: bodyWords.join(' '),
+            words: Array.from(weights.keys()),
+        });
+    }
 
-        this.fuse = new Fuse(notes, options);
+    removeNote(id: string): void {
+        const entry = this.indexed.get(id);
+        if (!entry) return;
+        entry.words.forEach((word) => {
+            const notes = this.postings.get(word);
+            if (!notes) return;
+            notes.delete(id);
+            if (notes.size === 0) this.postings.delete(word);
+        });
+        this.indexed.delete(id);
     }
 
     /**
-     * Search for notes matching the query
+     * Notes matching `query` (see utils/searchUtils for the syntax), best
+     * first. A higher score is a better match.
      */
     search(query: string): SearchResult[] {
-        if (!this.fuse || !query.trim()) {
-            return [];
+        const parsed = parseSearchQuery(query);
+        if (parsed.clauses.length === 0) return [];
+
+        // Positive words narrow the candidates through the postings; a query
+        // of operators only starts from every note
+        let scores: Map<string, number> | null = null;
+        for (const clause of parsed.clauses) {
+            if (clause.negated || (clause.kind !== 'word' && clause.kind !== 'phrase')) continue;
+            const words = clause.kind === 'word' ? [clause.value] : clause.words;
+            for (const word of words) {
+                const matches = this.lookup(word, clause.kind === 'phrase');
+                const idf = Math.log(1 + this.indexed.size / Math.max(1, matches.size));
+                const next = new Map<string, number>();
+                matches.forEach((weight, id) => {
+                    if (scores && !scores.has(id)) return;
+                    next.set(id, (scores?.get(id) ?? 0) + Math.log(1 + weight) * idf);
+                });
+                scores = next;
+            }
+        }
+        if (!scores) {
+            scores = new Map(Array.from(this.indexed.keys(), (id) => [id, 0]));
         }
 
-        const results = this.fuse.search(query);
+        const excluded = new Set<string>();
+        parsed.clauses.forEach((clause) => {
+            if (clause.negated && clause.kind === 'word') {
+                this.lookup(clause.value, false).forEach((_weight, id) => excluded.add(id));
+            }
+        });
 
-        return results.map((result) => ({
-            note: result.item,
-            matches: (result.matches || []).map(m => ({
-                key: m.key || '',
-                indices: m.indices.map(i => [...i]),
-            })),
-            score: result.score || 0,
-        }));
+        const results: SearchResult[] = [];
+        scores.forEach((score, id) => {
+            const entry = this.indexed.get(id);
+            if (!entry || excluded.has(id)) return;
+            if (!parsed.clauses.every((clause) => this.matchesClause(entry, clause))) return;
+            const bonus = parsed.clauses.some((clause) =>
+                clause.kind === 'phrase' && !clause.negated && containsPhrase(entry.title, clause.words)
+            ) ? PHRASE_IN_TITLE_BONUS : 0;
+            results.push({
+                note: entry.note,
+                matches: [
+                    { key: 'title', indices: this.toIndices(this.findTextMatches(entry.note.title, parsed.terms)) },
+                    { key: 'content', indices: this.getBodyMatches(entry.note.content, parsed.terms) },
+                ],
+                score: score + bonus,
+            });
+        });
+
+        return results.sort((a, b) =>
+            b.score - a.score || (this.order.get(a.note.id) ?? 0) - (this.order.get(b.note.id) ?? 0)
+        );
     }
 
-    /**
-     * Filter notes by tag
-     */
-    filterByTag(notes: Note[], tag: string): Note[] {
-        return notes.filter((note) => note.tags?.includes(tag));
+    /** Ranges of the note body (after the frontmatter) matching the words of `query`, in `content` offsets */
+    getMatches(content: string, query: string): number[][] {
+        return this.getBodyMatches(content, parseSearchQuery(query).terms);
     }
 
     /**
-     * Get all unique tags from notes
+     * Passages of the note body around `matches` (as from getMatches or a
+     * search result's `content` matches), best first: passages holding more
+     * different matched words rank higher, then more matches.
      */
-    getAllTags(notes: Note[]): string[] {
-        const tagSet = new Set<string>();
-        notes.forEach((note) => {
-            note.tags?.forEach((tag) => tagSet.add(tag));
+    getSnippets(note: Note, matches: number[][], limit: number = 3): SearchSnippet[] {
+        if (matches.length === 0) return [];
+        const { body } = parseFrontmatter(note.content);
+        const bodyStart = note.content.length - body.length;
+        const words: TextMatch[] = matches.map(([start, end]) => ({
+            start: start - bodyStart,
+            end: end - bodyStart + 1,
+            // The word as written stands in for the query term it matched
+            term: note.content.slice(start, end + 1).toLowerCase(),
+        }));
+
+        // Matches close together share a passage
+        const groups: TextMatch[][] = [];
+        words.forEach((match) => {
+            const group = groups[groups.length - 1];
+            if (group && match.end - group[0].start <= SNIPPET_LENGTH) group.push(match);
+            else groups.push([match]);
         });
-        return Array.from(tagSet).sort();
+
+        return groups
+            .map((group) => ({
+                group,
+                rank: new Set(group.map((match) => match.term)).size * 100 + group.length,
+            }))
+            .sort((a, b) => b.rank - a.rank || a.group[0].start - b.group[0].start)
+            .slice(0, limit)
+            .map(({ group }) => {
+                const first = group[0];
+                const last = group[group.length - 1];
+                const start = snapToWordStart(body, Math.max(0, first.start - SNIPPET_CONTEXT), first.start);
+                const end = snapToWordEnd(body, Math.min(body.length, Math.max(last.end + SNIPPET_CONTEXT, start + SNIPPET_LENGTH)), last.end);
+                return {
+                    text: body.slice(start, end).replace(/\s/g, ' '),
+                    start: bodyStart + start,
+                    end: bodyStart + end,
+                    indices: group.map((match) => [match.start - start, match.end - start - 1]),
+                };
+            });
     }
 
-    /**
-     * Extract text snippet around a match
-     */
-    getContextSnippet(content: string, matchIndex: number, contextLength: number = 50): string {
-        const start = Math.max(0, matchIndex - contextLength);
-        const end = Math.min(content.length, matchIndex + contextLength);
+    // Notes containing `word`, or a word it starts unless `exact`, with weights
+    private lookup(word: string, exact: boolean): Map<string, number> {
+        const result = new Map(this.postings.get(word) ?? []);
+        if (exact) return result;
+        this.postings.forEach((notes, key) => {
+            if (key === word || !key.startsWith(word)) return;
+            notes.forEach((weight, id) => {
+                result.set(id, Math.max(result.get(id) ?? 0, weight * PREFIX_FACTOR));
+            });
+        });
+        return result;
+    }
 
-        let snippet = content.substring(start, end);
+    // Word clauses were applied through the postings already
+    private matchesClause(entry: IndexedNote, clause: SearchClause): boolean {
+        const { note } = entry;
+        let matches: boolean;
+        switch (clause.kind) {
+            case 'word':
+                return true;
+            case 'phrase':
+                matches = containsPhrase(entry.title, clause.words) || containsPhrase(entry.body, clause.words);
+                break;
+            case 'tag':
+                matches = hasTag(note.tags, clause.value);
+                break;
+            case 'domain':
+                matches = (note.domain ?? '').toLowerCase() === clause.value;
+                break;
+            case 'path':
+                matches = note.id.toLowerCase().includes(clause.value);
+                break;
+            case 'is':
+                matches = clause.value === 'pinned' && !!note.pinned;
+                break;
+            case 'date': {
+                const value = clause.field === 'created' ? toSearchDate(note.createdAt)
+                    : clause.field === 'updated' ? toSearchDate(note.updatedAt)
+                    : note.due?.slice(0, 10);
+                matches = !!value && matchesDateClause(clause, value);
+                break;
+            }
+        }
+        return clause.negated ? !matches : matches;
+    }
+
+    private findTextMatches(text: string, terms: string[]): TextMatch[] {
+        if (terms.length === 0) return [];
+        const matches: TextMatch[] = [];
+        tokenize(text).forEach((token) => {
+            const forms = [token.value, ...getWordStems(token.value)];
+            const term = terms.find((t) => forms.some((form) => form.startsWith(t)));
+            if (term) matches.push({ start: token.start, end: token.end, term });
+        });
+        return matches;
+    }
 
-        if (start > 0) snippet = '...' + snippet;
-        if (end < content.length) snippet = snippet + '...';
+    private toIndices(matches: TextMatch[], offset: number = 0): number[][] {
+        return matches.map((match) => [offset + match.start, offset + match.end - 1]);
+    }
 
-        return snippet;
+    private getBodyMatches(content: string, terms: string[]): number[][] {
+        const { body } = parseFrontmatter(content);
+        return this.toIndices(this.findTextMatches(body, terms), content.length - body.length);
     }
 
     /**
-     * Highlight search terms in text
+     * Filter notes by tag (a parent tag also matches its nested tags)
      */
-    highlightMatches(text: string, matches: Array<{ indices: number[][] }>): string {
-        if (!matches || matches.length === 0) return text;
-
-        let highlighted = text;
-        const allIndices: number[][] = [];
+    filterByTag(notes: Note[], tag: string): Note[] {
+        return notes.filter((note) => hasTag(note.tags, tag));
+    }
 
-        // Collect all match indices
-        matches.forEach((match) => {
-            if (match.indices) {
-                allIndices.push(...match.indices);
-            }
+    /**
+     * Get all unique tags from notes
+     */
+    getAllTags(notes: Note[]): string[] {
+        const tagSet = new Set<string>();
+        notes.forEach((note) => {
+            note.tags?.forEach((tag) => tagSet.add(tag));
         });
+        return Array.from(tagSet).sort();
+    }
+}
 
-        // Sort indices by start position (descending) to avoid offset issues
-        allIndices.sort((a, b) => b[0] - a[0]);
+// `words` appear consecutively in the space-joined normalised text
+const containsPhrase = (text: string, words: string[]): boolean =>
+    ` ${text} `.includes(` ${words.join(' ')} `);
 
-        // Wrap matches with highlight markers
-        allIndices.forEach(([start, end]) => {
-            highlighted =
-                highlighted.substring(0, start) +
-                '**' + highlighted.substring(start, end + 1) + '**' +
-                highlighted.substring(end + 1);
-        });
+// Move a passage edge to a word boundary without passing the match
+const snapToWordStart = (text: string, index: number, limit: number): number => {
+    if (index === 0) return 0;
+    const space = text.slice(index, limit).search(/\s/);
+    return space === -1 ? index : index + space + 1;
+};
 
-        return highlighted;
-    }
-}
+const snapToWordEnd = (text: string, index: number, limit: number): number => {
+    if (index >= text.length) return text.length;
+    const space = text.slice(limit, index).search(/\s\S*$/);
+    return space === -1 ? index : limit + space;
+};
 
 export default new SearchService();
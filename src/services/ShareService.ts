@@ -0,0 +1,97 @@
+// ShareService.ts
+// Content shared from other apps. The iOS share extension (targets/share)
+// writes it to the App Group container and the Android share activity
+// (targets/android-share) to the app cache, both as
+// `shared/<id>/payload.json` next to the image files, then open
+// purenotes://share?id=<id>. This reads the payload back, saves its images
+// to the vault and removes the folder once the content has been filed.
+
+import { Platform } from 'react-native';
+import * as Linking from 'expo-linking';
+import { Directory, File, Paths } from 'expo-file-system';
+import AttachmentService from './AttachmentService';
+import { SharedContent, SharedImage } from '../utils/shareUtils';
+
+const APP_GROUP = 'group.com.yybd.purenotes';
+const SHARE_DIR = 'shared';
+const PAYLOAD_FILE = 'payload.json';
+// Share ids are UUIDs; anything else must not reach the file system
+const SHARE_ID_REGEX = /^[A-Za-z0-9-]+$/;
+
+interface SharePayload {
+    title?: string;
+    text?: string;
+    urls?: string[];
+    /** `file` is the copy in the share folder, `fileName` the name the image was shared under */
+    images?: { file: string; fileName: string; mimeType?: string }[];
+}
+
+class ShareService {
+    /** The share id of a purenotes://share link, or null for other links */
+    getShareId(url: string): string | null {
+        if (!url.startsWith('purenotes://share')) return null;
+        const id = Linking.parse(url).queryParams?.id;
+        return typeof id === 'string' && SHARE_ID_REGEX.test(id) ? id : null;
+    }
+
+    /** The content of a share; null when it is gone or was already filed */
+    async readShare(id: string): Promise<SharedContent | null> {
+        const dir = this.getShareDirectory(id);
+        if (!dir) return null;
+        const payloadFile = new File(dir, PAYLOAD_FILE);
+        if (!payloadFile.exists) return null;
+
+        let payload: SharePayload;
+        try {
+            payload = JSON.parse(await payloadFile.text());
+        } catch (error) {
+            console.error('Error reading shared content:', error);
+            return null;
+        }
+        const images: SharedImage[] = (payload.images ?? []).map((image) => ({
+            uri: new File(dir, image.file).uri,
+            fileName: image.fileName,
+            mimeType: image.mimeType,
+        }));
+        return {
+            id,
+            title: payload.title || undefined,
+            text: payload.text ?? '',
+            urls: payload.urls ?? [],
+            images,
+        };
+    }
+
+    /** Save the shared images next to `notePath`; returns their embeds */
+    async saveImages(shared: SharedContent, notePath: string, folderSetting: string): Promise<string[]> {
+        const embeds: string[] = [];
+        for (const image of shared.images) {
+            const base64 = await new File(image.uri).base64();
+            const saved = await AttachmentService.saveImage(
+                { base64, fileName: image.fileName, mimeType: image.mimeType },
+                notePath,
+                folderSetting
+            );
+            embeds.push(saved.embed);
+        }
+        return embeds;
+    }
+
+    /** Remove the share folder */
+    discard(id: string): void {
+        const dir = this.getShareDirectory(id);
+        try {
+            if (dir?.exists) dir.delete();
+        } catch (error) {
+            console.warn('Failed to remove shared content:', error);
+        }
+    }
+
+    private getShareDirectory(id: string): Directory | null {
+        if (!SHARE_ID_REGEX.test(id)) return null;
+        const root = Platform.OS === 'ios' ? Paths.appleSharedContainers[APP_GROUP] : Paths.cache;
+        return root ? new Directory(root, SHARE_DIR, id) : null;
+    }
+}
+
+export default new ShareService();
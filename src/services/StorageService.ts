@@ -1,16 +1,63 @@
-import { Note, PureNotesVaultConfig, DomainType } from '../types/Note';
-import { getFrontmatterProperty } from './FrontmatterService';
-import { StorageProvider } from './providers/StorageProvider';
+import { Note, NoteConflict, NoteVersion, TrashedNote, PureNotesVaultConfig, DomainType, DomainConfig, DailyNotesSettings, TemplatesSettings } from '../types/Note';
+import { getFrontmatterProperty, updateFrontmatter, removeFrontmatterKey } from './FrontmatterService';
+import { StorageProvider, FileStat } from './providers/StorageProvider';
 import { LocalFileProvider } from './providers/LocalFileProvider';
 import { AndroidSafProvider } from './providers/AndroidSafProvider';
 import { IosCloudProvider } from './providers/IosCloudProvider';
 import { WebStorageProvider } from './providers/WebStorageProvider';
+import { WebDavProvider } from './providers/WebDavProvider';
 import { Platform } from 'react-native';
+import { splitPath, joinPath, isHiddenName } from '../utils/pathUtils';
+import { extractTags } from '../utils/tagUtils';
+import { mergeText } from '../utils/mergeUtils';
+import { getUniqueFileName } from '../utils/fileNameUtils';
+import { parseDomainsConfig } from '../utils/domainUtils';
+import { getNoteSchedule } from '../utils/reminderUtils';
+import { getNoteOrder } from '../utils/sortUtils';
+import { getCreatedProperty, resolveCreatedAt } from '../utils/createdUtils';
+import WriteJournalService, { JournalEntry, WRITE_ERROR_AFTER_ATTEMPTS } from './WriteJournalService';
+import NoteCacheService, { hashContent } from './NoteCacheService';
+import { WebDavCredentials, clearWebDavCredentials } from '../utils/webdavCredentials';
+
+// Folder (relative to the vault root) that holds archived notes
+const ARCHIVE_FOLDER = 'archive';
+
+// Deleted notes go here, as in Obsidian. The folder is flat; where a note
+// came from and when it was deleted are kept in its frontmatter.
+const TRASH_FOLDER = '.trash';
+const TRASHED_AT_KEY = 'trashed_at';
+const TRASHED_FROM_KEY = 'trashed_from';
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Auto-purge reads every trashed file, so don't repeat it on every reload
+const TRASH_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Hidden folder holding per-note snapshots, mirroring the vault layout:
+// `.purenotes/history/Projects/Idea/<timestamp>.md` for `Projects/Idea.md`.
+// Hidden folders are skipped by listNotes, and Obsidian ignores them too.
+const HISTORY_FOLDER = '.purenotes/history';
+// Saves within this window of the last snapshot don't take a new one, so a
+// burst of autosaves collapses into the state before the burst
+const HISTORY_COALESCE_MS = 10 * 60 * 1000;
+const MAX_VERSIONS_PER_NOTE = 50;
+
+// A journaled write that keeps failing is shown as an error rather than pending
+const getPendingStatus = (attempts: number): Note['syncStatus'] =>
+    attempts >= WRITE_ERROR_AFTER_ATTEMPTS ? 'error' : 'pending';
+
+// Obsidian's settings folder; read-only for us
+const OBSIDIAN_CONFIG_FOLDER = '.obsidian';
+// Our own vault-level settings, shared by every device opening the vault
+const PURENOTES_CONFIG_FOLDER = '.purenotes';
+const DOMAINS_CONFIG_FILE = 'domains.json';
 
 class StorageService {
     private config: PureNotesVaultConfig | null = null;
     private localProvider: StorageProvider;
     private externalProvider: StorageProvider | null = null;
+    private webDavProvider = new WebDavProvider();
+    // Note path → time of its newest snapshot, to skip listing on every save
+    private lastSnapshotAt: Map<string, number> = new Map();
+    private lastTrashPurgeAt = 0;
 
     constructor() {
         this.localProvider = new LocalFileProvider();
@@ -35,18 +82,27 @@ class StorageService {
         if (this.externalProvider && this.externalProvider.setConfig) {
             this.externalProvider.setConfig(config);
         }
+        this.webDavProvider.setConfig(config);
     }
 
     getConfig(): PureNotesVaultConfig | null {
         return this.config;
     }
 
+    // Provider of the connected vault: a WebDAV server or the platform's folder
+    private get vaultProvider(): StorageProvider | null {
+        if (this.config?.provider === 'webdav') {
+            return this.webDavProvider.isSupported() ? this.webDavProvider : null;
+        }
+        return this.externalProvider;
+    }
+
     private isExternal(): boolean {
-        return !!(this.config && this.config.isConnected && this.config.vaultDirectoryUri && this.externalProvider);
+        return !!(this.config && this.config.isConnected && this.config.vaultDirectoryUri && this.vaultProvider);
     }
 
     private get activeProvider(): StorageProvider {
-        return this.isExternal() ? this.externalProvider! : this.localProvider;
+        return this.isExternal() ? this.vaultProvider! : this.localProvider;
     }
 
     async selectExternalFolder(): Promise<PureNotesVaultConfig | null> {
@@ -56,126 +112,771 @@ class StorageService {
         throw new Error('External storage is not supported on this platform');
     }
 
+    isWebDavSupported(): boolean {
+        return this.webDavProvider.isSupported();
+    }
+
+    /** Check the WebDAV folder at `url` and keep the login; resolves the vault config to connect */
+    async connectWebDav(url: string, credentials: WebDavCredentials): Promise<PureNotesVaultConfig> {
+        if (!this.webDavProvider.isSupported()) {
+            throw new Error('WebDAV is not supported on this platform');
+        }
+        return await this.webDavProvider.connect(url, credentials);
+    }
+
+    /** Forget the saved WebDAV login, when disconnecting a WebDAV vault */
+    async disconnectWebDav(): Promise<void> {
+        await clearWebDavCredentials();
+    }
+
     async verifyPermission(): Promise<boolean> {
-        if (this.externalProvider && this.externalProvider.verifyPermission) {
-            return await this.externalProvider.verifyPermission();
+        const provider = this.vaultProvider;
+        if (provider && provider.verifyPermission) {
+            return await provider.verifyPermission();
         }
         return true; // Assume granted for basic providers or if not supported
     }
 
-    async listNotes(cachedNotes: Note[] = []): Promise<Note[]> {
-        try {
-            const provider = this.activeProvider;
-            const files = await provider.list();
+    /**
+     * Resolve where a note lives in the vault. Notes loaded from the vault
+     * carry their vault-relative path in `filePath`; brand-new notes fall back
+     * to their title at the vault root.
+     */
+    private getNoteLocation(note: Note): { fileName: string; subDirectory: string } {
+        if (note.filePath) {
+            const { dir, name } = splitPath(note.filePath);
+            return { fileName: name, subDirectory: dir };
+        }
+        const fileName = note.title.endsWith('.md') ? note.title : `${note.title}.md`;
+        return { fileName, subDirectory: '' };
+    }
 
-            const notes: Note[] = [];
-            const cacheMap = new Map(cachedNotes.map(n => [n.id, n]));
+    private getNotePath(note: Note): string {
+        const { fileName, subDirectory } = this.getNoteLocation(note);
+        return joinPath(subDirectory, fileName);
+    }
 
-            for (const file of files) {
-                const cachedNote = cacheMap.get(file.name);
+    // Vault the note cache entries belong to
+    private get cacheScope(): string {
+        return this.isExternal() ? this.config!.vaultDirectoryUri! : 'local';
+    }
+
+    /**
+     * List the vault's notes. Files whose modification time matches the note
+     * cache are not read; files read again but with unchanged content keep
+     * their cached note, so nothing downstream sees a change. Throws when
+     * the vault cannot be listed; the cache is then left as it was.
+     */
+    async listNotes(): Promise<Note[]> {
+        const provider = this.activeProvider;
+        const scope = this.cacheScope;
+        const files = (await provider.list('', true))
+            .filter(file => !file.path.startsWith(`${ARCHIVE_FOLDER}/`));
+        const cache = await NoteCacheService.load(scope);
+
+        const notes: Note[] = [];
+        const changed: { note: Note; mtime: number }[] = [];
+
+        for (const file of files) {
+            const cached = cache.get(file.path);
+            if (cached && cached.mtime === file.modificationTime) {
+                notes.push(cached.note);
+                continue;
+            }
+
+            try {
+                const content = await provider.read(file.name, splitPath(file.path).dir);
+                const note = cached && cached.hash === hashContent(content)
+                    ? cached.note
+                    : this.noteFromFile(file, content, cached?.note.createdAt);
+                notes.push(note);
+                changed.push({ note, mtime: file.modificationTime });
+            } catch (readError) {
+                console.warn(`Failed to read note ${file.path}:`, readError);
+            }
+        }
+
+        const listed = new Set(files.map((file) => file.path));
+        // Some providers list nothing rather than fail when the folder is
+        // out of reach; don't let that wipe the cache. Rows of notes that
+        // really are all gone only linger until a note is listed again.
+        const removed = files.length === 0
+            ? []
+            : Array.from(cache.keys()).filter((path) => !listed.has(path));
+        await NoteCacheService.put(scope, changed);
+        await NoteCacheService.remove(scope, removed);
+
+        const withPending = await this.applyPendingWrites(notes);
+        return withPending.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+    }
+
+    /**
+     * The notes after changes to `paths` only: `notes` with those files read
+     * again, added or dropped. Cheaper than listNotes when a watcher tells
+     * which files changed. Notes with unwritten edits are left alone; their
+     * write merges with the vault when it is retried.
+     */
+    async listChangedNotes(paths: string[], notes: Note[]): Promise<Note[]> {
+        const scope = this.cacheScope;
+        const cache = await NoteCacheService.load(scope);
+        const pending = new Set((await WriteJournalService.list()).map((e) => e.path));
+        const noteMap = new Map(notes.map((n) => [n.id, n]));
+        const changed: { note: Note; mtime: null }[] = [];
+        const removed: string[] = [];
+
+        for (const path of new Set(paths)) {
+            if (pending.has(path)) continue;
+            const { dir, name } = splitPath(path);
+            const content = await this.readIfExists(name, dir);
+            if (content === null) {
+                // Unreadable is not gone; only drop notes missing from their folder
+                const siblings = await this.listFilesIfExists(dir);
+                if (siblings.some((file) => file.name === name)) continue;
+                noteMap.delete(path);
+                removed.push(path);
+                continue;
+            }
+
+            const cached = cache.get(path);
+            const current = noteMap.get(path);
+            let note: Note;
+            if (cached && cached.hash === hashContent(content)) {
+                note = cached.note;
+            } else if (current) {
+                note = this.withContent(current, path, content, 'synced');
+            } else {
+                note = this.noteFromFile({ name, path, modificationTime: Date.now() }, content, cached?.note.createdAt);
+            }
+            noteMap.set(path, note);
+            // The file's own time is unknown; the next full listing records it
+            changed.push({ note, mtime: null });
+        }
+
+        await NoteCacheService.put(scope, changed);
+        await NoteCacheService.remove(scope, removed);
+        return Array.from(noteMap.values()).sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+    }
+
+    /**
+     * Note paths among changed vault paths: files that are not notes are
+     * dropped. Null when a folder changed, so the whole vault must be listed.
+     */
+    private toNotePaths(paths: string[]): string[] | null {
+        const visible = paths.filter((path) => !path.split('/').some(isHiddenName));
+        if (visible.some((path) => !/\.[^./]+$/.test(path))) return null;
+        return visible.filter((path) => path.endsWith('.md') && !path.startsWith(`${ARCHIVE_FOLDER}/`));
+    }
+
+    /**
+     * Follow changes made to the vault outside the app, where the provider
+     * can report them (see StorageProvider.watch). A changed folder is
+     * reported without paths, so the whole vault is listed. Null when the
+     * vault can only be polled.
+     */
+    watch(onChange: (paths: string[]) => void): (() => void) | null {
+        const provider = this.activeProvider;
+        if (!this.isExternal() || !provider.watch) return null;
+
+        return provider.watch((paths) => {
+            const notePaths = this.toNotePaths(paths);
+            if (notePaths === null) {
+                onChange([]);
+                return;
+            }
+            if (paths.length === 0 || notePaths.length > 0) onChange(notePaths);
+        });
+    }
+
+    /** Whether the vault can tell what changed since the last check (see StorageProvider.checkChanges) */
+    canCheckChanges(): boolean {
+        return this.isExternal() && !!this.activeProvider.checkChanges;
+    }
+
+    /**
+     * Note paths changed in the vault since the previous check; null when
+     * the whole vault should be listed. Throws when the vault can't be reached.
+     */
+    async checkChanges(): Promise<string[] | null> {
+        const provider = this.activeProvider;
+        if (!this.isExternal() || !provider.checkChanges) return null;
+        const paths = await provider.checkChanges();
+        return paths === null ? null : this.toNotePaths(paths);
+    }
+
+    /** The notes as last listed, without touching the vault — for a quick first paint */
+    async listCachedNotes(): Promise<Note[]> {
+        const cache = await NoteCacheService.load(this.cacheScope);
+        const notes = await this.applyPendingWrites(Array.from(cache.values(), (entry) => entry.note));
+        return notes.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+    }
+
+    /** `createdAt` is the date known from the cache, kept unless the file says otherwise (see resolveCreatedAt) */
+    private noteFromFile(file: FileStat, content: string, createdAt?: Date): Note {
+        return {
+            id: file.path, // Vault-relative path as ID to be consistent across providers
+            title: file.name.replace('.md', ''),
+            content,
+            createdAt: resolveCreatedAt(content, file, createdAt),
+            updatedAt: new Date(file.modificationTime),
+            filePath: file.path,
+            syncStatus: 'synced',
+            tags: extractTags(content),
+            pinned: getFrontmatterProperty<boolean>(content, 'pinned') || false,
+            domain: getFrontmatterProperty<DomainType>(content, 'domain') || undefined,
+            ...getNoteSchedule(content),
+            order: getNoteOrder(content),
+        };
+    }
+
+    /**
+     * Write a note to the vault. When `baseContent` — the content the edit
+     * started from — is given, the file is re-read first: if it was changed
+     * outside the app in the meantime, the edit is merged line by line into
+     * the vault version. Overlapping changes are not written; the note comes
+     * back with syncStatus 'conflict' for the user to resolve.
+     *
+     * The save is journaled first (see WriteJournalService). When the vault
+     * cannot be written, the note comes back 'pending' — 'error' after
+     * repeated failures — and flushPendingWrites retries it later.
+     */
+    async saveNote(note: Note, baseContent?: string): Promise<Note> {
+        const path = this.getNotePath(note);
+        const entry = await WriteJournalService.put(path, note.content, baseContent);
+
+        try {
+            const result = await this.writeToVault(path, note.content, entry.baseContent);
+            if (result.conflict) {
+                await WriteJournalService.markConflict(path, note.content, result.conflict);
+                return { ...note, syncStatus: 'conflict', conflict: result.conflict };
+            }
+            await WriteJournalService.remove(path, note.content);
+            const saved = this.withContent(note, path, result.content, 'synced');
+            await NoteCacheService.put(this.cacheScope, [{ note: saved, mtime: null }]);
+            return saved;
+        } catch (error) {
+            console.warn(`Saving ${path} failed, keeping it in the write journal:`, error);
+            const failed = await WriteJournalService.markFailed(path, error);
+            return {
+                ...this.withContent(note, path, note.content, getPendingStatus(failed?.attempts ?? 1)),
+                updatedAt: new Date(entry.savedAt),
+            };
+        }
+    }
 
-                // If timestamp is exactly or very close, use cache
-                if (cachedNote && Math.abs(cachedNote.updatedAt.getTime() - file.modificationTime) < 2000) {
-                    notes.push(cachedNote);
+    /**
+     * Retry the journaled writes. Returns the notes whose status changed:
+     * written ('synced', content possibly merged), turned into a conflict, or
+     * still failing. `notes` are the notes in memory, updated in place of
+     * fresh ones where they exist. Conflicts wait for the user.
+     */
+    async flushPendingWrites(notes: Note[]): Promise<Note[]> {
+        const entries = (await WriteJournalService.list()).filter((entry) => !entry.conflict);
+        if (entries.length === 0) return [];
+
+        const noteMap = new Map(notes.map((n) => [n.id, n]));
+        const changed: Note[] = [];
+        for (const entry of entries) {
+            const note = noteMap.get(entry.path) ?? this.noteFromJournal(entry);
+            try {
+                const result = await this.writeToVault(entry.path, entry.content, entry.baseContent);
+                if (result.conflict) {
+                    await WriteJournalService.markConflict(entry.path, entry.content, result.conflict);
+                    changed.push({ ...note, content: entry.content, syncStatus: 'conflict', conflict: result.conflict });
                     continue;
                 }
+                await WriteJournalService.remove(entry.path, entry.content);
+                const saved = this.withContent(note, entry.path, result.content, 'synced');
+                await NoteCacheService.put(this.cacheScope, [{ note: saved, mtime: null }]);
+                changed.push(saved);
+            } catch (error) {
+                const failed = await WriteJournalService.markFailed(entry.path, error);
+                const status = getPendingStatus(failed?.attempts ?? entry.attempts + 1);
+                if (note.syncStatus !== status) changed.push({ ...note, syncStatus: status });
+            }
+        }
+        return changed;
+    }
 
-                try {
-                    const content = await provider.read(file.name);
-                    const title = file.name.replace('.md', '');
-                    const pinned = getFrontmatterProperty<boolean>(content, 'pinned') || false;
-                    let domain = getFrontmatterProperty<DomainType>(content, 'domain');
-                    
-                    // Migration: insight -> library
-                    if (domain as string === 'insight') {
-                        domain = 'library';
-                    }
+    /**
+     * Write `content` to `path`, merging with changes made outside the app
+     * since `baseContent`. Throws when the vault cannot be written.
+     */
+    private async writeToVault(path: string, content: string, baseContent?: string): Promise<{ content: string; conflict?: NoteConflict }> {
+        const { dir, name } = splitPath(path);
 
-                    notes.push({
-                        id: file.name, // Use filename as ID to be consistent across providers
-                        title,
-                        content,
-                        createdAt: new Date(file.modificationTime),
-                        updatedAt: new Date(file.modificationTime),
-                        filePath: file.name,
-                        syncStatus: 'synced',
-                        tags: [],
-                        pinned,
-                        domain,
-                    });
-                } catch (readError) {
-                    console.warn(`Failed to read note ${file.name}:`, readError);
+        let previousContent: string | null = null;
+        if (baseContent !== undefined) {
+            const diskContent = await this.readIfExists(name, dir);
+            previousContent = diskContent;
+            if (diskContent !== null && diskContent !== baseContent && diskContent !== content) {
+                const { merged, hasConflicts } = mergeText(baseContent, content, diskContent);
+                if (hasConflicts) {
+                    return { content, conflict: { base: baseContent, theirs: diskContent } };
                 }
+                content = merged;
             }
+        }
 
-            return notes.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+        await this.activeProvider.write(name, content, dir);
+
+        // History is a safety net; failing to record it must not fail the save
+        if (previousContent !== null && previousContent !== content) {
+            this.recordSnapshot(path, previousContent).catch((error) => {
+                console.warn(`Failed to record history for ${path}:`, error);
+            });
+        }
+        return { content };
+    }
+
+    // `note` with `content` and the fields derived from it
+    private withContent(note: Note, path: string, content: string, syncStatus: Note['syncStatus']): Note {
+        const updatedNote: Note = {
+            ...note,
+            content,
+            createdAt: getCreatedProperty(content) ?? note.createdAt,
+            updatedAt: new Date(),
+            filePath: path,
+            syncStatus,
+            tags: extractTags(content),
+            pinned: getFrontmatterProperty<boolean>(content, 'pinned') || false,
+            domain: getFrontmatterProperty<DomainType>(content, 'domain') || undefined,
+            ...getNoteSchedule(content),
+            order: getNoteOrder(content),
+        };
+        delete updatedNote.conflict;
+        return updatedNote;
+    }
+
+    /**
+     * Drop a conflicted note's local edits, once the user kept the vault
+     * version (or saved the edits as a copy)
+     */
+    async discardConflict(note: Note): Promise<void> {
+        await WriteJournalService.remove(this.getNotePath(note));
+    }
+
+    // A journaled edit over `note`; a conflicted one keeps `theirs` as the vault has it now
+    private withJournaledEdit(note: Note, entry: JournalEntry, theirs: string): Note {
+        const status = entry.conflict ? 'conflict' : getPendingStatus(entry.attempts);
+        const edited: Note = { ...this.withContent(note, entry.path, entry.content, status), updatedAt: new Date(entry.savedAt) };
+        if (entry.conflict) edited.conflict = { ...entry.conflict, theirs };
+        return edited;
+    }
+
+    // A note created while the vault was unreachable, known only to the journal
+    private noteFromJournal(entry: JournalEntry): Note {
+        const note: Note = {
+            id: entry.path,
+            title: splitPath(entry.path).name.replace(/\.md$/, ''),
+            content: entry.content,
+            createdAt: new Date(entry.queuedAt),
+            updatedAt: new Date(entry.savedAt),
+            filePath: entry.path,
+            syncStatus: 'pending',
+        };
+        return { ...this.withJournaledEdit(note, entry, entry.conflict?.theirs ?? ''), updatedAt: note.updatedAt };
+    }
+
+    // Journaled edits replace what the vault returned for the same notes
+    private async applyPendingWrites(notes: Note[]): Promise<Note[]> {
+        const entries = await WriteJournalService.list();
+        if (entries.length === 0) return notes;
+
+        const pending = new Map(entries.map((e) => [e.path, e]));
+        const merged = notes.map((note) => {
+            const entry = pending.get(note.id);
+            if (!entry) return note;
+            pending.delete(note.id);
+            return this.withJournaledEdit(note, entry, note.content);
+        });
+        pending.forEach((entry) => merged.push(this.noteFromJournal(entry)));
+        return merged;
+    }
+
+    private getHistoryDirectory(notePath: string): string {
+        return joinPath(HISTORY_FOLDER, notePath.replace(/\.md$/, ''));
+    }
+
+    // Snapshot files are named by creation time in milliseconds
+    private parseVersionTime(fileName: string): number {
+        return parseInt(fileName.replace(/\.md$/, ''), 10);
+    }
+
+    /**
+     * Store `content` — what a save is about to replace — as a snapshot,
+     * unless one was taken within the coalescing window (`force` skips that
+     * check). Keeps at most MAX_VERSIONS_PER_NOTE snapshots, dropping the oldest.
+     */
+    private async recordSnapshot(notePath: string, content: string, force: boolean = false): Promise<void> {
+        const now = Date.now();
+        const cached = this.lastSnapshotAt.get(notePath);
+        if (!force && cached !== undefined && now - cached < HISTORY_COALESCE_MS) return;
+
+        const provider = this.activeProvider;
+        const historyDir = this.getHistoryDirectory(notePath);
+        const times = (await this.listVersionFiles(historyDir))
+            .map((file) => this.parseVersionTime(file.name))
+            .filter((time) => !isNaN(time))
+            .sort((a, b) => b - a);
+
+        if (!force && times.length > 0 && now - times[0] < HISTORY_COALESCE_MS) {
+            this.lastSnapshotAt.set(notePath, times[0]);
+            return;
+        }
+
+        await provider.write(`${now}.md`, content, historyDir);
+        this.lastSnapshotAt.set(notePath, now);
+
+        for (const time of times.slice(MAX_VERSIONS_PER_NOTE - 1)) {
+            await provider.delete(`${time}.md`, historyDir);
+        }
+    }
+
+    private async listVersionFiles(historyDir: string) {
+        try {
+            return await this.activeProvider.list(historyDir);
+        } catch {
+            return []; // No history yet
+        }
+    }
+
+    /**
+     * Snapshot the note's current content regardless of the coalescing
+     * window, e.g. before restoring an older version over it
+     */
+    async snapshotNote(note: Note): Promise<void> {
+        await this.recordSnapshot(this.getNotePath(note), note.content, true);
+    }
+
+    /**
+     * Snapshots of a note's earlier content, newest first
+     */
+    async listVersions(note: Note): Promise<NoteVersion[]> {
+        const historyDir = this.getHistoryDirectory(this.getNotePath(note));
+        return (await this.listVersionFiles(historyDir))
+            .map((file) => ({ id: file.name, createdAt: new Date(this.parseVersionTime(file.name)) }))
+            .filter((version) => !isNaN(version.createdAt.getTime()))
+            .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    }
+
+    async readVersion(note: Note, version: NoteVersion): Promise<string> {
+        const historyDir = this.getHistoryDirectory(this.getNotePath(note));
+        return this.activeProvider.read(version.id, historyDir);
+    }
+
+    // Current file content, or null when the file does not exist (yet)
+    private async readIfExists(fileName: string, subDirectory: string): Promise<string | null> {
+        try {
+            return await this.activeProvider.read(fileName, subDirectory);
+        } catch {
+            return null;
+        }
+    }
+
+    /** Content of any vault file by vault-relative path, or null if missing */
+    async readFile(path: string): Promise<string | null> {
+        const { dir, name } = splitPath(path);
+        return this.readIfExists(name, dir);
+    }
+
+    /** Base64 content of a binary vault file (an image…), or null if missing */
+    async readBinaryFile(path: string): Promise<string | null> {
+        const { dir, name } = splitPath(path);
+        try {
+            return await this.activeProvider.readBinary(name, dir);
+        } catch {
+            return null;
+        }
+    }
+
+    /** Names of the files and folders directly in a vault folder; empty when it doesn't exist */
+    async listFileNames(dir: string): Promise<string[]> {
+        return this.activeProvider.listNames(dir);
+    }
+
+    /** Write a binary vault file from base64, creating missing folders */
+    async writeBinaryFile(path: string, base64: string): Promise<void> {
+        const { dir, name } = splitPath(path);
+        await this.activeProvider.writeBinary(name, base64, dir);
+    }
+
+    /**
+     * String settings `keys` from an Obsidian plugin config file in
+     * `.obsidian/`, or null when the plugin was never configured.
+     */
+    private async readObsidianConfig<K extends string>(fileName: string, keys: K[]): Promise<Partial<Record<K, string>> | null> {
+        const raw = await this.readIfExists(fileName, OBSIDIAN_CONFIG_FOLDER);
+        if (!raw) return null;
+        try {
+            const config = JSON.parse(raw);
+            const settings: Partial<Record<K, string>> = {};
+            keys.forEach((key) => {
+                if (typeof config[key] === 'string') settings[key] = config[key];
+            });
+            return settings;
         } catch (error) {
-            console.error('Error listing notes:', error);
-            return [];
+            console.warn(`Invalid Obsidian config ${fileName}:`, error);
+            return null;
         }
     }
 
-    async saveNote(note: Note): Promise<Note> {
-        const fileName = note.title.endsWith('.md') ? note.title : `${note.title}.md`;
+    /** The vault's Obsidian Daily notes settings (`.obsidian/daily-notes.json`) */
+    async readObsidianDailyNotesConfig(): Promise<Partial<DailyNotesSettings> | null> {
+        return this.readObsidianConfig<keyof DailyNotesSettings>('daily-notes.json', ['folder', 'format', 'template']);
+    }
+
+    /** The vault's Obsidian Templates settings (`.obsidian/templates.json`) */
+    async readObsidianTemplatesConfig(): Promise<Partial<TemplatesSettings> | null> {
+        return this.readObsidianConfig<keyof TemplatesSettings>('templates.json', ['folder', 'dateFormat', 'timeFormat']);
+    }
+
+    /** Obsidian's "Default location for new attachments" (`.obsidian/app.json`) */
+    async readObsidianAttachmentFolder(): Promise<string | null> {
+        const config = await this.readObsidianConfig('app.json', ['attachmentFolderPath']);
+        return config?.attachmentFolderPath ?? null;
+    }
+
+    /** Domains saved in the vault (`.purenotes/domains.json`), or null when there are none */
+    async readDomainsConfig(): Promise<DomainConfig[] | null> {
+        const raw = await this.readIfExists(DOMAINS_CONFIG_FILE, PURENOTES_CONFIG_FOLDER);
+        if (!raw) return null;
+        try {
+            return parseDomainsConfig(JSON.parse(raw));
+        } catch (error) {
+            console.warn(`Invalid ${DOMAINS_CONFIG_FILE}:`, error);
+            return null;
+        }
+    }
+
+    async writeDomainsConfig(domains: DomainConfig[]): Promise<void> {
+        await this.activeProvider.write(DOMAINS_CONFIG_FILE, JSON.stringify({ domains }, null, 2), PURENOTES_CONFIG_FOLDER);
+    }
+
+    /** Template notes in `folder` and its subfolders, sorted by path */
+    async listTemplates(folder: string): Promise<FileStat[]> {
+        if (!folder.trim()) return [];
+        const files = await this.activeProvider.list(joinPath(folder), true).catch(() => [] as FileStat[]);
+        return files.sort((a, b) => a.path.localeCompare(b.path));
+    }
 
-        const pinned = getFrontmatterProperty<boolean>(note.content, 'pinned') || false;
-        const domain = getFrontmatterProperty<DomainType>(note.content, 'domain');
+    /**
+     * Save the local side of a conflicted note next to the original as
+     * `Name (conflict YYYY-MM-DD HHmm).md`, the way sync tools keep both copies.
+     */
+    async saveConflictCopy(note: Note): Promise<Note> {
+        const { fileName, subDirectory } = this.getNoteLocation(note);
+        const now = new Date();
+        const pad = (n: number) => String(n).padStart(2, '0');
+        const stamp = `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())} ${pad(now.getHours())}${pad(now.getMinutes())}`;
+        const copyName = `${fileName.replace(/\.md$/, '')} (conflict ${stamp}).md`;
+        const copyPath = joinPath(subDirectory, copyName);
 
-        const updatedNote = {
+        const copy: Note = {
             ...note,
-            updatedAt: new Date(),
-            filePath: fileName,
-            pinned,
-            domain
+            id: copyPath,
+            title: copyName.replace('.md', ''),
+            filePath: copyPath,
+            createdAt: now,
         };
-
-        await this.activeProvider.write(fileName, updatedNote.content);
-        return updatedNote;
+        delete copy.conflict;
+        return this.saveNote(copy);
     }
 
+    /**
+     * Move a note to the trash. The note's original path and the deletion
+     * time are recorded in its frontmatter so it can be restored or purged.
+     */
     async deleteNote(note: Note): Promise<void> {
-        const fileName = note.title.endsWith('.md') ? note.title : `${note.title}.md`;
-        await this.activeProvider.delete(fileName);
+        const { fileName, subDirectory } = this.getNoteLocation(note);
+        await this.moveToTrash(fileName, subDirectory, note.content);
+        // The trashed copy holds any unwritten edits
+        await WriteJournalService.remove(joinPath(subDirectory, fileName));
+        await NoteCacheService.remove(this.cacheScope, [joinPath(subDirectory, fileName)]);
+    }
+
+    private async moveToTrash(fileName: string, subDirectory: string, content: string): Promise<void> {
+        const provider = this.activeProvider;
+        const trashed = updateFrontmatter(
+            updateFrontmatter(content, TRASHED_AT_KEY, new Date().toISOString()),
+            TRASHED_FROM_KEY,
+            joinPath(subDirectory, fileName)
+        );
+        const existing = (await this.listFilesIfExists(TRASH_FOLDER)).map((file) => file.name);
+        await provider.write(getUniqueFileName(fileName, existing), trashed, TRASH_FOLDER);
+        await provider.delete(fileName, subDirectory);
+    }
+
+    private async listFilesIfExists(subDirectory: string) {
+        try {
+            return await this.activeProvider.list(subDirectory);
+        } catch {
+            return []; // Folder not created yet
+        }
+    }
+
+    async listTrashedNotes(): Promise<TrashedNote[]> {
+        const provider = this.activeProvider;
+        const notes: TrashedNote[] = [];
+
+        for (const file of await this.listFilesIfExists(TRASH_FOLDER)) {
+            try {
+                const raw = await provider.read(file.name, TRASH_FOLDER);
+                const trashedAt = getFrontmatterProperty<string>(raw, TRASHED_AT_KEY);
+                // Files trashed by Obsidian carry no metadata: fall back to the
+                // file's time and the vault root
+                const originalPath = getFrontmatterProperty<string>(raw, TRASHED_FROM_KEY) || file.name;
+                const content = removeFrontmatterKey(removeFrontmatterKey(raw, TRASHED_AT_KEY), TRASHED_FROM_KEY);
+                const parsedTime = trashedAt ? new Date(trashedAt).getTime() : NaN;
+
+                notes.push({
+                    id: file.path,
+                    title: file.name.replace('.md', ''),
+                    content,
+                    createdAt: resolveCreatedAt(content, file),
+                    updatedAt: new Date(file.modificationTime),
+                    filePath: file.path,
+                    syncStatus: 'synced',
+                    tags: extractTags(content),
+                    pinned: getFrontmatterProperty<boolean>(content, 'pinned') || false,
+                    domain: getFrontmatterProperty<DomainType>(content, 'domain') || undefined,
+                    trashedAt: new Date(isNaN(parsedTime) ? file.modificationTime : parsedTime),
+                    originalPath,
+                });
+            } catch (e) {
+                console.warn(`Failed to read trashed note ${file.name}:`, e);
+            }
+        }
+
+        return notes.sort((a, b) => b.trashedAt.getTime() - a.trashedAt.getTime());
     }
 
+    /**
+     * Put a trashed note back where it was deleted from, without the trash
+     * metadata. Gets a numbered name if that path has been taken since.
+     */
+    async restoreFromTrash(note: TrashedNote): Promise<void> {
+        const provider = this.activeProvider;
+        const { dir, name } = splitPath(note.originalPath);
+        const existing = (await this.listFilesIfExists(dir)).map((file) => file.name);
+        const restoredName = getUniqueFileName(name, existing);
+
+        await provider.write(restoredName, note.content, dir);
+        await provider.delete(splitPath(note.filePath).name, TRASH_FOLDER);
+        await this.cacheRestoredNote(note, restoredName, dir);
+    }
+
+    /** Record a note put back into the vault, so a cached first paint shows it */
+    private async cacheRestoredNote(note: Note, fileName: string, subDirectory: string): Promise<void> {
+        const path = joinPath(subDirectory, fileName);
+        const restored = this.noteFromFile({ name: fileName, path, modificationTime: Date.now() }, note.content, note.createdAt);
+        await NoteCacheService.put(this.cacheScope, [{ note: restored, mtime: null }]);
+    }
+
+    async deleteFromTrash(note: TrashedNote): Promise<void> {
+        await this.activeProvider.delete(splitPath(note.filePath).name, TRASH_FOLDER);
+    }
+
+    async emptyTrash(): Promise<void> {
+        for (const file of await this.listFilesIfExists(TRASH_FOLDER)) {
+            await this.activeProvider.delete(file.name, TRASH_FOLDER);
+        }
+    }
+
+    /**
+     * Permanently delete notes that have been in the trash longer than
+     * `retentionDays` (0 disables purging). Runs at most once an hour.
+     * Returns how many notes were purged.
+     */
+    async purgeExpiredTrash(retentionDays: number): Promise<number> {
+        if (retentionDays <= 0) return 0;
+        const now = Date.now();
+        if (now - this.lastTrashPurgeAt < TRASH_PURGE_INTERVAL_MS) return 0;
+        this.lastTrashPurgeAt = now;
+
+        const cutoff = now - retentionDays * DAY_MS;
+        const expired = (await this.listTrashedNotes()).filter((note) => note.trashedAt.getTime() < cutoff);
+        for (const note of expired) {
+            await this.deleteFromTrash(note);
+        }
+        return expired.length;
+    }
+
+    /**
+     * Move a note's file to a new vault-relative path. A change of case only
+     * (`note.md` → `Note.md`) goes through a temporary name, because iOS,
+     * macOS and Windows file systems treat both as the same file.
+     */
+    async renameNote(note: Note, newPath: string): Promise<Note> {
+        const provider = this.activeProvider;
+        const { fileName, subDirectory } = this.getNoteLocation(note);
+        const { dir, name } = splitPath(newPath);
+
+        if (joinPath(subDirectory, fileName).toLowerCase() === newPath.toLowerCase()) {
+            // Hidden, so a sync in between never lists it as a note
+            const tempName = `.renaming-${Date.now()}.md`;
+            await provider.rename(fileName, subDirectory, tempName, dir);
+            await provider.rename(tempName, dir, name, dir);
+        } else {
+            await provider.rename(fileName, subDirectory, name, dir);
+        }
+        await WriteJournalService.move(joinPath(subDirectory, fileName), newPath);
+
+        const renamed: Note = {
+            ...note,
+            id: newPath,
+            title: name.replace('.md', ''),
+            filePath: newPath,
+            updatedAt: new Date(),
+        };
+        await NoteCacheService.remove(this.cacheScope, [joinPath(subDirectory, fileName)]);
+        await NoteCacheService.put(this.cacheScope, [{ note: renamed, mtime: null }]);
+        return renamed;
+    }
+
+    /**
+     * The archive mirrors the vault: `Work/Ideas.md` is archived as
+     * `archive/Work/Ideas.md`, so notes from different folders never collide
+     * and restoring puts them back where they were. A name already taken in
+     * the archive gets a number.
+     */
     async archiveNote(note: Note): Promise<void> {
-        const fileName = note.title.endsWith('.md') ? note.title : `${note.title}.md`;
-        await this.activeProvider.write(fileName, note.content, 'archive');
-        await this.activeProvider.delete(fileName);
+        const { fileName, subDirectory } = this.getNoteLocation(note);
+        const archiveDir = joinPath(ARCHIVE_FOLDER, subDirectory);
+        const existing = (await this.listFilesIfExists(archiveDir)).map((file) => file.name);
+        await this.activeProvider.write(getUniqueFileName(fileName, existing), note.content, archiveDir);
+        await this.activeProvider.delete(fileName, subDirectory);
+        await WriteJournalService.remove(joinPath(subDirectory, fileName));
+        await NoteCacheService.remove(this.cacheScope, [joinPath(subDirectory, fileName)]);
     }
 
+    /** Archived notes, with `id` and `filePath` their vault-relative path under `archive/` */
     async listArchivedNotes(): Promise<Note[]> {
         try {
             const provider = this.activeProvider;
-            const files = await provider.list('archive');
+            const files = await provider.list(ARCHIVE_FOLDER, true);
             const notes: Note[] = [];
 
             for (const file of files) {
                 try {
-                    const content = await provider.read(file.name, 'archive');
+                    const content = await provider.read(file.name, splitPath(file.path).dir);
                     const title = file.name.replace('.md', '');
                     const pinned = getFrontmatterProperty<boolean>(content, 'pinned') || false;
-                    let domain = getFrontmatterProperty<DomainType>(content, 'domain');
-                    
-                    // Migration: insight -> library
-                    if (domain as string === 'insight') {
-                        domain = 'library';
-                    }
+                    const domain = getFrontmatterProperty<DomainType>(content, 'domain') || undefined;
 
                     notes.push({
-                        id: file.name,
+                        id: file.path,
                         title,
                         content,
-                        createdAt: new Date(file.modificationTime),
+                        createdAt: resolveCreatedAt(content, file),
                         updatedAt: new Date(file.modificationTime),
-                        filePath: `archive/${file.name}`,
+                        filePath: file.path,
                         syncStatus: 'synced',
-                        tags: [],
+                        tags: extractTags(content),
                         pinned,
                         domain,
                     });
                 } catch (e) {
-                    console.warn(`Failed to read archived note ${file.name}:`, e);
+                    console.warn(`Failed to read archived note ${file.path}:`, e);
                 }
             }
 
@@ -186,15 +887,52 @@ class StorageService {
         }
     }
 
+    private async writeArchivedNote(note: Note, content: string): Promise<void> {
+        const { dir, name } = splitPath(note.filePath!);
+        await this.activeProvider.write(name, content, dir);
+    }
+
+    /** Overwrite an archived note's content in place */
+    async updateArchivedNote(note: Note, content: string): Promise<Note> {
+        await this.writeArchivedNote(note, content);
+        return { ...note, content, updatedAt: new Date(), tags: extractTags(content) };
+    }
+
+    /**
+     * Rewrite `domain: from` to `to` (or drop the key when `to` is null) in
+     * archived notes. Active notes go through the store so its state follows.
+     * Returns the number of notes changed.
+     */
+    async migrateArchivedDomain(from: DomainType, to: DomainType | null): Promise<number> {
+        const archived = await this.listArchivedNotes();
+        let changed = 0;
+        for (const note of archived) {
+            if (note.domain !== from) continue;
+            const content = to ? updateFrontmatter(note.content, 'domain', to) : removeFrontmatterKey(note.content, 'domain');
+            await this.writeArchivedNote(note, content);
+            changed++;
+        }
+        return changed;
+    }
+
     async deleteArchivedNote(note: Note): Promise<void> {
-        const fileName = note.title.endsWith('.md') ? note.title : `${note.title}.md`;
-        await this.activeProvider.delete(fileName, 'archive');
+        const { dir, name } = splitPath(note.filePath!);
+        await this.moveToTrash(name, dir, note.content);
     }
 
+    /**
+     * Put an archived note back in the folder it was archived from. Gets a
+     * numbered name if that path has been taken since.
+     */
     async restoreNote(note: Note): Promise<void> {
-        const fileName = note.title.endsWith('.md') ? note.title : `${note.title}.md`;
-        await this.activeProvider.write(fileName, note.content);
-        await this.activeProvider.delete(fileName, 'archive');
+        const { dir, name } = splitPath(note.filePath!);
+        const originalDir = dir.slice(ARCHIVE_FOLDER.length + 1);
+        const existing = (await this.listFilesIfExists(originalDir)).map((file) => file.name);
+        const restoredName = getUniqueFileName(name, existing);
+
+        await this.activeProvider.write(restoredName, note.content, originalDir);
+        await this.activeProvider.delete(name, dir);
+        await this.cacheRestoredNote(note, restoredName, originalDir);
     }
 
     async emptyArchive(): Promise<void> {
@@ -0,0 +1,165 @@
+// UrlApiService.ts
+// Runs purenotes:// automation links (see utils/urlApiUtils):
+//   add                                   open the quick-add editor
+//   new?title=&content=&domain=&pinned=   create a note
+//   append?id=&content=                   append a line to a note
+//   open?id=                              open a note
+//   search?q=                             search the note list
+//   daily[?content=]                      open today's daily note, or add
+//                                         a timestamped entry to it
+// Every action accepts x-success / x-error callbacks. x-success receives
+// `id` (vault path) and `title` of the note acted on; x-error receives
+// `errorMessage`. Without x-error, failures are reported in the app.
+
+import * as Linking from 'expo-linking';
+import { useNotesStore } from '../stores/notesStore';
+import { updateFrontmatter } from './FrontmatterService';
+import { Note } from '../types/Note';
+import { findDomain, getDomains } from '../utils/domainUtils';
+import { formatDate } from '../utils/dateUtils';
+import { getTitleFromHeading, sanitizeFileName } from '../utils/fileNameUtils';
+import {
+    AppUrl,
+    appendToContent,
+    buildNoteContent,
+    isUrlAction,
+    parseAppUrl,
+    parseBooleanParam,
+    withQueryParams,
+} from '../utils/urlApiUtils';
+
+// Same as quick-add's timestamp names
+const FILENAME_DATE_FORMAT = 'YYYY-MM-DD_HH-mm-ss';
+
+/** What the note list screen does for actions that need the UI */
+export interface UrlApiHandlers {
+    openQuickAdd: () => void;
+    openNote: (note: Note) => void;
+    search: (query: string) => void;
+    /** Report a failed action that has no x-error callback */
+    showError: (message: string) => void;
+}
+
+type ActionResult = Record<string, string>;
+
+const noteResult = (note: Note): ActionResult => ({ id: note.id, title: note.title });
+
+class UrlApiService {
+    /** Run `url` if it is an API action; false for other links */
+    handleUrl(url: string, handlers: UrlApiHandlers): boolean {
+        const parsed = parseAppUrl(url);
+        if (!parsed || !isUrlAction(parsed.action)) return false;
+
+        const { callbacks } = parsed;
+        this.run(parsed, handlers)
+            .then((result) => {
+                if (callbacks.success) this.openCallback(withQueryParams(callbacks.success, result));
+            })
+            .catch((error) => {
+                const message = (error as Error).message;
+                console.error(`URL action "${parsed.action}" failed:`, message);
+                if (callbacks.error) this.openCallback(withQueryParams(callbacks.error, { errorMessage: message }));
+                else handlers.showError(message);
+            });
+        return true;
+    }
+
+    private async run({ action, params }: AppUrl, handlers: UrlApiHandlers): Promise<ActionResult> {
+        switch (action) {
+            case 'add':
+                handlers.openQuickAdd();
+                return {};
+
+            case 'new':
+                return noteResult(await this.createNote(params));
+
+            case 'append': {
+                if (!params.content) throw new Error('Missing "content" parameter');
+                const note = await this.findNote(params.id);
+                const updated = await useNotesStore.getState()
+                    .updateNote(note.id, note.filePath, appendToContent(note.content, params.content));
+                return noteResult(updated);
+            }
+
+            case 'open': {
+                const note = await this.findNote(params.id);
+                handlers.openNote(note);
+                return noteResult(note);
+            }
+
+            case 'search': {
+                const query = params.q ?? params.query ?? '';
+                handlers.search(query);
+                return {};
+            }
+
+            case 'daily': {
+                await this.waitForNotes();
+                const store = useNotesStore.getState();
+                if (params.content) return noteResult(await store.appendToDailyNote(params.content));
+                const note = await store.openDailyNote();
+                handlers.openNote(note);
+                return noteResult(note);
+            }
+
+            default:
+                throw new Error(`Unknown action "${action}"`);
+        }
+    }
+
+    private async createNote(params: Record<string, string>): Promise<Note> {
+        const title = (params.title ?? '').trim();
+        const text = params.content ?? params.text ?? '';
+        if (!title && !text.trim()) throw new Error('Missing "title" or "content" parameter');
+
+        await this.waitForNotes();
+        const store = useNotesStore.getState();
+
+        let content = buildNoteContent(title, text);
+        if (params.domain) {
+            const domain = findDomain(getDomains(store.settings), params.domain.trim());
+            if (!domain) throw new Error(`Unknown domain "${params.domain}"`);
+            content = updateFrontmatter(content, 'domain', domain.id);
+        }
+        if (parseBooleanParam(params.pinned)) {
+            content = updateFrontmatter(content, 'pinned', true);
+        }
+
+        // An explicit title names the file, even when the content brings its
+        // own heading; otherwise follow the note naming setting
+        const headingName = (store.settings.noteNaming ?? 'timestamp') === 'heading' ? getTitleFromHeading(content) : '';
+        const filename = (title ? sanitizeFileName(title) : headingName)
+            || formatDate(new Date(), FILENAME_DATE_FORMAT);
+        return store.createNote(filename, content);
+    }
+
+    /** The note with vault path `id`; `.md` and letter case are optional */
+    private async findNote(id: string | undefined): Promise<Note> {
+        if (!id) throw new Error('Missing "id" parameter');
+        await this.waitForNotes();
+        const path = id.replace(/^\/+/, '').toLowerCase();
+        const withExtension = path.endsWith('.md') ? path : `${path}.md`;
+        const note = useNotesStore.getState().notes.find((n) => n.id.toLowerCase() === withExtension);
+        if (!note) throw new Error(`Note not found: ${id}`);
+        return note;
+    }
+
+    // On a cold start the link arrives while the first load is running;
+    // creating notes before it finishes could reuse an existing file name
+    private waitForNotes(): Promise<void> {
+        if (!useNotesStore.getState().isLoading) return Promise.resolve();
+        return new Promise((resolve) => {
+            const unsubscribe = useNotesStore.subscribe((state) => {
+                if (state.isLoading) return;
+                unsubscribe();
+                resolve();
+            });
+        });
+    }
+
+    private openCallback(url: string): void {
+        Linking.openURL(url).catch((error) => console.warn('Failed to open callback URL:', error));
+    }
+}
+
+export default new UrlApiService();
@@ -85,14 +85,18 @@ class WebFileService {
     }
 
     /**
-     * Get a handle for a subdirectory, creating it if needed
+     * Get a handle for a (possibly nested, `a/b/c`) subdirectory, creating it if needed
      */
     private async getSubDirHandle(subDirName: string, create: boolean = false): Promise<FileSystemDirectoryHandle | null> {
         if (!this.directoryHandle) return null;
         if (!subDirName) return this.directoryHandle;
 
         try {
-            return await this.directoryHandle.getDirectoryHandle(subDirName, { create });
+            let handle = this.directoryHandle;
+            for (const segment of subDirName.split('/').filter(Boolean)) {
+                handle = await handle.getDirectoryHandle(segment, { create });
+            }
+            return handle;
         } catch (error) {
             if (!create) return null;
             throw error;
@@ -100,31 +104,111 @@ class WebFileService {
     }
 
     /**
-     * List all markdown files in a directory
+     * List all markdown files in a directory, optionally descending into
+     * subfolders. Hidden folders (`.obsidian`, `.trash`, …) are skipped.
      */
-    async listMarkdownFiles(subDir?: string): Promise<{ name: string; modificationTime: number }[]> {
+    async listMarkdownFiles(subDir?: string, recursive: boolean = false): Promise<{ name: string; path: string; modificationTime: number }[]> {
         if (!this.directoryHandle) return [];
 
-        const files: { name: string; modificationTime: number }[] = [];
+        const files: { name: string; path: string; modificationTime: number }[] = [];
         try {
             const dirHandle = subDir ? await this.getSubDirHandle(subDir) : this.directoryHandle;
             if (!dirHandle) return [];
 
-            for await (const entry of (dirHandle as any).values()) {
-                if (entry.kind === 'file' && entry.name.endsWith('.md')) {
-                    const file = await entry.getFile();
-                    files.push({
-                        name: entry.name,
-                        modificationTime: file.lastModified
-                    });
-                }
-            }
+            await this.collectMarkdownFiles(dirHandle, subDir || '', recursive, files);
         } catch (error) {
             console.error('Error listing files:', error);
         }
         return files;
     }
 
+    private async collectMarkdownFiles(
+        dirHandle: FileSystemDirectoryHandle,
+        prefix: string,
+        recursive: boolean,
+        files: { name: string; path: string; modificationTime: number }[]
+    ): Promise<void> {
+        for await (const entry of (dirHandle as any).values()) {
+            if (entry.name.startsWith('.')) continue;
+            const path = prefix ? `${prefix}/${entry.name}` : entry.name;
+
+            if (entry.kind === 'file' && entry.name.endsWith('.md')) {
+                const file = await entry.getFile();
+                files.push({
+                    name: entry.name,
+                    path,
+                    modificationTime: file.lastModified
+                });
+            } else if (entry.kind === 'directory' && recursive) {
+                await this.collectMarkdownFiles(entry, path, true, files);
+            }
+        }
+    }
+
+    /**
+     * Names of all files and folders in a directory; empty when it doesn't exist
+     */
+    async listNames(subDir?: string): Promise<string[]> {
+        if (!this.directoryHandle) throw new Error('No directory selected');
+
+        const dirHandle = subDir ? await this.getSubDirHandle(subDir) : this.directoryHandle;
+        if (!dirHandle) return [];
+
+        const names: string[] = [];
+        for await (const entry of (dirHandle as any).values()) {
+            names.push(entry.name);
+        }
+        return names;
+    }
+
+    /**
+     * Report changes made to the vault folder as they happen, through
+     * FileSystemObserver where the browser has it (Chromium). `paths` are
+     * vault-relative, empty when the browser can't tell what changed.
+     * Resolves to a function that stops observing, or null when changes
+     * can't be observed here.
+     */
+    async observeChanges(onChange: (paths: string[]) => void): Promise<(() => void) | null> {
+        const Observer = (globalThis as any).FileSystemObserver;
+        if (!Observer || !this.directoryHandle) return null;
+
+        const observer = new Observer((records: any[]) => {
+            const paths: string[] = [];
+            for (const record of records) {
+                if (record.type === 'unknown' || record.type === 'errored') {
+                    onChange([]);
+                    return;
+                }
+                paths.push(record.relativePathComponents.join('/'));
+                if (record.relativePathMovedFrom) paths.push(record.relativePathMovedFrom.join('/'));
+            }
+            if (paths.length > 0) onChange(paths);
+        });
+        try {
+            await observer.observe(this.directoryHandle, { recursive: true });
+        } catch (error) {
+            console.warn('Could not observe the vault folder:', error);
+            return null;
+        }
+        return () => observer.disconnect();
+    }
+
+    /**
+     * Last-modified time of every markdown file in the vault, by path, for
+     * spotting changes made outside the browser where they can't be
+     * observed. This is a walk of the whole vault, not a directory-level
+     * check: the File System Access API gives folders no modification time
+     * or other version, and a folder's listing stays the same when a file in
+     * it is edited, so only each file's metadata tells (no content is read).
+     * Throws when the folder can't be read.
+     */
+    async getMarkdownFileTimes(): Promise<Map<string, number>> {
+        if (!this.directoryHandle) throw new Error('No folder selected');
+        const files: { name: string; path: string; modificationTime: number }[] = [];
+        await this.collectMarkdownFiles(this.directoryHandle, '', true, files);
+        return new Map(files.map((file) => [file.path, file.modificationTime]));
+    }
+
     /**
      * Read file content
      */
@@ -164,6 +248,49 @@ class WebFileService {
         }
     }
 
+    /**
+     * Read a binary file (attachments), base64-encoded
+     */
+    async readBinaryFile(filename: string, subDir?: string): Promise<string> {
+        if (!this.directoryHandle) throw new Error('No directory selected');
+
+        const dirHandle = subDir ? await this.getSubDirHandle(subDir) : this.directoryHandle;
+        if (!dirHandle) throw new Error(`Directory ${subDir} not found`);
+
+        const fileHandle = await dirHandle.getFileHandle(filename);
+        const bytes = new Uint8Array(await (await fileHandle.getFile()).arrayBuffer());
+        let binary = '';
+        // Chunked so large images don't overflow the argument limit
+        for (let i = 0; i < bytes.length; i += 0x8000) {
+            binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+        }
+        return btoa(binary);
+    }
+
+    /**
+     * Write a binary file from base64
+     */
+    async writeBinaryFile(filename: string, base64: string, subDir?: string): Promise<void> {
+        if (!this.directoryHandle) throw new Error('No directory selected');
+
+        try {
+            const dirHandle = subDir ? await this.getSubDirHandle(subDir, true) : this.directoryHandle;
+            if (!dirHandle) throw new Error(`Could not access directory ${subDir}`);
+
+            const binary = atob(base64);
+            const bytes = new Uint8Array(binary.length);
+            for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+
+            const fileHandle = await dirHandle.getFileHandle(filename, { create: true });
+            const writable = await fileHandle.createWritable();
+            await writable.write(bytes);
+            await writable.close();
+        } catch (error) {
+            console.error(`Error writing ${filename} in ${subDir || 'root'}:`, error);
+            throw error;
+        }
+    }
+
     /**
      * Delete file
      */
@@ -181,6 +308,34 @@ class WebFileService {
         }
     }
 
+    /**
+     * Move/rename a file. Uses the native `FileSystemHandle.move()` where the
+     * browser has it (Chromium 110+), copy + delete otherwise.
+     */
+    async moveFile(filename: string, subDir: string, newFilename: string, newSubDir: string): Promise<void> {
+        if (!this.directoryHandle) throw new Error('No directory selected');
+
+        try {
+            const dirHandle = await this.getSubDirHandle(subDir);
+            if (!dirHandle) throw new Error(`Directory ${subDir} not found`);
+            const targetDirHandle = await this.getSubDirHandle(newSubDir, true);
+            if (!targetDirHandle) throw new Error(`Could not access directory ${newSubDir}`);
+
+            const fileHandle = await dirHandle.getFileHandle(filename);
+            if (typeof (fileHandle as any).move === 'function') {
+                await (fileHandle as any).move(targetDirHandle, newFilename);
+                return;
+            }
+
+            const content = await (await fileHandle.getFile()).text();
+            await this.writeFile(newFilename, content, newSubDir);
+            await dirHandle.removeEntry(filename);
+        } catch (error) {
+            console.error(`Error moving ${filename} in ${subDir || 'root'} to ${newSubDir || 'root'}/${newFilename}:`, error);
+            throw error;
+        }
+    }
+
     /**
      * Get handle name
      */
@@ -0,0 +1,148 @@
+// WriteJournalService.ts
+// Durable journal of note writes the vault has not confirmed yet. Every save
+// is recorded here before it is written, so an edit survives a vault that is
+// unreachable (SAF folder gone, iCloud bookmark stale, Web FSA permission
+// not granted) and an app restart. Entries are keyed by note path; a later
+// save of the same note replaces the content but keeps the base the first
+// unwritten edit started from, which is what the vault still holds. An edit
+// that conflicted with the vault stays here, marked, until the user resolves
+// it, so it survives a restart too.
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { NoteConflict } from '../types/Note';
+
+const JOURNAL_KEY = 'writeJournal';
+
+// Failed attempts after which a pending write is shown as an error
+export const WRITE_ERROR_AFTER_ATTEMPTS = 3;
+const RETRY_BASE_MS = 5000;
+const RETRY_MAX_MS = 5 * 60 * 1000;
+
+export interface JournalEntry {
+    /** Vault-relative note path */
+    path: string;
+    content: string;
+    /** Vault content the unwritten edits started from, for merging */
+    baseContent?: string;
+    queuedAt: number;
+    /** Time of the latest save, the note's modification time until written */
+    savedAt: number;
+    /** Failed write attempts so far */
+    attempts: number;
+    lastError?: string;
+    /** Set when the edit overlapped with a change in the vault; not retried until resolved */
+    conflict?: NoteConflict;
+}
+
+class WriteJournalService {
+    private entries: Map<string, JournalEntry> | null = null;
+    private loading: Promise<Map<string, JournalEntry>> | null = null;
+    // Serializes writes of the journal so an older snapshot never lands last
+    private persisting: Promise<void> = Promise.resolve();
+
+    async list(): Promise<JournalEntry[]> {
+        return Array.from((await this.load()).values());
+    }
+
+    /**
+     * Record a save before it is written; returns the entry as journaled. A
+     * save of a conflicted note starts over from the base it was given.
+     */
+    async put(path: string, content: string, baseContent?: string): Promise<JournalEntry> {
+        const entries = await this.load();
+        const existing = entries.get(path);
+        const now = Date.now();
+        const entry: JournalEntry = existing && !existing.conflict
+            ? { ...existing, content, savedAt: now }
+            : { path, content, baseContent, queuedAt: now, savedAt: now, attempts: 0 };
+        entries.set(path, entry);
+        await this.persist();
+        return entry;
+    }
+
+    /** Drop an entry once written — unless a newer save replaced its content meanwhile */
+    async remove(path: string, content?: string): Promise<void> {
+        const entries = await this.load();
+        const entry = entries.get(path);
+        if (!entry || (content !== undefined && entry.content !== content)) return;
+        entries.delete(path);
+        await this.persist();
+    }
+
+    /** Keep an edit that conflicted with the vault until the user resolves it — unless a newer save replaced it */
+    async markConflict(path: string, content: string, conflict: NoteConflict): Promise<void> {
+        const entries = await this.load();
+        const entry = entries.get(path);
+        if (!entry || entry.content !== content) return;
+        entries.set(path, { ...entry, conflict });
+        await this.persist();
+    }
+
+    /** Count a failed write; returns the updated entry */
+    async markFailed(path: string, error: unknown): Promise<JournalEntry | undefined> {
+        const entries = await this.load();
+        const entry = entries.get(path);
+        if (!entry) return undefined;
+        const updated = { ...entry, attempts: entry.attempts + 1, lastError: (error as Error)?.message ?? String(error) };
+        entries.set(path, updated);
+        await this.persist();
+        return updated;
+    }
+
+    /** Follow a note that was renamed while its write was pending */
+    async move(from: string, to: string): Promise<void> {
+        const entries = await this.load();
+        const entry = entries.get(from);
+        if (!entry) return;
+        entries.delete(from);
+        entries.set(to, { ...entry, path: to });
+        await this.persist();
+    }
+
+    /**
+     * Wait before the next retry: doubles with each failed attempt of the
+     * least-tried entry, capped at RETRY_MAX_MS. Null when nothing is pending.
+     */
+    async getRetryDelay(): Promise<number | null> {
+        const entries = (await this.list()).filter((e) => !e.conflict);
+        if (entries.length === 0) return null;
+        const attempts = Math.min(...entries.map((e) => e.attempts));
+        return Math.min(RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_MS);
+    }
+
+    // A journal that can't be read is never replaced: reading again is tried
+    // on the next call, and an unparsable one is kept aside under its own key
+    private load(): Promise<Map<string, JournalEntry>> {
+        if (this.entries) return Promise.resolve(this.entries);
+        if (!this.loading) {
+            this.loading = AsyncStorage.getItem(JOURNAL_KEY)
+                .then(async (json) => {
+                    let list: JournalEntry[] = [];
+                    try {
+                        list = json ? JSON.parse(json) : [];
+                    } catch (error) {
+                        console.error('The write journal is corrupt; keeping a copy and starting a new one:', error);
+                        await AsyncStorage.setItem(`${JOURNAL_KEY}.corrupt-${Date.now()}`, json!);
+                    }
+                    this.entries = new Map(list.map((e) => [e.path, e]));
+                    return this.entries;
+                })
+                .catch((error) => {
+                    console.error('Failed to load the write journal:', error);
+                    throw error;
+                })
+                .finally(() => { this.loading = null; });
+        }
+        return this.loading;
+    }
+
+    private persist(): Promise<void> {
+        const snapshot = JSON.stringify(Array.from(this.entries?.values() ?? []));
+        this.persisting = this.persisting
+            .catch(() => {})
+            .then(() => AsyncStorage.setItem(JOURNAL_KEY, snapshot));
+        return this.persisting;
+    }
+}
+
+export default new WriteJournalService();
@@ -1,11 +1,21 @@
 import * as FileSystem from 'expo-file-system/legacy';
-import { Platform } from 'react-native';
+import { NativeEventEmitter, NativeModules, Platform } from 'react-native';
 import { StorageProvider, FileStat } from './StorageProvider';
 import { PureNotesVaultConfig } from '../../types/Note';
+import { joinPath, isHiddenName } from '../../utils/pathUtils';
+import { getMimeType } from '../../utils/attachmentUtils';
+
+// The watcher reports the app's own writes too, half a second later at the earliest
+const OWN_WRITE_WINDOW_MS = 3000;
 
 export class AndroidSafProvider implements StorageProvider {
     private config: PureNotesVaultConfig | null = null;
+    // Vault-relative file path → SAF document URI
     private safUriCache: Map<string, string> = new Map();
+    // Vault-relative folder path → SAF document URI ('' is the vault root)
+    private dirUriCache: Map<string, string> = new Map();
+    // Vault-relative path → when the app last wrote or deleted it
+    private ownWrites: Map<string, number> = new Map();
 
     isSupported(): boolean {
         return Platform.OS === 'android';
@@ -13,6 +23,8 @@ export class AndroidSafProvider implements StorageProvider {
 
     setConfig(config: PureNotesVaultConfig | null): void {
         this.config = config;
+        this.safUriCache.clear();
+        this.dirUriCache.clear();
     }
 
     async selectFolder(): Promise<PureNotesVaultConfig | null> {
@@ -35,115 +47,223 @@ export class AndroidSafProvider implements StorageProvider {
         return this.config.vaultDirectoryUri;
     }
 
-    async list(subDirectory: string = ''): Promise<FileStat[]> {
-        if (subDirectory) {
-            console.warn('Listing subdirectories for external Android storage relies on native subfolder traversal which is currently unsupported via SAF directly here.');
-            return []; // Parity with previous implementation 
+    /** Last path segment of a SAF document URI (document ids encode the full path) */
+    private getEntryName(uri: string): string {
+        return decodeURIComponent(uri).split('/').pop() || '';
+    }
+
+    /** Find a direct child of a SAF directory by name */
+    private async findChild(dirUri: string, name: string): Promise<string | undefined> {
+        // @ts-ignore
+        const entries: string[] = await FileSystem.StorageAccessFramework.readDirectoryAsync(dirUri);
+        return entries.find((uri: string) => decodeURIComponent(uri).endsWith(`/${name}`));
+    }
+
+    /**
+     * Resolve a vault-relative folder path to its SAF URI, walking one segment
+     * at a time. With `create`, missing folders are created along the way.
+     */
+    private async resolveDirectory(subDirectory: string, create: boolean): Promise<string | null> {
+        if (!subDirectory) return this.getUri();
+
+        const cached = this.dirUriCache.get(subDirectory);
+        if (cached) return cached;
+
+        let currentUri = this.getUri();
+        let currentPath = '';
+        for (const segment of subDirectory.split('/').filter(Boolean)) {
+            currentPath = joinPath(currentPath, segment);
+            const known = this.dirUriCache.get(currentPath);
+            if (known) {
+                currentUri = known;
+                continue;
+            }
+
+            let childUri = await this.findChild(currentUri, segment);
+            if (!childUri) {
+                if (!create) return null;
+                // @ts-ignore
+                childUri = await FileSystem.StorageAccessFramework.makeDirectoryAsync(currentUri, segment);
+            }
+            this.dirUriCache.set(currentPath, childUri as string);
+            currentUri = childUri as string;
         }
+        return currentUri;
+    }
+
+    /** Resolve a file's SAF URI, refreshing the cache from its folder on a miss */
+    private async resolveFile(fileName: string, subDirectory: string): Promise<string | undefined> {
+        const path = joinPath(subDirectory, fileName);
+        const cached = this.safUriCache.get(path);
+        if (cached) return cached;
+
+        const dirUri = await this.resolveDirectory(subDirectory, false);
+        if (!dirUri) return undefined;
 
-        const uri = this.getUri();
+        const fileUri = await this.findChild(dirUri, fileName);
+        if (fileUri) this.safUriCache.set(path, fileUri);
+        return fileUri;
+    }
+
+    // A folder that can't be read (permission revoked, storage unmounted)
+    // throws: an empty listing would read as every note deleted
+    async list(subDirectory: string = '', recursive: boolean = false): Promise<FileStat[]> {
+        const dirUri = await this.resolveDirectory(subDirectory, false);
+        if (!dirUri) return [];
+        return await this.listDirectory(dirUri, subDirectory, recursive);
+    }
+
+    private async listDirectory(dirUri: string, subDirectory: string, recursive: boolean): Promise<FileStat[]> {
         const stats: FileStat[] = [];
 
-        try {
-            // @ts-ignore
-            const startFiles = await FileSystem.StorageAccessFramework.readDirectoryAsync(uri);
-
-            // Limit concurrency for Android SAF to avoid overloading it
-            for (const fileUri of startFiles) {
-                const fileName = decodeURIComponent(fileUri).split('/').pop() || '';
-                if (!fileName.endsWith('.md')) continue;
-
-                this.safUriCache.set(fileName, fileUri as string);
-
-                try {
-                    const info = await FileSystem.getInfoAsync(fileUri as string);
-                    const modTime = new Date(info.exists ? (info.modificationTime || Date.now()) : Date.now()).getTime();
-
-                    stats.push({
-                        name: fileName,
-                        modificationTime: modTime
-                    });
-                } catch (e) {
-                    console.warn(`Failed to get info for Android SAF file: ${fileName}`, e);
+        // @ts-ignore
+        const entries: string[] = await FileSystem.StorageAccessFramework.readDirectoryAsync(dirUri);
+
+        // Sequential on purpose: SAF does not cope well with concurrent queries
+        for (const entryUri of entries) {
+            const entryName = this.getEntryName(entryUri);
+            if (!entryName || isHiddenName(entryName)) continue;
+
+            const isMarkdown = entryName.endsWith('.md');
+            // Files with any other extension are neither notes nor (usually) folders; skip the stat
+            if (!isMarkdown && (!recursive || /\.[^.]+$/.test(entryName))) continue;
+
+            try {
+                const info = await FileSystem.getInfoAsync(entryUri);
+                const entryPath = joinPath(subDirectory, entryName);
+
+                if (info.exists && info.isDirectory) {
+                    if (recursive) {
+                        this.dirUriCache.set(entryPath, entryUri);
+                        stats.push(...await this.listDirectory(entryUri, entryPath, true));
+                    }
+                    continue;
                 }
+                if (!isMarkdown) continue;
+
+                this.safUriCache.set(entryPath, entryUri);
+                const modTime = new Date(info.exists ? (info.modificationTime || Date.now()) : Date.now()).getTime();
+
+                stats.push({
+                    name: entryName,
+                    path: entryPath,
+                    modificationTime: modTime
+                });
+            } catch (e) {
+                console.warn(`Failed to get info for Android SAF entry: ${entryName}`, e);
             }
-        } catch (error) {
-            console.error('Error reading Android SAF directory', error);
         }
 
         return stats;
     }
 
-    async read(fileName: string, subDirectory: string = ''): Promise<string> {
-        if (subDirectory) throw new Error('Subdirectories not supported in current SAF implementation');
-
-        let fileUri = this.safUriCache.get(fileName);
-        if (!fileUri) {
-            // Force refresh cache by listing
-            await this.list();
-            fileUri = this.safUriCache.get(fileName);
-        }
+    async listNames(subDirectory: string = ''): Promise<string[]> {
+        const dirUri = await this.resolveDirectory(subDirectory, false);
+        if (!dirUri) return [];
+        // @ts-ignore
+        const entries: string[] = await FileSystem.StorageAccessFramework.readDirectoryAsync(dirUri);
+        return entries.map((uri) => this.getEntryName(uri)).filter(Boolean);
+    }
 
+    async read(fileName: string, subDirectory: string = ''): Promise<string> {
+        const fileUri = await this.resolveFile(fileName, subDirectory);
         if (!fileUri) {
-            throw new Error(`File not found: ${fileName}`);
+            throw new Error(`File not found: ${joinPath(subDirectory, fileName)}`);
         }
 
         return await FileSystem.readAsStringAsync(fileUri);
     }
 
     async write(fileName: string, content: string, subDirectory: string = ''): Promise<void> {
-        if (subDirectory) {
-            console.warn('Subdirectories not properly supported in writing via simple SAF implementation. Proceeding securely.');
-            // Usually, writing to archive in SAF was ignored or skipped previously for external
+        const fileUri = await this.resolveOrCreateFile(fileName, subDirectory, 'text/markdown');
+        await FileSystem.writeAsStringAsync(fileUri, content);
+        this.ownWrites.set(joinPath(subDirectory, fileName), Date.now());
+    }
+
+    async readBinary(fileName: string, subDirectory: string = ''): Promise<string> {
+        const fileUri = await this.resolveFile(fileName, subDirectory);
+        if (!fileUri) {
+            throw new Error(`File not found: ${joinPath(subDirectory, fileName)}`);
         }
 
-        const dirUri = this.getUri();
-        let existingUri = this.safUriCache.get(fileName);
+        return await FileSystem.readAsStringAsync(fileUri, { encoding: FileSystem.EncodingType.Base64 });
+    }
 
-        if (!existingUri) {
-            // @ts-ignore
-            const files = await FileSystem.StorageAccessFramework.readDirectoryAsync(dirUri);
-            existingUri = files.find((uri: string) => decodeURIComponent(uri).endsWith(fileName));
-            if (existingUri) {
-                this.safUriCache.set(fileName, existingUri);
-            }
-        }
+    async writeBinary(fileName: string, base64: string, subDirectory: string = ''): Promise<void> {
+        const fileUri = await this.resolveOrCreateFile(fileName, subDirectory, getMimeType(fileName));
+        await FileSystem.writeAsStringAsync(fileUri, base64, { encoding: FileSystem.EncodingType.Base64 });
+        this.ownWrites.set(joinPath(subDirectory, fileName), Date.now());
+    }
 
-        if (existingUri) {
-            await FileSystem.writeAsStringAsync(existingUri, content);
-        } else {
-            const sanitizedFileName = fileName.replace(/[^a-zA-Z0-9_\-. ]/g, '_');
-            // @ts-ignore
-            const newUri = await FileSystem.StorageAccessFramework.createFileAsync(dirUri, sanitizedFileName, 'text/markdown');
-            this.safUriCache.set(fileName, newUri);
-            await FileSystem.writeAsStringAsync(newUri, content);
-        }
+    /** SAF URI of a file, creating the file (and its folders) when missing */
+    private async resolveOrCreateFile(fileName: string, subDirectory: string, mimeType: string): Promise<string> {
+        const existingUri = await this.resolveFile(fileName, subDirectory);
+        if (existingUri) return existingUri;
+
+        const dirUri = await this.resolveDirectory(subDirectory, true);
+        if (!dirUri) throw new Error(`Could not create folder: ${subDirectory}`);
+
+        // Only characters the provider rejects; non-Latin names (Hebrew…) are kept
+        const sanitizedFileName = fileName.replace(/[\\/:*?"<>|]/g, '_');
+        // @ts-ignore
+        const newUri: string = await FileSystem.StorageAccessFramework.createFileAsync(dirUri, sanitizedFileName, mimeType);
+        this.safUriCache.set(joinPath(subDirectory, fileName), newUri);
+        return newUri;
     }
 
     async delete(fileName: string, subDirectory: string = ''): Promise<void> {
-        if (subDirectory) {
-            console.warn(`SAF delete ignores subdirectory: ${subDirectory}`);
-        }
-
-        const uri = this.getUri();
+        const path = joinPath(subDirectory, fileName);
         try {
-            let fileUri = this.safUriCache.get(fileName);
-            if (!fileUri) {
-                // @ts-ignore
-                const startFiles = await FileSystem.StorageAccessFramework.readDirectoryAsync(uri);
-                fileUri = startFiles.find((fUri: string) => decodeURIComponent(fUri).endsWith(fileName));
-            }
+            const fileUri = await this.resolveFile(fileName, subDirectory);
 
             if (fileUri) {
                 await FileSystem.deleteAsync(fileUri);
-                this.safUriCache.delete(fileName);
+                this.safUriCache.delete(path);
+                this.ownWrites.set(path, Date.now());
                 console.log(`Deleted file via SAF: ${fileUri}`);
             } else {
-                console.warn(`Could not find file to delete via SAF: ${fileName}`);
+                console.warn(`Could not find file to delete via SAF: ${path}`);
             }
         } catch (error) {
             console.error('Error deleting file via Android SAF:', error);
             throw error;
         }
     }
+
+    // expo-file-system exposes no move/rename for SAF documents, so copy + delete
+    async rename(fileName: string, subDirectory: string, newFileName: string, newSubDirectory: string): Promise<void> {
+        const content = await this.read(fileName, subDirectory);
+        await this.write(newFileName, content, newSubDirectory);
+        await this.delete(fileName, subDirectory);
+    }
+
+    // Native observer of the SAF tree (targets/android-vault-watcher). Files
+    // the app itself just wrote or deleted are left out of what it reports.
+    watch(onChange: (paths: string[]) => void): () => void {
+        const { VaultWatcher } = NativeModules;
+        if (!VaultWatcher) {
+            console.warn('VaultWatcher native module not available; relying on polling');
+            return () => {};
+        }
+
+        const emitter = new NativeEventEmitter(VaultWatcher);
+        const subscription = emitter.addListener('VaultWatcherChange', (event: { paths: string[] }) => {
+            const now = Date.now();
+            this.ownWrites.forEach((time, path) => {
+                if (now - time > OWN_WRITE_WINDOW_MS) this.ownWrites.delete(path);
+            });
+            const paths = event.paths.filter((path) => !this.ownWrites.has(path));
+            if (event.paths.length > 0 && paths.length === 0) return;
+
+            // Files may have been added, removed or renamed
+            this.safUriCache.clear();
+            this.dirUriCache.clear();
+            onChange(paths);
+        });
+        VaultWatcher.start(this.getUri()).catch((error: Error) => console.warn('Failed to watch the vault folder:', error));
+        return () => {
+            subscription.remove();
+            VaultWatcher.stop().catch(() => {});
+        };
+    }
 }
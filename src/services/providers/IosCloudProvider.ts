@@ -28,22 +28,38 @@ export class IosCloudProvider implements StorageProvider {
         return null;
     }
 
-    async list(subDirectory: string = ''): Promise<FileStat[]> {
-        if (subDirectory) {
+    async list(subDirectory: string = '', recursive: boolean = false): Promise<FileStat[]> {
+        if (recursive) {
+            const files = await CloudFileService.listMarkdownFilesRecursive(subDirectory);
+            return files.map((f: any) => ({
+                name: f.name,
+                path: f.path,
+                modificationTime: f.modificationTime || Date.now(),
+                creationTime: f.creationTime
+            }));
+        } else if (subDirectory) {
             const files = await CloudFileService.listSubdirFilesWithAttributes(subDirectory);
             return files.map((f: any) => ({
                 name: f.name,
-                modificationTime: f.modificationTime || Date.now()
+                path: `${subDirectory}/${f.name}`,
+                modificationTime: f.modificationTime || Date.now(),
+                creationTime: f.creationTime
             }));
         } else {
             const files = await CloudFileService.listMarkdownFilesWithAttributes();
             return files.map((f: any) => ({
                 name: f.name,
-                modificationTime: f.modificationTime || Date.now()
+                path: f.name,
+                modificationTime: f.modificationTime || Date.now(),
+                creationTime: f.creationTime
             }));
         }
     }
 
+    async listNames(subDirectory: string = ''): Promise<string[]> {
+        return await CloudFileService.listFileNames(subDirectory);
+    }
+
     async read(fileName: string, subDirectory: string = ''): Promise<string> {
         const path = subDirectory ? `${subDirectory}/${fileName}` : fileName;
         return await CloudFileService.readFile(path);
@@ -54,8 +70,28 @@ export class IosCloudProvider implements StorageProvider {
         await CloudFileService.writeFile(path, content);
     }
 
+    async readBinary(fileName: string, subDirectory: string = ''): Promise<string> {
+        const path = subDirectory ? `${subDirectory}/${fileName}` : fileName;
+        return await CloudFileService.readFileBase64(path);
+    }
+
+    async writeBinary(fileName: string, base64: string, subDirectory: string = ''): Promise<void> {
+        const path = subDirectory ? `${subDirectory}/${fileName}` : fileName;
+        await CloudFileService.writeFileBase64(path, base64);
+    }
+
     async delete(fileName: string, subDirectory: string = ''): Promise<void> {
         const path = subDirectory ? `${subDirectory}/${fileName}` : fileName;
         await CloudFileService.deleteFile(path);
     }
+
+    async rename(fileName: string, subDirectory: string, newFileName: string, newSubDirectory: string): Promise<void> {
+        const from = subDirectory ? `${subDirectory}/${fileName}` : fileName;
+        const to = newSubDirectory ? `${newSubDirectory}/${newFileName}` : newFileName;
+        await CloudFileService.moveFile(from, to);
+    }
+
+    watch(onChange: (paths: string[]) => void): () => void {
+        return CloudFileService.watchChanges(onChange);
+    }
 }
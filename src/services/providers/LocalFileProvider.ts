@@ -1,5 +1,6 @@
 import * as FileSystem from 'expo-file-system/legacy';
 import { StorageProvider, FileStat } from './StorageProvider';
+import { joinPath, isHiddenName } from '../../utils/pathUtils';
 
 const LOCAL_NOTES_DIR = `${FileSystem.documentDirectory}notes/`;
 
@@ -15,14 +16,21 @@ export class LocalFileProvider implements StorageProvider {
         }
     }
 
+    private getDirPath(subDirectory: string = ''): string {
+        return subDirectory ? `${LOCAL_NOTES_DIR}${subDirectory}/` : LOCAL_NOTES_DIR;
+    }
+
     private getPath(fileName: string, subDirectory: string = ''): string {
-        const dir = subDirectory ? `${LOCAL_NOTES_DIR}${subDirectory}/` : LOCAL_NOTES_DIR;
-        return `${dir}${fileName}`;
+        return `${this.getDirPath(subDirectory)}${fileName}`;
     }
 
-    async list(subDirectory: string = ''): Promise<FileStat[]> {
-        const dirPath = subDirectory ? `${LOCAL_NOTES_DIR}${subDirectory}/` : LOCAL_NOTES_DIR;
-        await this.ensureDirectory(dirPath);
+    async list(subDirectory: string = '', recursive: boolean = false): Promise<FileStat[]> {
+        await this.ensureDirectory(this.getDirPath(subDirectory));
+        return this.listDirectory(subDirectory, recursive);
+    }
+
+    private async listDirectory(subDirectory: string, recursive: boolean): Promise<FileStat[]> {
+        const dirPath = this.getDirPath(subDirectory);
 
         let files: string[] = [];
         try {
@@ -34,14 +42,24 @@ export class LocalFileProvider implements StorageProvider {
 
         const stats: FileStat[] = [];
         for (const file of files) {
-            if (!file.endsWith('.md')) continue;
+            if (isHiddenName(file)) continue;
 
             const filePath = `${dirPath}${file}`;
             const fileInfo = await FileSystem.getInfoAsync(filePath);
+
+            if (fileInfo.exists && fileInfo.isDirectory) {
+                if (recursive) {
+                    stats.push(...await this.listDirectory(joinPath(subDirectory, file), true));
+                }
+                continue;
+            }
+            if (!file.endsWith('.md')) continue;
+
             const modTimeStr = fileInfo.exists ? (fileInfo.modificationTime || Date.now()) : Date.now();
 
             stats.push({
                 name: file,
+                path: joinPath(subDirectory, file),
                 modificationTime: new Date(modTimeStr).getTime()
             });
         }
@@ -49,19 +67,45 @@ export class LocalFileProvider implements StorageProvider {
         return stats;
     }
 
+    async listNames(subDirectory: string = ''): Promise<string[]> {
+        const dirPath = this.getDirPath(subDirectory);
+        const dirInfo = await FileSystem.getInfoAsync(dirPath);
+        if (!dirInfo.exists) return [];
+        return await FileSystem.readDirectoryAsync(dirPath);
+    }
+
     async read(fileName: string, subDirectory: string = ''): Promise<string> {
         const filePath = this.getPath(fileName, subDirectory);
         return await FileSystem.readAsStringAsync(filePath);
     }
 
     async write(fileName: string, content: string, subDirectory: string = ''): Promise<void> {
-        const dir = subDirectory ? `${LOCAL_NOTES_DIR}${subDirectory}/` : LOCAL_NOTES_DIR;
+        const dir = this.getDirPath(subDirectory);
         await this.ensureDirectory(dir);
         await FileSystem.writeAsStringAsync(`${dir}${fileName}`, content);
     }
 
+    async readBinary(fileName: string, subDirectory: string = ''): Promise<string> {
+        const filePath = this.getPath(fileName, subDirectory);
+        return await FileSystem.readAsStringAsync(filePath, { encoding: FileSystem.EncodingType.Base64 });
+    }
+
+    async writeBinary(fileName: string, base64: string, subDirectory: string = ''): Promise<void> {
+        const dir = this.getDirPath(subDirectory);
+        await this.ensureDirectory(dir);
+        await FileSystem.writeAsStringAsync(`${dir}${fileName}`, base64, { encoding: FileSystem.EncodingType.Base64 });
+    }
+
     async delete(fileName: string, subDirectory: string = ''): Promise<void> {
         const filePath = this.getPath(fileName, subDirectory);
         await FileSystem.deleteAsync(filePath, { idempotent: true });
     }
+
+    async rename(fileName: string, subDirectory: string, newFileName: string, newSubDirectory: string): Promise<void> {
+        await this.ensureDirectory(this.getDirPath(newSubDirectory));
+        await FileSystem.moveAsync({
+            from: this.getPath(fileName, subDirectory),
+            to: this.getPath(newFileName, newSubDirectory)
+        });
+    }
 }
@@ -2,17 +2,21 @@ import { PureNotesVaultConfig } from '../../types/Note';
 
 export interface FileStat {
     name: string;
+    /** Path relative to the vault root, e.g. `Projects/Idea.md` */
+    path: string;
     modificationTime: number; // in milliseconds
+    /** Birth time in milliseconds, where the platform reports one */
+    creationTime?: number;
 }
 
 export interface StorageProvider {
-    /** 
+    /**
      * Identify if this provider is supported on the current platform.
      */
     isSupported(): boolean;
 
-    /** 
-     * Pass configuration (e.g., Vault config) to the provider. 
+    /**
+     * Pass configuration (e.g., Vault config) to the provider.
      */
     setConfig?(config: PureNotesVaultConfig | null): void;
 
@@ -22,15 +26,55 @@ export interface StorageProvider {
     /** Verify/Request permission (Web specific) */
     verifyPermission?(): Promise<boolean>;
 
-    /** Get all markdown files in the specified directory */
-    list(subDirectory?: string): Promise<FileStat[]>;
+    /**
+     * Get all markdown files in the specified directory. With `recursive`,
+     * descends into subfolders (hidden folders such as `.obsidian` are skipped).
+     */
+    list(subDirectory?: string, recursive?: boolean): Promise<FileStat[]>;
+
+    /**
+     * Names of everything directly in a folder, not only markdown files:
+     * attachments, subfolders. Empty when the folder doesn't exist.
+     */
+    listNames(subDirectory?: string): Promise<string[]>;
 
-    /** Read content of a specific file */
+    /** Read content of a specific file. `subDirectory` may be a nested path. */
     read(fileName: string, subDirectory?: string): Promise<string>;
 
-    /** Write content to a specific file */
+    /** Write content to a specific file, creating missing folders */
     write(fileName: string, content: string, subDirectory?: string): Promise<void>;
 
+    /** Read a binary file (attachments), base64-encoded */
+    readBinary(fileName: string, subDirectory?: string): Promise<string>;
+
+    /** Write a binary file from base64, creating missing folders */
+    writeBinary(fileName: string, base64: string, subDirectory?: string): Promise<void>;
+
     /** Delete a specific file */
     delete(fileName: string, subDirectory?: string): Promise<void>;
+
+    /**
+     * Move/rename a file, creating the target folder if needed. Callers make
+     * sure the target does not exist. Native where the platform has a move;
+     * otherwise copy + delete, which leaves a duplicate rather than losing
+     * the file if it fails halfway.
+     */
+    rename(fileName: string, subDirectory: string, newFileName: string, newSubDirectory: string): Promise<void>;
+
+    /**
+     * Report changes made to the vault outside the app. `paths` are the
+     * vault-relative paths of changed, added or removed files — empty when
+     * the platform only tells that something changed. Returns a function
+     * that stops watching. Providers without it are polled.
+     */
+    watch?(onChange: (paths: string[]) => void): () => void;
+
+    /**
+     * For vaults that can't push changes but can tell cheaply what changed:
+     * the paths changed, added or removed since the previous call, as for
+     * `watch`. Null when there is no earlier call to compare with, or the
+     * provider can't tell; the whole vault is then listed. Called by
+     * BackgroundSyncService at the user's sync interval.
+     */
+    checkChanges?(): Promise<string[] | null>;
 }
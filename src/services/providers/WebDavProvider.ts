@@ -0,0 +1,334 @@
+import { Platform } from 'react-native';
+import { StorageProvider, FileStat } from './StorageProvider';
+import { PureNotesVaultConfig } from '../../types/Note';
+import { joinPath, isHiddenName } from '../../utils/pathUtils';
+import { getMimeType } from '../../utils/attachmentUtils';
+import {
+    PROPFIND_BODY,
+    DavEntry,
+    parseMultiStatus,
+    encodePath,
+    normalizeBaseUrl,
+    getUrlPath,
+    getVaultNameFromUrl,
+    getBasicAuthHeader,
+    bytesToBase64,
+    base64ToBytes,
+} from '../../utils/webdavUtils';
+import { WebDavCredentials, loadWebDavCredentials, saveWebDavCredentials } from '../../utils/webdavCredentials';
+
+// An entry of a listed folder, with its vault-relative path
+interface DavItem extends DavEntry {
+    path: string;
+    name: string;
+}
+
+// A folder as the last change check saw it
+interface FolderSnapshot {
+    etag?: string;
+    /** File path → ETag */
+    files: Map<string, string>;
+    /** Subfolder path → snapshot */
+    folders: Map<string, FolderSnapshot>;
+}
+
+/**
+ * A vault on a WebDAV server (Nextcloud, ownCloud, Apache mod_dav, rclone…).
+ * The vault URL lives in the config; the login in secure storage.
+ */
+export class WebDavProvider implements StorageProvider {
+    private baseUrl: string | null = null;
+    private credentials: WebDavCredentials | null = null;
+    // Folders known to exist, so writes don't MKCOL them every time
+    private knownFolders: Set<string> = new Set();
+    // The vault at the previous checkChanges
+    private snapshot: FolderSnapshot | null = null;
+
+    // Secure storage, which holds the login, is native only
+    isSupported(): boolean {
+        return Platform.OS !== 'web';
+    }
+
+    setConfig(config: PureNotesVaultConfig | null): void {
+        const url = config?.provider === 'webdav' ? config.vaultDirectoryUri : undefined;
+        this.baseUrl = url ? normalizeBaseUrl(url) : null;
+        this.credentials = null;
+        this.knownFolders.clear();
+        this.snapshot = null;
+    }
+
+    /**
+     * Check that `url` is a folder the login can open, then keep the login.
+     * Resolves the vault config to connect.
+     */
+    async connect(url: string, credentials: WebDavCredentials): Promise<PureNotesVaultConfig> {
+        const baseUrl = normalizeBaseUrl(url);
+        if (!/^https?:\/\/[^/]+/i.test(baseUrl)) {
+            throw new Error('The server address must start with http:// or https://');
+        }
+
+        const response = await this.send(baseUrl, 'PROPFIND', credentials, {
+            Depth: '0',
+            'Content-Type': 'application/xml; charset=utf-8',
+        }, PROPFIND_BODY);
+        if (response.status === 401 || response.status === 403) {
+            throw new Error('The server rejected the user name or password');
+        }
+        if (response.status !== 207) {
+            throw new Error(`The server did not answer as a WebDAV folder (HTTP ${response.status})`);
+        }
+        const [entry] = parseMultiStatus(await response.text());
+        if (!entry?.isCollection) {
+            throw new Error('The address is a file, not a folder');
+        }
+
+        await saveWebDavCredentials(baseUrl, credentials);
+        return {
+            vaultName: getVaultNameFromUrl(baseUrl),
+            vaultDirectoryUri: baseUrl,
+            provider: 'webdav',
+            isConnected: true,
+        };
+    }
+
+    // Doesn't reach the server, so an offline start still shows the cached notes
+    async verifyPermission(): Promise<boolean> {
+        try {
+            await this.getCredentials();
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    private getBaseUrl(): string {
+        if (!this.baseUrl) {
+            throw new Error('WebDAV Provider not configured with a server URL');
+        }
+        return this.baseUrl;
+    }
+
+    private async getCredentials(): Promise<WebDavCredentials> {
+        if (this.credentials) return this.credentials;
+        const credentials = await loadWebDavCredentials(this.getBaseUrl());
+        if (!credentials) {
+            throw new Error('No WebDAV login saved for this vault');
+        }
+        this.credentials = credentials;
+        return credentials;
+    }
+
+    private send(url: string, method: string, credentials: WebDavCredentials, headers: Record<string, string> = {}, body?: string | Uint8Array): Promise<Response> {
+        return fetch(url, {
+            method,
+            headers: { Authorization: getBasicAuthHeader(credentials.username, credentials.password), ...headers },
+            body: body as BodyInit | undefined,
+        });
+    }
+
+    /** Full URL of a vault-relative path; folders end with a slash */
+    private getUrl(path: string, isFolder: boolean = false): string {
+        const encoded = encodePath(path);
+        return this.getBaseUrl() + encoded + (isFolder && encoded ? '/' : '');
+    }
+
+    private async request(method: string, path: string, options: { isFolder?: boolean; headers?: Record<string, string>; body?: string | Uint8Array } = {}): Promise<Response> {
+        const credentials = await this.getCredentials();
+        return this.send(this.getUrl(path, options.isFolder), method, credentials, options.headers, options.body);
+    }
+
+    private fail(method: string, path: string, response: Response): never {
+        throw new Error(`WebDAV ${method} ${path || '/'} failed (HTTP ${response.status})`);
+    }
+
+    /**
+     * The folder itself and its direct children, or null when the folder
+     * doesn't exist. Paths are vault-relative.
+     */
+    private async propfind(folder: string, depth: 0 | 1): Promise<{ self?: DavItem; children: DavItem[] } | null> {
+        const response = await this.request('PROPFIND', folder, {
+            isFolder: true,
+            headers: { Depth: String(depth), 'Content-Type': 'application/xml; charset=utf-8' },
+            body: PROPFIND_BODY,
+        });
+        if (response.status === 404) return null;
+        if (response.status !== 207) this.fail('PROPFIND', folder, response);
+
+        const basePath = getUrlPath(this.getBaseUrl()).replace(/\/$/, '');
+        let self: DavItem | undefined;
+        const children: DavItem[] = [];
+        for (const entry of parseMultiStatus(await response.text())) {
+            // Servers answer with paths; anything outside the vault is not ours
+            if (entry.href !== basePath && !entry.href.startsWith(`${basePath}/`)) continue;
+            const path = entry.href.slice(basePath.length).replace(/^\/+/, '');
+            const item: DavItem = { ...entry, path, name: path.split('/').pop() || '' };
+            if (path === folder.replace(/^\/+|\/+$/g, '')) {
+                self = item;
+            } else {
+                children.push(item);
+            }
+        }
+        return { self, children };
+    }
+
+    /** Markdown files under a folder. Fails rather than returning a partial listing. */
+    async list(subDirectory: string = '', recursive: boolean = false): Promise<FileStat[]> {
+        const listing = await this.propfind(subDirectory, 1);
+        if (!listing) return [];
+
+        const stats: FileStat[] = [];
+        for (const item of listing.children) {
+            if (!item.name || isHiddenName(item.name)) continue;
+            if (item.isCollection) {
+                this.knownFolders.add(item.path);
+                if (recursive) stats.push(...await this.list(item.path, true));
+                continue;
+            }
+            if (!item.name.endsWith('.md')) continue;
+            stats.push({
+                name: item.name,
+                path: item.path,
+                modificationTime: item.lastModified ?? Date.now(),
+                creationTime: item.creationDate,
+            });
+        }
+        return stats;
+    }
+
+    async listNames(subDirectory: string = ''): Promise<string[]> {
+        const listing = await this.propfind(subDirectory, 1);
+        return listing ? listing.children.map((item) => item.name).filter(Boolean) : [];
+    }
+
+    async read(fileName: string, subDirectory: string = ''): Promise<string> {
+        const path = joinPath(subDirectory, fileName);
+        const response = await this.request('GET', path);
+        if (response.status === 404) {
+            throw new Error(`File not found: ${path}`);
+        }
+        if (!response.ok) this.fail('GET', path, response);
+        return await response.text();
+    }
+
+    async write(fileName: string, content: string, subDirectory: string = ''): Promise<void> {
+        await this.put(subDirectory, fileName, content, 'text/markdown; charset=utf-8');
+    }
+
+    async readBinary(fileName: string, subDirectory: string = ''): Promise<string> {
+        const path = joinPath(subDirectory, fileName);
+        const response = await this.request('GET', path);
+        if (response.status === 404) {
+            throw new Error(`File not found: ${path}`);
+        }
+        if (!response.ok) this.fail('GET', path, response);
+        return bytesToBase64(new Uint8Array(await response.arrayBuffer()));
+    }
+
+    async writeBinary(fileName: string, base64: string, subDirectory: string = ''): Promise<void> {
+        await this.put(subDirectory, fileName, base64ToBytes(base64), getMimeType(fileName));
+    }
+
+    private async put(subDirectory: string, fileName: string, body: string | Uint8Array, contentType: string): Promise<void> {
+        const path = joinPath(subDirectory, fileName);
+        await this.ensureFolder(subDirectory);
+        let response = await this.request('PUT', path, { headers: { 'Content-Type': contentType }, body });
+        if (response.status === 409) {
+            // A folder we thought was there was removed meanwhile
+            this.knownFolders.clear();
+            await this.ensureFolder(subDirectory);
+            response = await this.request('PUT', path, { headers: { 'Content-Type': contentType }, body });
+        }
+        if (!response.ok) this.fail('PUT', path, response);
+    }
+
+    /** Create a folder and its missing parents, one MKCOL per level */
+    private async ensureFolder(subDirectory: string): Promise<void> {
+        let current = '';
+        for (const segment of subDirectory.split('/').filter(Boolean)) {
+            current = joinPath(current, segment);
+            if (this.knownFolders.has(current)) continue;
+
+            const response = await this.request('MKCOL', current, { isFolder: true });
+            // 405: the folder already exists
+            if (!response.ok && response.status !== 405) this.fail('MKCOL', current, response);
+            this.knownFolders.add(current);
+        }
+    }
+
+    async delete(fileName: string, subDirectory: string = ''): Promise<void> {
+        const path = joinPath(subDirectory, fileName);
+        const response = await this.request('DELETE', path);
+        if (!response.ok && response.status !== 404) this.fail('DELETE', path, response);
+    }
+
+    async rename(fileName: string, subDirectory: string, newFileName: string, newSubDirectory: string): Promise<void> {
+        const path = joinPath(subDirectory, fileName);
+        await this.ensureFolder(newSubDirectory);
+        const response = await this.request('MOVE', path, {
+            headers: { Destination: this.getUrl(joinPath(newSubDirectory, newFileName)), Overwrite: 'F' },
+        });
+        if (!response.ok) this.fail('MOVE', path, response);
+    }
+
+    /**
+     * Compare the vault's ETags with the previous check. Servers push
+     * nothing, but a folder's ETag changes with anything inside it: when the
+     * vault's own ETag hasn't moved, a check costs one Depth: 0 PROPFIND;
+     * otherwise only folders whose ETag moved are listed again, and files
+     * are reported by comparing their own ETags. Servers without folder
+     * ETags get the whole tree listed on each check.
+     */
+    async checkChanges(): Promise<string[] | null> {
+        const root = await this.propfind('', 0);
+        if (!root) throw new Error('The WebDAV vault folder was not found');
+        const previous = this.snapshot;
+        if (previous && root.self?.etag && previous.etag === root.self.etag) return [];
+
+        // The first check only records what is there
+        const changed: string[] | null = previous ? [] : null;
+        const baseUrl = this.baseUrl;
+        const next = await this.snapshotFolder('', root.self?.etag, previous ?? undefined, changed);
+        // The vault may have been switched meanwhile
+        if (this.baseUrl === baseUrl) this.snapshot = next;
+        return changed;
+    }
+
+    /**
+     * Snapshot `folder`, listing again only what changed since `previous`.
+     * Paths of added, changed and removed files go into `changed`, which is
+     * null on the first check.
+     */
+    private async snapshotFolder(folder: string, etag: string | undefined, previous: FolderSnapshot | undefined, changed: string[] | null): Promise<FolderSnapshot> {
+        if (previous && etag && previous.etag === etag) return previous;
+
+        const listing = await this.propfind(folder, 1);
+        const snapshot: FolderSnapshot = { etag, files: new Map(), folders: new Map() };
+        for (const item of listing?.children ?? []) {
+            if (!item.name || isHiddenName(item.name)) continue;
+            if (item.isCollection) {
+                const before = previous?.folders.get(item.path);
+                snapshot.folders.set(item.path, await this.snapshotFolder(item.path, item.etag, before, changed));
+                continue;
+            }
+            // Without ETags, the modification time is the best version there is
+            const version = item.etag ?? String(item.lastModified);
+            snapshot.files.set(item.path, version);
+            if (changed && previous?.files.get(item.path) !== version) changed.push(item.path);
+        }
+
+        if (changed && previous) {
+            previous.files.forEach((_, path) => {
+                if (!snapshot.files.has(path)) changed.push(path);
+            });
+            previous.folders.forEach((removed, path) => {
+                if (!snapshot.folders.has(path)) changed.push(...collectFiles(removed));
+            });
+        }
+        return snapshot;
+    }
+}
+
+const collectFiles = (snapshot: FolderSnapshot): string[] => [
+    ...snapshot.files.keys(),
+    ...Array.from(snapshot.folders.values()).flatMap(collectFiles),
+];
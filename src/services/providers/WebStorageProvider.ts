@@ -4,11 +4,16 @@ import { PureNotesVaultConfig } from '../../types/Note';
 
 export class WebStorageProvider implements StorageProvider {
     private config: PureNotesVaultConfig | null = null;
+    // File times at the previous checkChanges, by path
+    private lastFileTimes: Map<string, number> | null = null;
+    // Whether the browser is reporting changes through watch, making checks unneeded
+    private isObserved = false;
 
     name = 'Web Local Storage';
 
     setConfig(config: PureNotesVaultConfig | null): void {
         this.config = config;
+        this.lastFileTimes = null;
     }
 
     isSupported(): boolean {
@@ -40,16 +45,22 @@ export class WebStorageProvider implements StorageProvider {
         return await WebFileService.verifyPermission(true);
     }
 
-    async list(subDirectory: string = ''): Promise<FileStat[]> {
+    async list(subDirectory: string = '', recursive: boolean = false): Promise<FileStat[]> {
         const WebFileService = await this.getWebFileService();
-        const files: { name: string; modificationTime: number }[] = await WebFileService.listMarkdownFiles(subDirectory);
+        const files: { name: string; path: string; modificationTime: number }[] = await WebFileService.listMarkdownFiles(subDirectory, recursive);
 
         return files.map(file => ({
             name: file.name,
+            path: file.path,
             modificationTime: file.modificationTime
         }));
     }
 
+    async listNames(subDirectory: string = ''): Promise<string[]> {
+        const WebFileService = await this.getWebFileService();
+        return await WebFileService.listNames(subDirectory);
+    }
+
     async read(fileName: string, subDirectory: string = ''): Promise<string> {
         const WebFileService = await this.getWebFileService();
         return await WebFileService.readFile(fileName, subDirectory);
@@ -60,8 +71,64 @@ export class WebStorageProvider implements StorageProvider {
         await WebFileService.writeFile(fileName, content, subDirectory);
     }
 
+    async readBinary(fileName: string, subDirectory: string = ''): Promise<string> {
+        const WebFileService = await this.getWebFileService();
+        return await WebFileService.readBinaryFile(fileName, subDirectory);
+    }
+
+    async writeBinary(fileName: string, base64: string, subDirectory: string = ''): Promise<void> {
+        const WebFileService = await this.getWebFileService();
+        await WebFileService.writeBinaryFile(fileName, base64, subDirectory);
+    }
+
     async delete(fileName: string, subDirectory: string = ''): Promise<void> {
         const WebFileService = await this.getWebFileService();
         await WebFileService.deleteFile(fileName, subDirectory);
     }
+
+    async rename(fileName: string, subDirectory: string, newFileName: string, newSubDirectory: string): Promise<void> {
+        const WebFileService = await this.getWebFileService();
+        await WebFileService.moveFile(fileName, subDirectory, newFileName, newSubDirectory);
+    }
+
+    // Only browsers with FileSystemObserver report changes; elsewhere the
+    // vault is checked on the sync interval instead
+    watch(onChange: (paths: string[]) => void): () => void {
+        let stopObserving: (() => void) | null = null;
+        let isStopped = false;
+        this.getWebFileService()
+            .then((WebFileService) => WebFileService.observeChanges(onChange))
+            .then((stop: (() => void) | null) => {
+                if (isStopped) {
+                    stop?.();
+                    return;
+                }
+                stopObserving = stop;
+                this.isObserved = !!stop;
+            })
+            .catch((error) => console.warn('Failed to watch the vault folder:', error));
+        return () => {
+            isStopped = true;
+            this.isObserved = false;
+            stopObserving?.();
+        };
+    }
+
+    // Without change events, compare every file's time with the previous
+    // check (see WebFileService.getMarkdownFileTimes for why it can't be
+    // narrowed down to the folders that changed)
+    async checkChanges(): Promise<string[] | null> {
+        if (this.isObserved) return [];
+        const WebFileService = await this.getWebFileService();
+        const current: Map<string, number> = await WebFileService.getMarkdownFileTimes();
+        const previous = this.lastFileTimes;
+        this.lastFileTimes = current;
+        if (!previous) return null;
+
+        const changed: string[] = [];
+        new Set([...previous.keys(), ...current.keys()]).forEach((path) => {
+            if (previous.get(path) !== current.get(path)) changed.push(path);
+        });
+        return changed;
+    }
 }
@@ -5,10 +5,9 @@ import { persist, createJSONStorage } from 'zustand/middleware';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { DataSlice, createDataSlice } from './slices/createDataSlice';
 import { UISlice, createUISlice } from './slices/createUISlice';
-import { SettingsSlice, createSettingsSlice } from './slices/createSettingsSlice';
-import SearchService from '../services/SearchService';
+import { SettingsSlice, createSettingsSlice, defaultSettings } from './slices/createSettingsSlice';
 import StorageService from '../services/StorageService';
-import { Note, AppSettings, PureNotesVaultConfig, DomainType } from '../types/Note';
+import { Note } from '../types/Note';
 
 // Define the full store state type
 export type StoreState = DataSlice & UISlice & SettingsSlice & {
@@ -36,22 +35,28 @@ export const useNotesStore = create<StoreState>()(
         {
             name: 'notes-storage',
             storage: createJSONStorage(() => AsyncStorage),
-            partialize: (state) => ({ settings: state.settings, notes: state.notes }), // Persist settings and notes for caching
+            // Notes live in the note cache (see NoteCacheService), not here
+            partialize: (state) => ({ settings: state.settings }),
+            version: 2,
+            migrate: (persisted, version) => {
+                const state = { ...(persisted as Record<string, any>) };
+                // Before version 1 the whole notes array was persisted here
+                if (version < 1) delete state.notes;
+                // Before version 2 the sync settings had no effect and could not
+                // be changed (the vault was always polled); start from the defaults
+                if (version < 2 && state.settings) {
+                    state.settings = {
+                        ...state.settings,
+                        autoSync: defaultSettings.autoSync,
+                        syncInterval: defaultSettings.syncInterval,
+                    };
+                }
+                return state as Partial<StoreState>;
+            },
             onRehydrateStorage: () => (state) => {
                 if (state?.settings?.vault) {
                     StorageService.setConfig(state.settings.vault);
                 }
-                if (state?.notes) {
-                    // Hydrate Date objects
-                    state.notes.forEach(n => {
-                        n.createdAt = new Date(n.createdAt);
-                        n.updatedAt = new Date(n.updatedAt);
-                    });
-
-                    // Immediately make notes available without showing full loading
-                    state.filteredNotes = [...state.notes];
-                    SearchService.initialize(state.notes);
-                }
             }
         }
     )
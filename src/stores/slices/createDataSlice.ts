@@ -1,12 +1,24 @@
 import { StateCreator } from 'zustand';
-import { Note } from '../../types/Note';
+import { Note, DomainType, Task } from '../../types/Note';
 import StorageService from '../../services/StorageService';
 import SearchService from '../../services/SearchService';
-import { updateFrontmatter, removeFrontmatterKey } from '../../services/FrontmatterService';
+import LinkService from '../../services/LinkService';
+import { updateFrontmatter, removeFrontmatterKey, getFrontmatterProperty } from '../../services/FrontmatterService';
 import { StoreState } from '../notesStore';
-
-// Defer the (expensive) Fuse index rebuild off the critical save path.
-// Multiple successive calls within the same tick collapse into one init.
+import { updateLinksInContent } from '../../services/LinkService';
+import { joinPath, getFileName, getFolder, splitPath } from '../../utils/pathUtils';
+import { extractTags } from '../../utils/tagUtils';
+import { sanitizeFileName, getUniqueFileName } from '../../utils/fileNameUtils';
+import { DEFAULT_DAILY_NOTES_SETTINGS, getDailyNotePath, getTemplatePath, formatDailyEntry, appendDailyEntry } from '../../utils/dailyNoteUtils';
+import { applyTemplateVariables, removeCursorMarker } from '../../utils/templateUtils';
+import { toggleTask } from '../../utils/taskUtils';
+import { hasSearchQuery } from '../../utils/filterUtils';
+import { getActiveFilters, getFilteredState } from './createUISlice';
+import { getListView, sortNotes, planManualOrder } from '../../utils/sortUtils';
+import { withCreatedProperty } from '../../utils/createdUtils';
+
+// Defer the search index update and the (expensive) link index rebuild off the
+// critical save path. Multiple successive calls within the same tick collapse into one.
 // Safe to use only when no active search query depends on the immediate index.
 let pendingInitNotes: Note[] | null = null;
 let initScheduled = false;
@@ -17,26 +29,59 @@ const scheduleSearchInit = (notes: Note[]) => {
     setTimeout(() => {
         initScheduled = false;
         if (pendingInitNotes) {
-            SearchService.initialize(pendingInitNotes);
+            SearchService.sync(pendingInitNotes);
+            LinkService.initialize(pendingInitNotes);
             pendingInitNotes = null;
         }
     }, 0);
 };
 
+// What the vault holds for a note; a conflicted note carries it aside
+const getVaultContent = (note: Note): string => note.conflict?.theirs ?? note.content;
+
+// Notes with an unresolved conflict keep their local edits until the user
+// picks a side; only the vault side of the conflict follows the disk.
+const keepConflicts = (fresh: Note[], current: Note[]): Note[] => {
+    const conflicted = new Map(current.filter((n) => n.conflict).map((n) => [n.id, n]));
+    if (conflicted.size === 0) return fresh;
+    return fresh.map((n) => {
+        const curr = conflicted.get(n.id);
+        if (!curr || !curr.conflict) return n;
+        const theirs = getVaultContent(n);
+        return curr.conflict.theirs === theirs ? curr : { ...curr, conflict: { ...curr.conflict, theirs } };
+    });
+};
+
+// Sort mode of the list on screen, chosen per domain filter
+const currentSortMode = (state: StoreState) => getListView(state.settings, state.currentDomain).sort;
+
+export type ConflictResolution = 'mine' | 'theirs' | 'both';
+
 export interface DataSlice {
     notes: Note[];
     filteredNotes: Note[];
     isVaultPermissionGranted: boolean;
+    /** The last listing of the vault failed; the notes shown are the ones kept on the device */
+    isVaultUnreachable: boolean;
     lockedNoteIds: Set<string>;
     loadNotes: () => Promise<void>;
-    syncFromExternal: () => Promise<void>;
+    syncFromExternal: (paths?: string[]) => Promise<boolean>;
+    flushPendingWrites: () => Promise<void>;
     lockNote: (id: string) => void;
     unlockNote: (id: string) => void;
-    createNote: (title: string, content: string) => Promise<Note>;
+    createNote: (title: string, content: string, folder?: string) => Promise<Note>;
     updateNote: (id: string, filePath: string, content: string, skipSort?: boolean) => Promise<Note>;
     deleteNote: (filePath: string) => Promise<void>;
     archiveNote: (filePath: string) => Promise<void>;
+    renameNote: (id: string, newTitle: string) => Promise<Note>;
     togglePinNote: (noteId: string, currentContent?: string, skipSort?: boolean) => Promise<void>;
+    resolveConflict: (id: string, resolution: ConflictResolution) => Promise<void>;
+    restoreVersion: (id: string, content: string) => Promise<Note>;
+    openDailyNote: (date?: Date) => Promise<Note>;
+    appendToDailyNote: (text: string) => Promise<Note>;
+    migrateDomain: (from: DomainType, to: DomainType | null) => Promise<number>;
+    toggleTask: (task: Task) => Promise<Note>;
+    reorderNote: (id: string, toIndex: number) => Promise<void>;
     refreshSort: () => void;
 }
 
@@ -49,6 +94,7 @@ export const createDataSlice: StateCreator<
     notes: [],
     filteredNotes: [],
     isVaultPermissionGranted: true, // Default to true, update in loadNotes
+    isVaultUnreachable: false,
     lockedNoteIds: new Set<string>(),
 
     lockNote: (id: string) => {
@@ -63,13 +109,26 @@ export const createDataSlice: StateCreator<
         set({ lockedNoteIds: next });
     },
 
-    syncFromExternal: async () => {
+    // Merge changes made outside the app. With `paths` (from a vault watcher)
+    // only those files are read; resolves whether anything changed.
+    syncFromExternal: async (paths?: string[]) => {
         try {
             const state = get();
             const currentNotes = state.notes;
             const lockedIds = state.lockedNoteIds;
 
-            const fresh = await StorageService.listNotes(currentNotes);
+            let fresh: Note[];
+            try {
+                fresh = paths && paths.length > 0
+                    ? await StorageService.listChangedNotes(paths, currentNotes)
+                    : await StorageService.listNotes();
+            } catch (listError) {
+                // Keep the notes on screen rather than empty the list
+                console.warn('Background sync could not read the vault:', listError);
+                if (!get().isVaultUnreachable) set({ isVaultUnreachable: true });
+                return false;
+            }
+            if (get().isVaultUnreachable) set({ isVaultUnreachable: false });
 
             const currentMap = new Map(currentNotes.map((n) => [n.id, n]));
             const freshMap = new Map(fresh.map((n) => [n.id, n]));
@@ -80,15 +139,20 @@ export const createDataSlice: StateCreator<
                 for (const [id, freshNote] of freshMap) {
                     const curr = currentMap.get(id);
                     if (!curr) { hasChanges = true; break; }
+                    if (curr === freshNote) continue;
+                    if (curr.conflict) {
+                        if (curr.conflict.theirs !== getVaultContent(freshNote)) { hasChanges = true; break; }
+                        continue;
+                    }
                     if (curr.updatedAt.getTime() !== freshNote.updatedAt.getTime()) { hasChanges = true; break; }
                     if (curr.content !== freshNote.content) { hasChanges = true; break; }
                 }
             }
 
-            if (!hasChanges) return;
+            if (!hasChanges) return false;
 
             // Preserve locked notes (currently being edited) from current state
-            const merged = fresh.map((n) => {
+            const merged = keepConflicts(fresh, currentNotes).map((n) => {
                 if (lockedIds.has(n.id)) {
                     const curr = currentMap.get(n.id);
                     if (curr) return curr;
@@ -96,27 +160,44 @@ export const createDataSlice: StateCreator<
                 return n;
             });
 
-            const sorted = merged.sort((a, b) => {
-                if (a.pinned && !b.pinned) return -1;
-                if (!a.pinned && b.pinned) return 1;
-                return b.updatedAt.getTime() - a.updatedAt.getTime();
-            });
+            const sorted = sortNotes(merged, currentSortMode(get()));
 
-            SearchService.initialize(sorted);
+            SearchService.sync(sorted);
 
-            const { searchQuery, selectedTag, currentDomain } = state;
-            let filtered: Note[] = sorted;
-            if (searchQuery) {
-                filtered = SearchService.search(searchQuery).map((r) => r.note);
-            } else if (selectedTag) {
-                filtered = SearchService.filterByTag(sorted, selectedTag);
-            } else if (currentDomain) {
-                filtered = sorted.filter((n) => n.domain === currentDomain);
-            }
+            LinkService.initialize(sorted);
 
-            set({ notes: sorted, filteredNotes: filtered });
+            set({ notes: sorted, ...getFilteredState(sorted, get()) });
+            return true;
         } catch (error) {
             console.warn('Background sync (syncFromExternal) failed:', error);
+            return false;
+        }
+    },
+
+    // Retry saves the vault could not take (see StorageService.saveNote)
+    flushPendingWrites: async () => {
+        try {
+            const changed = await StorageService.flushPendingWrites(get().notes);
+            if (changed.length === 0) return;
+
+            const changedMap = new Map(changed.map((n) => [n.id, n]));
+            const lockedIds = get().lockedNoteIds;
+            const current = get().notes;
+            const notes = current.map((n) => {
+                const updated = changedMap.get(n.id);
+                if (!updated) return n;
+                changedMap.delete(n.id);
+                // The editor owns the content of a note being edited
+                return lockedIds.has(n.id) ? { ...n, syncStatus: updated.syncStatus, conflict: updated.conflict } : updated;
+            });
+            // Notes known only to the journal
+            changedMap.forEach((n) => notes.push(n));
+
+            const sorted = sortNotes(notes, currentSortMode(get()));
+            scheduleSearchInit(sorted);
+            set({ notes: sorted, ...getFilteredState(sorted, get()) });
+        } catch (error) {
+            console.warn('Flushing pending writes failed:', error);
         }
     },
 
@@ -126,48 +207,87 @@ export const createDataSlice: StateCreator<
             const currentSettings = get().settings;
             if (currentSettings.vault) {
                 StorageService.setConfig(currentSettings.vault);
+            }
+
+            // On launch, show the notes as last listed while the vault is read
+            if (get().notes.length === 0) {
+                const cached = sortNotes(await StorageService.listCachedNotes(), currentSortMode(get()));
+                if (cached.length > 0) {
+                    SearchService.sync(cached);
+                    LinkService.initialize(cached);
+                    set({ notes: cached, ...getFilteredState(cached, get()) });
+                }
+            }
+
+            if (currentSettings.vault) {
                 const granted = await StorageService.verifyPermission();
                 set({ isVaultPermissionGranted: granted });
             }
 
             const currentNotes = get().notes;
-            const notes = await StorageService.listNotes(currentNotes);
-            const sortedNotes = notes.sort((a, b) => {
-                if (a.pinned && !b.pinned) return -1;
-                if (!a.pinned && b.pinned) return 1;
-                return b.updatedAt.getTime() - a.updatedAt.getTime();
-            });
-            SearchService.initialize(sortedNotes);
-            set({ notes: sortedNotes, filteredNotes: sortedNotes, isLoading: false });
+            let listed: Note[];
+            let isVaultUnreachable = false;
+            try {
+                listed = await StorageService.listNotes();
+            } catch (listError) {
+                // Offline or no access: show this vault's notes as last listed,
+                // with their unwritten edits, instead of an empty list
+                console.warn('Failed to list the vault, showing cached notes:', listError);
+                listed = await StorageService.listCachedNotes();
+                isVaultUnreachable = true;
+            }
+            const notes = keepConflicts(listed, currentNotes);
+            const sortedNotes = sortNotes(notes, currentSortMode(get()));
+            SearchService.sync(sortedNotes);
+            LinkService.initialize(sortedNotes);
+            set({ notes: sortedNotes, ...getFilteredState(sortedNotes, get()), isLoading: false, isVaultUnreachable });
+            if (isVaultUnreachable) return;
+
+            if (currentSettings.syncDomainsWithVault) {
+                get().loadVaultDomains().catch((err) => console.warn('Failed to load vault domains:', err));
+            }
+
+            // The vault may be reachable again (reconnected, permission granted)
+            if (sortedNotes.some((n) => n.syncStatus === 'pending' || n.syncStatus === 'error')) {
+                get().flushPendingWrites();
+            }
+
+            // Housekeeping off the critical path; throttled inside StorageService
+            StorageService.purgeExpiredTrash(currentSettings.trashRetentionDays ?? 30)
+                .catch((err) => console.warn('Trash purge failed:', err));
         } catch (error) {
             set({ error: (error as Error).message, isLoading: false });
         }
     },
 
-    createNote: async (title: string, content: string) => {
+    createNote: async (title: string, content: string, folder?: string) => {
         set({ isLoading: true, error: null });
         try {
+            // Never overwrite an existing note: `Name.md` becomes `Name 2.md`
+            const siblings = get().notes
+                .filter((n) => getFolder(n.id) === joinPath(folder))
+                .map((n) => getFileName(n.id));
+            const fileName = getUniqueFileName(title.endsWith('.md') ? title : `${title}.md`, siblings);
+            const path = joinPath(folder, fileName);
+            const now = new Date();
+            // Recorded in the note so the date survives edits, copies and sync
             const newNote: Note = {
-                id: title.endsWith('.md') ? title : `${title}.md`,
-                title,
-                content,
-                createdAt: new Date(),
-                updatedAt: new Date(),
+                id: path,
+                title: fileName.replace('.md', ''),
+                content: withCreatedProperty(content, now),
+                createdAt: now,
+                updatedAt: now,
                 syncStatus: 'synced',
                 tags: [],
-                filePath: '',
+                filePath: path,
             };
 
             const savedNote = await StorageService.saveNote(newNote);
             const notes = [savedNote, ...get().notes];
-            notes.sort((a, b) => {
-                if (a.pinned && !b.pinned) return -1;
-                if (!a.pinned && b.pinned) return 1;
-                return b.updatedAt.getTime() - a.updatedAt.getTime();
-            });
-            // No active search at note-create time → defer Fuse index rebuild.
+            sortNotes(notes, currentSortMode(get()));
+            // No active search at note-create time → defer the index update.
             scheduleSearchInit(notes);
-            set({ notes, filteredNotes: notes, isLoading: false });
+            set({ notes, ...getFilteredState(notes, get()), isLoading: false });
 
             return savedNote;
         } catch (error) {
@@ -179,11 +299,13 @@ export const createDataSlice: StateCreator<
     updateNote: async (id: string, filePath: string, content: string, skipSort?: boolean) => {
         try {
             let currentNote = get().notes.find((n) => n.id === id);
+            // What the vault held when this edit started, for conflict detection
+            const baseContent = currentNote ? (currentNote.conflict?.base ?? currentNote.content) : undefined;
 
             if (!currentNote) {
                 currentNote = {
                     id,
-                    title: id.replace('.md', ''),
+                    title: getFileName(id).replace('.md', ''),
                     content,
                     createdAt: new Date(),
                     updatedAt: new Date(),
@@ -196,7 +318,7 @@ export const createDataSlice: StateCreator<
             }
 
             const updatedNoteBase = { ...currentNote, content };
-            const savedNote = await StorageService.saveNote(updatedNoteBase);
+            const savedNote = await StorageService.saveNote(updatedNoteBase, baseContent);
 
             let notes = get().notes;
             if (notes.some((n) => n.id === id)) {
@@ -214,29 +336,19 @@ export const createDataSlice: StateCreator<
             }
 
             if (!skipSort) {
-                notes.sort((a, b) => {
-                    if (a.pinned && !b.pinned) return -1;
-                    if (!a.pinned && b.pinned) return 1;
-                    return b.updatedAt.getTime() - a.updatedAt.getTime();
-                });
+                sortNotes(notes, currentSortMode(get()));
             }
 
-            const { searchQuery, selectedTag } = get();
-            let filtered = notes;
-            if (searchQuery) {
+            const filters = getActiveFilters(get());
+            if (hasSearchQuery(filters)) {
                 // Active search needs a fresh index synchronously.
-                SearchService.initialize(notes);
-                const results = SearchService.search(searchQuery);
-                filtered = results.map((r) => r.note);
-            } else if (selectedTag) {
-                filtered = SearchService.filterByTag(notes, selectedTag);
-                scheduleSearchInit(notes);
+                SearchService.sync(notes);
+                LinkService.initialize(notes);
             } else {
-                filtered = notes;
                 scheduleSearchInit(notes);
             }
 
-            set({ notes, filteredNotes: filtered });
+            set({ notes, ...getFilteredState(notes, get()) });
             return savedNote;
         } catch (error) {
             set({ error: (error as Error).message });
@@ -253,8 +365,9 @@ export const createDataSlice: StateCreator<
             }
 
             const notes = get().notes.filter((note) => note.filePath !== filePath);
-            SearchService.initialize(notes);
-            set({ notes, filteredNotes: notes, isLoading: false });
+            SearchService.sync(notes);
+            LinkService.initialize(notes);
+            set({ notes, ...getFilteredState(notes, get()), isLoading: false });
         } catch (error) {
             set({ error: (error as Error).message, isLoading: false });
         }
@@ -269,13 +382,52 @@ export const createDataSlice: StateCreator<
             }
 
             const notes = get().notes.filter((note) => note.filePath !== filePath);
-            SearchService.initialize(notes);
-            set({ notes, filteredNotes: notes, isLoading: false });
+            SearchService.sync(notes);
+            LinkService.initialize(notes);
+            set({ notes, ...getFilteredState(notes, get()), isLoading: false });
         } catch (error) {
             set({ error: (error as Error).message, isLoading: false });
         }
     },
 
+    renameNote: async (id: string, newTitle: string) => {
+        const note = get().notes.find((n) => n.id === id);
+        if (!note) throw new Error('Note not found');
+
+        const title = sanitizeFileName(newTitle.trim().replace(/\.md$/i, ''));
+        if (!title) throw new Error('Note name cannot be empty');
+
+        const newPath = joinPath(getFolder(note.id), `${title}.md`);
+        if (newPath === note.id) return note;
+        if (get().notes.some((n) => n.id !== id && n.id.toLowerCase() === newPath.toLowerCase())) {
+            throw new Error(`A note named "${title}" already exists`);
+        }
+
+        try {
+            // Collect linking notes before the index forgets the old path
+            const linkingNotes = LinkService.getLinkingNotes(id);
+            const renamed = await StorageService.renameNote(note, newPath);
+
+            // Rewrite [[Old name]] links so they keep pointing at the note
+            const relinked = new Map<string, Note>();
+            for (const source of linkingNotes) {
+                const content = updateLinksInContent(source.content, note.id, newPath);
+                if (content !== source.content) {
+                    relinked.set(source.id, await StorageService.saveNote({ ...source, content }, source.content));
+                }
+            }
+
+            const notes = get().notes.map((n) => (n.id === id ? renamed : relinked.get(n.id) || n));
+            set({ notes });
+            // Re-sort, re-index and re-apply the active filters
+            get().refreshSort();
+            return renamed;
+        } catch (error) {
+            set({ error: (error as Error).message });
+            throw error;
+        }
+    },
+
     togglePinNote: async (noteId: string, currentContent?: string, skipSort?: boolean) => {
         try {
             const note = get().notes.find((n) => n.id === noteId);
@@ -291,33 +443,163 @@ export const createDataSlice: StateCreator<
                 newContent = removeFrontmatterKey(contentToUpdate, 'pinned');
             }
 
-            const updatedNote = { ...note, content: newContent, pinned: newPinned };
-            await StorageService.saveNote(updatedNote);
+            const updatedNote = await StorageService.saveNote({ ...note, content: newContent, pinned: newPinned }, note.content);
 
             const notes = get().notes.map((n) => (n.id === noteId ? updatedNote : n));
             if (!skipSort) {
-                notes.sort((a, b) => {
-                    if (a.pinned && !b.pinned) return -1;
-                    if (!a.pinned && b.pinned) return 1;
-                    return b.updatedAt.getTime() - a.updatedAt.getTime();
-                });
+                sortNotes(notes, currentSortMode(get()));
             }
-            SearchService.initialize(notes);
-
-            const { searchQuery, selectedTag, currentDomain } = get();
-            let filtered = notes;
-            if (searchQuery) {
-                const results = SearchService.search(searchQuery);
-                filtered = results.map((r) => r.note);
-            } else if (selectedTag) {
-                filtered = SearchService.filterByTag(notes, selectedTag);
-            } else if (currentDomain) {
-                filtered = notes.filter((n) => n.domain === currentDomain);
+            SearchService.sync(notes);
+            LinkService.initialize(notes);
+
+            set({ notes, ...getFilteredState(notes, get()) });
+        } catch (error) {
+            set({ error: (error as Error).message });
+        }
+    },
+
+    resolveConflict: async (id: string, resolution: ConflictResolution) => {
+        const note = get().notes.find((n) => n.id === id);
+        if (!note || !note.conflict) return;
+
+        try {
+            const { theirs } = note.conflict;
+            let resolved: Note;
+            let copy: Note | null = null;
+
+            if (resolution === 'mine') {
+                // Overwrite the vault version with the local edits
+                resolved = await StorageService.saveNote({ ...note, syncStatus: 'synced' });
             } else {
-                filtered = notes;
+                if (resolution === 'both') {
+                    copy = await StorageService.saveConflictCopy(note);
+                }
+                await StorageService.discardConflict(note);
+                // The vault already holds `theirs`; adopt it without writing.
+                // updatedAt stays stale so the next sync takes the vault's note.
+                resolved = {
+                    ...note,
+                    content: theirs,
+                    syncStatus: 'synced',
+                    tags: extractTags(theirs),
+                    pinned: getFrontmatterProperty<boolean>(theirs, 'pinned') || false,
+                    domain: getFrontmatterProperty<DomainType>(theirs, 'domain') || undefined,
+                };
+                delete resolved.conflict;
+            }
+
+            const notes = get().notes.map((n) => (n.id === id ? resolved : n));
+            set({ notes: copy ? [copy, ...notes] : notes });
+            get().refreshSort();
+        } catch (error) {
+            set({ error: (error as Error).message });
+        }
+    },
+
+    restoreVersion: async (id: string, content: string) => {
+        const note = get().notes.find((n) => n.id === id);
+        if (!note) throw new Error('Note not found');
+
+        // Keep the content being replaced, even inside the coalescing window
+        await StorageService.snapshotNote(note);
+        return get().updateNote(id, note.filePath, content);
+    },
+
+    // The daily note for `date` (default today), created from the configured
+    // template when it does not exist yet
+    openDailyNote: async (date: Date = new Date()) => {
+        const dailySettings = get().settings.dailyNotes ?? DEFAULT_DAILY_NOTES_SETTINGS;
+        const path = getDailyNotePath(date, dailySettings);
+        const findNote = () => get().notes.find((n) => n.id.toLowerCase() === path.toLowerCase());
+
+        let note = findNote();
+        if (note) return note;
+
+        // Created elsewhere (Obsidian, another device) since the last sync
+        if (await StorageService.readFile(path) !== null) {
+            await get().syncFromExternal();
+            note = findNote();
+            if (note) return note;
+        }
+
+        const { dir, name } = splitPath(path);
+        const title = name.replace(/\.md$/, '');
+        const templatePath = getTemplatePath(dailySettings.template);
+        const template = templatePath ? await StorageService.readFile(templatePath) : null;
+        if (templatePath && template === null) {
+            console.warn(`Daily note template not found: ${templatePath}`);
+        }
+        // As in Obsidian, a bare {{date}} uses the daily note format
+        const content = template !== null
+            ? removeCursorMarker(applyTemplateVariables(template, { title, date, dateFormat: dailySettings.format }))
+            : `# ${title}\n`;
+        return get().createNote(title, content, dir || undefined);
+    },
+
+    appendToDailyNote: async (text: string) => {
+        const now = new Date();
+        const note = await get().openDailyNote(now);
+        const content = appendDailyEntry(note.content, formatDailyEntry(text, now));
+        return get().updateNote(note.id, note.id, content);
+    },
+
+    // Rename / merge (`to` set) or drop (`to` null) a domain across every
+    // note, archived ones included. Returns the number of notes rewritten.
+    migrateDomain: async (from: DomainType, to: DomainType | null) => {
+        set({ isLoading: true, error: null });
+        try {
+            const saved = new Map<string, Note>();
+            for (const note of get().notes.filter((n) => n.domain === from)) {
+                const content = to ? updateFrontmatter(note.content, 'domain', to) : removeFrontmatterKey(note.content, 'domain');
+                const savedNote = await StorageService.saveNote({ ...note, content }, note.conflict?.base ?? note.content);
+                saved.set(note.id, savedNote);
             }
+            const archived = await StorageService.migrateArchivedDomain(from, to);
 
-            set({ notes, filteredNotes: filtered });
+            const notes = get().notes.map((n) => saved.get(n.id) ?? n);
+            set({
+                notes,
+                isLoading: false,
+                ...(get().currentDomain === from ? { currentDomain: to } : {}),
+            });
+            get().refreshSort();
+            return saved.size + archived;
+        } catch (error) {
+            set({ error: (error as Error).message, isLoading: false });
+            throw error;
+        }
+    },
+
+    // Check/uncheck a task from outside its note (the Tasks screen)
+    toggleTask: async (task: Task) => {
+        const note = get().notes.find((n) => n.id === task.noteId);
+        if (!note) throw new Error('Note not found');
+        return get().updateNote(note.id, note.filePath, toggleTask(note.content, task));
+    },
+
+    // Manual sort: move a note to `toIndex` of the list on screen. Only the
+    // notes whose place changes get a new `order:` written.
+    reorderNote: async (id: string, toIndex: number) => {
+        const list = get().filteredNotes;
+        const from = list.findIndex((n) => n.id === id);
+        if (from === -1 || from === toIndex) return;
+        const changes = planManualOrder(list, from, toIndex);
+
+        // Show the new order right away, the writes follow
+        const reordered = get().notes.map((n) => (changes.has(n.id) ? { ...n, order: changes.get(n.id) } : n));
+        set({ notes: sortNotes(reordered, currentSortMode(get())) });
+        get().applyFilters();
+
+        try {
+            const saved = new Map<string, Note>();
+            for (const [noteId, order] of changes) {
+                const note = get().notes.find((n) => n.id === noteId);
+                if (!note) continue;
+                const content = updateFrontmatter(note.content, 'order', order);
+                saved.set(noteId, await StorageService.saveNote({ ...note, content }, note.conflict?.base ?? note.content));
+            }
+            set({ notes: get().notes.map((n) => saved.get(n.id) ?? n) });
+            get().refreshSort();
         } catch (error) {
             set({ error: (error as Error).message });
         }
@@ -325,27 +607,12 @@ export const createDataSlice: StateCreator<
 
     refreshSort: () => {
         const notes = [...get().notes];
-        notes.sort((a, b) => {
-            if (a.pinned && !b.pinned) return -1;
-            if (!a.pinned && b.pinned) return 1;
-            return b.updatedAt.getTime() - a.updatedAt.getTime();
-        });
-
-        SearchService.initialize(notes);
-
-        const { searchQuery, selectedTag, currentDomain } = get();
-        let filtered = notes;
-        if (searchQuery) {
-            const results = SearchService.search(searchQuery);
-            filtered = results.map((r) => r.note);
-        } else if (selectedTag) {
-            filtered = SearchService.filterByTag(notes, selectedTag);
-        } else if (currentDomain) {
-            filtered = notes.filter((n) => n.domain === currentDomain);
-        } else {
-            filtered = notes;
-        }
+        sortNotes(notes, currentSortMode(get()));
+
+        SearchService.sync(notes);
+
+        LinkService.initialize(notes);
 
-        set({ notes, filteredNotes: filtered });
+        set({ notes, ...getFilteredState(notes, get()) });
     },
 });
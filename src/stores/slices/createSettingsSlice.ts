@@ -2,23 +2,41 @@ import { StateCreator } from 'zustand';
 import { AppSettings, PureNotesVaultConfig } from '../../types/Note';
 import StorageService from '../../services/StorageService';
 import { StoreState } from '../notesStore';
+import { DEFAULT_DAILY_NOTES_SETTINGS } from '../../utils/dailyNoteUtils';
+import { DEFAULT_TEMPLATES_SETTINGS } from '../../utils/templateUtils';
+import { DEFAULT_DOMAINS, getDomains } from '../../utils/domainUtils';
+import { DEFAULT_TASKS_SETTINGS } from '../../utils/taskUtils';
+import { DEFAULT_REMINDERS_SETTINGS } from '../../utils/reminderUtils';
+import { DEFAULT_ATTACHMENT_FOLDER } from '../../utils/attachmentUtils';
 
 export interface SettingsSlice {
     settings: AppSettings;
     updateSettings: (settings: Partial<AppSettings>) => void;
     setVaultConfig: (config: PureNotesVaultConfig) => void;
     reconnectWebVault: () => Promise<void>;
+    loadVaultDomains: () => Promise<void>;
     setEditorMode: (mode: 'markdown' | 'richtext') => void;
 }
 
-const defaultSettings: AppSettings = {
+export const defaultSettings: AppSettings = {
     vault: null,
-    autoSync: false,
-    syncInterval: 15,
+    autoSync: true,
+    syncInterval: 5,
     theme: 'auto',
     defaultView: 'grid',
     editorMode: 'richtext',
     textScale: 1,
+    trashRetentionDays: 30,
+    noteNaming: 'timestamp',
+    dailyNotes: DEFAULT_DAILY_NOTES_SETTINGS,
+    templates: DEFAULT_TEMPLATES_SETTINGS,
+    attachmentFolder: DEFAULT_ATTACHMENT_FOLDER,
+    domains: DEFAULT_DOMAINS,
+    syncDomainsWithVault: false,
+    tasks: DEFAULT_TASKS_SETTINGS,
+    reminders: DEFAULT_REMINDERS_SETTINGS,
+    smartLists: [],
+    listViews: {},
 };
 
 export const createSettingsSlice: StateCreator<
@@ -37,6 +55,26 @@ export const createSettingsSlice: StateCreator<
             StorageService.setConfig(newSettings.vault);
             get().loadNotes().catch((err) => console.error('Failed to reload notes after settings update:', err));
         }
+
+        if (newSettings.syncDomainsWithVault) {
+            get().loadVaultDomains().catch((err) => console.error('Failed to load vault domains:', err));
+        } else if (newSettings.domains !== undefined && settings.syncDomainsWithVault) {
+            StorageService.writeDomainsConfig(newSettings.domains)
+                .catch((err) => console.error('Failed to save domains to the vault:', err));
+        }
+
+        // An edited smart list may be the one on screen; a deleted one is deselected
+        if (newSettings.smartLists !== undefined) {
+            const { activeSmartListId } = get();
+            if (activeSmartListId && !newSettings.smartLists.some((list) => list.id === activeSmartListId)) {
+                set({ activeSmartListId: null });
+            }
+            get().applyFilters();
+        }
+
+        if (newSettings.listViews !== undefined) {
+            get().refreshSort();
+        }
     },
 
     setVaultConfig: (config: PureNotesVaultConfig) => {
@@ -54,6 +92,18 @@ export const createSettingsSlice: StateCreator<
         }
     },
 
+    // The vault's domains win over the local ones; a vault without a
+    // domains file gets ours, so the next device picks them up
+    loadVaultDomains: async () => {
+        const vaultDomains = await StorageService.readDomainsConfig();
+        const domains = getDomains(get().settings);
+        if (!vaultDomains) {
+            await StorageService.writeDomainsConfig(domains);
+        } else if (JSON.stringify(vaultDomains) !== JSON.stringify(domains)) {
+            set({ settings: { ...get().settings, domains: vaultDomains } });
+        }
+    },
+
     // [INACTIVE] setEditorMode — מושבת, תמיד משתמשים ב-richtext
     setEditorMode: (mode: 'markdown' | 'richtext') => {
         const settings = { ...get().settings, editorMode: mode };
@@ -1,19 +1,53 @@
 import { StateCreator } from 'zustand';
-import { DomainType } from '../../types/Note';
-import SearchService from '../../services/SearchService';
+import { DomainType, Note, NoteFilter } from '../../types/Note';
+import { filterNotes } from '../../utils/filterUtils';
+import { getListView } from '../../utils/sortUtils';
 import { StoreState } from '../notesStore';
 
 export interface UISlice {
     searchQuery: string;
+    /** Where the search query matches each listed note, as ranges of its content */
+    searchMatches: Map<string, number[][]>;
     selectedTag: string | null;
     currentDomain: DomainType | null;
+    /** Vault-relative folder being browsed; null shows the whole vault */
+    currentFolder: string | null;
+    /** Saved smart list applied on top of the fields above */
+    activeSmartListId: string | null;
     isLoading: boolean;
     error: string | null;
     searchNotes: (query: string) => void;
     filterByTag: (tag: string | null) => void;
     filterByDomain: (domain: DomainType | null) => void;
+    filterByFolder: (folder: string | null) => void;
+    selectSmartList: (id: string | null) => void;
+    /** Recompute filteredNotes from the notes and the active filters */
+    applyFilters: () => void;
 }
 
+/**
+ * The filters the note list shows: the search box, tag, domain and folder
+ * as one filter, plus the active smart list if any.
+ */
+export const getActiveFilters = (state: StoreState): NoteFilter[] => {
+    const filters: NoteFilter[] = [{
+        query: state.searchQuery,
+        tags: state.selectedTag ? [state.selectedTag] : undefined,
+        domains: state.currentDomain ? [state.currentDomain] : undefined,
+        folder: state.currentFolder,
+    }];
+    const smartList = (state.settings.smartLists ?? []).find((list) => list.id === state.activeSmartListId);
+    if (smartList) filters.push(smartList.filter);
+    return filters;
+};
+
+/** The list state for `notes` under the active filters: what is shown, and where the search matched */
+export const getFilteredState = (notes: Note[], state: StoreState): Pick<StoreState, 'filteredNotes' | 'searchMatches'> => {
+    const searchMatches = new Map<string, number[][]>();
+    const filteredNotes = filterNotes(notes, getActiveFilters(state), new Date(), searchMatches);
+    return { filteredNotes, searchMatches };
+};
+
 export const createUISlice: StateCreator<
     StoreState,
     [],
@@ -21,74 +55,44 @@ export const createUISlice: StateCreator<
     UISlice
 > = (set, get) => ({
     searchQuery: '',
+    searchMatches: new Map(),
     selectedTag: null,
     currentDomain: null,
+    currentFolder: null,
+    activeSmartListId: null,
     isLoading: false,
     error: null,
 
     searchNotes: (query: string) => {
-        const currentTag = get().selectedTag;
-        const currentDomain = get().currentDomain;
-
-        let results = get().notes;
-
-        if (query.trim()) {
-            const searchResults = SearchService.search(query);
-            results = searchResults.map((r) => r.note);
-        }
-
-        if (currentTag) {
-            results = results.filter((n) => n.tags && n.tags.includes(currentTag));
-        }
-
-        if (currentDomain) {
-            results = results.filter((n) => n.domain === currentDomain);
-        }
-
-        set({ filteredNotes: results, searchQuery: query });
+        set({ searchQuery: query });
+        get().applyFilters();
     },
 
     filterByTag: (tag: string | null) => {
-        const query = get().searchQuery;
-        const currentDomain = get().currentDomain;
-
-        let results = get().notes;
-
-        if (query.trim()) {
-            const searchResults = SearchService.search(query);
-            results = searchResults.map((r) => r.note);
-        }
-
-        if (tag) {
-            results = results.filter((n) => n.tags && n.tags.includes(tag));
-        }
-
-        if (currentDomain) {
-            results = results.filter((n) => n.domain === currentDomain);
-        }
-
-        set({ filteredNotes: results, selectedTag: tag });
+        set({ selectedTag: tag });
+        get().applyFilters();
     },
 
+    // Each domain filter remembers its own sort
     filterByDomain: (domain: DomainType | null) => {
-        const query = get().searchQuery;
-        const currentTag = get().selectedTag;
-
-        let results = get().notes;
-
-        if (query.trim()) {
-            const searchResults = SearchService.search(query);
-            results = searchResults.map((r) => r.note);
-        }
+        const { settings, currentDomain } = get();
+        const resort = getListView(settings, domain).sort !== getListView(settings, currentDomain).sort;
+        set({ currentDomain: domain });
+        if (resort) get().refreshSort();
+        else get().applyFilters();
+    },
 
-        if (currentTag) {
-            results = results.filter((n) => n.tags && n.tags.includes(currentTag));
-        }
+    filterByFolder: (folder: string | null) => {
+        set({ currentFolder: folder });
+        get().applyFilters();
+    },
 
-        if (domain) {
-            results = results.filter((n) => n.domain === domain);
-        }
+    selectSmartList: (id: string | null) => {
+        set({ activeSmartListId: id });
+        get().applyFilters();
+    },
 
-        set({ filteredNotes: results, currentDomain: domain });
+    applyFilters: () => {
+        set(getFilteredState(get().notes, get()));
     },
 });
@@ -1,13 +1,15 @@
 // Note.ts - TypeScript interfaces for the app
 
-// Domain Types - Cognitive Contexts
-export type DomainType = 'action' | 'knowledge' | 'library';
+// Domain - a cognitive context, stored as the `domain:` frontmatter value.
+// Domains are user-defined (see AppSettings.domains); the built-in defaults
+// live in utils/domainUtils.
+export type DomainType = string;
 
-export const DOMAINS: Record<DomainType, { label: string; color: string; icon: string }> = {
-  action: { label: 'לעשות', color: '#E53935', icon: 'checkbox-outline' }, // Red
-  knowledge: { label: 'לדעת', color: '#1E88E5', icon: 'book-outline' }, // Blue
-  library: { label: 'לספרייה', color: '#8E24AA', icon: 'library-outline' }, // Purple
-};
+export interface DomainConfig {
+  id: DomainType; // Written verbatim to `domain:`; renaming rewrites the notes
+  color: string;
+  icon: string; // Ionicons name
+}
 
 export interface Note {
   id: string;
@@ -16,19 +18,133 @@ export interface Note {
   createdAt: Date;
   updatedAt: Date;
   filePath: string;
-  syncStatus: 'synced' | 'pending' | 'error';
+  syncStatus: 'synced' | 'pending' | 'error' | 'conflict';
   tags?: string[];
   pinned?: boolean;
   domain?: DomainType;
+  // `due:` / `remind:` frontmatter as written (`2026-10-20`, `2026-10-20 08:30`)
+  due?: string;
+  remind?: string;
+  // `order:` frontmatter, the note's place in the manual sort
+  order?: number;
+  // Set while syncStatus is 'conflict'; `content` then holds the unsaved local edits
+  conflict?: NoteConflict;
+}
+
+// A local edit that overlapped with a change made to the file outside the app
+export interface NoteConflict {
+  // Content both versions started from
+  base: string;
+  // Content of the file in the vault
+  theirs: string;
+}
+
+// A note linking to another note via [[wikilink]]
+export interface Backlink {
+  sourceId: string;
+  // The line of the source note containing the link
+  context: string;
+}
+
+// A note moved to the vault's `.trash` folder
+export interface TrashedNote extends Note {
+  trashedAt: Date;
+  // Vault-relative path the note was deleted from
+  originalPath: string;
+}
+
+// A snapshot in a note's version history
+export interface NoteVersion {
+  // Snapshot file name inside the note's history folder
+  id: string;
+  // When the snapshot was taken
+  createdAt: Date;
+}
+
+// Priority of a task, from the Obsidian Tasks emoji on its line
+export type TaskPriority = 'highest' | 'high' | 'medium' | 'none' | 'low' | 'lowest';
+
+// A `- [ ]` checklist item, with any Obsidian Tasks metadata on its line
+export interface Task {
+  noteId: string;
+  // 0-based line in the note's content
+  line: number;
+  // The whole line as read, to find it again when writing back
+  raw: string;
+  checked: boolean;
+  // Text without the checkbox and metadata
+  description: string;
+  priority: TaskPriority;
+  // Dates as YYYY-MM-DD: 📅 due, ⏳ scheduled, 🛫 start, ✅ done
+  due?: string;
+  scheduled?: string;
+  start?: string;
+  done?: string;
+  // 🔁 rule, e.g. "every week" or "every 2 days when done"
+  recurrence?: string;
 }
 
 export interface PureNotesVaultConfig {
   vaultName: string;
   folderPath?: string; // Optional folder path within the vault (e.g., "Notes/Mobile")
   vaultDirectoryUri?: string; // Actual file system URI to the vault directory for direct sync
+  provider?: 'webdav'; // Set for a vault on a WebDAV server, whose URL is vaultDirectoryUri; otherwise the platform's folder provider
   isConnected: boolean;
 }
 
+// Same fields as Obsidian's Daily notes plugin settings
+export interface DailyNotesSettings {
+  folder: string; // Vault-relative folder, '' for the vault root
+  format: string; // moment.js file name format, e.g. "YYYY-MM-DD"
+  template: string; // Vault-relative path of the template note, '' for none
+}
+
+// Same fields as Obsidian's core Templates plugin settings
+export interface TemplatesSettings {
+  folder: string; // Vault-relative folder holding the template notes
+  dateFormat: string; // moment.js format for {{date}}
+  timeFormat: string; // moment.js format for {{time}}
+}
+
+export interface TasksSettings {
+  groupBy: 'note' | 'domain' | 'due';
+  showCompleted: boolean;
+  includeArchive: boolean;
+}
+
+export interface RemindersSettings {
+  enabled: boolean;
+  defaultTime: string; // HH:mm for reminders given as a date only
+}
+
+// How the note list is ordered and split into sections
+export type NoteSortMode = 'modified' | 'created' | 'title' | 'manual';
+export type NoteGroupMode = 'none' | 'domain' | 'date' | 'folder';
+
+export interface ListViewSettings {
+  sort: NoteSortMode;
+  group: NoteGroupMode;
+}
+
+// Criteria a note must all meet; unset ones don't filter. Lists match any
+// of their values.
+export interface NoteFilter {
+  query?: string; // search syntax, see utils/searchUtils
+  tags?: string[];
+  domains?: DomainType[];
+  folder?: string | null;
+  pinned?: boolean;
+  hasOpenTasks?: boolean;
+  modifiedWithinDays?: number;
+}
+
+// A named, saved filter shown as a chip under the search bar
+export interface SmartList {
+  id: string;
+  name: string;
+  filter: NoteFilter;
+}
+
 export interface AppSettings {
   vault: PureNotesVaultConfig | null;
   autoSync: boolean;
@@ -39,13 +155,45 @@ export interface AppSettings {
   // Multiplier applied to note text size in the list (title + body).
   // 1.0 = default. Range enforced by the Settings slider (0.85–1.4).
   textScale: number;
+  // Days a deleted note stays in the trash before it is purged; 0 keeps it forever
+  trashRetentionDays: number;
+  // File names for new quick notes: creation timestamp, or the first heading
+  noteNaming: 'timestamp' | 'heading';
+  dailyNotes: DailyNotesSettings;
+  templates: TemplatesSettings;
+  // Where new images go, as Obsidian's attachmentFolderPath: '/' for the
+  // vault root, './sub' for a folder next to the note
+  attachmentFolder: string;
+  // Ordered as shown in the domain selectors
+  domains: DomainConfig[];
+  // Also keep the domains in the vault (`.purenotes/domains.json`) so every
+  // device opening the vault shares them
+  syncDomainsWithVault: boolean;
+  tasks: TasksSettings;
+  reminders: RemindersSettings;
+  smartLists: SmartList[];
+  // Per domain filter; '' is the unfiltered list
+  listViews: Record<string, ListViewSettings>;
 }
 
 export interface SearchResult {
   note: Note;
+  // Highlight ranges, [start, end] with end inclusive: `title` in note.title,
+  // `content` in note.content (the body only, not the frontmatter)
   matches: Array<{
     key: string;
     indices: number[][];
   }>;
+  // Higher is a better match
   score: number;
 }
+
+// A passage of a note body around search matches
+export interface SearchSnippet {
+  text: string;
+  // Where the passage sits in the note content
+  start: number;
+  end: number;
+  // Matches within `text`, [start, end] with end inclusive
+  indices: number[][];
+}
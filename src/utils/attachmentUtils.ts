@@ -0,0 +1,165 @@
+// attachmentUtils.ts - Images embedded in notes
+// Understands Obsidian embeds (`![[photo.png]]`, `![[photo.png|300]]`) and
+// standard markdown images (`![alt](attachments/photo.png)`). Targets are
+// looked up the way Obsidian's "attachment folder" setting places them:
+// the configured folder, the note's own folder, then the vault root.
+
+import { joinPath, getFolder, getFileName } from './pathUtils';
+import { formatDate } from './dateUtils';
+
+// Obsidian's default is the vault root; a folder keeps the vault tidy
+export const DEFAULT_ATTACHMENT_FOLDER = 'attachments';
+
+// URL scheme used to smuggle unresolved vault images through HTML / markdown
+export const ATTACHMENT_SCHEME = 'attachment:';
+
+const MIME_TYPES: Record<string, string> = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    heic: 'image/heic',
+    bmp: 'image/bmp',
+    svg: 'image/svg+xml',
+};
+
+// Captures: 1 = wiki embed body, 2 = markdown alt, 3 = markdown url
+const IMAGE_EMBED_REGEX = /!\[\[([^\[\]\n]+?)\]\]|!\[([^\]\n]*)\]\(\s*(<[^>\n]+>|[^)\s]+)(?:\s+"[^"\n]*")?\s*\)/g;
+const FENCED_CODE_REGEX = /^(```|~~~)[\s\S]*?^\1\s*$/gm;
+const EXTERNAL_URL_REGEX = /^(https?:|data:|blob:|file:)/i;
+
+export interface ImageEmbed {
+    /** Full matched text, e.g. `![[photo.png|300]]` */
+    raw: string;
+    /** Offset of `raw` in the scanned text */
+    index: number;
+    /** Vault path or file name as written, URL-decoded */
+    target: string;
+    alt: string;
+    /** Display width from `![[photo.png|300]]` */
+    width?: number;
+}
+
+const getExtension = (path: string): string => {
+    const match = path.match(/\.([^./]+)$/);
+    return match ? match[1].toLowerCase() : '';
+};
+
+export const isImagePath = (path: string): boolean => getExtension(path) in MIME_TYPES;
+
+export const getMimeType = (path: string): string => MIME_TYPES[getExtension(path)] ?? 'application/octet-stream';
+
+/** File extension for a picked image, from its name or else its MIME type */
+export const getImageExtension = (fileName?: string | null, mimeType?: string | null): string => {
+    const fromName = fileName ? getExtension(fileName) : '';
+    if (fromName in MIME_TYPES) return fromName === 'jpeg' ? 'jpg' : fromName;
+    const fromMime = Object.keys(MIME_TYPES).find((ext) => MIME_TYPES[ext] === mimeType);
+    return fromMime ?? 'jpg';
+};
+
+/** Obsidian's name for pasted images: `Pasted image 20261019083000.png` */
+export const getAttachmentFileName = (extension: string, date: Date = new Date()): string =>
+    `Pasted image ${formatDate(date, 'YYYYMMDDHHmmss')}.${extension}`;
+
+/**
+ * Folder new attachments of `notePath` go to. Follows Obsidian's
+ * `attachmentFolderPath`: `/` is the vault root, `./` the note's folder and
+ * `./sub` a subfolder next to the note.
+ */
+export const getAttachmentFolder = (notePath: string, setting: string): string => {
+    const folder = setting.trim();
+    if (folder === '.' || folder.startsWith('./')) return joinPath(getFolder(notePath), folder.substring(2));
+    return joinPath(folder);
+};
+
+/** Resolve `.` and `..` segments of a vault-relative path */
+const normalizePath = (path: string): string => {
+    const parts: string[] = [];
+    path.split('/').forEach((segment) => {
+        if (!segment || segment === '.') return;
+        if (segment === '..') parts.pop();
+        else parts.push(segment);
+    });
+    return parts.join('/');
+};
+
+const decodeTarget = (target: string): string => {
+    try {
+        return decodeURIComponent(target);
+    } catch {
+        return target;
+    }
+};
+
+/** True for images on the web or already loadable URIs, which need no lookup */
+export const isExternalImage = (src: string): boolean => EXTERNAL_URL_REGEX.test(src);
+
+/**
+ * Every embedded vault image in `text`, in order. Images inside fenced code
+ * and external (`https:` …) images are skipped.
+ */
+export const parseImageEmbeds = (text: string): ImageEmbed[] => {
+    if (!text.includes('![')) return [];
+    const scanned = text.replace(FENCED_CODE_REGEX, (block) => block.replace(/[^\n]/g, ' '));
+    const embeds: ImageEmbed[] = [];
+    for (const match of scanned.matchAll(IMAGE_EMBED_REGEX)) {
+        const index = match.index ?? 0;
+        const raw = text.substring(index, index + match[0].length);
+        if (match[1] !== undefined) {
+            const [target, size] = match[1].split('|');
+            if (!isImagePath(target.trim())) continue; // note embed
+            const width = size ? parseInt(size, 10) : NaN;
+            embeds.push({ raw, index, target: target.trim(), alt: getFileName(target.trim()), width: width > 0 ? width : undefined });
+        } else {
+            const url = match[3].replace(/^<|>$/g, '');
+            if (isExternalImage(url)) continue;
+            embeds.push({ raw, index, target: decodeTarget(url), alt: match[2] });
+        }
+    }
+    return embeds;
+};
+
+/** Rewrite each vault image embed with `replace`, leaving the rest of `text` as is */
+export const replaceImageEmbeds = (text: string, replace: (embed: ImageEmbed) => string): string => {
+    const embeds = parseImageEmbeds(text);
+    if (embeds.length === 0) return text;
+    let out = '';
+    let lastEnd = 0;
+    embeds.forEach((embed) => {
+        out += text.substring(lastEnd, embed.index) + replace(embed);
+        lastEnd = embed.index + embed.raw.length;
+    });
+    return out + text.substring(lastEnd);
+};
+
+/** `attachment:` URL standing for an embed target until it is resolved */
+export const toAttachmentSrc = (target: string, width?: number): string =>
+    `${ATTACHMENT_SCHEME}${encodeURIComponent(target)}${width ? `#${width}` : ''}`;
+
+/** Target and width of an image source: an `attachment:` URL or a vault path */
+export const parseAttachmentSrc = (src: string): { target: string; width?: number } => {
+    if (!src.startsWith(ATTACHMENT_SCHEME)) return { target: decodeTarget(src) };
+    const [target, width] = src.substring(ATTACHMENT_SCHEME.length).split('#');
+    return { target: decodeTarget(target), width: width ? parseInt(width, 10) || undefined : undefined };
+};
+
+/**
+ * Rewrite wiki image embeds as markdown images on the `attachment:` scheme
+ * so react-native-markdown-display parses them as image nodes.
+ */
+export const embedsToMarkdown = (text: string): string =>
+    replaceImageEmbeds(text, (embed) => (embed.raw.startsWith('![[')
+        ? `![${embed.alt.replace(/([\[\]\\])/g, '\\$1')}](${toAttachmentSrc(embed.target, embed.width)})`
+        : embed.raw));
+
+/**
+ * Vault paths `target` may refer to from `notePath`, most likely first.
+ */
+export const getAttachmentCandidates = (target: string, notePath: string, folderSetting: string): string[] => {
+    const noteFolder = getFolder(notePath);
+    const candidates = target.includes('/')
+        ? [joinPath(noteFolder, target), target]
+        : [joinPath(getAttachmentFolder(notePath, folderSetting), target), joinPath(noteFolder, target), target];
+    return Array.from(new Set(candidates.map(normalizePath))).filter(Boolean);
+};
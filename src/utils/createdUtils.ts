@@ -0,0 +1,50 @@
+// createdUtils.ts - When a note was created
+// The `created:` frontmatter wins: unlike file dates it survives edits,
+// copies and syncing between devices. Names other Obsidian plugins write
+// (`date created` from Linter, `created_at`, ...) are read as well. Without
+// one, the file's birth time where the platform reports it, else its
+// modification time.
+
+import { getFrontmatterProperty, updateFrontmatter } from '../services/FrontmatterService';
+import { formatDate } from './dateUtils';
+import { parseReminderDate } from './reminderUtils';
+
+export const CREATED_KEY = 'created';
+const CREATED_KEYS = [CREATED_KEY, 'date created', 'created_at', 'creation date', 'date_created'];
+// Obsidian's date & time property format
+const CREATED_FORMAT = 'YYYY-MM-DDTHH:mm:ss';
+// Full ISO timestamps with a zone, e.g. `2026-10-19T08:30:00.000Z`
+const ISO_ZONED_REGEX = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})$/;
+
+const parseCreated = (value: unknown): Date | null => {
+    if (typeof value !== 'string' || !value.trim()) return null;
+    const text = value.trim();
+    if (ISO_ZONED_REGEX.test(text)) {
+        const date = new Date(text);
+        return isNaN(date.getTime()) ? null : date;
+    }
+    return parseReminderDate(text, '00:00');
+};
+
+/** Creation date from the note's frontmatter, null when it has none */
+export const getCreatedProperty = (content: string): Date | null => {
+    for (const key of CREATED_KEYS) {
+        const date = parseCreated(getFrontmatterProperty<unknown>(content, key));
+        if (date) return date;
+    }
+    return null;
+};
+
+/**
+ * Creation date of a note file. A birth time later than the modification
+ * time comes from a copy or sync, so the earliest date is used — including
+ * `known`, the date recorded before the file was last edited, since most
+ * platforms report no birth time and an edit moves the modification time.
+ */
+export const resolveCreatedAt = (content: string, file: { creationTime?: number; modificationTime: number }, known?: Date): Date =>
+    getCreatedProperty(content)
+    ?? new Date(Math.min(file.creationTime ?? Infinity, file.modificationTime, known?.getTime() ?? Infinity));
+
+/** `content` with a `created:` property, unless it already has a creation date */
+export const withCreatedProperty = (content: string, date: Date): string =>
+    getCreatedProperty(content) ? content : updateFrontmatter(content, CREATED_KEY, formatDate(date, CREATED_FORMAT));
@@ -0,0 +1,45 @@
+// dailyNoteUtils.ts - Paths and entries for daily notes
+// Settings mirror Obsidian's Daily notes plugin (`.obsidian/daily-notes.json`):
+// a folder, a moment.js file name format that may contain `/` for nested
+// folders (`YYYY/MM/YYYY-MM-DD`), and an optional template note.
+
+import { DailyNotesSettings } from '../types/Note';
+import { formatDate } from './dateUtils';
+import { joinPath } from './pathUtils';
+import { DEFAULT_DATE_FORMAT, DEFAULT_TIME_FORMAT } from './templateUtils';
+
+export const DEFAULT_DAILY_NOTES_SETTINGS: DailyNotesSettings = {
+    folder: '',
+    format: DEFAULT_DATE_FORMAT,
+    template: '',
+};
+
+/** Vault-relative path of the daily note for `date` */
+export const getDailyNotePath = (date: Date, settings: DailyNotesSettings): string => {
+    const name = formatDate(date, settings.format.trim() || DEFAULT_DATE_FORMAT);
+    return joinPath(settings.folder, `${name}.md`);
+};
+
+/** Vault-relative path of the template note, or null when none is set */
+export const getTemplatePath = (template: string): string | null => {
+    const path = joinPath(template.trim());
+    if (!path) return null;
+    return path.endsWith('.md') ? path : `${path}.md`;
+};
+
+/**
+ * A quick-add entry as a timestamped bullet: `- 14:05 Called the plumber`.
+ * Further lines are indented so they stay part of the same bullet.
+ */
+export const formatDailyEntry = (text: string, date: Date): string => {
+    const [first, ...rest] = text.trim().split('\n');
+    const lines = [`- ${formatDate(date, DEFAULT_TIME_FORMAT)} ${first}`];
+    rest.forEach((line) => lines.push(line ? `  ${line}` : ''));
+    return lines.join('\n');
+};
+
+/** Append an entry on its own line at the end of the note */
+export const appendDailyEntry = (content: string, entry: string): string => {
+    const trimmed = content.replace(/\s+$/, '');
+    return trimmed ? `${trimmed}\n${entry}\n` : `${entry}\n`;
+};
@@ -0,0 +1,76 @@
+// dateUtils.ts - Moment.js-style date formatting
+// Obsidian (daily notes, templates) describes dates with moment.js format
+// strings such as `YYYY-MM-DD` or `dddd, MMMM Do`. This implements the
+// commonly used tokens, in moment's default English locale, so file names and
+// template variables match what Obsidian produces for the same settings.
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Longest tokens first so `MMMM` wins over `MM`; `[...]` is escaped literal text
+const TOKEN_REGEX = /\[([^\]]*)\]|YYYY|YY|Q|MMMM|MMM|MM|M|DDDD|DDD|Do|DD|D|dddd|ddd|dd|d|WW|W|HH|H|hh|h|mm|m|ss|s|A|a|X|x/g;
+
+const pad = (n: number, width: number = 2) => String(n).padStart(width, '0');
+
+const ordinal = (n: number): string => {
+    const tens = n % 100;
+    if (tens >= 11 && tens <= 13) return `${n}th`;
+    return `${n}${['th', 'st', 'nd', 'rd'][n % 10] ?? 'th'}`;
+};
+
+const dayOfYear = (date: Date): number => {
+    const start = new Date(date.getFullYear(), 0, 1);
+    return Math.round((new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime() - start.getTime()) / 86400000) + 1;
+};
+
+// ISO 8601 week number (weeks start on Monday, week 1 holds the first Thursday)
+const isoWeek = (date: Date): number => {
+    const d = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+    const weekday = d.getUTCDay() || 7;
+    d.setUTCDate(d.getUTCDate() + 4 - weekday);
+    const yearStart = new Date(Date.UTC(d.getUTCFullYear(), 0, 1));
+    return Math.ceil(((d.getTime() - yearStart.getTime()) / 86400000 + 1) / 7);
+};
+
+/**
+ * Format `date` with a moment.js format string, e.g.
+ * `formatDate(date, 'YYYY-MM-DD')` → `2025-03-07`.
+ */
+export const formatDate = (date: Date, format: string): string =>
+    format.replace(TOKEN_REGEX, (token: string, literal?: string) => {
+        if (literal !== undefined) return literal;
+        const hours12 = date.getHours() % 12 || 12;
+        switch (token) {
+            case 'YYYY': return String(date.getFullYear());
+            case 'YY': return pad(date.getFullYear() % 100);
+            case 'Q': return String(Math.floor(date.getMonth() / 3) + 1);
+            case 'MMMM': return MONTHS[date.getMonth()];
+            case 'MMM': return MONTHS[date.getMonth()].slice(0, 3);
+            case 'MM': return pad(date.getMonth() + 1);
+            case 'M': return String(date.getMonth() + 1);
+            case 'DDDD': return pad(dayOfYear(date), 3);
+            case 'DDD': return String(dayOfYear(date));
+            case 'Do': return ordinal(date.getDate());
+            case 'DD': return pad(date.getDate());
+            case 'D': return String(date.getDate());
+            case 'dddd': return WEEKDAYS[date.getDay()];
+            case 'ddd': return WEEKDAYS[date.getDay()].slice(0, 3);
+            case 'dd': return WEEKDAYS[date.getDay()].slice(0, 2);
+            case 'd': return String(date.getDay());
+            case 'WW': return pad(isoWeek(date));
+            case 'W': return String(isoWeek(date));
+            case 'HH': return pad(date.getHours());
+            case 'H': return String(date.getHours());
+            case 'hh': return pad(hours12);
+            case 'h': return String(hours12);
+            case 'mm': return pad(date.getMinutes());
+            case 'm': return String(date.getMinutes());
+            case 'ss': return pad(date.getSeconds());
+            case 's': return String(date.getSeconds());
+            case 'A': return date.getHours() < 12 ? 'AM' : 'PM';
+            case 'a': return date.getHours() < 12 ? 'am' : 'pm';
+            case 'X': return String(Math.floor(date.getTime() / 1000));
+            case 'x': return String(date.getTime());
+            default: return token;
+        }
+    });
@@ -0,0 +1,52 @@
+// domainUtils.ts - Built-in domains and helpers for user-defined ones
+
+import { TFunction } from 'i18next';
+import { AppSettings, DomainConfig, DomainType } from '../types/Note';
+
+export const DEFAULT_DOMAINS: DomainConfig[] = [
+    { id: 'action', color: '#E53935', icon: 'checkbox-outline' }, // Red
+    { id: 'knowledge', color: '#1E88E5', icon: 'book-outline' }, // Blue
+    { id: 'library', color: '#8E24AA', icon: 'library-outline' }, // Purple
+];
+
+// Colours offered when recolouring; new domains take the first unused one
+export const DOMAIN_COLORS = [
+    '#E53935', '#FB8C00', '#FDD835', '#43A047', '#00897B',
+    '#1E88E5', '#3949AB', '#8E24AA', '#D81B60', '#6D4C41', '#546E7A',
+];
+
+export const DEFAULT_DOMAIN_ICON = 'pricetag-outline';
+
+// Ids of the defaults keep their translated labels (`domain_action`, …)
+const BUILT_IN_IDS = new Set(DEFAULT_DOMAINS.map((d) => d.id));
+
+export const getDomains = (settings: AppSettings): DomainConfig[] => settings.domains ?? DEFAULT_DOMAINS;
+
+export const findDomain = (domains: DomainConfig[], id: DomainType | null | undefined): DomainConfig | undefined =>
+    id ? domains.find((d) => d.id === id) : undefined;
+
+export const getDomainLabel = (t: TFunction, id: DomainType): string =>
+    BUILT_IN_IDS.has(id) ? t(`domain_${id}`) : id;
+
+/** A domain name as it can be written to `domain:` on a single line */
+export const normalizeDomainId = (name: string): string => name.replace(/\s+/g, ' ').trim();
+
+export const nextDomainColor = (domains: DomainConfig[]): string =>
+    DOMAIN_COLORS.find((c) => !domains.some((d) => d.color === c)) ?? DOMAIN_COLORS[domains.length % DOMAIN_COLORS.length];
+
+/** Domain list from a parsed `domains.json`, or null when it isn't one */
+export const parseDomainsConfig = (config: any): DomainConfig[] | null => {
+    const list = Array.isArray(config?.domains) ? config.domains : null;
+    if (!list) return null;
+    const domains: DomainConfig[] = [];
+    list.forEach((item: any) => {
+        const id = typeof item?.id === 'string' ? normalizeDomainId(item.id) : '';
+        if (!id || domains.some((d) => d.id === id)) return;
+        domains.push({
+            id,
+            color: typeof item.color === 'string' ? item.color : nextDomainColor(domains),
+            icon: typeof item.icon === 'string' ? item.icon : DEFAULT_DOMAIN_ICON,
+        });
+    });
+    return domains;
+};
@@ -71,5 +71,34 @@ export const extractTitleAndBody = (content: string) => {
     return { title, hasTitle, bodyContent };
 };
 
+// A span of markdown as "the Nth occurrence of this text". The rich text
+// editors don't share the markdown's offsets, but their plain text keeps the
+// words in the same order, so this finds the same span there.
+export interface TextOccurrence {
+    text: string;
+    occurrence: number;
+}
+
+export const getTextOccurrence = (markdown: string, start: number, end: number): TextOccurrence => {
+    const text = markdown.slice(start, end);
+    const before = markdown.slice(0, start).toLowerCase();
+    const needle = text.toLowerCase();
+    let occurrence = 0;
+    for (let i = before.indexOf(needle); needle && i !== -1; i = before.indexOf(needle, i + 1)) occurrence++;
+    return { text, occurrence };
+};
+
+/** Offset of `target` in `plainText` (case-insensitive); the last one when there are fewer, -1 when none */
+export const findTextOccurrence = (plainText: string, target: TextOccurrence): number => {
+    const haystack = plainText.toLowerCase();
+    const needle = target.text.toLowerCase();
+    if (!needle) return -1;
+    let found = -1;
+    for (let i = haystack.indexOf(needle), n = 0; i !== -1 && n <= target.occurrence; i = haystack.indexOf(needle, i + 1), n++) {
+        found = i;
+    }
+    return found;
+};
+
 // Re-export RTL utilities from centralized source for backwards compatibility
 export { getDirection, RTL_TEXT_STYLE, rtlTextStyle, RTL_ROW } from './rtlUtils';
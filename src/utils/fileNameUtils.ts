@@ -0,0 +1,71 @@
+// fileNameUtils.ts - Turning note titles into file names that are safe everywhere
+// Vaults are synced between iOS, Android and Windows, so a name has to be
+// valid on all of them, not only on the device that created it.
+
+import { parseFrontmatter } from '../services/FrontmatterService';
+
+// Illegal on Windows/Android (`\ / : * ? " < > |`) plus control characters.
+// `# ^ [ ]` are legal but break [[wikilinks]] to the note, as in Obsidian.
+const ILLEGAL_CHARS_REGEX = /[\\/:*?"<>|#^[\]\u0000-\u001F\u007F]/g;
+
+// Device names Windows refuses as a file name, with or without an extension
+const RESERVED_NAMES_REGEX = /^(con|prn|aux|nul|com[0-9]|lpt[0-9])(\..*)?$/i;
+
+// Well below the 255-byte limit even for multi-byte scripts such as Hebrew
+const MAX_NAME_LENGTH = 100;
+
+/**
+ * Make `name` (without the `.md` extension) safe to use as a file name.
+ * Illegal characters become spaces; leading dots (hidden files) and
+ * trailing dots/spaces (rejected by Windows) are dropped. Returns '' when
+ * nothing usable is left.
+ */
+export const sanitizeFileName = (name: string): string => {
+    let clean = name
+        .replace(ILLEGAL_CHARS_REGEX, ' ')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .replace(/^\.+/, '')
+        .slice(0, MAX_NAME_LENGTH)
+        .replace(/[. ]+$/, '')
+        .trim();
+
+    if (RESERVED_NAMES_REGEX.test(clean)) {
+        clean = `${clean}_`;
+    }
+    return clean;
+};
+
+/**
+ * `Name.md`, or `Name 2.md`, `Name 3.md`... when taken (any extension works
+ * the same way). Compared case-insensitively because iOS, macOS and Windows
+ * file systems are.
+ */
+export const getUniqueFileName = (fileName: string, existingNames: string[]): string => {
+    const taken = new Set(existingNames.map((name) => name.toLowerCase()));
+    const [, base, extension] = fileName.match(/^(.+?)(\.[^.]*)?$/) ?? [fileName, fileName];
+    let candidate = fileName;
+    for (let n = 2; taken.has(candidate.toLowerCase()); n++) {
+        candidate = `${base} ${n}${extension ?? ''}`;
+    }
+    return candidate;
+};
+
+/**
+ * File name (without `.md`) derived from the note's first markdown heading,
+ * with inline formatting removed. Returns '' when there is no heading or
+ * nothing usable is left after sanitizing.
+ */
+export const getTitleFromHeading = (content: string): string => {
+    const { body } = parseFrontmatter(content);
+    const heading = body.match(/^#{1,6}[ \t]+(.+)$/m);
+    if (!heading) return '';
+
+    const text = heading[1]
+        .replace(/\s#+\s*$/, '') // closing hashes: `# Title #`
+        .replace(/\[\[([^\]|]+)\|([^\]]+)\]\]/g, '$2') // [[target|alias]]
+        .replace(/\[\[([^\]]+)\]\]/g, '$1') // [[target]]
+        .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1') // [text](url)
+        .replace(/\*+|__|~~|==|`/g, ''); // emphasis, code, highlights
+    return sanitizeFileName(text);
+};
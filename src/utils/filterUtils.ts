@@ -0,0 +1,73 @@
+// filterUtils.ts - Applying note filters (search box, tag, domain, folder,
+// smart lists). Several filters combine with AND; within a filter every set
+// criterion must hold.
+
+import { Note, NoteFilter } from '../types/Note';
+import SearchService from '../services/SearchService';
+import { hasTag } from './tagUtils';
+import { isInFolder } from './pathUtils';
+import { parseTasks } from './taskUtils';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Cheap check before parsing: an open checkbox somewhere in the note
+const OPEN_CHECKBOX_REGEX = /\[[ /]\]/;
+
+export const hasOpenTasks = (note: Note): boolean =>
+    OPEN_CHECKBOX_REGEX.test(note.content) && parseTasks(note.content, note.id).some((task) => !task.checked);
+
+export const isFilterEmpty = (filter: NoteFilter): boolean =>
+    !filter.query?.trim() &&
+    !filter.tags?.length &&
+    !filter.domains?.length &&
+    (filter.folder === undefined || filter.folder === null) &&
+    !filter.pinned &&
+    !filter.hasOpenTasks &&
+    !filter.modifiedWithinDays;
+
+/** Whether any of `filters` searches, i.e. needs a current search index */
+export const hasSearchQuery = (filters: NoteFilter[]): boolean =>
+    filters.some((filter) => !!filter.query?.trim());
+
+const applyFilter = (notes: Note[], filter: NoteFilter, now: Date, searchMatches: Map<string, number[][]>): Note[] => {
+    let result = notes;
+
+    // A query ranks the notes; the index may hold older copies, keep ours
+    // (and only matches found in the same content)
+    const query = filter.query?.trim();
+    if (query) {
+        const byId = new Map(result.map((note) => [note.id, note]));
+        result = SearchService.search(query)
+            .map((r) => {
+                const note = byId.get(r.note.id);
+                const matches = r.matches.find((match) => match.key === 'content');
+                if (note && matches && note.content === r.note.content) searchMatches.set(note.id, matches.indices);
+                return note;
+            })
+            .filter((note): note is Note => note !== undefined);
+    }
+
+    const cutoff = filter.modifiedWithinDays ? now.getTime() - filter.modifiedWithinDays * DAY_MS : null;
+    const { tags, domains, folder } = filter;
+    return result.filter((note) =>
+        (!tags?.length || tags.some((tag) => hasTag(note.tags, tag))) &&
+        (!domains?.length || (!!note.domain && domains.includes(note.domain))) &&
+        (folder === undefined || folder === null || isInFolder(note.id, folder)) &&
+        (!filter.pinned || !!note.pinned) &&
+        (!filter.hasOpenTasks || hasOpenTasks(note)) &&
+        (cutoff === null || note.updatedAt.getTime() >= cutoff)
+    );
+};
+
+/**
+ * Notes meeting every filter, in search rank order when one of them
+ * searches. `searchMatches` gets the searched notes' matches, as ranges of
+ * their content.
+ */
+export const filterNotes = (
+    notes: Note[],
+    filters: NoteFilter[],
+    now: Date = new Date(),
+    searchMatches: Map<string, number[][]> = new Map()
+): Note[] =>
+    filters.reduce((result, filter) => applyFilter(result, filter, now, searchMatches), notes);
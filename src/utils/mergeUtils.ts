@@ -0,0 +1,167 @@
+// mergeUtils.ts - Line diffs and three-way merge (diff3) for note versions
+
+export const CONFLICT_MARKER_OURS = '<<<<<<< This device';
+export const CONFLICT_MARKER_SEPARATOR = '=======';
+export const CONFLICT_MARKER_THEIRS = '>>>>>>> Vault';
+
+// Past this many LCS cells the merge gives up and reports one big conflict
+// rather than allocating a huge table on the JS thread.
+const MAX_LCS_CELLS = 4_000_000;
+
+export interface DiffLine {
+    type: 'same' | 'added' | 'removed';
+    text: string;
+}
+
+export interface MergeResult {
+    /** Merged text; overlapping hunks are wrapped in conflict markers */
+    merged: string;
+    hasConflicts: boolean;
+}
+
+/**
+ * For each line of `base`, the index of the matching line in `other` per
+ * their longest common subsequence, or -1 when the line was changed/removed.
+ * Returns null when the inputs are too large to diff.
+ */
+const matchLines = (base: string[], other: string[]): number[] | null => {
+    const n = base.length;
+    const m = other.length;
+    const matches = new Array<number>(n).fill(-1);
+
+    // Common prefix and suffix need no table
+    let start = 0;
+    while (start < n && start < m && base[start] === other[start]) {
+        matches[start] = start;
+        start++;
+    }
+    let endBase = n;
+    let endOther = m;
+    while (endBase > start && endOther > start && base[endBase - 1] === other[endOther - 1]) {
+        endBase--;
+        endOther--;
+        matches[endBase] = endOther;
+    }
+
+    const rows = endBase - start;
+    const cols = endOther - start;
+    if (rows === 0 || cols === 0) return matches;
+    if ((rows + 1) * (cols + 1) > MAX_LCS_CELLS) return null;
+
+    // lcs[i][j] = LCS length of base[start+i..endBase) and other[start+j..endOther)
+    const width = cols + 1;
+    const lcs = new Uint32Array((rows + 1) * width);
+    for (let i = rows - 1; i >= 0; i--) {
+        for (let j = cols - 1; j >= 0; j--) {
+            lcs[i * width + j] = base[start + i] === other[start + j]
+                ? lcs[(i + 1) * width + j + 1] + 1
+                : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+        }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < rows && j < cols) {
+        if (base[start + i] === other[start + j]) {
+            matches[start + i] = start + j;
+            i++;
+            j++;
+        } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+            i++;
+        } else {
+            j++;
+        }
+    }
+    return matches;
+};
+
+/**
+ * Line diff turning `oldText` into `newText`, in document order. Removed
+ * lines come before the lines added in their place.
+ */
+export const diffLines = (oldText: string, newText: string): DiffLine[] => {
+    const oldLines = oldText.split('\n');
+    const newLines = newText.split('\n');
+    const matches = matchLines(oldLines, newLines) ?? new Array<number>(oldLines.length).fill(-1);
+
+    const out: DiffLine[] = [];
+    let j = 0;
+    oldLines.forEach((line, i) => {
+        if (matches[i] === -1) {
+            out.push({ type: 'removed', text: line });
+            return;
+        }
+        while (j < matches[i]) out.push({ type: 'added', text: newLines[j++] });
+        out.push({ type: 'same', text: line });
+        j++;
+    });
+    while (j < newLines.length) out.push({ type: 'added', text: newLines[j++] });
+    return out;
+};
+
+const sameLines = (a: string[], b: string[]): boolean =>
+    a.length === b.length && a.every((line, i) => line === b[i]);
+
+const conflictBlock = (ours: string[], theirs: string[]): string[] => [
+    CONFLICT_MARKER_OURS,
+    ...ours,
+    CONFLICT_MARKER_SEPARATOR,
+    ...theirs,
+    CONFLICT_MARKER_THEIRS,
+];
+
+/**
+ * Merge two descendants of `base`. Hunks changed on only one side are taken
+ * from that side; hunks changed identically on both sides are taken once;
+ * anything else is a conflict.
+ */
+export const mergeText = (base: string, ours: string, theirs: string): MergeResult => {
+    if (ours === theirs) return { merged: ours, hasConflicts: false };
+    if (base === ours) return { merged: theirs, hasConflicts: false };
+    if (base === theirs) return { merged: ours, hasConflicts: false };
+
+    const baseLines = base.split('\n');
+    const oursLines = ours.split('\n');
+    const theirsLines = theirs.split('\n');
+
+    const oursMatches = matchLines(baseLines, oursLines);
+    const theirsMatches = matchLines(baseLines, theirsLines);
+    if (!oursMatches || !theirsMatches) {
+        return { merged: conflictBlock(oursLines, theirsLines).join('\n'), hasConflicts: true };
+    }
+
+    const out: string[] = [];
+    let hasConflicts = false;
+    let i = 0; // base
+    let a = 0; // ours
+    let b = 0; // theirs
+
+    while (i <= baseLines.length) {
+        // Next base line kept unchanged by both sides is the sync point
+        let k = i;
+        while (k < baseLines.length && (oursMatches[k] === -1 || theirsMatches[k] === -1)) k++;
+
+        const endA = k < baseLines.length ? oursMatches[k] : oursLines.length;
+        const endB = k < baseLines.length ? theirsMatches[k] : theirsLines.length;
+        const baseChunk = baseLines.slice(i, k);
+        const oursChunk = oursLines.slice(a, endA);
+        const theirsChunk = theirsLines.slice(b, endB);
+
+        if (sameLines(oursChunk, baseChunk)) {
+            out.push(...theirsChunk);
+        } else if (sameLines(theirsChunk, baseChunk) || sameLines(oursChunk, theirsChunk)) {
+            out.push(...oursChunk);
+        } else {
+            out.push(...conflictBlock(oursChunk, theirsChunk));
+            hasConflicts = true;
+        }
+
+        if (k >= baseLines.length) break;
+        out.push(baseLines[k]);
+        i = k + 1;
+        a = endA + 1;
+        b = endB + 1;
+    }
+
+    return { merged: out.join('\n'), hasConflicts };
+};
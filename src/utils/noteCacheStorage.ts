@@ -0,0 +1,126 @@
+// noteCacheStorage.ts - SQLite table behind NoteCacheService
+// One row per note file, keyed by vault scope and vault-relative path. The
+// parsed metadata has its own columns so the list can be shown without
+// re-reading or re-parsing any file.
+
+import * as SQLite from 'expo-sqlite';
+
+const DB_NAME = 'note-cache.db';
+
+export interface NoteCacheRow {
+    path: string;
+    /** File modification time when last listed; null until the vault has been listed since our own write */
+    mtime: number | null;
+    hash: string;
+    title: string;
+    content: string;
+    createdAt: number;
+    updatedAt: number;
+    pinned: boolean;
+    domain: string | null;
+    tags: string[];
+    due: string | null;
+    remind: string | null;
+    order: number | null;
+}
+
+interface SqlRow {
+    path: string;
+    mtime: number | null;
+    hash: string;
+    title: string;
+    content: string;
+    created_at: number;
+    updated_at: number;
+    pinned: number;
+    domain: string | null;
+    tags: string;
+    due: string | null;
+    remind: string | null;
+    sort_order: number | null;
+}
+
+let database: Promise<SQLite.SQLiteDatabase> | null = null;
+
+const getDatabase = (): Promise<SQLite.SQLiteDatabase> => {
+    if (database) return database;
+    const opening = SQLite.openDatabaseAsync(DB_NAME).then(async (db: SQLite.SQLiteDatabase) => {
+        await db.execAsync(`
+            PRAGMA journal_mode = WAL;
+            CREATE TABLE IF NOT EXISTS notes (
+                scope TEXT NOT NULL,
+                path TEXT NOT NULL,
+                mtime REAL,
+                hash TEXT NOT NULL,
+                title TEXT NOT NULL,
+                content TEXT NOT NULL,
+                created_at REAL NOT NULL,
+                updated_at REAL NOT NULL,
+                pinned INTEGER NOT NULL DEFAULT 0,
+                domain TEXT,
+                tags TEXT NOT NULL DEFAULT '[]',
+                due TEXT,
+                remind TEXT,
+                sort_order REAL,
+                PRIMARY KEY (scope, path)
+            );
+        `);
+        return db;
+    });
+    database = opening;
+    // Let the next call try again rather than keep a failed open
+    opening.catch(() => { database = null; });
+    return opening;
+};
+
+export const readCacheRows = async (scope: string): Promise<NoteCacheRow[]> => {
+    const db = await getDatabase();
+    const rows = await db.getAllAsync<SqlRow>(
+        'SELECT * FROM notes WHERE scope = ? ORDER BY updated_at DESC',
+        [scope]
+    );
+    return rows.map((row: SqlRow) => ({
+        path: row.path,
+        mtime: row.mtime,
+        hash: row.hash,
+        title: row.title,
+        content: row.content,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+        pinned: row.pinned === 1,
+        domain: row.domain,
+        tags: JSON.parse(row.tags),
+        due: row.due,
+        remind: row.remind,
+        order: row.sort_order,
+    }));
+};
+
+export const writeCacheRows = async (scope: string, rows: NoteCacheRow[]): Promise<void> => {
+    if (rows.length === 0) return;
+    const db = await getDatabase();
+    await db.withTransactionAsync(async () => {
+        for (const row of rows) {
+            await db.runAsync(
+                `INSERT OR REPLACE INTO notes
+                    (scope, path, mtime, hash, title, content, created_at, updated_at, pinned, domain, tags, due, remind, sort_order)
+                    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                [
+                    scope, row.path, row.mtime, row.hash, row.title, row.content,
+                    row.createdAt, row.updatedAt, row.pinned ? 1 : 0, row.domain,
+                    JSON.stringify(row.tags), row.due, row.remind, row.order,
+                ]
+            );
+        }
+    });
+};
+
+export const deleteCacheRows = async (scope: string, paths: string[]): Promise<void> => {
+    if (paths.length === 0) return;
+    const db = await getDatabase();
+    await db.withTransactionAsync(async () => {
+        for (const path of paths) {
+            await db.runAsync('DELETE FROM notes WHERE scope = ? AND path = ?', [scope, path]);
+        }
+    });
+};
@@ -0,0 +1,69 @@
+// noteCacheStorage.web.ts - IndexedDB store behind NoteCacheService
+// Metro picks this file over the SQLite one when bundling for web. Rows are
+// the same as on native, keyed by [scope, path].
+
+import type { NoteCacheRow } from './noteCacheStorage';
+
+const DB_NAME = 'PureNotesCache';
+const STORE_NAME = 'notes';
+
+type StoredRow = NoteCacheRow & { scope: string };
+
+let database: Promise<IDBDatabase> | null = null;
+
+const getDatabase = (): Promise<IDBDatabase> => {
+    if (database) return database;
+    const opening = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, 1);
+
+        request.onupgradeneeded = () => {
+            const store = request.result.createObjectStore(STORE_NAME, { keyPath: ['scope', 'path'] });
+            store.createIndex('scope', 'scope');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(new Error('Failed to open the note cache'));
+    });
+    database = opening;
+    // Let the next call try again rather than keep a failed open
+    opening.catch(() => { database = null; });
+    return opening;
+};
+
+const runTransaction = async (mode: IDBTransactionMode, work: (store: IDBObjectStore) => void): Promise<void> => {
+    const db = await getDatabase();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(STORE_NAME, mode);
+        work(transaction.objectStore(STORE_NAME));
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error ?? new Error('Note cache transaction failed'));
+    });
+};
+
+export const readCacheRows = async (scope: string): Promise<NoteCacheRow[]> => {
+    const db = await getDatabase();
+    const rows = await new Promise<StoredRow[]>((resolve, reject) => {
+        const request = db.transaction(STORE_NAME, 'readonly')
+            .objectStore(STORE_NAME)
+            .index('scope')
+            .getAll(scope);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error ?? new Error('Failed to read the note cache'));
+    });
+    return rows
+        .map(({ scope: _scope, ...row }) => row)
+        .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const writeCacheRows = async (scope: string, rows: NoteCacheRow[]): Promise<void> => {
+    if (rows.length === 0) return;
+    await runTransaction('readwrite', (store) => {
+        rows.forEach((row) => store.put({ ...row, scope }));
+    });
+};
+
+export const deleteCacheRows = async (scope: string, paths: string[]): Promise<void> => {
+    if (paths.length === 0) return;
+    await runTransaction('readwrite', (store) => {
+        paths.forEach((path) => store.delete([scope, path]));
+    });
+};
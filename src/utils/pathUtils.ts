@@ -0,0 +1,56 @@
+// pathUtils.ts - Helpers for vault-relative note paths
+// Note ids and FileStat.path use forward-slash paths relative to the vault
+// root (e.g. `Projects/Alpha/Kickoff.md`). Root-level notes have no folder.
+
+/**
+ * Split a vault-relative path into its folder and file name.
+ * `Projects/Kickoff.md` → { dir: 'Projects', name: 'Kickoff.md' }
+ */
+export const splitPath = (path: string): { dir: string; name: string } => {
+    const idx = path.lastIndexOf('/');
+    if (idx === -1) return { dir: '', name: path };
+    return { dir: path.substring(0, idx), name: path.substring(idx + 1) };
+};
+
+/** Join path segments, skipping empty ones. */
+export const joinPath = (...parts: (string | undefined | null)[]): string =>
+    parts
+        .filter((p): p is string => !!p)
+        .map((p) => p.replace(/^\/+|\/+$/g, ''))
+        .filter(Boolean)
+        .join('/');
+
+/** Folder of a vault-relative path ('' for root-level files). */
+export const getFolder = (path: string): string => splitPath(path).dir;
+
+/** File name of a vault-relative path. */
+export const getFileName = (path: string): string => splitPath(path).name;
+
+/** Parent of a folder path, or null when the folder is already top-level. */
+export const getParentFolder = (folder: string): string | null => {
+    if (!folder) return null;
+    return splitPath(folder).dir;
+};
+
+/** True if `path` lives inside `folder` (at any depth). '' matches everything. */
+export const isInFolder = (path: string, folder: string): boolean =>
+    folder === '' || path.startsWith(`${folder}/`);
+
+/** Hidden entries (`.obsidian`, `.trash`, …) are never treated as notes. */
+export const isHiddenName = (name: string): boolean => name.startsWith('.');
+
+/**
+ * Collect every folder that contains at least one of `paths`, including all
+ * ancestor folders, sorted alphabetically.
+ */
+export const collectFolders = (paths: string[]): string[] => {
+    const folders = new Set<string>();
+    paths.forEach((path) => {
+        let dir = getFolder(path);
+        while (dir) {
+            folders.add(dir);
+            dir = getFolder(dir);
+        }
+    });
+    return Array.from(folders).sort((a, b) => a.localeCompare(b));
+};
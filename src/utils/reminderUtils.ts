@@ -0,0 +1,87 @@
+// reminderUtils.ts - Which notes and tasks need a reminder, and when
+// Sources, all read from the note content:
+//   due: 2026-10-20            frontmatter; date only → the default time
+//   remind: 2026-10-20 08:30   frontmatter; an exact time
+//   - [ ] Call Dana 📅 2026-10-20    open tasks with an Obsidian Tasks due date
+
+import { Note, RemindersSettings } from '../types/Note';
+import { getFrontmatterProperty } from '../services/FrontmatterService';
+import { parseTasks } from './taskUtils';
+
+export const DEFAULT_REMINDERS_SETTINGS: RemindersSettings = {
+    enabled: true,
+    defaultTime: '09:00',
+};
+
+// iOS keeps at most 64 pending local notifications per app
+export const MAX_SCHEDULED_REMINDERS = 60;
+
+export interface Reminder {
+    // Stable across reloads, so an unchanged set isn't rescheduled
+    key: string;
+    noteId: string;
+    title: string;
+    body: string;
+    date: Date;
+}
+
+const DATE_TIME_REGEX = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/;
+
+/** `due`/`remind` frontmatter of a note as written, for Note.due / Note.remind */
+export const getNoteSchedule = (content: string): { due?: string; remind?: string } => {
+    const read = (key: string) => {
+        const value = getFrontmatterProperty<unknown>(content, key);
+        return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+    };
+    return { due: read('due'), remind: read('remind') };
+};
+
+/**
+ * A local date from `YYYY-MM-DD`, `YYYY-MM-DD HH:mm` or `YYYY-MM-DDTHH:mm[:ss]`;
+ * a value without a time gets `defaultTime` (`HH:mm`). Null when unparseable.
+ */
+export const parseReminderDate = (value: string, defaultTime: string): Date | null => {
+    const match = value.trim().match(DATE_TIME_REGEX);
+    if (!match) return null;
+    const [, year, month, day, hours, minutes, seconds] = match;
+    const [defaultHours, defaultMinutes] = defaultTime.split(':').map(Number);
+    const date = new Date(
+        Number(year),
+        Number(month) - 1,
+        Number(day),
+        hours !== undefined ? Number(hours) : (defaultHours || 0),
+        minutes !== undefined ? Number(minutes) : (defaultMinutes || 0),
+        seconds !== undefined ? Number(seconds) : 0
+    );
+    return isNaN(date.getTime()) ? null : date;
+};
+
+/** Upcoming reminders for `notes`, soonest first, capped at MAX_SCHEDULED_REMINDERS */
+export const collectReminders = (notes: Note[], settings: RemindersSettings, now: Date = new Date()): Reminder[] => {
+    const reminders: Reminder[] = [];
+    const add = (reminder: Omit<Reminder, 'date'>, value: string | undefined) => {
+        if (!value) return;
+        const date = parseReminderDate(value, settings.defaultTime);
+        if (date && date > now) reminders.push({ ...reminder, date });
+    };
+
+    notes.forEach((note) => {
+        add({ key: `${note.id}#remind`, noteId: note.id, title: note.title, body: '' }, note.remind);
+        // A note with an explicit reminder isn't reminded again at its due time
+        if (!note.remind) {
+            add({ key: `${note.id}#due`, noteId: note.id, title: note.title, body: '' }, note.due);
+        }
+        parseTasks(note.content, note.id)
+            .filter((task) => !task.checked && task.due)
+            .forEach((task) => add({
+                key: `${note.id}#${task.description}#${task.due}`,
+                noteId: note.id,
+                title: task.description,
+                body: note.title,
+            }, task.due));
+    });
+
+    return reminders
+        .sort((a, b) => a.date.getTime() - b.date.getTime())
+        .slice(0, MAX_SCHEDULED_REMINDERS);
+};
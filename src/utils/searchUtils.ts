@@ -0,0 +1,180 @@
+// searchUtils.ts - Tokenising and query parsing for the search index
+// Text is split into words of any script and normalised so what the user
+// types matches what the note says: case and Latin accents are ignored, and
+// Hebrew is compared without niqqud/cantillation, with final letters folded
+// (ם → מ) and geresh/gershayim dropped (צה״ל → צהל).
+//
+// Query syntax, all parts combined with AND:
+//   word  wor            words; a word also matches as a prefix
+//   "exact phrase"       consecutive words
+//   tag:project          the tag or one of its nested tags
+//   domain:action        path:journal/2026         is:pinned
+//   updated:2026-10      created:>=2026-01-01      due:2026-10-01..2026-10-31
+//   -word  -tag:x        a leading '-' excludes matching notes
+
+import { formatDate } from './dateUtils';
+
+export interface Token {
+    value: string;
+    // Offsets of the word in the original text, end exclusive
+    start: number;
+    end: number;
+}
+
+export type DateField = 'created' | 'updated' | 'due';
+export type DateComparison = '=' | '>' | '>=' | '<' | '<=' | 'range';
+
+export type SearchClause =
+    | { kind: 'word'; value: string; negated: boolean }
+    | { kind: 'phrase'; words: string[]; negated: boolean }
+    | { kind: 'tag' | 'domain' | 'path' | 'is'; value: string; negated: boolean }
+    | { kind: 'date'; field: DateField; comparison: DateComparison; from: string; to: string; negated: boolean };
+
+export interface SearchQuery {
+    clauses: SearchClause[];
+    // Positive words and phrase words, for ranking and highlighting
+    terms: string[];
+}
+
+// Letters, digits and combining marks (niqqud included), with apostrophes,
+// geresh and gershayim allowed between letters: don't, צ'יפס, צה"ל
+const WORD_REGEX = /[\p{L}\p{N}\p{M}]+(?:['’׳״"][\p{L}\p{N}\p{M}]+)*/gu;
+const LATIN_ACCENTS = /[\u0300-\u036F]/g;
+// Niqqud and cantillation marks; maqaf (U+05BE) and sof pasuq are punctuation
+const HEBREW_MARKS = /[\u0591-\u05BD\u05BF\u05C1\u05C2\u05C4\u05C5\u05C7]/g;
+const QUOTES = /['’׳״"]/g;
+const FINAL_LETTERS: Record<string, string> = { 'ך': 'כ', 'ם': 'מ', 'ן': 'נ', 'ף': 'פ', 'ץ': 'צ' };
+const FINAL_LETTERS_REGEX = /[ךםןףץ]/g;
+// One-letter prefixes: ו, ה, ב, כ, ל, מ, ש
+const HEBREW_PREFIXES = /^[והבכלמש]/;
+const HEBREW_WORD = /^[א-ת]+$/;
+
+// Longer runs are ids, hashes or base64, not words anyone searches for
+export const MAX_TOKEN_LENGTH = 64;
+
+const OPERATORS = new Set(['tag', 'domain', 'path', 'is', 'created', 'updated', 'due']);
+// [-][operator:]("phrase"|word); an unterminated phrase runs to the end
+const QUERY_PART_REGEX = /(-?)(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+const DATE_VALUE_REGEX = /^\d{4}(?:-\d{2}(?:-\d{2})?)?$/;
+const ISO_FORMAT = 'YYYY-MM-DD';
+
+export const normalizeWord = (word: string): string =>
+    word
+        .normalize('NFD')
+        .replace(LATIN_ACCENTS, '')
+        .replace(HEBREW_MARKS, '')
+        .replace(QUOTES, '')
+        .replace(FINAL_LETTERS_REGEX, (letter) => FINAL_LETTERS[letter])
+        .toLowerCase();
+
+/** Words of `text` with their original offsets, normalised for matching */
+export const tokenize = (text: string): Token[] => {
+    const tokens: Token[] = [];
+    for (const match of text.matchAll(WORD_REGEX)) {
+        const value = normalizeWord(match[0]);
+        if (!value || value.length > MAX_TOKEN_LENGTH) continue;
+        const start = match.index ?? 0;
+        tokens.push({ value, start, end: start + match[0].length });
+    }
+    return tokens;
+};
+
+/**
+ * A Hebrew word without up to two prefix letters, so `בית` also finds
+ * `הבית` and `ובבית`. The stem keeps at least three letters.
+ */
+export const getWordStems = (word: string): string[] => {
+    if (!HEBREW_WORD.test(word)) return [];
+    const stems: string[] = [];
+    let stem = word;
+    for (let i = 0; i < 2 && stem.length > 3 && HEBREW_PREFIXES.test(stem); i++) {
+        stem = stem.slice(1);
+        stems.push(stem);
+    }
+    return stems;
+};
+
+/** `YYYY-MM-DD` of a date, for the date operators */
+export const toSearchDate = (date: Date): string => formatDate(date, ISO_FORMAT);
+
+// `today`, `yesterday` or YYYY[-MM[-DD]]; null when not a date
+const parseDateValue = (value: string, now: Date): string | null => {
+    const lower = value.toLowerCase();
+    if (lower === 'today') return toSearchDate(now);
+    if (lower === 'yesterday') return toSearchDate(new Date(now.getFullYear(), now.getMonth(), now.getDate() - 1));
+    return DATE_VALUE_REGEX.test(value) ? value : null;
+};
+
+const parseDateClause = (field: DateField, value: string, negated: boolean, now: Date): SearchClause | null => {
+    const range = value.match(/^([^.]*)\.\.([^.]*)$/);
+    if (range) {
+        const from = range[1] ? parseDateValue(range[1], now) : '';
+        const to = range[2] ? parseDateValue(range[2], now) : '';
+        if (from === null || to === null || (!from && !to)) return null;
+        return { kind: 'date', field, comparison: 'range', from, to, negated };
+    }
+    const comparison = value.match(/^(>=|<=|>|<|=)?(.*)$/)!;
+    const date = parseDateValue(comparison[2], now);
+    if (date === null) return null;
+    return { kind: 'date', field, comparison: (comparison[1] || '=') as DateComparison, from: date, to: date, negated };
+};
+
+/**
+ * Whether a `YYYY-MM-DD` value satisfies a date clause. Partial dates cover
+ * their whole month or year: `updated:2026-10` is any day in October, and
+ * `<=2026-10` includes October.
+ */
+export const matchesDateClause = (clause: Extract<SearchClause, { kind: 'date' }>, value: string): boolean => {
+    const within = (bound: string) => value.startsWith(bound);
+    switch (clause.comparison) {
+        case '=': return within(clause.from);
+        case '>': return value > clause.from && !within(clause.from);
+        case '>=': return value >= clause.from;
+        case '<': return value < clause.from;
+        case '<=': return value < clause.from || within(clause.from);
+        case 'range':
+            return (!clause.from || value >= clause.from) && (!clause.to || value < clause.to || within(clause.to));
+    }
+};
+
+/** Parse a search box query; parts that aren't valid operators are searched as text */
+export const parseSearchQuery = (query: string, now: Date = new Date()): SearchQuery => {
+    const clauses: SearchClause[] = [];
+    const terms: string[] = [];
+
+    const addText = (text: string, negated: boolean, isPhrase: boolean) => {
+        const words = tokenize(text).map((token) => token.value);
+        if (words.length === 0) return;
+        // `e-mail` or `don't-panic` must keep its words together, like a phrase
+        if (words.length === 1 && !isPhrase) {
+            clauses.push({ kind: 'word', value: words[0], negated });
+        } else {
+            clauses.push({ kind: 'phrase', words, negated });
+        }
+        if (!negated) terms.push(...words);
+    };
+
+    for (const match of query.matchAll(QUERY_PART_REGEX)) {
+        const [part, minus, rawOperator, phrase, word] = match;
+        const negated = minus === '-';
+        const operator = rawOperator?.toLowerCase();
+        const value = (phrase ?? word ?? '').trim();
+
+        if (!operator || !OPERATORS.has(operator)) {
+            addText(operator ? part.slice(minus.length) : value, negated, phrase !== undefined && !operator);
+            continue;
+        }
+        if (!value) continue;
+
+        if (operator === 'created' || operator === 'updated' || operator === 'due') {
+            const clause = parseDateClause(operator, value, negated, now);
+            if (clause) clauses.push(clause);
+            else addText(value, negated, false);
+        } else {
+            const kind = operator as 'tag' | 'domain' | 'path' | 'is';
+            clauses.push({ kind, value: kind === 'tag' ? value.replace(/^#/, '') : value.toLowerCase(), negated });
+        }
+    }
+
+    return { clauses, terms: Array.from(new Set(terms)) };
+};
@@ -0,0 +1,75 @@
+// shareUtils.ts - Content shared from other apps
+// The iOS share extension and the Android share activity hand over plain
+// text, links and image files; these helpers turn them into note markdown,
+// either a new note or a block appended to an existing one.
+
+export interface SharedImage {
+    /** file:// URI of the copy made by the share extension */
+    uri: string;
+    fileName: string;
+    mimeType?: string;
+}
+
+export interface SharedContent {
+    /** Share folder name, from purenotes://share?id=<id> */
+    id: string;
+    /** Page title or subject sent along with the content */
+    title?: string;
+    text: string;
+    urls: string[];
+    images: SharedImage[];
+}
+
+// Android sends a shared link as the text itself
+const SINGLE_URL_REGEX = /^https?:\/\/\S+$/i;
+
+/**
+ * The shared content as markdown: the text, links not already part of it
+ * (a single link titled by the page title) and one image embed per line.
+ * Lines are joined without blank lines so the block also works as a
+ * daily note bullet.
+ */
+export const formatSharedContent = (shared: SharedContent, embeds: string[]): string => {
+    const text = shared.text.trim();
+    const title = shared.title?.trim();
+    const links = shared.urls.filter((url) => !text.includes(url));
+    const lines: string[] = [];
+    if (text) lines.push(title && SINGLE_URL_REGEX.test(text) ? `[${title}](${text})` : text);
+    links.forEach((url) => {
+        lines.push(title && !text && links.length === 1 ? `[${title}](${url})` : url);
+    });
+    lines.push(...embeds);
+    return lines.join('\n');
+};
+
+/**
+ * Title for a new note: the shared title, else the first line of the text,
+ * else the host of the shared link, else `fallback`
+ */
+export const getSharedTitle = (shared: SharedContent, fallback: string): string => {
+    const text = shared.text.trim();
+    const firstLine = text.split('\n')[0].trim();
+    const title = shared.title?.trim() || (SINGLE_URL_REGEX.test(text) ? '' : firstLine);
+    if (title) return title;
+    const url = SINGLE_URL_REGEX.test(text) ? text : shared.urls[0];
+    const host = url?.match(/^https?:\/\/([^/?#]+)/i)?.[1];
+    return host?.replace(/^www\./i, '') || fallback;
+};
+
+/**
+ * Content of a new note. As with quick-add, a first text line becomes the
+ * `# Heading`; otherwise the heading is added above the body.
+ */
+export const toSharedNoteContent = (shared: SharedContent, body: string, fallbackTitle: string): string => {
+    const text = shared.text.trim();
+    if (!shared.title?.trim() && text && !SINGLE_URL_REGEX.test(text)) {
+        return body.startsWith('#') ? body : `# ${body}`;
+    }
+    return `# ${getSharedTitle(shared, fallbackTitle)}\n\n${body}`;
+};
+
+/** Append a block at the end of a note, separated by a blank line */
+export const appendSharedBlock = (content: string, block: string): string => {
+    const trimmed = content.replace(/\s+$/, '');
+    return trimmed ? `${trimmed}\n\n${block}\n` : `${block}\n`;
+};
@@ -0,0 +1,121 @@
+// sortUtils.ts - Order and sections of the note list
+// Pinned notes always come first; the sort mode orders the rest. Sort and
+// grouping are chosen per domain filter (AppSettings.listViews).
+
+import { AppSettings, DomainType, ListViewSettings, Note, NoteGroupMode, NoteSortMode } from '../types/Note';
+import { getFrontmatterProperty, parseFrontmatter } from '../services/FrontmatterService';
+import { extractTitleAndBody } from './editorUtils';
+import { getFolder } from './pathUtils';
+
+export const DEFAULT_LIST_VIEW: ListViewSettings = { sort: 'modified', group: 'none' };
+
+export const SORT_MODES: NoteSortMode[] = ['modified', 'created', 'title', 'manual'];
+export const GROUP_MODES: NoteGroupMode[] = ['none', 'domain', 'date', 'folder'];
+
+// Gap between manual positions, so a move usually rewrites only one note
+const ORDER_STEP = 1000;
+
+export type DateBucket = 'today' | 'this_week' | 'older';
+export const DATE_BUCKETS: DateBucket[] = ['today', 'this_week', 'older'];
+
+/** Key of a domain filter in AppSettings.listViews; '' is the unfiltered list */
+export const getListViewKey = (domain: DomainType | null): string => domain ?? '';
+
+export const getListView = (settings: AppSettings, domain: DomainType | null): ListViewSettings => ({
+    ...DEFAULT_LIST_VIEW,
+    ...settings.listViews?.[getListViewKey(domain)],
+});
+
+/** `order:` frontmatter as a number; undefined when missing or not a number */
+export const getNoteOrder = (content: string): number | undefined => {
+    const value = getFrontmatterProperty<unknown>(content, 'order');
+    const order = typeof value === 'number' || (typeof value === 'string' && value.trim()) ? Number(value) : NaN;
+    return Number.isFinite(order) ? order : undefined;
+};
+
+/** The heading shown on the note's card, else the file name */
+export const getSortTitle = (note: Note): string => {
+    const { title, hasTitle } = extractTitleAndBody(parseFrontmatter(note.content).body.trimStart());
+    return (hasTitle && title) || note.title;
+};
+
+const byModified = (a: Note, b: Note) => b.updatedAt.getTime() - a.updatedAt.getTime();
+const byCreated = (a: Note, b: Note) => b.createdAt.getTime() - a.createdAt.getTime() || byModified(a, b);
+// Notes never placed by hand follow the placed ones, newest first
+const byOrder = (a: Note, b: Note) => {
+    if (a.order === undefined || b.order === undefined) {
+        return (a.order === undefined ? 1 : 0) - (b.order === undefined ? 1 : 0) || byModified(a, b);
+    }
+    return a.order - b.order || byModified(a, b);
+};
+
+/** Sort `notes` in place, pinned first, and return it */
+export const sortNotes = (notes: Note[], mode: NoteSortMode): Note[] => {
+    let compare: (a: Note, b: Note) => number;
+    if (mode === 'title') {
+        // Reading the heading parses the frontmatter; do it once per note
+        const titles = new Map(notes.map((note) => [note.id, getSortTitle(note)]));
+        compare = (a, b) => titles.get(a.id)!.localeCompare(titles.get(b.id)!) || byModified(a, b);
+    } else {
+        compare = mode === 'created' ? byCreated : mode === 'manual' ? byOrder : byModified;
+    }
+    return notes.sort((a, b) => {
+        if (a.pinned && !b.pinned) return -1;
+        if (!a.pinned && b.pinned) return 1;
+        return compare(a, b);
+    });
+};
+
+/**
+ * Manual positions to write after moving `list[from]` to index `to` of
+ * `list`, by note id. The moved note goes between its new neighbours when
+ * they leave room; otherwise the whole list is renumbered and only the
+ * notes whose position changed are returned.
+ */
+export const planManualOrder = (list: Note[], from: number, to: number): Map<string, number> => {
+    const moved = list[from];
+    const rest = list.filter((_note, i) => i !== from);
+    const target = Math.max(0, Math.min(to, rest.length));
+    const before = rest[target - 1];
+    const after = rest[target];
+
+    if ((!before || before.order !== undefined) && (!after || after.order !== undefined)) {
+        let order: number | null = null;
+        if (before && after) {
+            const middle = Math.floor((before.order! + after.order!) / 2);
+            if (middle > before.order! && middle < after.order!) order = middle;
+        } else if (before) {
+            order = before.order! + ORDER_STEP;
+        } else if (after) {
+            order = after.order! - ORDER_STEP;
+        }
+        if (order !== null) return new Map([[moved.id, order]]);
+    }
+
+    const reordered = [...rest.slice(0, target), moved, ...rest.slice(target)];
+    const changes = new Map<string, number>();
+    reordered.forEach((note, i) => {
+        const order = (i + 1) * ORDER_STEP;
+        if (note.order !== order) changes.set(note.id, order);
+    });
+    return changes;
+};
+
+/** Date section of a note: the created date when sorted by it, else modified */
+export const getDateBucket = (note: Note, sort: NoteSortMode, now: Date = new Date()): DateBucket => {
+    const date = sort === 'created' ? note.createdAt : note.updatedAt;
+    const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    if (date >= startOfToday) return 'today';
+    const startOfWeek = new Date(startOfToday.getFullYear(), startOfToday.getMonth(), startOfToday.getDate() - 6);
+    return date >= startOfWeek ? 'this_week' : 'older';
+};
+
+/** Section key of a note; '' is "no domain" or the vault root */
+export const getGroupKey = (note: Note, group: NoteGroupMode, sort: NoteSortMode, now?: Date): string => {
+    switch (group) {
+        case 'domain': return note.domain ?? '';
+        case 'date': return getDateBucket(note, sort, now);
+        case 'folder': return getFolder(note.id);
+        case 'none': return '';
+    }
+};
@@ -0,0 +1,135 @@
+// tagUtils.ts - Tag extraction and hierarchy helpers
+// Tags follow Obsidian's rules: inline `#tag` / `#parent/child` in the body
+// plus the frontmatter `tags` (or legacy `tag`) property. Tags are stored
+// without the leading '#'.
+
+import { parseFrontmatter } from '../services/FrontmatterService';
+
+// Characters that end an inline tag. Anything else (any script, digits, '_',
+// '-', '/') is part of the tag, so Hebrew tags work the same as Latin ones.
+const TAG_BODY = `[^\\s#.,;:!?()\\[\\]{}"'\`*<>=+|\\\\~^&%$@]+`;
+
+// A tag must start the line or follow whitespace/opening punctuation, so
+// `a#b`, URL fragments and `# Heading` are not tags.
+const INLINE_TAG_REGEX = new RegExp(`(^|[\\s(\\[{,;])#(${TAG_BODY})`, 'g');
+
+const FENCED_CODE_REGEX = /^(```|~~~)[\s\S]*?^\1\s*$/gm;
+const INLINE_CODE_REGEX = /`[^`\n]*`/g;
+const HTML_COMMENT_REGEX = /<!--[\s\S]*?-->/g;
+// Link targets can hold `#heading` anchors: `[intro](#intro)`, `[[#Details]]`
+const WIKILINK_REGEX = /\[\[[^\]\n]*\]\]/g;
+const LINK_TARGET_REGEX = /\]\([^)\n]*\)/g;
+
+/** Strip the leading '#' and stray slashes; returns '' for invalid tags */
+const normalizeTag = (raw: string): string => {
+    const tag = raw.trim().replace(/^#/, '').replace(/^\/+|\/+$/g, '');
+    // Purely numeric tags (`#123`) are not tags in Obsidian
+    if (!tag || /^[0-9/]+$/.test(tag)) return '';
+    return tag;
+};
+
+/** Read tags from a frontmatter `tags`/`tag` value (list, or comma/space separated string) */
+const getFrontmatterTags = (value: unknown): string[] => {
+    if (value === null || value === undefined) return [];
+    const items = Array.isArray(value) ? value : String(value).split(/[,\s]+/);
+    return items
+        .filter((item) => item !== null && item !== undefined)
+        .map((item) => normalizeTag(String(item)));
+};
+
+/**
+ * Extract all tags from a note: frontmatter tags first (in declared order),
+ * then inline hashtags in order of appearance. Duplicates are removed
+ * case-insensitively, keeping the first spelling.
+ */
+export const extractTags = (content: string): string[] => {
+    const { frontmatter, body } = parseFrontmatter(content);
+
+    const tags = [
+        ...getFrontmatterTags(frontmatter.tags),
+        ...getFrontmatterTags(frontmatter.tag),
+    ];
+
+    const text = body
+        .replace(FENCED_CODE_REGEX, '')
+        .replace(INLINE_CODE_REGEX, '')
+        .replace(HTML_COMMENT_REGEX, '')
+        .replace(WIKILINK_REGEX, '')
+        .replace(LINK_TARGET_REGEX, ']');
+
+    for (const match of text.matchAll(INLINE_TAG_REGEX)) {
+        tags.push(normalizeTag(match[2]));
+    }
+
+    const seen = new Set<string>();
+    return tags.filter((tag) => {
+        const key = tag.toLowerCase();
+        if (!tag || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+};
+
+/**
+ * True if `tag` is `selected` or nested below it (`project/alpha` matches
+ * `project`). Comparison is case-insensitive, like Obsidian.
+ */
+export const tagMatches = (tag: string, selected: string): boolean => {
+    const a = tag.toLowerCase();
+    const b = selected.toLowerCase();
+    return a === b || a.startsWith(`${b}/`);
+};
+
+/** True if any of the note's tags matches `selected` (including nested tags) */
+export const hasTag = (tags: string[] | undefined, selected: string): boolean =>
+    !!tags && tags.some((tag) => tagMatches(tag, selected));
+
+export interface TagNode {
+    /** Full tag path, e.g. `project/alpha` */
+    tag: string;
+    /** Last segment, e.g. `alpha` */
+    name: string;
+    /** Number of notes tagged with this tag or any nested tag */
+    count: number;
+    children: TagNode[];
+}
+
+/**
+ * Build the nested tag hierarchy with note counts. A note tagged
+ * `#project/alpha` counts towards both `project` and `project/alpha`, but
+ * only once per node even if it carries several matching tags.
+ */
+export const buildTagTree = (notes: { tags?: string[] }[]): TagNode[] => {
+    const nodes = new Map<string, TagNode & { key: string }>();
+    const roots: (TagNode & { key: string })[] = [];
+
+    notes.forEach((note) => {
+        const counted = new Set<string>();
+        (note.tags || []).forEach((tag) => {
+            const segments = tag.split('/').filter(Boolean);
+            let parent: (TagNode & { key: string }) | undefined;
+            segments.forEach((segment, i) => {
+                const path = segments.slice(0, i + 1).join('/');
+                const key = path.toLowerCase();
+                let node = nodes.get(key);
+                if (!node) {
+                    node = { key, tag: path, name: segment, count: 0, children: [] };
+                    nodes.set(key, node);
+                    (parent ? parent.children : roots).push(node);
+                }
+                if (!counted.has(key)) {
+                    counted.add(key);
+                    node.count += 1;
+                }
+                parent = node;
+            });
+        });
+    });
+
+    const sortNodes = (list: TagNode[]): TagNode[] =>
+        list
+            .sort((a, b) => a.name.localeCompare(b.name))
+            .map((node) => ({ tag: node.tag, name: node.name, count: node.count, children: sortNodes(node.children) }));
+
+    return sortNodes(roots);
+};
@@ -0,0 +1,187 @@
+// taskUtils.ts - Checklist items as tasks, with Obsidian Tasks metadata
+// Understands the emoji format of the Obsidian Tasks plugin so tasks written
+// there keep their meaning here:
+//   - [ ] Pay rent 🔁 every month 📅 2026-11-01 ⏫
+// Dates: 📅 due, ⏳ scheduled, 🛫 start, ➕ created, ✅ done, ❌ cancelled.
+// Priority: 🔺 highest, ⏫ high, 🔼 medium, 🔽 low, ⏬ lowest.
+// Recurrence: 🔁 every [N] day|week|month|year [when done].
+
+import { Task, TaskPriority, TasksSettings } from '../types/Note';
+import { formatDate } from './dateUtils';
+
+export const DEFAULT_TASKS_SETTINGS: TasksSettings = {
+    groupBy: 'note',
+    showCompleted: false,
+    includeArchive: false,
+};
+
+// `- [ ] text`, `* [x] text`, `1. [ ] text`; group 2 is the status character
+const TASK_REGEX = /^(\s*(?:[-*+]|\d+[.)])\s+\[)(.)(\]\s?)(.*)$/;
+const FENCE_REGEX = /^\s*(```|~~~)/;
+const DATE_KEYS = { '📅': 'due', '⏳': 'scheduled', '🛫': 'start', '➕': 'created', '✅': 'done', '❌': 'cancelled' } as const;
+const DATE_REGEX = /(📅|⏳|🛫|➕|✅|❌)\uFE0F?\s*(\d{4}-\d{2}-\d{2})/gu;
+const PRIORITIES: Record<string, TaskPriority> = { '🔺': 'highest', '⏫': 'high', '🔼': 'medium', '🔽': 'low', '⏬': 'lowest' };
+const PRIORITY_REGEX = /(🔺|⏫|🔼|🔽|⏬)\uFE0F?/gu;
+// The rule runs until the next metadata emoji
+const RECURRENCE_REGEX = /🔁\uFE0F?\s*([^📅⏳🛫➕✅❌🔺⏫🔼🔽⏬]*)/u;
+const RULE_REGEX = /^every\s+(?:(\d+)\s+)?(day|week|month|year)s?(\s+when\s+done)?$/i;
+
+export const PRIORITY_ORDER: TaskPriority[] = ['highest', 'high', 'medium', 'none', 'low', 'lowest'];
+
+const ISO_FORMAT = 'YYYY-MM-DD';
+
+// Open statuses: todo and in progress; anything else (`x`, `-`, …) is closed
+const isOpenStatus = (status: string) => status === ' ' || status === '/';
+
+/** `YYYY-MM-DD` as a local date */
+export const parseTaskDate = (value: string): Date => {
+    const [year, month, day] = value.split('-').map(Number);
+    return new Date(year, month - 1, day);
+};
+
+export const toTaskDate = (date: Date): string => formatDate(date, ISO_FORMAT);
+
+const parseTaskLine = (line: string, index: number, noteId: string): Task | null => {
+    const match = line.match(TASK_REGEX);
+    if (!match) return null;
+    const text = match[4];
+
+    const task: Task = {
+        noteId,
+        line: index,
+        raw: line,
+        checked: !isOpenStatus(match[2]),
+        description: '',
+        priority: 'none',
+    };
+    for (const [, emoji, date] of text.matchAll(DATE_REGEX)) {
+        const key = DATE_KEYS[emoji as keyof typeof DATE_KEYS];
+        if (key === 'due' || key === 'scheduled' || key === 'start' || key === 'done') task[key] = date;
+    }
+    const priority = text.match(PRIORITY_REGEX);
+    if (priority) task.priority = PRIORITIES[priority[0].replace('\uFE0F', '')];
+    const recurrence = text.match(RECURRENCE_REGEX);
+    if (recurrence && recurrence[1].trim()) task.recurrence = recurrence[1].trim();
+
+    task.description = text
+        .replace(RECURRENCE_REGEX, '')
+        .replace(DATE_REGEX, '')
+        .replace(PRIORITY_REGEX, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+    return task;
+};
+
+/** Every checklist item in a note, skipping frontmatter and fenced code */
+export const parseTasks = (content: string, noteId: string): Task[] => {
+    const lines = content.split('\n');
+    const tasks: Task[] = [];
+    let start = 0;
+    if (lines[0]?.trim() === '---') {
+        const end = lines.findIndex((line, i) => i > 0 && line.trim() === '---');
+        if (end !== -1) start = end + 1;
+    }
+    let inFence = false;
+    for (let i = start; i < lines.length; i++) {
+        if (FENCE_REGEX.test(lines[i])) {
+            inFence = !inFence;
+            continue;
+        }
+        if (inFence) continue;
+        const task = parseTaskLine(lines[i], i, noteId);
+        if (task) tasks.push(task);
+    }
+    return tasks;
+};
+
+// Jan 31 + 1 month is Feb 28/29, as in Obsidian Tasks
+const addInterval = (date: Date, amount: number, unit: string): Date => {
+    const result = new Date(date);
+    if (unit === 'day') result.setDate(result.getDate() + amount);
+    else if (unit === 'week') result.setDate(result.getDate() + amount * 7);
+    else {
+        const months = unit === 'year' ? amount * 12 : amount;
+        const day = result.getDate();
+        result.setDate(1);
+        result.setMonth(result.getMonth() + months);
+        const lastDay = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+        result.setDate(Math.min(day, lastDay));
+    }
+    return result;
+};
+
+/**
+ * The line for the next occurrence of a recurring task, or null when the
+ * rule is not one we understand. Dates move by the rule's interval; with
+ * `when done` the first date counts from `today` and the others keep their
+ * distance to it.
+ */
+const nextOccurrenceLine = (task: Task, today: Date): string | null => {
+    const rule = task.recurrence?.match(RULE_REGEX);
+    if (!rule) return null;
+    const amount = rule[1] ? parseInt(rule[1], 10) : 1;
+    const unit = rule[2].toLowerCase();
+    const whenDone = !!rule[3];
+
+    const reference = task.due ?? task.scheduled ?? task.start;
+    if (!reference) return null;
+    const nextReference = addInterval(whenDone ? today : parseTaskDate(reference), amount, unit);
+    const shift = (date: string) => {
+        if (!whenDone) return toTaskDate(addInterval(parseTaskDate(date), amount, unit));
+        const offset = parseTaskDate(date).getTime() - parseTaskDate(reference).getTime();
+        const next = new Date(nextReference);
+        next.setDate(next.getDate() + Math.round(offset / 86400000));
+        return toTaskDate(next);
+    };
+
+    const [, prefix, , suffix, text] = task.raw.match(TASK_REGEX)!;
+    const nextText = text
+        .replace(/\s*(✅|❌)\uFE0F?\s*\d{4}-\d{2}-\d{2}/gu, '')
+        .replace(/(📅|⏳|🛫)(\uFE0F?\s*)(\d{4}-\d{2}-\d{2})/gu, (_m, emoji, space, date) => `${emoji}${space}${shift(date)}`);
+    return `${prefix} ${suffix}${nextText}`;
+};
+
+/**
+ * Check or uncheck `task` in `content`. The task is looked up by its line
+ * and raw text, so an edit elsewhere in the note doesn't hit the wrong line.
+ * Checking stamps `✅ today`; a recurring task gets its next occurrence on
+ * the line above, like Obsidian Tasks.
+ */
+export const toggleTask = (content: string, task: Task, today: Date = new Date()): string => {
+    const lines = content.split('\n');
+    const index = lines[task.line] === task.raw ? task.line : lines.indexOf(task.raw);
+    if (index === -1) throw new Error('Task not found in the note; it may have been edited');
+
+    const [, prefix, status, suffix, text] = task.raw.match(TASK_REGEX)!;
+    if (!isOpenStatus(status)) {
+        lines[index] = `${prefix} ${suffix}${text.replace(/\s*✅\uFE0F?\s*\d{4}-\d{2}-\d{2}/gu, '')}`;
+        return lines.join('\n');
+    }
+
+    lines[index] = `${prefix}x${suffix}${text.replace(/\s+$/, '')} ✅ ${toTaskDate(today)}`;
+    const next = nextOccurrenceLine(task, today);
+    if (next) lines.splice(index, 0, next);
+    return lines.join('\n');
+};
+
+/** Sort by due date (undated last), then priority, then text */
+export const compareTasks = (a: Task, b: Task): number => {
+    if (a.due !== b.due) {
+        if (!a.due) return 1;
+        if (!b.due) return -1;
+        return a.due.localeCompare(b.due);
+    }
+    const priority = PRIORITY_ORDER.indexOf(a.priority) - PRIORITY_ORDER.indexOf(b.priority);
+    if (priority !== 0) return priority;
+    return a.description.localeCompare(b.description);
+};
+
+export type DueBucket = 'overdue' | 'today' | 'upcoming' | 'no_date';
+
+export const getDueBucket = (task: Task, today: Date = new Date()): DueBucket => {
+    if (!task.due) return 'no_date';
+    const todayKey = toTaskDate(today);
+    if (task.due < todayKey) return 'overdue';
+    if (task.due === todayKey) return 'today';
+    return 'upcoming';
+};
@@ -0,0 +1,65 @@
+// templateUtils.ts - Variable substitution for note templates
+// Uses the same `{{...}}` variables as Obsidian's core Templates and Daily
+// notes plugins, so templates written for Obsidian work unchanged:
+//   {{title}}            the note's name
+//   {{date}}, {{time}}   in the configured (or default) formats
+//   {{date:FORMAT}}      any moment.js format, e.g. {{date:dddd, MMMM Do}}
+//   {{time:FORMAT}}
+//   {{cursor}}           where the cursor goes after inserting the template
+
+import { TemplatesSettings } from '../types/Note';
+import { parseFrontmatter, Frontmatter } from '../services/FrontmatterService';
+import { formatDate } from './dateUtils';
+
+export const DEFAULT_DATE_FORMAT = 'YYYY-MM-DD';
+export const DEFAULT_TIME_FORMAT = 'HH:mm';
+export const CURSOR_MARKER = '{{cursor}}';
+
+export const DEFAULT_TEMPLATES_SETTINGS: TemplatesSettings = {
+    folder: 'Templates',
+    dateFormat: DEFAULT_DATE_FORMAT,
+    timeFormat: DEFAULT_TIME_FORMAT,
+};
+
+const VARIABLE_REGEX = /\{\{\s*(title|date|time)\s*(?::([^}]*))?\}\}/gi;
+
+export interface TemplateContext {
+    title: string;
+    date: Date;
+    /** Formats for a bare {{date}} / {{time}} */
+    dateFormat?: string;
+    timeFormat?: string;
+}
+
+export interface RenderedTemplate {
+    /** Frontmatter the template prefills (domain, pinned, tags…) */
+    frontmatter: Frontmatter;
+    /** Body with variables filled in and the cursor marker removed */
+    body: string;
+    /** Offset of the cursor marker in `body`, or null when there is none */
+    cursor: number | null;
+}
+
+/** Replace template variables; {{cursor}} and unknown `{{...}}` are left untouched */
+export const applyTemplateVariables = (template: string, context: TemplateContext): string =>
+    template.replace(VARIABLE_REGEX, (_match, name: string, format?: string) => {
+        const key = name.toLowerCase();
+        if (key === 'title') return context.title;
+        const fallback = key === 'date'
+            ? context.dateFormat || DEFAULT_DATE_FORMAT
+            : context.timeFormat || DEFAULT_TIME_FORMAT;
+        return formatDate(context.date, format?.trim() || fallback);
+    });
+
+export const removeCursorMarker = (text: string): string => text.split(CURSOR_MARKER).join('');
+
+/** Fill in a template and split it into frontmatter, body and cursor position */
+export const renderTemplate = (template: string, context: TemplateContext): RenderedTemplate => {
+    const { frontmatter, body } = parseFrontmatter(applyTemplateVariables(template, context));
+    const index = body.indexOf(CURSOR_MARKER);
+    return {
+        frontmatter,
+        body: removeCursorMarker(body),
+        cursor: index === -1 ? null : index,
+    };
+};
@@ -0,0 +1,98 @@
+// urlApiUtils.ts - The purenotes:// automation URL API
+// Shortcuts, Tasker and other apps script PureNotes with links such as
+// `purenotes://new?title=Groceries&content=Milk&x-success=shortcuts://`.
+// Both `purenotes://<action>` and the x-callback-url form
+// `purenotes://x-callback-url/<action>` are accepted. Results are reported
+// back through the `x-success` / `x-error` / `x-cancel` callback URLs.
+
+export const APP_SCHEME = 'purenotes://';
+
+export const URL_ACTIONS = ['add', 'new', 'append', 'open', 'search', 'daily'] as const;
+export type UrlAction = typeof URL_ACTIONS[number];
+
+export interface XCallbacks {
+    success?: string;
+    error?: string;
+    cancel?: string;
+}
+
+export interface AppUrl {
+    action: string;
+    /** Query parameters other than the callbacks, decoded */
+    params: Record<string, string>;
+    callbacks: XCallbacks;
+}
+
+const X_CALLBACK_PREFIX = 'x-callback-url/';
+
+// Form encoding (Tasker) writes spaces as `+`; a literal plus arrives as %2B
+const decodeParam = (value: string): string => {
+    try {
+        return decodeURIComponent(value.replace(/\+/g, ' '));
+    } catch {
+        return value;
+    }
+};
+
+/** Split a purenotes:// link into action, parameters and callbacks; null for other links */
+export const parseAppUrl = (url: string): AppUrl | null => {
+    if (!url.toLowerCase().startsWith(APP_SCHEME)) return null;
+    let rest = url.substring(APP_SCHEME.length);
+    if (rest.toLowerCase().startsWith(X_CALLBACK_PREFIX)) rest = rest.substring(X_CALLBACK_PREFIX.length);
+
+    const queryStart = rest.indexOf('?');
+    const action = (queryStart === -1 ? rest : rest.substring(0, queryStart)).replace(/\/+$/, '').toLowerCase();
+    const query = queryStart === -1 ? '' : rest.substring(queryStart + 1).split('#')[0];
+
+    const params: Record<string, string> = {};
+    const callbacks: XCallbacks = {};
+    query.split('&').filter(Boolean).forEach((pair) => {
+        const eq = pair.indexOf('=');
+        const key = decodeParam(eq === -1 ? pair : pair.substring(0, eq));
+        const value = eq === -1 ? '' : decodeParam(pair.substring(eq + 1));
+        if (key === 'x-success') callbacks.success = value;
+        else if (key === 'x-error') callbacks.error = value;
+        else if (key === 'x-cancel') callbacks.cancel = value;
+        else if (key) params[key] = value;
+    });
+
+    return { action, params, callbacks };
+};
+
+export const isUrlAction = (action: string): action is UrlAction =>
+    (URL_ACTIONS as readonly string[]).includes(action);
+
+/** `true`, `1`, `yes` and a bare `pinned` are true; anything else false */
+export const parseBooleanParam = (value: string | undefined): boolean =>
+    value !== undefined && ['', 'true', '1', 'yes'].includes(value.trim().toLowerCase());
+
+/** Add query parameters to a callback URL that may already have some */
+export const withQueryParams = (url: string, params: Record<string, string>): string => {
+    const query = Object.entries(params)
+        .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`)
+        .join('&');
+    if (!query) return url;
+    const hashStart = url.indexOf('#');
+    const base = hashStart === -1 ? url : url.substring(0, hashStart);
+    const hash = hashStart === -1 ? '' : url.substring(hashStart);
+    const separator = base.includes('?') ? (base.endsWith('?') || base.endsWith('&') ? '' : '&') : '?';
+    return `${base}${separator}${query}${hash}`;
+};
+
+/**
+ * Content of a note created through the API: the title as `# Heading`
+ * above the content, unless the content already has a top-level heading
+ */
+export const buildNoteContent = (title: string, content: string): string => {
+    const body = content.replace(/\s+$/, '');
+    if (!title) return body;
+    if (/^#\s/m.test(body)) return body;
+    return body ? `# ${title}\n\n${body}` : `# ${title}\n`;
+};
+
+/** Append text on a new line at the end of a note, like Obsidian's URI `append` */
+export const appendToContent = (content: string, text: string): string => {
+    const trimmed = content.replace(/\s+$/, '');
+    const addition = text.replace(/\s+$/, '');
+    return trimmed ? `${trimmed}\n${addition}\n` : `${addition}\n`;
+};
@@ -0,0 +1,38 @@
+// webdavCredentials.ts - WebDAV login kept in the platform's secure storage
+// (Keychain on iOS, Keystore-backed on Android), never in the persisted
+// settings. One vault is connected at a time, so there is a single entry,
+// tagged with the server URL it belongs to.
+
+import * as SecureStore from 'expo-secure-store';
+
+const KEY = 'webdav_credentials';
+
+export interface WebDavCredentials {
+    username: string;
+    password: string;
+}
+
+interface StoredCredentials extends WebDavCredentials {
+    url: string;
+}
+
+export const saveWebDavCredentials = async (url: string, credentials: WebDavCredentials): Promise<void> => {
+    const stored: StoredCredentials = { url, ...credentials };
+    await SecureStore.setItemAsync(KEY, JSON.stringify(stored));
+};
+
+/** The login saved for `url`, or null when there is none */
+export const loadWebDavCredentials = async (url: string): Promise<WebDavCredentials | null> => {
+    const raw = await SecureStore.getItemAsync(KEY);
+    if (!raw) return null;
+    try {
+        const stored: StoredCredentials = JSON.parse(raw);
+        return stored.url === url ? { username: stored.username, password: stored.password } : null;
+    } catch {
+        return null;
+    }
+};
+
+export const clearWebDavCredentials = async (): Promise<void> => {
+    await SecureStore.deleteItemAsync(KEY);
+};
@@ -0,0 +1,142 @@
+// webdavUtils.ts - WebDAV requests and responses for WebDavProvider
+// The vault is a collection on the server, e.g.
+// `https://cloud.example.com/remote.php/dav/files/alice/Notes/`. Vault-relative
+// paths are appended segment by segment, percent-encoded. PROPFIND answers
+// with a 207 multistatus document; it is parsed here without a DOM, which
+// React Native doesn't have.
+
+/** Properties asked for in every PROPFIND */
+export const PROPFIND_BODY = `<?xml version="1.0" encoding="utf-8"?>
+<d:propfind xmlns:d="DAV:">
+  <d:prop>
+    <d:resourcetype/>
+    <d:getlastmodified/>
+    <d:creationdate/>
+    <d:getetag/>
+  </d:prop>
+</d:propfind>`;
+
+export interface DavEntry {
+    /** Decoded path part of the entry's URL, e.g. `/dav/Notes/Idea.md` */
+    href: string;
+    isCollection: boolean;
+    /** In milliseconds, where the server reports it */
+    lastModified?: number;
+    creationDate?: number;
+    /** Changes whenever the resource does; for collections, on most servers, whenever anything inside does */
+    etag?: string;
+}
+
+// Tags come with whatever prefix the server bound DAV: to (`d:`, `D:`, none)
+const tagPattern = (name: string): RegExp =>
+    new RegExp(`<(?:[\\w-]+:)?${name}\\b[^>]*?(?:/>|>([\\s\\S]*?)</(?:[\\w-]+:)?${name}>)`, 'i');
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+const decodeXml = (value: string): string =>
+    value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+        if (entity[0] === '#') {
+            const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+            return Number.isNaN(code) ? match : String.fromCodePoint(code);
+        }
+        return XML_ENTITIES[entity.toLowerCase()] ?? match;
+    });
+
+const getTagText = (xml: string, name: string): string | undefined => {
+    const match = xml.match(tagPattern(name));
+    const text = match?.[1]?.trim();
+    return text ? decodeXml(text) : undefined;
+};
+
+const parseDate = (value: string | undefined): number | undefined => {
+    if (!value) return undefined;
+    const time = Date.parse(value);
+    return Number.isNaN(time) ? undefined : time;
+};
+
+/** The path of a URL (absolute or already a path), decoded, without a trailing slash */
+export const getUrlPath = (url: string): string => {
+    const path = url.replace(/^[a-z][a-z\d+.-]*:\/\/[^/]*/i, '').split(/[?#]/)[0];
+    let decoded = path;
+    try {
+        decoded = decodeURIComponent(path);
+    } catch {
+        // Leave a malformed escape as the server sent it
+    }
+    return decoded.replace(/\/+$/, '') || '/';
+};
+
+/** Entries of a PROPFIND multistatus response. Properties the server doesn't have are left out. */
+export const parseMultiStatus = (xml: string): DavEntry[] => {
+    const entries: DavEntry[] = [];
+    const responsePattern = /<(?:[\w-]+:)?response\b[^>]*>([\s\S]*?)<\/(?:[\w-]+:)?response>/gi;
+    let match: RegExpExecArray | null;
+    while ((match = responsePattern.exec(xml)) !== null) {
+        const block = match[1];
+        const href = getTagText(block, 'href');
+        if (!href) continue;
+
+        // A property the server lacks is listed again under a 404 propstat, empty
+        const found = block
+            .split(/<\/(?:[\w-]+:)?propstat>/i)
+            .filter((propstat) => !/<(?:[\w-]+:)?status\b[^>]*>[^<]*\s(?!2\d\d)\d{3}\b/i.test(propstat))
+            .join('');
+
+        entries.push({
+            href: getUrlPath(href),
+            isCollection: /<(?:[\w-]+:)?collection\b/i.test(found),
+            lastModified: parseDate(getTagText(found, 'getlastmodified')),
+            creationDate: parseDate(getTagText(found, 'creationdate')),
+            etag: getTagText(found, 'getetag'),
+        });
+    }
+    return entries;
+};
+
+/** `Projects/My idea.md` → `Projects/My%20idea.md` */
+export const encodePath = (path: string): string =>
+    path.split('/').filter(Boolean).map(encodeURIComponent).join('/');
+
+/** The collection URL the user typed, with exactly one trailing slash */
+export const normalizeBaseUrl = (url: string): string => `${url.trim().replace(/\/+$/, '')}/`;
+
+/** Name to show for a vault at `baseUrl`: its last path segment, or the host */
+export const getVaultNameFromUrl = (baseUrl: string): string => {
+    const path = getUrlPath(baseUrl);
+    const name = path.split('/').filter(Boolean).pop();
+    return name || baseUrl.replace(/^[a-z][a-z\d+.-]*:\/\//i, '').split('/')[0];
+};
+
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/** Base64 of raw bytes; btoa only takes Latin-1 strings */
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+    let output = '';
+    for (let i = 0; i < bytes.length; i += 3) {
+        const chunk = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+        output += BASE64_CHARS[(chunk >> 18) & 63] + BASE64_CHARS[(chunk >> 12) & 63];
+        output += i + 1 < bytes.length ? BASE64_CHARS[(chunk >> 6) & 63] : '=';
+        output += i + 2 < bytes.length ? BASE64_CHARS[chunk & 63] : '=';
+    }
+    return output;
+};
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+    const clean = base64.replace(/[^A-Za-z0-9+/]/g, '');
+    const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+    let byteIndex = 0;
+    for (let i = 0; i < clean.length; i += 4) {
+        const chunk = (BASE64_CHARS.indexOf(clean[i]) << 18)
+            | (BASE64_CHARS.indexOf(clean[i + 1]) << 12)
+            | ((i + 2 < clean.length ? BASE64_CHARS.indexOf(clean[i + 2]) : 0) << 6)
+            | (i + 3 < clean.length ? BASE64_CHARS.indexOf(clean[i + 3]) : 0);
+        bytes[byteIndex++] = (chunk >> 16) & 255;
+        if (i + 2 < clean.length) bytes[byteIndex++] = (chunk >> 8) & 255;
+        if (i + 3 < clean.length) bytes[byteIndex++] = chunk & 255;
+    }
+    return bytes;
+};
+
+/** Authorization header for HTTP Basic auth, with the login UTF-8 encoded */
+export const getBasicAuthHeader = (username: string, password: string): string =>
+    `Basic ${bytesToBase64(new TextEncoder().encode(`${username}:${password}`))}`;
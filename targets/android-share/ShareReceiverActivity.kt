@@ -0,0 +1,97 @@
+package com.yybd.purenotes
+
+import android.app.Activity
+import android.content.Intent
+import android.net.Uri
+import android.os.Bundle
+import android.provider.OpenableColumns
+import android.util.Log
+import android.webkit.MimeTypeMap
+import org.json.JSONArray
+import org.json.JSONObject
+import java.io.File
+import java.util.UUID
+
+/**
+ * Receives SEND / SEND_MULTIPLE intents from other apps. The shared text and
+ * images are copied to cache/shared/<id>/ (payload.json plus the image
+ * files) and the app is opened with purenotes://share?id=<id>, where the
+ * user picks where the content goes.
+ */
+class ShareReceiverActivity : Activity() {
+    override fun onCreate(savedInstanceState: Bundle?) {
+        super.onCreate(savedInstanceState)
+
+        val id = try {
+            saveShare(intent)
+        } catch (e: Exception) {
+            Log.e("ShareReceiver", "Failed to read shared content", e)
+            null
+        }
+
+        if (id != null) {
+            val open = Intent(Intent.ACTION_VIEW, Uri.parse("purenotes://share?id=$id"), this, MainActivity::class.java)
+            open.addFlags(Intent.FLAG_ACTIVITY_NEW_TASK)
+            startActivity(open)
+        }
+        finish()
+    }
+
+    private fun saveShare(intent: Intent): String? {
+        val text = intent.getStringExtra(Intent.EXTRA_TEXT) ?: ""
+        val subject = intent.getStringExtra(Intent.EXTRA_SUBJECT)
+        val streams = getStreams(intent)
+        if (text.isEmpty() && streams.isEmpty()) return null
+
+        val id = UUID.randomUUID().toString()
+        val dir = File(cacheDir, "shared/$id")
+        dir.mkdirs()
+
+        val images = JSONArray()
+        streams.forEachIndexed { index, uri ->
+            val mimeType = contentResolver.getType(uri) ?: return@forEachIndexed
+            if (!mimeType.startsWith("image/")) return@forEachIndexed
+            val extension = MimeTypeMap.getSingleton().getExtensionFromMimeType(mimeType) ?: "jpg"
+            val fileName = getDisplayName(uri) ?: "image-${index + 1}.$extension"
+            // Two shared images may carry the same name, or one may be called payload.json
+            val file = "${index + 1}-$fileName"
+            contentResolver.openInputStream(uri)?.use { input ->
+                File(dir, file).outputStream().use { output -> input.copyTo(output) }
+            } ?: return@forEachIndexed
+            images.put(JSONObject().put("file", file).put("fileName", fileName).put("mimeType", mimeType))
+        }
+
+        if (text.isEmpty() && images.length() == 0) {
+            dir.deleteRecursively()
+            return null
+        }
+
+        // Links arrive inside EXTRA_TEXT; the app picks them out
+        val payload = JSONObject()
+            .put("text", text)
+            .put("urls", JSONArray())
+            .put("images", images)
+        if (!subject.isNullOrEmpty() && !text.contains(subject)) payload.put("title", subject)
+
+        File(dir, "payload.json").writeText(payload.toString())
+        return id
+    }
+
+    @Suppress("DEPRECATION")
+    private fun getStreams(intent: Intent): List<Uri> = when (intent.action) {
+        Intent.ACTION_SEND -> listOfNotNull(intent.getParcelableExtra<Uri>(Intent.EXTRA_STREAM))
+        Intent.ACTION_SEND_MULTIPLE -> intent.getParcelableArrayListExtra<Uri>(Intent.EXTRA_STREAM) ?: emptyList()
+        else -> emptyList()
+    }
+
+    private fun getDisplayName(uri: Uri): String? {
+        contentResolver.query(uri, arrayOf(OpenableColumns.DISPLAY_NAME), null, null, null)?.use { cursor ->
+            if (cursor.moveToFirst()) {
+                val name = cursor.getString(0)
+                // Keep it inside the share folder
+                if (!name.isNullOrEmpty()) return name.substringAfterLast('/')
+            }
+        }
+        return null
+    }
+}
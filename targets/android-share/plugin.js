@@ -0,0 +1,76 @@
+const { withAndroidManifest, withDangerousMod } = require('@expo/config-plugins');
+const fs = require('fs');
+const path = require('path');
+
+const ACTIVITY_NAME = 'com.yybd.purenotes.ShareReceiverActivity';
+
+/**
+ * Expo Config Plugin to receive content shared from other apps
+ * (SEND / SEND_MULTIPLE intents).
+ */
+const withAndroidShare = (config) => {
+  // 1. Add the receiving activity to AndroidManifest.xml
+  config = withAndroidManifest(config, (config) => {
+    const mainApplication = config.modResults.manifest.application[0];
+
+    if (!mainApplication.activity) {
+      mainApplication.activity = [];
+    }
+
+    const hasActivity = mainApplication.activity.some(
+      (a) => a.$['android:name'] === ACTIVITY_NAME
+    );
+
+    if (!hasActivity) {
+      mainApplication.activity.push({
+        $: {
+          'android:name': ACTIVITY_NAME,
+          'android:exported': 'true',
+          'android:label': 'PureNotes',
+          'android:theme': '@android:style/Theme.Translucent.NoTitleBar',
+          'android:excludeFromRecents': 'true',
+          'android:noHistory': 'true',
+        },
+        'intent-filter': [
+          {
+            action: [{ $: { 'android:name': 'android.intent.action.SEND' } }],
+            category: [{ $: { 'android:name': 'android.intent.category.DEFAULT' } }],
+            data: [
+              { $: { 'android:mimeType': 'text/plain' } },
+              { $: { 'android:mimeType': 'image/*' } },
+            ],
+          },
+          {
+            action: [{ $: { 'android:name': 'android.intent.action.SEND_MULTIPLE' } }],
+            category: [{ $: { 'android:name': 'android.intent.category.DEFAULT' } }],
+            data: [{ $: { 'android:mimeType': 'image/*' } }],
+          },
+        ],
+      });
+    }
+
+    return config;
+  });
+
+  // 2. Copy the activity to the native project
+  config = withDangerousMod(config, [
+    'android',
+    async (config) => {
+      const projectRoot = config.modRequest.projectRoot;
+      const javaRoot = path.join(projectRoot, 'android/app/src/main/java/com/yybd/purenotes');
+
+      fs.mkdirSync(javaRoot, { recursive: true });
+
+      fs.copyFileSync(
+        path.join(projectRoot, 'targets/android-share/ShareReceiverActivity.kt'),
+        path.join(javaRoot, 'ShareReceiverActivity.kt')
+      );
+
+      return config;
+    },
+  ]);
+
+  return config;
+};
+
+module.exports = withAndroidShare;
@@ -0,0 +1,211 @@
+package com.yybd.purenotes
+
+import android.database.ContentObserver
+import android.database.Cursor
+import android.net.Uri
+import android.os.Handler
+import android.os.HandlerThread
+import android.provider.DocumentsContract
+import android.util.Log
+import com.facebook.react.bridge.Arguments
+import com.facebook.react.bridge.Promise
+import com.facebook.react.bridge.ReactApplicationContext
+import com.facebook.react.bridge.ReactContextBaseJavaModule
+import com.facebook.react.bridge.ReactMethod
+import com.facebook.react.modules.core.DeviceEventManagerModule
+
+/**
+ * Watches a Storage Access Framework folder tree for changes made by other
+ * apps (Syncthing, Obsidian, a file manager). Document providers only report
+ * changes to a folder while a query of its children is open, so one cursor
+ * per folder is kept open and observed. SAF tells which folder changed, not
+ * which file: the folder's children are queried again and compared with the
+ * previous query, and the vault-relative paths of the files that differ are
+ * reported. An added, removed or renamed subfolder is reported by its own
+ * path, which makes the app list the whole vault.
+ */
+class VaultWatcherModule(private val reactContext: ReactApplicationContext) :
+    ReactContextBaseJavaModule(reactContext) {
+
+    companion object {
+        private const val TAG = "VaultWatcher"
+        private const val CHANGE_EVENT = "VaultWatcherChange"
+        // Changes arrive in bursts (a sync client writing many files)
+        private const val DEBOUNCE_MS = 500L
+        private val COLUMNS = arrayOf(
+            DocumentsContract.Document.COLUMN_DOCUMENT_ID,
+            DocumentsContract.Document.COLUMN_DISPLAY_NAME,
+            DocumentsContract.Document.COLUMN_MIME_TYPE,
+            DocumentsContract.Document.COLUMN_LAST_MODIFIED,
+            DocumentsContract.Document.COLUMN_SIZE,
+        )
+    }
+
+    /** A child of an observed folder, as last queried. Folders compare by name only. */
+    private data class Entry(val name: String, val isFolder: Boolean, val lastModified: Long, val size: Long)
+
+    /** An observed folder: its open children query and what that query returned */
+    private inner class Folder(val documentId: String, val path: String) : ContentObserver(handler) {
+        var cursor: Cursor? = null
+        var entries: Map<String, Entry> = emptyMap()
+
+        override fun onChange(selfChange: Boolean) {
+            changedFolders.add(documentId)
+            handler.removeCallbacks(flush)
+            handler.postDelayed(flush, DEBOUNCE_MS)
+        }
+
+        fun close() {
+            reactContext.contentResolver.unregisterContentObserver(this)
+            cursor?.close()
+            cursor = null
+        }
+    }
+
+    private val thread = HandlerThread("VaultWatcher").apply { start() }
+    private val handler = Handler(thread.looper)
+    // By document id; only touched on the handler thread
+    private val folders = mutableMapOf<String, Folder>()
+    private val changedFolders = mutableSetOf<String>()
+    private var treeUri: Uri? = null
+
+    private val flush = Runnable {
+        val tree = treeUri ?: return@Runnable
+        val changed = changedFolders.toList()
+        changedFolders.clear()
+
+        val paths = mutableListOf<String>()
+        var foldersChanged = false
+        changed.forEach { documentId ->
+            val folder = folders[documentId] ?: return@forEach
+            val before = folder.entries
+            if (!queryFolder(tree, folder)) return@forEach
+            for ((id, entry) in folder.entries) {
+                val old = before[id]
+                if (old == entry) continue
+                paths.add(joinPath(folder.path, entry.name))
+                if (old != null && old.name != entry.name) paths.add(joinPath(folder.path, old.name))
+                if (entry.isFolder) foldersChanged = true
+            }
+            for ((id, entry) in before) {
+                if (folder.entries.containsKey(id)) continue
+                paths.add(joinPath(folder.path, entry.name))
+                if (entry.isFolder) foldersChanged = true
+            }
+        }
+        // Folders were added, removed or renamed; observe the tree as it is now
+        if (foldersChanged) observeTree(tree)
+        if (paths.isEmpty()) return@Runnable
+
+        reactContext
+            .getJSModule(DeviceEventManagerModule.RCTDeviceEventEmitter::class.java)
+            .emit(CHANGE_EVENT, Arguments.createMap().apply {
+                putArray("paths", Arguments.createArray().apply { paths.distinct().forEach { pushString(it) } })
+            })
+    }
+
+    override fun getName() = "VaultWatcher"
+
+    @ReactMethod
+    fun start(treeUriString: String, promise: Promise) {
+        handler.post {
+            try {
+                val uri = Uri.parse(treeUriString)
+                treeUri = uri
+                observeTree(uri)
+                promise.resolve(null)
+            } catch (e: Exception) {
+                release()
+                promise.reject("WATCH_ERROR", e.message, e)
+            }
+        }
+    }
+
+    @ReactMethod
+    fun stop(promise: Promise) {
+        handler.post {
+            release()
+            promise.resolve(null)
+        }
+    }
+
+    // Required by NativeEventEmitter
+    @ReactMethod
+    fun addListener(eventName: String) {}
+
+    @ReactMethod
+    fun removeListeners(count: Double) {}
+
+    override fun invalidate() {
+        handler.post {
+            release()
+            thread.quitSafely()
+        }
+        super.invalidate()
+    }
+
+    private fun release() {
+        handler.removeCallbacks(flush)
+        treeUri = null
+        closeFolders()
+    }
+
+    private fun closeFolders() {
+        folders.values.forEach { it.close() }
+        folders.clear()
+        changedFolders.clear()
+    }
+
+    private fun observeTree(tree: Uri) {
+        closeFolders()
+        observeFolder(tree, DocumentsContract.getTreeDocumentId(tree), "")
+    }
+
+    private fun observeFolder(tree: Uri, documentId: String, path: String) {
+        val folder = Folder(documentId, path)
+        if (!queryFolder(tree, folder)) return
+        folders[documentId] = folder
+        reactContext.contentResolver.registerContentObserver(
+            DocumentsContract.buildChildDocumentsUriUsingTree(tree, documentId),
+            false,
+            folder
+        )
+        folder.entries
+            .filter { (_, entry) -> entry.isFolder }
+            .forEach { (id, entry) -> observeFolder(tree, id, joinPath(path, entry.name)) }
+    }
+
+    /** Query a folder's children again, replacing its cursor and entries. False when it can't be read. */
+    private fun queryFolder(tree: Uri, folder: Folder): Boolean {
+        val childrenUri = DocumentsContract.buildChildDocumentsUriUsingTree(tree, folder.documentId)
+        val cursor = try {
+            reactContext.contentResolver.query(childrenUri, COLUMNS, null, null, null)
+        } catch (e: Exception) {
+            Log.w(TAG, "Failed to query $childrenUri", e)
+            null
+        } ?: return false
+
+        val entries = mutableMapOf<String, Entry>()
+        while (cursor.moveToNext()) {
+            val id = cursor.getString(0) ?: continue
+            val name = cursor.getString(1) ?: continue
+            // Hidden files and folders (.obsidian, .trash, .purenotes) are not notes
+            if (name.startsWith(".")) continue
+            val isFolder = cursor.getString(2) == DocumentsContract.Document.MIME_TYPE_DIR
+            entries[id] = if (isFolder) {
+                // A folder's time moves with its contents, which its own cursor reports
+                Entry(name, true, 0L, 0L)
+            } else {
+                Entry(name, false, cursor.getLong(3), cursor.getLong(4))
+            }
+        }
+
+        // Kept open: the provider stops watching the folder once it is closed
+        folder.cursor?.close()
+        folder.cursor = cursor
+        folder.entries = entries
+        return true
+    }
+
+    private fun joinPath(dir: String, name: String) = if (dir.isEmpty()) name else "$dir/$name"
+}
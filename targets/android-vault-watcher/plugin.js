@@ -0,0 +1,51 @@
+const { withMainApplication, withDangerousMod } = require('@expo/config-plugins');
+const fs = require('fs');
+const path = require('path');
+
+const PACKAGE_LINE = 'add(VaultWatcherPackage())';
+const FILES = ['VaultWatcherModule.kt', 'VaultWatcherPackage.kt'];
+
+/**
+ * Expo Config Plugin adding the VaultWatcher native module, which reports
+ * changes to the SAF vault folder made by other apps.
+ */
+const withAndroidVaultWatcher = (config) => {
+  // 1. Register the package in MainApplication
+  config = withMainApplication(config, (config) => {
+    const { contents } = config.modResults;
+
+    if (!contents.includes(PACKAGE_LINE)) {
+      const anchor = 'PackageList(this).packages.apply {';
+      if (!contents.includes(anchor)) {
+        throw new Error('android-vault-watcher: could not find the package list in MainApplication');
+      }
+      config.modResults.contents = contents.replace(anchor, `${anchor}\n              ${PACKAGE_LINE}`);
+    }
+
+    return config;
+  });
+
+  // 2. Copy the module to the native project
+  config = withDangerousMod(config, [
+    'android',
+    async (config) => {
+      const projectRoot = config.modRequest.projectRoot;
+      const javaRoot = path.join(projectRoot, 'android/app/src/main/java/com/yybd/purenotes');
+
+      fs.mkdirSync(javaRoot, { recursive: true });
+
+      for (const file of FILES) {
+        fs.copyFileSync(
+          path.join(projectRoot, 'targets/android-vault-watcher', file),
+          path.join(javaRoot, file)
+        );
+      }
+
+      return config;
+    },
+  ]);
+
+  return config;
+};
+
+module.exports = withAndroidVaultWatcher;
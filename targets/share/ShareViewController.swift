@@ -0,0 +1,130 @@
+import UIKit
+import UniformTypeIdentifiers
+
+// Share extension: copies the shared text, links and images into the App
+// Group container (shared/<id>/payload.json plus the image files) and opens
+// purenotes://share?id=<id>, where the app lets the user pick where it goes.
+class ShareViewController: UIViewController {
+    private let appGroup = "group.com.yybd.purenotes"
+
+    override func viewDidAppear(_ animated: Bool) {
+        super.viewDidAppear(animated)
+        Task {
+            if let id = await saveShare() {
+                openHostApp(URL(string: "purenotes://share?id=\(id)")!)
+            }
+            extensionContext?.completeRequest(returningItems: nil, completionHandler: nil)
+        }
+    }
+
+    private func saveShare() async -> String? {
+        guard let container = FileManager.default.containerURL(forSecurityApplicationGroupIdentifier: appGroup) else {
+            return nil
+        }
+        let id = UUID().uuidString
+        let dir = container.appendingPathComponent("shared/\(id)", isDirectory: true)
+        do {
+            try FileManager.default.createDirectory(at: dir, withIntermediateDirectories: true)
+        } catch {
+            return nil
+        }
+
+        var title: String? = nil
+        var texts: [String] = []
+        var urls: [String] = []
+        var images: [[String: String]] = []
+
+        let items = extensionContext?.inputItems as? [NSExtensionItem] ?? []
+        for item in items {
+            if title == nil, let content = item.attributedContentText?.string, !content.isEmpty {
+                title = content
+            }
+            for provider in item.attachments ?? [] {
+                if provider.hasItemConformingToTypeIdentifier(UTType.image.identifier) {
+                    if let image = await saveImage(provider, to: dir, index: images.count + 1) {
+                        images.append(image)
+                    }
+                } else if provider.hasItemConformingToTypeIdentifier(UTType.url.identifier) {
+                    let item = try? await provider.loadItem(forTypeIdentifier: UTType.url.identifier)
+                    if let url = item as? URL, !url.isFileURL {
+                        urls.append(url.absoluteString)
+                    }
+                } else if provider.hasItemConformingToTypeIdentifier(UTType.plainText.identifier) {
+                    let item = try? await provider.loadItem(forTypeIdentifier: UTType.plainText.identifier)
+                    if let text = item as? String, !text.isEmpty {
+                        texts.append(text)
+                    }
+                }
+            }
+        }
+
+        if texts.isEmpty && urls.isEmpty && images.isEmpty {
+            try? FileManager.default.removeItem(at: dir)
+            return nil
+        }
+
+        // Safari passes the page title as the item text alongside the URL
+        var payload: [String: Any] = [
+            "text": texts.joined(separator: "\n"),
+            "urls": urls,
+            "images": images
+        ]
+        if let title = title, !texts.contains(title) {
+            payload["title"] = title
+        }
+
+        do {
+            let data = try JSONSerialization.data(withJSONObject: payload)
+            try data.write(to: dir.appendingPathComponent("payload.json"))
+        } catch {
+            try? FileManager.default.removeItem(at: dir)
+            return nil
+        }
+        return id
+    }
+
+    // Photos hands over a file URL, screenshots a UIImage, some apps raw data
+    private func saveImage(_ provider: NSItemProvider, to dir: URL, index: Int) async -> [String: String]? {
+        guard let item = try? await provider.loadItem(forTypeIdentifier: UTType.image.identifier) else {
+            return nil
+        }
+
+        var data: Data? = nil
+        var fileName = "image-\(index).jpg"
+        var mimeType = "image/jpeg"
+
+        if let url = item as? URL {
+            data = try? Data(contentsOf: url)
+            fileName = url.lastPathComponent
+            if let type = UTType(filenameExtension: url.pathExtension), let mime = type.preferredMIMEType {
+                mimeType = mime
+            }
+        } else if let image = item as? UIImage {
+            data = image.jpegData(compressionQuality: 0.8)
+        } else if let raw = item as? Data {
+            data = raw
+        }
+
+        guard let data = data else { return nil }
+        // Two shared images may carry the same name, or one may be called payload.json
+        let file = "\(index)-\(fileName)"
+        do {
+            try data.write(to: dir.appendingPathComponent(file))
+        } catch {
+            return nil
+        }
+        return ["file": file, "fileName": fileName, "mimeType": mimeType]
+    }
+
+    // Extensions cannot call UIApplication.shared; reach it through the responder chain
+    private func openHostApp(_ url: URL) {
+        var responder: UIResponder? = self
+        while let current = responder {
+            if let application = current as? UIApplication {
+                application.open(url, options: [:], completionHandler: nil)
+                return
+            }
+            responder = current.next
+        }
+    }
+}
@@ -0,0 +1,12 @@
+/** @type {import('@bacons/apple-targets/app.plugin').ConfigFunction} */
+module.exports = config => ({
+  type: 'share',
+  name: 'PureNotesShare',
+  bundleIdentifier: 'com.yybd.purenotes.share',
+  entitlements: {
+    'com.apple.security.application-groups': [
+      `group.${config.ios?.bundleIdentifier || 'com.yybd.purenotes'}`
+    ]
+  },
+  deploymentTarget: '17.0'
+});